@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { handleCaptureSave } from './logic';
+
+// 主进程逻辑只用到app/dialog，测试中不加载Electron
+vi.mock('electron', () => ({ app: {}, dialog: {}, BrowserWindow: class {} }));
+
+describe('handleCaptureSave', () => {
+  let root: string;
+  const data = new Uint8Array([1, 2, 3]).buffer;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'capture-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('写入保存目录并返回完整路径，目录不存在时自动创建', async () => {
+    const folder = path.join(root, 'shots');
+    const save = handleCaptureSave(async () => folder);
+    const result = await save('frame.png', data);
+    expect(result).toEqual({ path: path.join(folder, 'frame.png') });
+    expect([...await readFile(result.path!)]).toEqual([1, 2, 3]);
+  });
+
+  it('只保留文件名，路径穿越写入保存目录内', async () => {
+    const folder = path.join(root, 'shots');
+    const save = handleCaptureSave(async () => folder);
+    expect(await save('../../escape.png', data)).toEqual({ path: path.join(folder, 'escape.png') });
+    expect(await save(path.join(root, 'nested', 'abs.webm'), data)).toEqual({ path: path.join(folder, 'abs.webm') });
+    expect((await readdir(root)).sort()).toEqual(['shots']);
+    expect((await readdir(folder)).sort()).toEqual(['abs.webm', 'escape.png']);
+  });
+
+  it('拒绝白名单之外的扩展名，不弹出目录选择', async () => {
+    const getFolder = vi.fn(async () => root);
+    const save = handleCaptureSave(getFolder);
+    expect(await save('notes.txt', data)).toEqual({ error: '不支持的文件类型：notes.txt' });
+    expect(await save('../run.sh', data)).toEqual({ error: '不支持的文件类型：run.sh' });
+    expect(await save('frame', data)).toEqual({ error: '不支持的文件类型：frame' });
+    expect(getFolder).not.toHaveBeenCalled();
+    // 扩展名不区分大小写
+    expect(await save('FRAME.JPG', data)).toEqual({ path: path.join(root, 'FRAME.JPG') });
+  });
+
+  it('取消目录选择时不写入文件', async () => {
+    const save = handleCaptureSave(async () => null);
+    expect(await save('frame.png', data)).toEqual({ canceled: true });
+    expect(await readdir(root)).toEqual([]);
+  });
+
+  it('写入失败时返回错误信息', async () => {
+    const blocker = path.join(root, 'file');
+    await writeFile(blocker, '');
+    const save = handleCaptureSave(async () => blocker);
+    const result = await save('frame.png', data);
+    expect(result.error).toEqual(expect.any(String));
+    expect(result.path).toBeUndefined();
+  });
+});
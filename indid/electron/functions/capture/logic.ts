@@ -0,0 +1,51 @@
+import { app, dialog, BrowserWindow } from "electron";
+import type { OpenDialogOptions } from "electron";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// 允许保存的捕获文件类型（截图/录像）
+const CAPTURE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.webm'];
+
+// 保存结果（返回给渲染进程）
+type CaptureSaveResult = { path?: string; canceled?: boolean; error?: string };
+
+// 弹出目录选择框，返回用户选择的保存目录（取消时返回null）
+const handleCaptureChooseFolder = (win: BrowserWindow | null) =>{
+    return async function(defaultPath: string | null): Promise<string | null> {
+        const options: OpenDialogOptions = {
+            title: '选择截图/录像保存目录',
+            defaultPath: defaultPath ?? app.getPath('pictures'),
+            properties: ['openDirectory', 'createDirectory'],
+        };
+        const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+        return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+    }
+}
+
+// 将渲染进程传来的截图/录像数据写入保存目录（未选择目录时先弹出选择框）
+const handleCaptureSave = (getFolder: () => Promise<string | null>) =>{
+    return async function(fileName: string, data: ArrayBuffer): Promise<CaptureSaveResult> {
+        try {
+            // 仅保留文件名，防止通过路径写入保存目录之外
+            const safeName = path.basename(fileName);
+            if (!CAPTURE_EXTENSIONS.includes(path.extname(safeName).toLowerCase())) {
+                throw new Error(`不支持的文件类型：${safeName}`);
+            }
+            const folder = await getFolder();
+            if (!folder) {
+                return { canceled: true };
+            }
+            await mkdir(folder, { recursive: true });
+            const filePath = path.join(folder, safeName);
+            await writeFile(filePath, Buffer.from(data));
+            return { path: filePath };
+        } catch (err) {
+            // 捕获写入过程中的错误，反馈给前端
+            const errorMsg = err instanceof Error ? err.message : '文件保存失败';
+            return { error: errorMsg };
+        }
+    }
+}
+
+export {handleCaptureChooseFolder, handleCaptureSave};
+export type {CaptureSaveResult};
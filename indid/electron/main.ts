@@ -6,6 +6,7 @@ import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import { NetworkServer } from '../engine/expends/server/server'
 import { handleServerToggle, handleServerInfoReq} from './functions/server/logic'
+import { handleCaptureChooseFolder, handleCaptureSave } from './functions/capture/logic'
 
 // 在ES模块中模拟CommonJS的require功能（解决部分模块兼容问题）
 // @ts-expect-error：忽略TypeScript对类型的检查（因为createRequire在TS中类型定义特殊）
@@ -44,6 +45,28 @@ let serverInstance: NetworkServer | null = null;
 // 声明窗口实例变量（全局维护，避免被垃圾回收）
 let win: BrowserWindow | null
 
+// 截图/录像保存目录（用户选择后在本次运行中保持）
+let captureFolder: string | null = null;
+
+// 正在进行的目录选择（选择框打开期间的其他请求共用这一次选择，结束后清空）
+let captureFolderPromise: Promise<string | null> | null = null;
+
+/**
+ * 弹出截图/录像保存目录选择框（已打开时复用同一次选择，不会同时弹出多个）
+ * @returns 当前保存目录（取消选择时保持原目录）
+ */
+function chooseCaptureFolder(): Promise<string | null> {
+  captureFolderPromise ??= handleCaptureChooseFolder(win)(captureFolder)
+    .then(folder => {
+      captureFolder = folder ?? captureFolder;
+      return captureFolder;
+    })
+    .finally(() => {
+      captureFolderPromise = null;
+    });
+  return captureFolderPromise;
+}
+
 /**
  * 创建Electron应用窗口的函数
  */
@@ -98,5 +121,13 @@ app.whenReady().then(() => {
     serverInstance = handleServerToggle(serverInstance, win)(enable);
     // handleServerInfoReq(serverInstance, win)()
   });
+
+  // 前端请求选择截图/录像保存目录（返回当前目录，取消选择时保持原目录）
+  ipcMain.handle('capture:chooseFolder', () => chooseCaptureFolder());
+
+  // 前端请求保存截图/录像（首次保存时弹出目录选择框）
+  ipcMain.handle('capture:save', (_, fileName: string, data: ArrayBuffer) => {
+    return handleCaptureSave(async () => captureFolder ?? chooseCaptureFolder())(fileName, data);
+  });
   createWindow()
 })
\ No newline at end of file
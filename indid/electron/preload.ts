@@ -65,6 +65,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => {
       ipcRenderer.off('server:info', listener);
     };
-  }
+  },
+
+  // 选择截图/录像保存目录（返回当前目录，未选择时为null）
+  chooseCaptureFolder: (): Promise<string | null> => ipcRenderer.invoke('capture:chooseFolder'),
+
+  // 保存截图/录像到用户选择的目录（首次保存时弹出目录选择框）
+  saveCapture: (fileName: string, data: ArrayBuffer): Promise<{ path?: string; canceled?: boolean; error?: string }> =>
+    ipcRenderer.invoke('capture:save', fileName, data),
 
 })
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Animator } from './animation';
+import type { AnimationClip, AnimationTarget } from './animation';
+
+/** 创建n帧的片段（每帧0.25秒，第i帧的子区域x为i * 10） */
+function clip(name: string, count: number, options: { loop?: boolean; pingPong?: boolean } = {}): AnimationClip {
+  return {
+    name,
+    frames: Array.from({ length: count }, (_, i) => ({ image: `${name}.png`, frame: { x: i * 10, y: 0, w: 10, h: 10 }, duration: 0.25 })),
+    loop: options.loop ?? true,
+    pingPong: options.pingPong ?? false,
+  };
+}
+
+/** 逐次推进并记录每次推进后的帧序号 */
+function advance(animator: Animator, times: number, deltaTime: number = 0.25): number[] {
+  return Array.from({ length: times }, () => {
+    animator.update(deltaTime);
+    return animator.getFrameIndex();
+  });
+}
+
+describe('Animator', () => {
+  it('循环片段播放到末尾后回到第一帧，并把当前帧写入目标', () => {
+    const target: AnimationTarget = { markRenderDirty: vi.fn() };
+    const animator = new Animator(target, [clip('walk', 3)]);
+    animator.play('walk');
+    expect(target).toMatchObject({ imageSrc: 'walk.png', frame: { x: 0 } });
+
+    expect(advance(animator, 4)).toEqual([1, 2, 0, 1]);
+    expect(target.frame).toMatchObject({ x: 10 });
+    expect(target.markRenderDirty).toHaveBeenCalledTimes(5);
+    // 未到帧时长时不切换
+    animator.update(0.1);
+    expect(animator.getFrameIndex()).toBe(1);
+    expect(target.markRenderDirty).toHaveBeenCalledTimes(5);
+  });
+
+  it('往返播放时首尾帧不重复', () => {
+    const animator = new Animator({}, [clip('bounce', 4, { pingPong: true })]);
+    animator.play('bounce');
+    expect(advance(animator, 8)).toEqual([1, 2, 3, 2, 1, 0, 1, 2]);
+  });
+
+  it('非循环片段播放完成后停在最后一帧并触发onComplete', () => {
+    const animator = new Animator({}, [clip('die', 3, { loop: false })]);
+    const onComplete = vi.fn();
+    animator.onComplete = onComplete;
+    animator.play('die');
+    expect(advance(animator, 3)).toEqual([1, 2, 2]);
+    expect(animator.isPlaying()).toBe(false);
+    expect(onComplete).toHaveBeenCalledWith('die');
+
+    advance(animator, 2);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('单步时间较长时跨越多帧，溢出时间带入下一帧', () => {
+    const animator = new Animator({}, [clip('walk', 4), clip('once', 4, { loop: false })]);
+    animator.play('walk');
+    animator.update(0.6);
+    expect(animator.getFrameIndex()).toBe(2);
+    animator.update(0.2);
+    expect(animator.getFrameIndex()).toBe(3);
+    // 跨越多轮循环
+    animator.update(2.25);
+    expect(animator.getFrameIndex()).toBe(0);
+
+    const onComplete = vi.fn();
+    animator.onComplete = onComplete;
+    animator.play('once');
+    animator.update(10);
+    expect(animator.getFrameIndex()).toBe(3);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('队列中的片段在当前片段本轮结束后依次播放', () => {
+    const target: AnimationTarget = {};
+    const animator = new Animator(target, [clip('idle', 2), clip('attack', 2, { loop: false }), clip('recover', 2, { loop: false })]);
+    const completed: string[] = [];
+    animator.onComplete = name => { completed.push(name); };
+
+    // 未播放时立即播放
+    animator.queueClip('idle');
+    expect(animator.getCurrentClip()).toBe('idle');
+    animator.queueClip('attack');
+    animator.queueClip('recover');
+
+    animator.update(0.25);
+    expect(animator.getCurrentClip()).toBe('idle');
+    // 本轮循环结束，溢出的0.1秒计入attack第一帧
+    animator.update(0.35);
+    expect(animator.getCurrentClip()).toBe('attack');
+    expect(target.imageSrc).toBe('attack.png');
+    animator.update(0.2);
+    expect(animator.getFrameIndex()).toBe(1);
+
+    animator.update(0.5);
+    expect(completed).toEqual(['idle', 'attack']);
+    expect(animator.getCurrentClip()).toBe('recover');
+
+    // play默认清空队列
+    animator.queueClip('idle');
+    animator.play('attack');
+    advance(animator, 3);
+    expect(completed).toEqual(['idle', 'attack', 'attack']);
+    expect(animator.getCurrentClip()).toBe('attack');
+  });
+
+  it('速度倍率、暂停与参数校验', () => {
+    const animator = new Animator({}, [clip('walk', 4)]);
+    animator.play('walk');
+    animator.setSpeed(2);
+    animator.update(0.25);
+    expect(animator.getFrameIndex()).toBe(2);
+    animator.pause();
+    animator.update(1);
+    expect(animator.getFrameIndex()).toBe(2);
+    animator.resume();
+    animator.stop(true);
+    expect(animator.getFrameIndex()).toBe(0);
+    expect(animator.isPlaying()).toBe(false);
+
+    expect(() => animator.setSpeed(-1)).toThrow('[Animator]');
+    expect(() => animator.play('missing')).toThrow('不存在');
+    expect(() => animator.addClip({ ...clip('empty', 1), frames: [] })).toThrow('至少需要一帧');
+    expect(() => animator.addClip({ ...clip('zero', 1), frames: [{ image: 'a.png', duration: 0 }] })).toThrow('帧时长');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * 帧动画模块
+ * Animator持有若干动画片段，按GameLoop的时间差推进帧序号，并把当前帧写入目标实体的imageSrc/frame字段，
+ * 由Renderer绘制图集中的对应子区域
+ */
+import type { SpriteFrame } from "../render/render";
+
+/** 动画帧 */
+type AnimationFrame = {
+  image: string; // 图集图片（资源键或路径）
+  frame?: SpriteFrame; // 图集中的子区域（不传则绘制整张图片）
+  duration: number; // 帧时长（秒）
+};
+
+/** 动画片段 */
+type AnimationClip = {
+  name: string; // 片段名称
+  frames: AnimationFrame[]; // 帧列表（按播放顺序）
+  loop: boolean; // 是否循环
+  pingPong: boolean; // 是否往返播放（正序后倒序，首尾帧不重复）
+};
+
+/** 动画片段配置（用于SpriteAtlas创建片段） */
+type AnimationClipOptions = {
+  frameDuration?: number; // 统一帧时长（秒）
+  loop?: boolean; // 是否循环（默认true）
+  pingPong?: boolean; // 是否往返播放（默认false）
+};
+
+/** 动画目标（通常为Player实体） */
+type AnimationTarget = {
+  imageSrc?: string;
+  frame?: SpriteFrame;
+  markRenderDirty?: () => void; // 外观变化通知（Player提供，静态缓存据此重新烘焙）
+};
+
+/** 播放配置 */
+type PlayOptions = {
+  restart?: boolean; // 正在播放同名片段时是否从头开始（默认false）
+  clearQueue?: boolean; // 是否清空播放队列（默认true）
+};
+
+class Animator {
+  private readonly target: AnimationTarget; // 动画目标
+  private clips = new Map<string, AnimationClip>(); // 片段名称 -> 片段
+  private current: AnimationClip | null = null; // 当前片段
+  private sequence: number[] = []; // 当前片段的帧播放序列（往返播放时展开）
+  private step: number = 0; // 当前处于播放序列中的位置
+  private elapsed: number = 0; // 当前帧已持续时间（秒）
+  private playing: boolean = false; // 是否播放中
+  private queue: string[] = []; // 等待播放的片段名称
+  private speed: number = 1; // 播放速度倍率
+  public onComplete?: (clipName: string) => void; // 非循环片段播放完成时触发（循环片段被队列切换时同样触发）
+
+  /**
+   * @param target 动画目标（当前帧写入其imageSrc与frame字段）
+   * @param clips 初始动画片段
+   */
+  constructor(target: AnimationTarget, clips: AnimationClip[] = []) {
+    this.target = target;
+    clips.forEach(clip => this.addClip(clip));
+  }
+
+  /**
+   * 添加（或覆盖）动画片段
+   * @param clip 动画片段
+   */
+  addClip(clip: AnimationClip): void {
+    if (!clip.name) throw new Error('[Animator] 动画片段名称不能为空');
+    if (clip.frames.length === 0) throw new Error(`[Animator] 动画片段"${clip.name}"至少需要一帧`);
+    clip.frames.forEach(frame => {
+      if (typeof frame.duration !== 'number' || !(frame.duration > 0)) {
+        throw new Error(`[Animator] 动画片段"${clip.name}"的帧时长必须大于0`);
+      }
+    });
+    this.clips.set(clip.name, clip);
+  }
+
+  /** 是否存在指定片段 */
+  hasClip(name: string): boolean {
+    return this.clips.has(name);
+  }
+
+  /**
+   * 播放动画片段
+   * @param name 片段名称
+   * @param options 是否从头播放、是否清空队列
+   */
+  play(name: string, options: PlayOptions = {}): void {
+    const { restart = false, clearQueue = true } = options;
+    const clip = this.#requireClip(name);
+    if (clearQueue) this.queue = [];
+    if (this.current === clip && this.playing && !restart) return;
+    this.#start(clip);
+  }
+
+  /**
+   * 将片段加入播放队列：当前片段播放完成后（循环片段在本轮循环结束时）依次播放
+   * 当前未播放任何片段时立即播放
+   * @param name 片段名称
+   */
+  queueClip(name: string): void {
+    const clip = this.#requireClip(name);
+    if (!this.playing) {
+      this.#start(clip);
+      return;
+    }
+    this.queue.push(name);
+  }
+
+  /**
+   * 停止播放（保持当前帧显示）
+   * @param resetToFirstFrame 是否回到片段第一帧（默认false）
+   */
+  stop(resetToFirstFrame: boolean = false): void {
+    this.playing = false;
+    this.queue = [];
+    if (resetToFirstFrame && this.current) {
+      this.step = 0;
+      this.elapsed = 0;
+      this.#apply();
+    }
+  }
+
+  /** 暂停（可通过resume继续） */
+  pause(): void {
+    this.playing = false;
+  }
+
+  /** 继续播放当前片段 */
+  resume(): void {
+    if (this.current) this.playing = true;
+  }
+
+  /**
+   * 设置播放速度倍率
+   * @param speed 倍率（>=0）
+   */
+  setSpeed(speed: number): void {
+    if (typeof speed !== 'number' || !Number.isFinite(speed) || speed < 0) {
+      throw new Error('[Animator] 播放速度必须是非负有限数');
+    }
+    this.speed = speed;
+  }
+
+  /** 获取播放速度倍率 */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /** 是否正在播放 */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** 获取当前片段名称 */
+  getCurrentClip(): string | null {
+    return this.current?.name ?? null;
+  }
+
+  /** 获取当前帧在片段中的序号 */
+  getFrameIndex(): number {
+    return this.sequence[this.step] ?? 0;
+  }
+
+  /**
+   * 推进动画（由Scene在逻辑步中调用，也可手动调用）
+   * 单步时间较长时可跨越多帧
+   * @param deltaTime 时间差（秒，已缩放）
+   */
+  update(deltaTime: number): void {
+    if (!this.playing || !this.current || deltaTime <= 0) return;
+    this.elapsed += deltaTime * this.speed;
+
+    let changed = false;
+    while (this.playing && this.current) {
+      const duration = this.current.frames[this.sequence[this.step]].duration;
+      if (this.elapsed < duration) break;
+      this.elapsed -= duration;
+      changed = true;
+
+      if (this.step < this.sequence.length - 1) {
+        this.step++;
+        continue;
+      }
+
+      // 到达播放序列末尾
+      const finished = this.current;
+      const next = this.queue.shift();
+      if (next !== undefined) {
+        this.onComplete?.(finished.name);
+        const clip = this.clips.get(next);
+        if (clip) this.#start(clip, this.elapsed);
+        changed = false; // #start已写入目标
+      } else if (finished.loop) {
+        this.step = 0;
+      } else {
+        this.playing = false;
+        this.elapsed = 0;
+        this.onComplete?.(finished.name);
+      }
+    }
+
+    if (changed) this.#apply();
+  }
+
+  #requireClip(name: string): AnimationClip {
+    const clip = this.clips.get(name);
+    if (!clip) throw new Error(`[Animator] 动画片段"${name}"不存在`);
+    return clip;
+  }
+
+  /** 开始播放片段（elapsed为上一片段溢出的时间） */
+  #start(clip: AnimationClip, elapsed: number = 0): void {
+    this.current = clip;
+    this.sequence = this.#buildSequence(clip);
+    this.step = 0;
+    this.elapsed = elapsed;
+    this.playing = true;
+    this.#apply();
+  }
+
+  /** 展开播放序列：往返播放为 0..n-1..1 */
+  #buildSequence(clip: AnimationClip): number[] {
+    const forward = clip.frames.map((_, index) => index);
+    if (!clip.pingPong || forward.length < 3) return forward;
+    return forward.concat(forward.slice(1, -1).reverse());
+  }
+
+  /** 将当前帧写入目标实体 */
+  #apply(): void {
+    if (!this.current) return;
+    const frame = this.current.frames[this.sequence[this.step]];
+    this.target.imageSrc = frame.image;
+    this.target.frame = frame.frame;
+    this.target.markRenderDirty?.();
+  }
+}
+
+export { Animator };
+export type { AnimationFrame, AnimationClip, AnimationClipOptions, AnimationTarget, PlayOptions };
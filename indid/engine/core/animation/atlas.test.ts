@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { SpriteAtlas } from './atlas';
+import { Animator } from './animation';
+import type { AtlasData } from './atlas';
+import type { SpriteFrame } from '../render/render';
+
+const rect = (x: number, y: number, w: number = 16, h: number = 16) => ({ x, y, w, h });
+
+/** Aseprite导出的array格式（带帧时长与标签） */
+const aseprite: AtlasData = {
+  frames: [
+    { filename: 'hero 0', frame: rect(0, 0), duration: 100 },
+    { filename: 'hero 1', frame: rect(16, 0), duration: 100 },
+    { filename: 'hero 2', frame: rect(32, 0), duration: 200 },
+    { filename: 'hero 3', frame: rect(48, 0), duration: 50 },
+  ],
+  meta: {
+    image: 'hero.png',
+    frameTags: [
+      { name: 'walk', from: 0, to: 2, direction: 'forward' },
+      { name: 'bounce', from: 1, to: 3, direction: 'pingpong' },
+      { name: 'rewind', from: 0, to: 1, direction: 'reverse' },
+    ],
+  },
+};
+
+describe('SpriteAtlas', () => {
+  it('解析TexturePacker的hash格式，裁剪的帧保留原始尺寸与偏移', () => {
+    const atlas = SpriteAtlas.fromJSON({
+      frames: {
+        'coin.png': { frame: rect(0, 0, 12, 14), rotated: false, trimmed: true, spriteSourceSize: rect(2, 1, 12, 14), sourceSize: { w: 16, h: 16 } },
+        'gem.png': { frame: rect(12, 0), rotated: false, trimmed: false },
+      },
+      meta: { image: 'items.png' },
+    });
+    expect(atlas.image).toBe('items.png');
+    expect(atlas.getFrameNames()).toEqual(['coin.png', 'gem.png']);
+    expect(atlas.getFrame('coin.png')).toEqual({ x: 0, y: 0, w: 12, h: 14, offsetX: 2, offsetY: 1, sourceW: 16, sourceH: 16 });
+    expect(atlas.getFrame('gem.png')).toEqual(rect(12, 0));
+    expect(atlas.hasFrame('missing.png')).toBe(false);
+    expect(() => atlas.getFrame('missing.png')).toThrow('[SpriteAtlas]');
+
+    // 传入的图片优先于meta.image
+    expect(SpriteAtlas.fromJSON({ frames: {} }, 'other.png').image).toBe('other.png');
+    expect(() => SpriteAtlas.fromJSON({ frames: {} })).toThrow('图集图片不能为空');
+    expect(() => SpriteAtlas.fromJSON({} as AtlasData, 'a.png')).toThrow('缺少frames');
+    expect(() => SpriteAtlas.fromJSON({ frames: { r: { frame: rect(0, 0), rotated: true } } }, 'a.png')).toThrow('旋转');
+  });
+
+  it('解析Aseprite的array格式，由帧标签创建片段', () => {
+    const atlas = SpriteAtlas.fromJSON(aseprite);
+    expect(atlas.getTagNames()).toEqual(['walk', 'bounce', 'rewind']);
+
+    const walk = atlas.createClipFromTag('walk');
+    expect(walk).toMatchObject({ name: 'walk', loop: true, pingPong: false });
+    expect(walk.frames.map(frame => [frame.image, frame.frame?.x, frame.duration])).toEqual([
+      ['hero.png', 0, 0.1],
+      ['hero.png', 16, 0.1],
+      ['hero.png', 32, 0.2],
+    ]);
+    expect(atlas.createClipFromTag('bounce')).toMatchObject({ pingPong: true });
+    expect(atlas.createClipFromTag('rewind').frames.map(frame => frame.frame?.x)).toEqual([16, 0]);
+
+    // 传入的配置覆盖标签与帧时长
+    const fast = atlas.createClipFromTag('bounce', { frameDuration: 0.05, pingPong: false, loop: false });
+    expect(fast).toMatchObject({ loop: false, pingPong: false });
+    expect(fast.frames.every(frame => frame.duration === 0.05)).toBe(true);
+    expect(atlas.createClipsFromTags().map(clip => clip.name)).toEqual(['walk', 'bounce', 'rewind']);
+    expect(() => atlas.createClipFromTag('missing')).toThrow('帧标签"missing"不存在');
+  });
+
+  it('标签片段可直接交给Animator播放', () => {
+    const atlas = SpriteAtlas.fromJSON(aseprite);
+    const target: { imageSrc?: string; frame?: SpriteFrame } = {};
+    const animator = new Animator(target, atlas.createClipsFromTags());
+    animator.play('walk');
+    animator.update(0.1);
+    animator.update(0.1);
+    expect(animator.getFrameIndex()).toBe(2);
+    expect(target).toEqual({ imageSrc: 'hero.png', frame: rect(32, 0) });
+  });
+
+  it('按网格切分精灵表，帧时长缺省为0.1秒', () => {
+    const atlas = SpriteAtlas.fromGrid('sheet.png', { frameWidth: 8, frameHeight: 10, count: 5, columns: 2, margin: 1, spacing: 2, prefix: 'f' });
+    expect(atlas.getFrameNames()).toEqual(['f0', 'f1', 'f2', 'f3', 'f4']);
+    expect(atlas.getFrame('f3')).toEqual({ x: 11, y: 13, w: 8, h: 10 });
+    expect(atlas.createClip('run', ['f0', 'f1']).frames[0].duration).toBe(0.1);
+    expect(() => atlas.createClip('empty', [])).toThrow('至少需要一帧');
+    expect(() => SpriteAtlas.fromGrid('sheet.png', { frameWidth: 0, frameHeight: 10, count: 1, columns: 1 })).toThrow('[SpriteAtlas]');
+  });
+});
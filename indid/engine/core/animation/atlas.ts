@@ -0,0 +1,214 @@
+/**
+ * 精灵图集模块
+ * 解析TexturePacker / Aseprite导出的JSON（hash与array两种格式），或按网格切分精灵表，
+ * 提供按名称查询帧区域，并可由Aseprite的frameTags直接生成动画片段
+ */
+import type { SpriteFrame } from "../render/render";
+import type { AnimationClip, AnimationClipOptions } from "./animation";
+
+/** JSON中的矩形 */
+type AtlasRect = { x: number; y: number; w: number; h: number };
+
+/** JSON中的单帧数据（TexturePacker/Aseprite通用字段） */
+type AtlasFrameData = {
+  filename?: string; // array格式下的帧名称
+  frame: AtlasRect; // 帧在图集中的区域
+  rotated?: boolean; // 是否旋转打包（不支持）
+  trimmed?: boolean; // 是否裁剪了透明边
+  spriteSourceSize?: AtlasRect; // 裁剪后区域在原始尺寸中的位置
+  sourceSize?: { w: number; h: number }; // 原始尺寸
+  duration?: number; // 帧时长（毫秒，Aseprite导出）
+};
+
+/** Aseprite帧标签 */
+type AtlasFrameTag = {
+  name: string;
+  from: number; // 起始帧序号
+  to: number; // 结束帧序号（含）
+  direction?: 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+};
+
+/** 图集JSON结构 */
+type AtlasData = {
+  frames: Record<string, AtlasFrameData> | AtlasFrameData[];
+  meta?: {
+    image?: string; // 图集图片路径
+    frameTags?: AtlasFrameTag[]; // 动画标签（Aseprite）
+  };
+};
+
+/** 网格切分配置 */
+type GridOptions = {
+  frameWidth: number; // 单帧宽度
+  frameHeight: number; // 单帧高度
+  count: number; // 帧数量
+  columns: number; // 每行帧数
+  margin?: number; // 图片边缘留白（默认0）
+  spacing?: number; // 帧间距（默认0）
+  prefix?: string; // 帧名称前缀（默认"frame"，帧名为 prefix + 序号）
+};
+
+class SpriteAtlas {
+  public readonly image: string; // 图集图片（资源键或路径）
+  private frames = new Map<string, SpriteFrame>(); // 帧名称 -> 帧区域
+  private frameNames: string[] = []; // 帧名称（按JSON顺序）
+  private frameDurations = new Map<string, number>(); // 帧名称 -> 帧时长（秒）
+  private tags = new Map<string, AtlasFrameTag>(); // 标签名称 -> 帧标签
+
+  /**
+   * @param image 图集图片（资源键或路径，需由AssetManager加载）
+   */
+  constructor(image: string) {
+    if (!image) throw new Error('[SpriteAtlas] 图集图片不能为空');
+    this.image = image;
+  }
+
+  /**
+   * 从TexturePacker/Aseprite导出的JSON创建图集
+   * @param data 已解析的JSON对象
+   * @param image 图集图片（默认使用meta.image）
+   */
+  static fromJSON(data: AtlasData, image?: string): SpriteAtlas {
+    if (!data || typeof data !== 'object' || !data.frames) {
+      throw new Error('[SpriteAtlas] 图集JSON缺少frames字段');
+    }
+    const atlas = new SpriteAtlas(image ?? data.meta?.image ?? '');
+    const entries: Array<[string, AtlasFrameData]> = Array.isArray(data.frames)
+      ? data.frames.map((frame, index) => [frame.filename ?? String(index), frame])
+      : Object.entries(data.frames);
+
+    entries.forEach(([name, frame]) => {
+      if (frame.rotated) {
+        throw new Error(`[SpriteAtlas] 暂不支持旋转打包的帧："${name}"`);
+      }
+      const { x, y, w, h } = frame.frame;
+      const sprite: SpriteFrame = { x, y, w, h };
+      if (frame.trimmed && frame.spriteSourceSize && frame.sourceSize) {
+        sprite.offsetX = frame.spriteSourceSize.x;
+        sprite.offsetY = frame.spriteSourceSize.y;
+        sprite.sourceW = frame.sourceSize.w;
+        sprite.sourceH = frame.sourceSize.h;
+      }
+      atlas.addFrame(name, sprite);
+      if (typeof frame.duration === 'number') {
+        atlas.frameDurations.set(name, frame.duration / 1000);
+      }
+    });
+
+    data.meta?.frameTags?.forEach(tag => atlas.tags.set(tag.name, tag));
+    return atlas;
+  }
+
+  /**
+   * 按网格切分精灵表（无JSON描述的等尺寸精灵表）
+   * @param image 图集图片（资源键或路径）
+   * @param options 网格配置
+   */
+  static fromGrid(image: string, options: GridOptions): SpriteAtlas {
+    const { frameWidth, frameHeight, count, columns, margin = 0, spacing = 0, prefix = 'frame' } = options;
+    if (frameWidth <= 0 || frameHeight <= 0 || count <= 0 || columns <= 0) {
+      throw new Error('[SpriteAtlas] 网格尺寸、帧数量与列数必须是正数');
+    }
+    const atlas = new SpriteAtlas(image);
+    for (let i = 0; i < count; i++) {
+      const col = i % columns;
+      const row = Math.floor(i / columns);
+      atlas.addFrame(`${prefix}${i}`, {
+        x: margin + col * (frameWidth + spacing),
+        y: margin + row * (frameHeight + spacing),
+        w: frameWidth,
+        h: frameHeight,
+      });
+    }
+    return atlas;
+  }
+
+  /**
+   * 添加（或覆盖）帧
+   * @param name 帧名称
+   * @param frame 帧区域
+   */
+  addFrame(name: string, frame: SpriteFrame): void {
+    if (frame.w <= 0 || frame.h <= 0) {
+      throw new Error(`[SpriteAtlas] 帧"${name}"尺寸必须为正数`);
+    }
+    if (!this.frames.has(name)) this.frameNames.push(name);
+    this.frames.set(name, { ...frame });
+  }
+
+  /**
+   * 获取帧区域
+   * @param name 帧名称
+   * @throws {Error} 帧不存在时抛出错误
+   */
+  getFrame(name: string): SpriteFrame {
+    const frame = this.frames.get(name);
+    if (!frame) throw new Error(`[SpriteAtlas] 帧"${name}"不存在`);
+    return frame;
+  }
+
+  /** 是否存在指定帧 */
+  hasFrame(name: string): boolean {
+    return this.frames.has(name);
+  }
+
+  /** 获取所有帧名称（按导入顺序） */
+  getFrameNames(): string[] {
+    return this.frameNames.slice();
+  }
+
+  /** 获取所有帧标签名称（Aseprite） */
+  getTagNames(): string[] {
+    return Array.from(this.tags.keys());
+  }
+
+  /**
+   * 由帧名称列表创建动画片段
+   * @param name 片段名称
+   * @param frameNames 帧名称列表（按播放顺序）
+   * @param options 帧时长（秒，默认使用JSON中的帧时长，均无时为0.1）、循环、往返
+   */
+  createClip(name: string, frameNames: string[], options: AnimationClipOptions = {}): AnimationClip {
+    if (frameNames.length === 0) {
+      throw new Error(`[SpriteAtlas] 动画片段"${name}"至少需要一帧`);
+    }
+    return {
+      name,
+      frames: frameNames.map(frameName => ({
+        image: this.image,
+        frame: this.getFrame(frameName),
+        duration: options.frameDuration ?? this.frameDurations.get(frameName) ?? 0.1,
+      })),
+      loop: options.loop ?? true,
+      pingPong: options.pingPong ?? false,
+    };
+  }
+
+  /**
+   * 由Aseprite帧标签创建动画片段（方向pingpong时自动启用往返播放）
+   * @param tagName 标签名称
+   * @param options 覆盖默认配置（循环默认开启）
+   */
+  createClipFromTag(tagName: string, options: AnimationClipOptions = {}): AnimationClip {
+    const tag = this.tags.get(tagName);
+    if (!tag) throw new Error(`[SpriteAtlas] 帧标签"${tagName}"不存在`);
+    const names = this.frameNames.slice(tag.from, tag.to + 1);
+    const direction = tag.direction ?? 'forward';
+    if (direction === 'reverse' || direction === 'pingpong_reverse') names.reverse();
+    return this.createClip(tagName, names, {
+      pingPong: direction === 'pingpong' || direction === 'pingpong_reverse',
+      ...options,
+    });
+  }
+
+  /**
+   * 由所有帧标签创建动画片段
+   * @param options 应用于所有片段的配置
+   */
+  createClipsFromTags(options: AnimationClipOptions = {}): AnimationClip[] {
+    return this.getTagNames().map(tagName => this.createClipFromTag(tagName, options));
+  }
+}
+
+export { SpriteAtlas };
+export type { AtlasData, AtlasFrameData, AtlasFrameTag, GridOptions };
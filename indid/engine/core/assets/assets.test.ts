@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AssetManager } from './assets';
+import type { DrawableImage, AssetProgressEvent } from './assets';
+
+/** 可手动完成的假加载函数：每次调用记录一个待完成的加载 */
+function createLoader() {
+  const pending = new Map<string, Array<{ resolve: (image: DrawableImage) => void; reject: (error: Error) => void }>>();
+  const loader = vi.fn((src: string) => new Promise<DrawableImage>((resolve, reject) => {
+    pending.set(src, [...(pending.get(src) ?? []), { resolve, reject }]);
+  }));
+  return {
+    loader,
+    /** 完成指定路径的全部加载（返回以路径标记的假图片） */
+    succeed(src: string): DrawableImage {
+      const image = { src } as unknown as DrawableImage;
+      pending.get(src)?.forEach(({ resolve }) => resolve(image));
+      pending.delete(src);
+      return image;
+    },
+    /** 以错误结束指定路径的全部加载 */
+    fail(src: string): void {
+      pending.get(src)?.forEach(({ reject }) => reject(new Error(`404 ${src}`)));
+      pending.delete(src);
+    },
+  };
+}
+
+/** 等待已完成的Promise回调执行 */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AssetManager', () => {
+  let fake: ReturnType<typeof createLoader>;
+  let assets: AssetManager;
+
+  beforeEach(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ width: 0, height: 0, getContext: () => ({ fillRect: () => {} }) }),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fake = createLoader();
+    assets = new AssetManager({ loader: fake.loader });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('预加载清单逐项报告进度，全部完成后触发complete', async () => {
+    const progress: AssetProgressEvent[] = [];
+    const complete = vi.fn();
+    assets.on('progress', event => { progress.push(event); });
+    assets.on('complete', complete);
+
+    const done = assets.preload({ hero: 'img/hero.png', tiles: 'img/tiles.png' });
+    expect(assets.getStatus('hero')).toBe('loading');
+    fake.succeed('img/tiles.png');
+    await flush();
+    expect(progress).toEqual([{ key: 'tiles', src: 'img/tiles.png', loaded: 1, failed: 0, total: 2, progress: 0.5, error: undefined }]);
+    expect(complete).not.toHaveBeenCalled();
+
+    fake.succeed('img/hero.png');
+    await expect(done).resolves.toEqual({ loaded: ['tiles', 'hero'], failed: [] });
+    expect(progress[1]).toMatchObject({ key: 'hero', loaded: 2, progress: 1 });
+    expect(complete).toHaveBeenCalledWith({ loaded: ['tiles', 'hero'], failed: [] });
+    expect(assets.isLoaded('hero')).toBe(true);
+    expect(assets.resolve('hero')).toBe('img/hero.png');
+  });
+
+  it('单项失败不中断其余资源，失败项报告错误并回退占位图', async () => {
+    const errors = vi.fn();
+    const progress: AssetProgressEvent[] = [];
+    assets.on('error', errors);
+    assets.on('progress', event => { progress.push(event); });
+
+    const done = assets.preload(['a.png', 'missing.png']);
+    fake.fail('missing.png');
+    fake.succeed('a.png');
+    await expect(done).resolves.toEqual({ loaded: ['a.png'], failed: ['missing.png'] });
+
+    expect(assets.getStatus('missing.png')).toBe('error');
+    expect(errors).toHaveBeenCalledWith({ key: 'missing.png', src: 'missing.png', error: expect.any(Error) });
+    expect(progress.find(event => event.key === 'missing.png')).toMatchObject({ failed: 1, error: expect.any(Error) });
+    // 失败后同步获取返回占位图，不会重复发起加载
+    expect(assets.getImage('missing.png')).toBe(assets.getPlaceholder());
+    expect(fake.loader).toHaveBeenCalledTimes(2);
+    await expect(assets.preload({ bad: '' })).rejects.toThrow('[AssetManager]');
+  });
+
+  it('重复加载同一资源时合并为一次请求，资源键与路径共用缓存', async () => {
+    assets.preload({ hero: 'img/hero.png' });
+    const first = assets.load('hero');
+    const second = assets.load('img/hero.png');
+    expect(second).toBe(first);
+    expect(fake.loader).toHaveBeenCalledTimes(1);
+
+    const image = fake.succeed('img/hero.png');
+    await expect(first).resolves.toBe(image);
+    await expect(assets.load('hero')).resolves.toBe(image);
+    expect(fake.loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('getImage未就绪时同步返回占位图并开始后台加载，加载后返回缓存', async () => {
+    const placeholder = assets.getImage('late.png');
+    expect(placeholder).toBe(assets.getPlaceholder());
+    expect(assets.getStatus('late.png')).toBe('loading');
+    expect(assets.getImage('late.png')).toBe(placeholder);
+    expect(fake.loader).toHaveBeenCalledTimes(1);
+
+    const image = fake.succeed('late.png');
+    await flush();
+    expect(assets.getImage('late.png')).toBe(image);
+  });
+
+  it('加载中被unload时丢弃结果，之后重新加载', async () => {
+    const pending = assets.load('level.png');
+    assets.unload('level.png');
+    expect(assets.getStatus('level.png')).toBe('idle');
+
+    const stale = fake.succeed('level.png');
+    await expect(pending).resolves.toBe(stale);
+    expect(assets.getStatus('level.png')).toBe('idle');
+
+    // 丢弃的结果不会写入缓存，再次获取时重新加载
+    expect(assets.getImage('level.png')).toBe(assets.getPlaceholder());
+    expect(fake.loader).toHaveBeenCalledTimes(2);
+    const fresh = fake.succeed('level.png');
+    await flush();
+    expect(assets.getImage('level.png')).toBe(fresh);
+
+    assets.clear();
+    expect(assets.getStatus('level.png')).toBe('idle');
+  });
+});
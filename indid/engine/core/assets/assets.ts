@@ -0,0 +1,289 @@
+/**
+ * 资源管理模块
+ * 负责图片资源的预加载、解码缓存与同步获取：
+ * 渲染阶段只读取缓存（未就绪时同步返回占位图），不会在绘制时创建Image或发起网络请求
+ */
+
+/** 可直接用于ctx.drawImage的图片类型 */
+type DrawableImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/** 资源清单：路径数组，或“资源键 -> 路径”映射（实体的imageSrc可使用资源键） */
+type AssetManifest = string[] | Record<string, string>;
+
+/** 资源加载状态 */
+type AssetStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+/** 预加载进度事件 */
+type AssetProgressEvent = {
+  key: string; // 本次完成的资源键
+  src: string; // 资源路径
+  loaded: number; // 已成功加载数量
+  failed: number; // 加载失败数量
+  total: number; // 清单总数
+  progress: number; // 进度（0-1，含失败项）
+  error?: Error; // 加载失败时的错误
+};
+
+/** 预加载结果 */
+type AssetPreloadResult = {
+  loaded: string[]; // 成功的资源键
+  failed: string[]; // 失败的资源键
+};
+
+/** 事件监听映射 */
+type AssetEventMap = {
+  progress: AssetProgressEvent; // 清单中每完成（成功或失败）一项触发
+  complete: AssetPreloadResult; // 清单全部完成时触发
+  error: { key: string; src: string; error: Error }; // 任意资源加载失败时触发
+};
+type AssetEventName = keyof AssetEventMap;
+type AssetListener<K extends AssetEventName> = (event: AssetEventMap[K]) => void;
+
+/** 图片加载函数（可替换，如在非浏览器环境中注入） */
+type ImageLoader = (src: string) => Promise<DrawableImage>;
+
+/** 资源管理器配置 */
+type AssetManagerOptions = {
+  loader?: ImageLoader; // 自定义加载函数（默认使用Image + decode，支持时转为ImageBitmap）
+  placeholderColor?: string; // 占位图颜色（默认#cccccc）
+};
+
+/** 内部缓存记录 */
+type AssetRecord = {
+  status: AssetStatus;
+  image?: DrawableImage; // 解码后的图片
+  promise?: Promise<DrawableImage>; // 加载中的Promise（用于合并重复请求）
+  error?: Error;
+};
+
+/**
+ * 默认图片加载：等待解码完成，支持时转为ImageBitmap（绘制时无需再次解码）
+ */
+const defaultImageLoader: ImageLoader = async (src) => {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(img);
+  }
+  return img;
+};
+
+class AssetManager {
+  private records = new Map<string, AssetRecord>(); // 资源路径 -> 缓存记录
+  private aliases = new Map<string, string>(); // 资源键 -> 资源路径
+  private listeners = new Map<AssetEventName, Set<AssetListener<AssetEventName>>>(); // 事件监听
+  private readonly loader: ImageLoader;
+  private readonly placeholderColor: string;
+  private placeholder?: HTMLCanvasElement; // 占位图（首次使用时创建）
+
+  constructor(options: AssetManagerOptions = {}) {
+    this.loader = options.loader ?? defaultImageLoader;
+    this.placeholderColor = options.placeholderColor ?? '#cccccc';
+  }
+
+  /**
+   * 预加载资源清单（单项失败不会中断其余资源）
+   * @param manifest 路径数组或“资源键 -> 路径”映射
+   * @returns 成功/失败的资源键列表
+   */
+  async preload(manifest: AssetManifest): Promise<AssetPreloadResult> {
+    const entries: Array<[key: string, src: string]> = Array.isArray(manifest)
+      ? manifest.map(src => [src, src])
+      : Object.entries(manifest);
+    entries.forEach(([key, src]) => {
+      if (typeof src !== 'string' || !src) {
+        throw new Error(`[AssetManager] 资源"${key}"的路径无效`);
+      }
+      if (key !== src) this.aliases.set(key, src);
+    });
+
+    const result: AssetPreloadResult = { loaded: [], failed: [] };
+    const total = entries.length;
+    await Promise.all(entries.map(async ([key, src]) => {
+      let error: Error | undefined;
+      try {
+        await this.load(src);
+        result.loaded.push(key);
+      } catch (e) {
+        error = e as Error;
+        result.failed.push(key);
+      }
+      const done = result.loaded.length + result.failed.length;
+      this.#emit('progress', {
+        key,
+        src,
+        loaded: result.loaded.length,
+        failed: result.failed.length,
+        total,
+        progress: total === 0 ? 1 : done / total,
+        error,
+      });
+    }));
+
+    this.#emit('complete', result);
+    return result;
+  }
+
+  /**
+   * 加载单个图片（已缓存时直接返回，加载中时复用同一Promise）
+   * @param keyOrSrc 资源键或路径
+   */
+  load(keyOrSrc: string): Promise<DrawableImage> {
+    const src = this.resolve(keyOrSrc);
+    const record = this.records.get(src);
+    if (record?.status === 'loaded' && record.image) return Promise.resolve(record.image);
+    if (record?.status === 'loading' && record.promise) return record.promise;
+
+    const entry: AssetRecord = { status: 'loading' };
+    entry.promise = this.loader(src).then(
+      image => {
+        // 加载期间被unload/clear时丢弃结果
+        if (this.records.get(src) === entry) {
+          entry.status = 'loaded';
+          entry.image = image;
+          entry.promise = undefined;
+        }
+        return image;
+      },
+      (cause: unknown) => {
+        const error = cause instanceof Error ? cause : new Error(`[AssetManager] 图片加载失败：${src}`);
+        if (this.records.get(src) === entry) {
+          entry.status = 'error';
+          entry.error = error;
+          entry.promise = undefined;
+          console.warn(`[AssetManager] 图片加载失败：${src}，将使用占位图绘制`);
+          this.#emit('error', { key: keyOrSrc, src, error });
+        }
+        throw error;
+      }
+    );
+    this.records.set(src, entry);
+    return entry.promise;
+  }
+
+  /**
+   * 同步获取图片（渲染阶段使用）
+   * 已加载时返回缓存；未加载时自动开始后台加载并返回占位图；加载失败时返回占位图
+   * @param keyOrSrc 资源键或路径
+   */
+  getImage(keyOrSrc: string): DrawableImage {
+    const src = this.resolve(keyOrSrc);
+    const record = this.records.get(src);
+    if (record?.status === 'loaded' && record.image) return record.image;
+    if (!record) {
+      this.load(src).catch(() => { /* 失败已记录，绘制时回退占位图 */ });
+    }
+    return this.getPlaceholder();
+  }
+
+  /**
+   * 获取资源加载状态
+   * @param keyOrSrc 资源键或路径
+   */
+  getStatus(keyOrSrc: string): AssetStatus {
+    return this.records.get(this.resolve(keyOrSrc))?.status ?? 'idle';
+  }
+
+  /** 资源是否已加载完成 */
+  isLoaded(keyOrSrc: string): boolean {
+    return this.getStatus(keyOrSrc) === 'loaded';
+  }
+
+  /**
+   * 解析资源键为路径（非资源键时原样返回）
+   * @param keyOrSrc 资源键或路径
+   */
+  resolve(keyOrSrc: string): string {
+    return this.aliases.get(keyOrSrc) ?? keyOrSrc;
+  }
+
+  /**
+   * 释放单个资源（ImageBitmap会被close）
+   * @param keyOrSrc 资源键或路径
+   */
+  unload(keyOrSrc: string): void {
+    const src = this.resolve(keyOrSrc);
+    const record = this.records.get(src);
+    if (!record) return;
+    this.#release(record);
+    this.records.delete(src);
+  }
+
+  /**
+   * 释放所有资源与资源键（事件监听保留）
+   */
+  clear(): void {
+    this.records.forEach(record => this.#release(record));
+    this.records.clear();
+    this.aliases.clear();
+  }
+
+  /**
+   * 监听事件
+   * @param event 事件名（progress/complete/error）
+   * @param listener 监听函数
+   * @returns 取消监听的函数
+   */
+  on<K extends AssetEventName>(event: K, listener: AssetListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as AssetListener<AssetEventName>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 取消监听
+   */
+  off<K extends AssetEventName>(event: K, listener: AssetListener<K>): void {
+    this.listeners.get(event)?.delete(listener as AssetListener<AssetEventName>);
+  }
+
+  /**
+   * 获取占位图（纯色小画布，绘制时拉伸到实体尺寸）
+   */
+  getPlaceholder(): HTMLCanvasElement {
+    if (!this.placeholder) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 2;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = this.placeholderColor;
+        ctx.fillRect(0, 0, 2, 2);
+      }
+      this.placeholder = canvas;
+    }
+    return this.placeholder;
+  }
+
+  #release(record: AssetRecord): void {
+    if (typeof ImageBitmap !== 'undefined' && record.image instanceof ImageBitmap) {
+      record.image.close();
+    }
+  }
+
+  #emit<K extends AssetEventName>(event: K, payload: AssetEventMap[K]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[AssetManager] ${event} listener error:`, error);
+      }
+    });
+  }
+}
+
+export { AssetManager };
+export type {
+  DrawableImage,
+  AssetManifest,
+  AssetStatus,
+  AssetProgressEvent,
+  AssetPreloadResult,
+  AssetManagerOptions,
+  ImageLoader,
+};
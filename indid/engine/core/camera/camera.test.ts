@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Camera } from './camera';
+
+const rect = { x: 0, y: 0, width: 200, height: 100 };
+
+/** 简单的带种子线性同余随机数 */
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+describe('Camera 渲染插值', () => {
+  it('按alpha在上一逻辑步与当前状态之间插值', () => {
+    const camera = new Camera({ position: [0, 0] });
+    camera.storePreviousState();
+    camera.setPosition(100, 0);
+
+    // 视口中心对应的世界坐标即插值后的相机位置
+    expect(camera.screenToWorld([100, 50], rect, 0)).toEqual([0, 0]);
+    expect(camera.screenToWorld([100, 50], rect, 0.5)).toEqual([50, 0]);
+    expect(camera.screenToWorld([100, 50], rect)).toEqual([100, 0]);
+  });
+
+  it('跟随目标时插值结果与目标的插值位置同步', () => {
+    const target = { location: [0, 0] as [number, number] };
+    const camera = new Camera({ position: [0, 0] });
+    camera.follow(target, { lerp: 1 });
+
+    camera.storePreviousState();
+    target.location = [60, 0];
+    camera.update(1 / 60);
+
+    // 目标插值位置为 0 + (60 - 0) * 0.25 = 15，相机应与之一致
+    expect(camera.worldToScreen([15, 0], rect, 0.25)).toEqual([100, 50]);
+  });
+
+  it('未记录上一步状态时不插值', () => {
+    const camera = new Camera({ position: [30, 40] });
+    expect(camera.screenToWorld([100, 50], rect, 0)).toEqual([30, 40]);
+  });
+});
+
+describe('Camera 屏幕震动', () => {
+  it('注入相同种子的随机数时震动偏移可复现', () => {
+    const offsets = () => {
+      const camera = new Camera({ random: seeded(42) });
+      camera.shake(10, 1);
+      const result: number[][] = [];
+      for (let i = 0; i < 5; i++) {
+        camera.update(1 / 60);
+        result.push(camera.screenToWorld([100, 50], rect));
+      }
+      return result;
+    };
+
+    const first = offsets();
+    expect(first.some(([x, y]) => x !== 0 || y !== 0)).toBe(true);
+    expect(offsets()).toEqual(first);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * 相机与视口模块
+ * Camera：描述世界坐标中的观察位置（中心点）、缩放、旋转，支持边界限制、平滑跟随与屏幕震动；
+ *   记录上一逻辑步的状态，渲染时按插值系数在两步之间插值（与实体插值一致，固定步长下跟随目标不抖动）
+ * Viewport：画布上的一块矩形区域 + 一台相机，多个视口可渲染同一场景（分屏、小地图）
+ */
+
+/** 二维坐标 */
+type Vec2 = [x: number, y: number];
+
+/** 画布上的矩形区域（画布像素坐标） */
+type ViewRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/** 世界坐标边界（相机可见区域被限制在该范围内） */
+type CameraBounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/** 相机可跟随的目标（兼容Player/RenderableEntity） */
+type CameraTarget = {
+  location: Vec2;
+  size?: Vec2;
+};
+
+/** 跟随参数 */
+type FollowOptions = {
+  lerp?: number; // 平滑系数（0-1，每秒逼近比例的近似值，1为立即对齐，默认0.1）
+  offset?: Vec2; // 相对目标中心的偏移（世界坐标）
+  deadzone?: Vec2; // 死区半宽/半高（目标在死区内移动时相机不动，默认[0, 0]）
+};
+
+/** 相机初始化参数 */
+type CameraOptions = {
+  position?: Vec2; // 相机中心点（世界坐标，默认[0, 0]）
+  zoom?: number; // 缩放（>0，默认1）
+  rotation?: number; // 旋转（弧度，默认0）
+  bounds?: CameraBounds; // 边界限制（可选）
+  random?: () => number; // 随机数函数（震动偏移，默认Math.random，可注入带种子的随机数实现确定性回放）
+};
+
+/** 相机的观察状态（位置已叠加震动偏移） */
+type CameraView = {
+  x: number;
+  y: number;
+  zoom: number;
+  rotation: number;
+};
+
+class Camera {
+  private position: Vec2; // 相机中心点（世界坐标）
+  private zoom: number; // 缩放
+  private rotation: number; // 旋转（弧度）
+  private bounds: CameraBounds | null = null; // 边界限制
+  private previous: CameraView | null = null; // 上一逻辑步的观察状态（用于渲染插值，未记录时不插值）
+  private readonly random: () => number; // 随机数函数（震动偏移）
+
+  // 跟随
+  private followTarget: CameraTarget | null = null;
+  private followOptions: Required<FollowOptions> = { lerp: 0.1, offset: [0, 0], deadzone: [0, 0] };
+
+  // 屏幕震动
+  private shakeIntensity: number = 0; // 震动强度（像素，世界坐标）
+  private shakeDuration: number = 0; // 震动总时长（秒）
+  private shakeElapsed: number = 0; // 已震动时长（秒）
+  private shakeOffset: Vec2 = [0, 0]; // 当前帧震动偏移
+
+  constructor(options: CameraOptions = {}) {
+    this.position = options.position ? [options.position[0], options.position[1]] : [0, 0];
+    this.zoom = 1;
+    this.rotation = options.rotation ?? 0;
+    this.random = options.random ?? Math.random;
+    this.setZoom(options.zoom ?? 1);
+    if (options.bounds) this.setBounds(options.bounds);
+  }
+
+  // ========== 基础属性 ==========
+  getPosition(): Vec2 {
+    return [this.position[0], this.position[1]];
+  }
+
+  setPosition(x: number, y: number): void {
+    if (typeof x !== 'number' || typeof y !== 'number') {
+      throw new TypeError('[Camera] 位置必须是数字');
+    }
+    this.position = [x, y];
+  }
+
+  /** 平移相机（世界坐标） */
+  moveBy(dx: number, dy: number): void {
+    this.setPosition(this.position[0] + dx, this.position[1] + dy);
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  setZoom(zoom: number): void {
+    if (typeof zoom !== 'number' || !Number.isFinite(zoom) || zoom <= 0) {
+      throw new Error('[Camera] 缩放必须是正数');
+    }
+    this.zoom = zoom;
+  }
+
+  getRotation(): number {
+    return this.rotation;
+  }
+
+  setRotation(rotation: number): void {
+    if (typeof rotation !== 'number') {
+      throw new TypeError('[Camera] 旋转角度必须是数字（弧度）');
+    }
+    this.rotation = rotation;
+  }
+
+  /**
+   * 设置边界限制（传null取消）
+   * @param bounds 世界坐标边界
+   */
+  setBounds(bounds: CameraBounds | null): void {
+    if (bounds && (bounds.minX > bounds.maxX || bounds.minY > bounds.maxY)) {
+      throw new Error('[Camera] 边界不合法：最小值不能大于最大值');
+    }
+    this.bounds = bounds ? { ...bounds } : null;
+  }
+
+  getBounds(): CameraBounds | null {
+    return this.bounds ? { ...this.bounds } : null;
+  }
+
+  /**
+   * 记录当前观察状态为上一逻辑步的状态（Scene在每个逻辑步开始时调用）
+   * 渲染时在该状态与当前状态之间插值；瞬移（如切换关卡后setPosition）后调用可跳过本步插值
+   */
+  storePreviousState(): void {
+    this.previous = this.#getView(1);
+  }
+
+  // ========== 跟随与震动 ==========
+  /**
+   * 平滑跟随目标实体（以目标中心为焦点）
+   * @param target 目标实体（需有location，可选size）
+   * @param options 平滑系数、偏移、死区
+   */
+  follow(target: CameraTarget, options: FollowOptions = {}): void {
+    const lerp = options.lerp ?? 0.1;
+    if (typeof lerp !== 'number' || lerp <= 0 || lerp > 1) {
+      throw new Error('[Camera] 跟随平滑系数必须在(0, 1]之间');
+    }
+    this.followTarget = target;
+    this.followOptions = {
+      lerp,
+      offset: options.offset ?? [0, 0],
+      deadzone: options.deadzone ?? [0, 0],
+    };
+  }
+
+  /** 停止跟随 */
+  stopFollow(): void {
+    this.followTarget = null;
+  }
+
+  /**
+   * 屏幕震动（强度随时间线性衰减）
+   * @param intensity 震动强度（世界坐标像素）
+   * @param duration 持续时间（秒）
+   */
+  shake(intensity: number, duration: number): void {
+    if (intensity < 0 || duration < 0) {
+      throw new Error('[Camera] 震动强度与时长必须是非负数');
+    }
+    // 新震动不会削弱正在进行的更强震动
+    const remaining = this.shakeDuration - this.shakeElapsed;
+    if (remaining > 0 && this.#currentShakeIntensity() > intensity) return;
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeElapsed = 0;
+  }
+
+  /**
+   * 帧更新：推进跟随、震动并应用边界限制（由Viewport/Scene在更新阶段调用）
+   * @param deltaTime 时间差（秒）
+   * @param rect 所在视口（用于计算可见范围以限制边界）
+   */
+  update(deltaTime: number, rect?: ViewRect): void {
+    // 1. 平滑跟随（帧率无关的指数逼近）
+    if (this.followTarget) {
+      const { lerp, offset, deadzone } = this.followOptions;
+      const [tx, ty] = this.followTarget.location;
+      const [tw, th] = this.followTarget.size ?? [0, 0];
+      const focusX = tx + tw / 2 + offset[0];
+      const focusY = ty + th / 2 + offset[1];
+      const factor = lerp >= 1 ? 1 : 1 - Math.pow(1 - lerp, deltaTime * 60);
+
+      const dx = focusX - this.position[0];
+      const dy = focusY - this.position[1];
+      const moveX = Math.abs(dx) > deadzone[0] ? dx - Math.sign(dx) * deadzone[0] : 0;
+      const moveY = Math.abs(dy) > deadzone[1] ? dy - Math.sign(dy) * deadzone[1] : 0;
+      this.position = [this.position[0] + moveX * factor, this.position[1] + moveY * factor];
+    }
+
+    // 2. 边界限制
+    if (rect) this.#clampToBounds(rect);
+
+    // 3. 屏幕震动
+    if (this.shakeElapsed < this.shakeDuration) {
+      this.shakeElapsed = Math.min(this.shakeDuration, this.shakeElapsed + deltaTime);
+      const intensity = this.#currentShakeIntensity();
+      this.shakeOffset = [(this.random() * 2 - 1) * intensity, (this.random() * 2 - 1) * intensity];
+    } else {
+      this.shakeOffset = [0, 0];
+    }
+  }
+
+  // ========== 坐标变换 ==========
+  /**
+   * 将相机变换应用到渲染上下文（世界坐标 -> 视口像素坐标）
+   * @param ctx 渲染上下文（Canvas 2D上下文或渲染后端）
+   * @param rect 视口区域
+   * @param parallax 视差系数（默认[1, 1]；小于1时该层移动更慢，0为固定在屏幕上）
+   * @param alpha 插值系数（0-1，默认1；小于1时在上一逻辑步与当前状态之间插值）
+   */
+  applyTransform(ctx: Pick<CanvasRenderingContext2D, 'translate' | 'rotate' | 'scale'>, rect: ViewRect, parallax: Vec2 = [1, 1], alpha: number = 1): void {
+    const { x, y, zoom, rotation } = this.#getView(alpha);
+    ctx.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+    ctx.rotate(-rotation);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-x * parallax[0], -y * parallax[1]);
+  }
+
+  /**
+   * 世界坐标 -> 画布坐标
+   * @param point 世界坐标
+   * @param rect 视口区域
+   * @param alpha 插值系数（默认1，即当前状态）
+   */
+  worldToScreen(point: Vec2, rect: ViewRect, alpha: number = 1): Vec2 {
+    const { x: cx, y: cy, zoom, rotation } = this.#getView(alpha);
+    const dx = (point[0] - cx) * zoom;
+    const dy = (point[1] - cy) * zoom;
+    const cos = Math.cos(-rotation);
+    const sin = Math.sin(-rotation);
+    return [
+      rect.x + rect.width / 2 + dx * cos - dy * sin,
+      rect.y + rect.height / 2 + dx * sin + dy * cos,
+    ];
+  }
+
+  /**
+   * 画布坐标 -> 世界坐标（如Input.getMousePosition()的结果）
+   * @param point 画布坐标
+   * @param rect 视口区域
+   * @param alpha 插值系数（默认1，即当前状态）
+   */
+  screenToWorld(point: Vec2, rect: ViewRect, alpha: number = 1): Vec2 {
+    const { x: cx, y: cy, zoom, rotation } = this.#getView(alpha);
+    const sx = point[0] - (rect.x + rect.width / 2);
+    const sy = point[1] - (rect.y + rect.height / 2);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return [
+      cx + (sx * cos - sy * sin) / zoom,
+      cy + (sx * sin + sy * cos) / zoom,
+    ];
+  }
+
+  /**
+   * 获取视口可见的世界范围（轴对齐包围盒，考虑旋转；用于视口裁剪）
+   * @param rect 视口区域
+   * @param alpha 插值系数（默认1，即当前状态）
+   */
+  getVisibleBounds(rect: ViewRect, alpha: number = 1): CameraBounds {
+    const corners: Vec2[] = [
+      [rect.x, rect.y],
+      [rect.x + rect.width, rect.y],
+      [rect.x, rect.y + rect.height],
+      [rect.x + rect.width, rect.y + rect.height],
+    ].map(corner => this.screenToWorld(corner as Vec2, rect, alpha));
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  }
+
+  // ========== 私有工具 ==========
+  /** 插值后的观察状态（位置叠加震动偏移；alpha>=1或未记录上一步状态时为当前状态） */
+  #getView(alpha: number): CameraView {
+    const current: CameraView = {
+      x: this.position[0] + this.shakeOffset[0],
+      y: this.position[1] + this.shakeOffset[1],
+      zoom: this.zoom,
+      rotation: this.rotation,
+    };
+    const prev = this.previous;
+    if (!prev || alpha >= 1) return current;
+    const t = Math.max(0, alpha);
+    return {
+      x: prev.x + (current.x - prev.x) * t,
+      y: prev.y + (current.y - prev.y) * t,
+      zoom: prev.zoom + (current.zoom - prev.zoom) * t,
+      rotation: prev.rotation + (current.rotation - prev.rotation) * t,
+    };
+  }
+
+  #currentShakeIntensity(): number {
+    if (this.shakeDuration <= 0) return 0;
+    return this.shakeIntensity * (1 - this.shakeElapsed / this.shakeDuration);
+  }
+
+  /** 限制相机位置，使可见区域不超出边界（可见区域大于边界时居中） */
+  #clampToBounds(rect: ViewRect): void {
+    if (!this.bounds) return;
+    const { minX, minY, maxX, maxY } = this.bounds;
+    const halfW = rect.width / 2 / this.zoom;
+    const halfH = rect.height / 2 / this.zoom;
+    const clamp = (value: number, min: number, max: number, half: number) =>
+      max - min <= half * 2 ? (min + max) / 2 : Math.max(min + half, Math.min(max - half, value));
+    this.position = [
+      clamp(this.position[0], minX, maxX, halfW),
+      clamp(this.position[1], minY, maxY, halfH),
+    ];
+  }
+}
+
+/** 视口初始化参数 */
+type ViewportOptions = {
+  id: string; // 视口唯一标识
+  rect: ViewRect; // 画布上的区域（画布像素坐标）
+  camera?: Camera; // 相机（默认新建，中心对准视口中心）
+  background?: string; // 视口背景色（可选，不设置则沿用场景背景）
+};
+
+/**
+ * 视口：画布区域 + 相机
+ */
+class Viewport {
+  public readonly id: string;
+  public readonly camera: Camera;
+  public background?: string;
+  public enabled: boolean = true; // 是否参与渲染
+  private rect: ViewRect;
+
+  constructor(options: ViewportOptions) {
+    if (!options.id) throw new Error('[Viewport] 视口ID不能为空');
+    this.id = options.id;
+    this.rect = { ...options.rect };
+    this.background = options.background;
+    this.camera = options.camera ?? new Camera({
+      position: [options.rect.width / 2, options.rect.height / 2],
+    });
+  }
+
+  getRect(): ViewRect {
+    return { ...this.rect };
+  }
+
+  setRect(rect: ViewRect): void {
+    if (rect.width <= 0 || rect.height <= 0) {
+      throw new Error('[Viewport] 视口宽高必须是正数');
+    }
+    this.rect = { ...rect };
+  }
+
+  /** 推进相机（跟随/震动/边界） */
+  update(deltaTime: number): void {
+    this.camera.update(deltaTime, this.rect);
+  }
+
+  /** 画布坐标是否落在视口内 */
+  containsScreenPoint(x: number, y: number): boolean {
+    const { rect } = this;
+    return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+  }
+
+  worldToScreen(point: Vec2, alpha: number = 1): Vec2 {
+    return this.camera.worldToScreen(point, this.rect, alpha);
+  }
+
+  screenToWorld(point: Vec2, alpha: number = 1): Vec2 {
+    return this.camera.screenToWorld(point, this.rect, alpha);
+  }
+
+  /** 当前可见的世界范围（alpha为插值系数，默认1） */
+  getVisibleBounds(alpha: number = 1): CameraBounds {
+    return this.camera.getVisibleBounds(this.rect, alpha);
+  }
+}
+
+export { Camera, Viewport };
+export type { Vec2, ViewRect, CameraBounds, CameraTarget, CameraOptions, CameraView, FollowOptions, ViewportOptions };
@@ -0,0 +1,12 @@
+/**
+ * 引擎配置
+ * 全局常量（版本号等），供需要标记数据来源的模块使用
+ */
+
+/**
+ * 引擎版本
+ * 输入回放等持久化数据会记录该版本；修改输入采集、帧时序等会影响回放结果的行为时需递增
+ */
+const ENGINE_VERSION = '0.1.0';
+
+export { ENGINE_VERSION };
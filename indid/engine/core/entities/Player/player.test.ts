@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Player } from './player';
+
+describe('Player 形状属性校验', () => {
+  it('接受渲染模块支持的形状与几何参数', () => {
+    const player = new Player({
+      shape: 'polygon',
+      points: [[0, 0], [10, 0], [5, 8]],
+      fill: { type: 'linear', from: [0, 0], to: [10, 0], stops: [[0, 'red'], [1, 'blue']] },
+      border: { width: 2, color: '#000', dash: [6, 4], lineCap: 'round' },
+      cornerRadius: [1, 2, 3, 4],
+      arc: { startAngle: 0, endAngle: Math.PI, mode: 'chord' },
+      path: 'M0 0 L10 10',
+    });
+    expect(player.shape).toBe('polygon');
+    expect(player.points).toEqual([[0, 0], [10, 0], [5, 8]]);
+    expect(player.border?.dash).toEqual([6, 4]);
+  });
+
+  it.each([
+    ['shape', 'star', /Invalid type for shape: expected "rect" \| "circle"/],
+    ['points', [[0, 0], [1]], 'Invalid type for points'],
+    ['points', [[0, '1']], 'Invalid type for points'],
+    ['fill', { type: 'linear', from: [0, 0], stops: [] }, 'Invalid type for fill'],
+    ['border', { width: 1, color: '#000', dash: ['6'] }, 'Invalid type for border'],
+    ['cornerRadius', -1, 'Invalid type for cornerRadius'],
+    ['cornerRadius', [1, 2, 3, 4, 5], 'Invalid type for cornerRadius'],
+    ['arc', { startAngle: 0 }, 'Invalid type for arc'],
+    ['path', 42, 'Invalid type for path'],
+  ])('构造时拒绝无效的%s', (key, value, message) => {
+    expect(() => new Player({ [key]: value })).toThrow(message);
+  });
+
+  it('setShape、setFill与setBorder校验并写入形状参数', () => {
+    const player = new Player();
+    player.setShape('ellipse');
+    expect(player.shape).toBe('ellipse');
+    expect(() => player.setShape('star' as never)).toThrow('shape must be one of rect, circle, ellipse');
+
+    player.setFill({ type: 'pattern', image: 'bricks.png' });
+    expect(player.fill).toEqual({ type: 'pattern', image: 'bricks.png' });
+    expect(() => player.setFill({ type: 'pattern' } as never)).toThrow(TypeError);
+
+    player.setBorder(3, 'red', { dash: [2, 2], width: 99 } as never);
+    expect(player.border).toEqual({ dash: [2, 2], width: 3, color: 'red' });
+  });
+});
@@ -1,3 +1,11 @@
+import type { SpriteFrame } from "../../render/render";
+import type { Animator } from "../../animation/animation";
+import { SHAPE_TYPES, isFillStyle } from "../../render/shapes";
+import type { ShapeType, FillStyle, StrokeStyle, ArcOptions } from "../../render/shapes";
+import { BLEND_MODES, isEntityFilterList } from "../../render/filters";
+import type { EntityFilter } from "../../render/filters";
+import type { Vec2 } from "../../camera/camera";
+
 /**
  * Player实体类
  * 维护玩家实体的基础属性及渲染相关扩展属性，适配渲染模块的实体规范
@@ -14,9 +22,26 @@ class Player {
     public background?: string = 'gray'; // 背景色（CSS格式，默认灰色）
     public opacity?: number = 1; // 透明度（0-1，默认完全不透明）
     public rotation?: number = 0; // 旋转角度（弧度，默认无旋转）
-    public border?: { width: number; color: string }; // 边框样式（默认无）
-    public shape?: 'rect' | 'circle' = 'rect'; // 渲染形状（默认矩形）
+    public border?: StrokeStyle; // 边框/描边样式（默认无，可设置虚线与线帽）
+    public shape?: ShapeType = 'rect'; // 渲染形状（默认矩形）
+    public fill?: FillStyle; // 填充样式（颜色/渐变/图案，优先于background，默认无）
+    public points?: Vec2[]; // polygon/polyline顶点（局部坐标）
+    public cornerRadius?: number | number[]; // roundRect圆角半径
+    public arc?: ArcOptions; // arc参数
+    public path?: string; // path的SVG路径数据（局部坐标）
     public imageSrc?: string; // 图片资源路径（优先于背景色，默认无）
+    public frame?: SpriteFrame; // 当前精灵帧（图集子区域，通常由animator写入）
+    public animator?: Animator; // 帧动画控制器（由Scene在逻辑步中推进）
+    public filter?: EntityFilter[]; // 滤镜（按数组顺序叠加，默认无）
+    public blendMode?: GlobalCompositeOperation; // 与画布的混合模式（默认source-over；设置后不参与静态缓存）
+    public zIndex?: number = 0; // 层内绘制顺序（越大越靠上，默认0）
+    public layer?: string; // 所属渲染层名称（默认"default"层）
+    public isStatic?: boolean = false; // 是否为静态实体（烘焙到离屏缓存，外观不常变化的背景、装饰适用）
+    public renderVersion: number = 0; // 外观版本号（setter修改外观时递增，静态缓存据此重新烘焙；直接修改字段后需调用markRenderDirty）
+
+    // --- 渲染插值属性（由Scene在每个逻辑步前写入，无需手动设置）---
+    public previousLocation?: [x: number, y: number]; // 上一逻辑步的位置
+    public previousRotation?: number; // 上一逻辑步的旋转角度
 
     // --- 业务扩展属性 ---
     public name: string = "undefined"; // 实体命名
@@ -43,9 +68,25 @@ class Player {
             opacity: (v: any) => (typeof v === 'number' && v >= 0 && v <= 1) || v === undefined, // 限制0-1
             rotation: (v: any) => typeof v === 'number' || v === undefined,
             border: (v: any) => (v === undefined) || (typeof v === 'object' && v !== null &&
-                typeof v.width === 'number' && typeof v.color === 'string'),
-            shape: (v: any) => v === 'rect' || v === 'circle' || v === undefined,
-            imageSrc: (v: any) => typeof v === 'string' || v === undefined
+                typeof v.width === 'number' && typeof v.color === 'string' &&
+                (v.dash === undefined || (Array.isArray(v.dash) && v.dash.every((n: unknown) => typeof n === 'number')))),
+            shape: (v: unknown) => SHAPE_TYPES.includes(v as ShapeType) || v === undefined,
+            fill: (v: unknown) => isFillStyle(v) || v === undefined,
+            points: (v: unknown) => v === undefined || (Array.isArray(v) && v.every(p =>
+                Array.isArray(p) && p.length === 2 && typeof p[0] === 'number' && typeof p[1] === 'number')),
+            cornerRadius: (v: unknown) => v === undefined || (typeof v === 'number' && v >= 0) ||
+                (Array.isArray(v) && v.length <= 4 && v.every(r => typeof r === 'number' && r >= 0)),
+            arc: (v: unknown) => v === undefined || (typeof v === 'object' && v !== null &&
+                typeof (v as ArcOptions).startAngle === 'number' && typeof (v as ArcOptions).endAngle === 'number'),
+            path: (v: unknown) => typeof v === 'string' || v === undefined,
+            imageSrc: (v: any) => typeof v === 'string' || v === undefined,
+            frame: (v: unknown) => v === undefined || (typeof v === 'object' && v !== null &&
+                ['x', 'y', 'w', 'h'].every(k => typeof (v as Record<string, unknown>)[k] === 'number')),
+            filter: (v: unknown) => v === undefined || isEntityFilterList(v),
+            blendMode: (v: unknown) => v === undefined || BLEND_MODES.includes(v as GlobalCompositeOperation),
+            zIndex: (v: unknown) => (typeof v === 'number' && Number.isFinite(v)) || v === undefined,
+            layer: (v: unknown) => (typeof v === 'string' && v.length > 0) || v === undefined,
+            isStatic: (v: unknown) => typeof v === 'boolean' || v === undefined
         };
 
         // 校验并初始化所有关键属性
@@ -87,9 +128,20 @@ class Player {
             background: 'expected string (CSS color) or undefined',
             opacity: 'expected number between 0 and 1 or undefined',
             rotation: 'expected number (radian) or undefined',
-            border: 'expected { width: number; color: string } or undefined',
-            shape: 'expected "rect" | "circle" or undefined',
-            imageSrc: 'expected string (image path) or undefined'
+            border: 'expected { width: number; color: string; dash?: number[] } or undefined',
+            shape: `expected ${SHAPE_TYPES.map(t => `"${t}"`).join(' | ')} or undefined`,
+            fill: 'expected CSS color, { type: "linear" | "radial", ... stops } or { type: "pattern", image } or undefined',
+            points: 'expected Array<[x: number, y: number]> or undefined',
+            cornerRadius: 'expected non-negative number or number[] (max 4) or undefined',
+            arc: 'expected { startAngle: number; endAngle: number } or undefined',
+            path: 'expected string (SVG path data) or undefined',
+            imageSrc: 'expected string (image path) or undefined',
+            frame: 'expected { x: number; y: number; w: number; h: number } or undefined',
+            filter: 'expected Array<{ type: "blur" | "brightness" | "grayscale" | "tint" | "dropShadow", ... }> or undefined',
+            blendMode: 'expected GlobalCompositeOperation (e.g. "multiply", "screen", "lighter") or undefined',
+            zIndex: 'expected finite number or undefined',
+            layer: 'expected non-empty string (layer name) or undefined',
+            isStatic: 'expected boolean or undefined'
         };
         return `Invalid type for ${key}: ${errorMap[key] || 'unknown error'}`;
     }
@@ -108,6 +160,7 @@ class Player {
             throw new TypeError('x must be a number');
         }
         this.location[0] = x;
+        this.renderVersion++;
     }
 
     setY(y: number): void {
@@ -115,6 +168,7 @@ class Player {
             throw new TypeError('y must be a number');
         }
         this.location[1] = y;
+        this.renderVersion++;
     }
 
     getLocation(): [x: number, y: number] {
@@ -136,6 +190,7 @@ class Player {
         } else {
             throw new TypeError('setLocation requires (x: number, y: number) or ([x: number, y: number])');
         }
+        this.renderVersion++;
     }
 
     // --- 尺寸相关操作方法 ---
@@ -155,6 +210,7 @@ class Player {
             throw new TypeError('w must be a number');
         }
         this.size[0] = w;
+        this.renderVersion++;
     }
 
     /** 设置实体高度 */
@@ -163,6 +219,7 @@ class Player {
             throw new TypeError('h must be a number');
         }
         this.size[1] = h;
+        this.renderVersion++;
     }
 
     /** 获取实体尺寸（返回拷贝防止外部修改内部状态） */
@@ -186,6 +243,7 @@ class Player {
         } else {
             throw new TypeError('setSize requires (w: number, h: number) or ([w: number, h: number])');
         }
+        this.renderVersion++;
     }
 
     // --- 渲染扩展属性的快捷操作方法（新增，提升开发体验）---
@@ -195,6 +253,7 @@ class Player {
             throw new TypeError('opacity must be a number between 0 and 1');
         }
         this.opacity = opacity;
+        this.renderVersion++;
     }
 
     /** 设置旋转角度（弧度） */
@@ -203,19 +262,34 @@ class Player {
             throw new TypeError('rotation must be a number (radian)');
         }
         this.rotation = rotation;
+        this.renderVersion++;
     }
 
-    /** 设置边框样式 */
-    setBorder(width: number, color: string): void {
+    /** 设置边框样式（可选虚线、线帽等描边参数） */
+    setBorder(width: number, color: string, options: Omit<StrokeStyle, 'width' | 'color'> = {}): void {
         if (typeof width !== 'number' || typeof color !== 'string') {
             throw new TypeError('border requires width (number) and color (string)');
         }
-        this.border = { width, color };
+        this.border = { ...options, width, color };
+        this.renderVersion++;
     }
 
-    /** 设置渲染形状（仅允许rect/circle） */
-    setShape(shape: 'rect' | 'circle'): void {
+    /** 设置渲染形状 */
+    setShape(shape: ShapeType): void {
+        if (!SHAPE_TYPES.includes(shape)) {
+            throw new TypeError(`shape must be one of ${SHAPE_TYPES.join(', ')}`);
+        }
         this.shape = shape;
+        this.renderVersion++;
+    }
+
+    /** 设置填充样式（颜色/渐变/图案） */
+    setFill(fill: FillStyle): void {
+        if (!isFillStyle(fill)) {
+            throw new TypeError('fill must be a CSS color, gradient or pattern');
+        }
+        this.fill = fill;
+        this.renderVersion++;
     }
 
     /** 设置图片资源路径 */
@@ -224,6 +298,54 @@ class Player {
             throw new TypeError('imageSrc must be a string (image path)');
         }
         this.imageSrc = imageSrc;
+        this.renderVersion++;
+    }
+
+    /** 设置滤镜（传入空数组或undefined清除） */
+    setFilter(filter: EntityFilter[] | undefined): void {
+        if (filter !== undefined && !isEntityFilterList(filter)) {
+            throw new TypeError('filter must be an array of { type: "blur" | "brightness" | "grayscale" | "tint" | "dropShadow", ... }');
+        }
+        this.filter = filter;
+        this.renderVersion++;
+    }
+
+    /** 设置混合模式（传入undefined恢复默认） */
+    setBlendMode(mode: GlobalCompositeOperation | undefined): void {
+        if (mode !== undefined && !BLEND_MODES.includes(mode)) {
+            throw new TypeError(`blendMode must be one of ${BLEND_MODES.join(', ')}`);
+        }
+        this.blendMode = mode;
+        this.renderVersion++;
+    }
+
+    /** 设置层内绘制顺序（越大越靠上） */
+    setZIndex(zIndex: number): void {
+        if (typeof zIndex !== 'number' || !Number.isFinite(zIndex)) {
+            throw new TypeError('zIndex must be a finite number');
+        }
+        this.zIndex = zIndex;
+    }
+
+    /** 设置所属渲染层 */
+    setLayer(layer: string): void {
+        if (typeof layer !== 'string' || layer.length === 0) {
+            throw new TypeError('layer must be a non-empty string (layer name)');
+        }
+        this.layer = layer;
+    }
+
+    /** 设置是否为静态实体（静态实体由Scene烘焙到离屏缓存，外观变化时自动重新烘焙） */
+    setStatic(isStatic: boolean): void {
+        if (typeof isStatic !== 'boolean') {
+            throw new TypeError('isStatic must be a boolean');
+        }
+        this.isStatic = isStatic;
+    }
+
+    /** 标记外观已变化（直接修改location、background等字段后调用，静态缓存将重新烘焙） */
+    markRenderDirty(): void {
+        this.renderVersion++;
     }
 }
 
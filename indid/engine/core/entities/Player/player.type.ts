@@ -1,3 +1,7 @@
+import type { SpriteFrame } from "../../render/render";
+import type { ShapeType, FillStyle, StrokeStyle } from "../../render/shapes";
+import type { EntityFilter } from "../../render/filters";
+
 /**
  * Player状态TS声明
  * 实体状态定义
@@ -9,12 +13,17 @@ interface PlayerStateType {
     background?: string; // 背景色（支持CSS颜色格式）
     opacity?: number; // 透明度（0-1，默认1）
     rotation?: number; // 旋转角度（弧度，默认0）
-    border?: {
-      width: number; // 边框宽度
-      color: string; // 边框颜色
-    }; // 边框样式（可选）
-    shape?: 'rect' | 'circle'; // 形状（默认矩形）
+    border?: StrokeStyle; // 边框/描边样式（可选）
+    shape?: ShapeType; // 形状（默认矩形）
+    fill?: FillStyle; // 填充样式（颜色/渐变/图案，优先于background）
     imageSrc?: string; // 图片资源路径（优先于背景色绘制）
+    frame?: SpriteFrame; // 当前精灵帧（图集子区域）
+    filter?: EntityFilter[]; // 滤镜（模糊、亮度、灰度、着色、投影，按顺序叠加）
+    blendMode?: GlobalCompositeOperation; // 与画布的混合模式（默认source-over）
+    zIndex?: number; // 层内绘制顺序（越大越靠上，默认0）
+    layer?: string; // 所属渲染层名称（默认"default"层）
+    isStatic?: boolean; // 是否为静态实体（烘焙到离屏缓存）
+    renderVersion?: number; // 外观版本号（外观变化时递增）
   }
 
 export type {PlayerStateType};
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Player } from "../Player/player";
+import type { TextStyle } from "../../render/text";
+
+/**
+ * TextEntity文本实体类
+ * 继承Player以便与玩家实体一起托管在场景实体池中（共享位置、层级、更新与渲染流程），
+ * 额外提供文本内容与文本样式，适用于名称标签、分数、伤害数字、聊天气泡等
+ */
+class TextEntity extends Player {
+    public text: string = ''; // 文本内容（\n强制换行）
+    public textStyle: TextStyle = {}; // 文本样式（未指定maxWidth时按实体宽度自动换行）
+
+    /**
+     * 构造函数
+     * @param params 实体属性（同Player），额外支持text与textStyle
+     * @throws {TypeError} 当参数类型不符合要求时抛出错误
+     */
+    constructor(params: { [key: string]: unknown } = {}) {
+        const { text, textStyle, ...rest } = params;
+        // 文本实体默认无背景色
+        super({ background: 'transparent', ...rest });
+        if (text !== undefined) this.setText(text as string);
+        if (textStyle !== undefined) this.setTextStyle(textStyle as TextStyle);
+    }
+
+    /** 设置文本内容（数字会被转为字符串，便于直接显示分数） */
+    setText(text: string | number): void {
+        if (typeof text !== 'string' && typeof text !== 'number') {
+            throw new TypeError('text must be a string or number');
+        }
+        this.text = String(text);
+    }
+
+    /** 替换文本样式 */
+    setTextStyle(style: TextStyle): void {
+        if (typeof style !== 'object' || style === null) {
+            throw new TypeError('textStyle must be an object');
+        }
+        this.textStyle = { ...style };
+    }
+
+    /** 合并修改部分文本样式 */
+    updateTextStyle(style: Partial<TextStyle>): void {
+        this.setTextStyle({ ...this.textStyle, ...style });
+    }
+}
+
+export { TextEntity };
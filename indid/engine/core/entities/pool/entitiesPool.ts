@@ -278,7 +278,7 @@ class EntityPool {
 
   /**
    * Player专属筛选：按渲染形状
-   * @param shape 渲染形状（rect/circle）
+   * @param shape 渲染形状（rect/circle/polygon等）
    * @returns 符合形状的Player实例数组
    */
   filterByShape(shape: PlayerShape): Player[] {
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Input } from './io';
+import { ActionMap } from './actions';
+import { GameLoop } from '../loop/loop';
+import { ManualScheduler } from '../loop/scheduler';
+import { fakePad, key } from './testing';
+import type { GamepadLike } from './gamepad';
+
+describe('ActionMap 等待新绑定', () => {
+  let loop: GameLoop;
+  let input: Input;
+  let scheduler: ManualScheduler;
+  let pads: Array<GamepadLike | null>;
+  let actions: ActionMap;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pads = [];
+    scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    input = new Input(undefined, { gamepadSource: () => pads });
+    input.bindGameLoop(loop);
+    actions = new ActionMap(input, { actions: { jump: [{ type: 'key', code: 'Space' }] } });
+    loop.start(false);
+  });
+
+  afterEach(() => {
+    loop.stop();
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('中止signal时以null结束，并移除拦截按键的监听', async () => {
+    const controller = new AbortController();
+    const capture = actions.captureNextBinding({ signal: controller.signal });
+    controller.abort();
+    await expect(capture).resolves.toBeNull();
+
+    const received = vi.fn();
+    window.addEventListener('keydown', received);
+    key('keydown', 'a');
+    expect(received).toHaveBeenCalledTimes(1);
+  });
+
+  it('已中止的signal直接返回null', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(actions.captureNextBinding({ signal: controller.signal })).resolves.toBeNull();
+  });
+
+  it('捕获触摸绑定', async () => {
+    const capture = actions.captureNextBinding();
+    window.dispatchEvent(Object.assign(new Event('touchstart'), { touches: [], changedTouches: [] }));
+    await expect(capture).resolves.toEqual({ type: 'touch' });
+  });
+
+  it('捕获手柄按键，开始等待时已按住的按键需先松开', async () => {
+    pads = [fakePad({ pressed: [0] })];
+    scheduler.step(1 / 60);
+
+    let result: unknown;
+    actions.captureNextBinding({ bindPad: true }).then(binding => { result = binding; });
+
+    // A键在开始等待时已按住，继续按住不被当作新绑定
+    scheduler.step(1 / 60);
+    await Promise.resolve();
+    expect(result).toBeUndefined();
+
+    // 松开A后按下B
+    pads = [fakePad()];
+    scheduler.step(1 / 60);
+    pads = [fakePad({ pressed: [1] })];
+    scheduler.step(1 / 60);
+    await Promise.resolve();
+    expect(result).toEqual({ type: 'gamepad', button: 'B', pad: 0 });
+  });
+});
+
+describe('ActionMap 查询', () => {
+  let input: Input;
+  let pads: GamepadLike[];
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pads = [];
+    input = new Input(undefined, { gamepadSource: () => pads });
+  });
+
+  afterEach(() => {
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('按键绑定按物理按键匹配，不受字符、大小写与键盘布局影响', () => {
+    const actions = new ActionMap(input, { actions: { jump: [{ type: 'key', code: 'KeyZ' }] } });
+    // 德语布局下KeyZ位置的键输出"y"
+    key('keydown', 'y', 'KeyZ');
+    input.beginFrame();
+    expect(actions.justPressed('jump')).toBe(true);
+    expect(actions.held('jump')).toBe(true);
+    key('keyup', 'Y', 'KeyZ');
+    input.beginFrame();
+    expect(actions.justReleased('jump')).toBe(true);
+
+    // 输出"z"但物理位置是KeyY的键不触发
+    key('keydown', 'z', 'KeyY');
+    input.beginFrame();
+    expect(actions.held('jump')).toBe(false);
+    expect(actions.isActionPressed('missing')).toBe(false);
+  });
+
+  it('读取帧快照：帧内结果一致，多个绑定按动作整体判断按下与松开', () => {
+    const actions = new ActionMap(input, {
+      actions: { up: [{ type: 'key', code: 'KeyW' }, { type: 'key', code: 'ArrowUp' }] },
+    });
+    key('keydown', 'w');
+    expect(actions.held('up')).toBe(false); // 下一次beginFrame才锁存
+    input.beginFrame();
+    expect(actions.justPressed('up')).toBe(true);
+    expect(actions.justPressed('up')).toBe(true);
+
+    // 按住W时再按上方向键不算刚按下，松开W时仍按住上方向键不算刚松开
+    key('keydown', 'ArrowUp', 'ArrowUp');
+    input.beginFrame();
+    expect(actions.justPressed('up')).toBe(false);
+    key('keyup', 'w');
+    input.beginFrame();
+    expect(actions.justReleased('up')).toBe(false);
+    expect(actions.held('up')).toBe(true);
+    key('keyup', 'ArrowUp', 'ArrowUp');
+    input.beginFrame();
+    expect(actions.justReleased('up')).toBe(true);
+    expect(actions.held('up')).toBe(false);
+
+    // 同一帧内按下又松开
+    key('keydown', 'w');
+    key('keyup', 'w');
+    input.beginFrame();
+    expect(actions.justPressed('up')).toBe(true);
+    expect(actions.justReleased('up')).toBe(true);
+    expect(actions.held('up')).toBe(false);
+  });
+
+  it('轴由正负向动作组成，手柄轴绑定越过阈值时刚按下', () => {
+    const actions = new ActionMap(input, {
+      actions: {
+        left: [{ type: 'key', code: 'KeyA' }, { type: 'gamepadAxis', axis: 0, direction: -1 }],
+        right: [{ type: 'key', code: 'KeyD' }, { type: 'gamepadAxis', axis: 0, direction: 1, threshold: 0.8 }],
+      },
+      axes: { moveX: { negative: 'left', positive: 'right' } },
+    });
+    expect(() => actions.defineAxis('moveY', { negative: 'down', positive: 'up' })).toThrow('[ActionMap]');
+
+    key('keydown', 'd');
+    input.beginFrame();
+    expect(actions.getAxis('moveX')).toBe(1);
+    key('keydown', 'a');
+    input.beginFrame();
+    expect(actions.getAxis('moveX')).toBe(0);
+    key('keyup', 'a');
+    key('keyup', 'd');
+    input.beginFrame();
+    expect(actions.getAxis('moveX')).toBe(0);
+    expect(actions.getAxis('missing')).toBe(0);
+
+    pads = [fakePad({ axes: [-0.6, 0, 0, 0] })];
+    input.beginFrame();
+    expect(actions.getAxis('moveX')).toBe(-1);
+    expect(actions.justPressed('left')).toBe(true);
+    input.beginFrame();
+    expect(actions.justPressed('left')).toBe(false);
+    expect(actions.held('left')).toBe(true);
+
+    // 未超过正向绑定的阈值
+    pads = [fakePad({ axes: [0.7, 0, 0, 0] })];
+    input.beginFrame();
+    expect(actions.justReleased('left')).toBe(true);
+    expect(actions.held('right')).toBe(false);
+    pads = [fakePad({ axes: [0.9, 0, 0, 0] })];
+    input.beginFrame();
+    expect(actions.justPressed('right')).toBe(true);
+    expect(actions.getAxis('moveX')).toBe(1);
+  });
+
+  it('手柄按键绑定：不限定槽位时任意手柄均可触发，断开时报告为刚松开', () => {
+    const actions = new ActionMap(input, {
+      actions: { jump: [{ type: 'gamepad', button: 'A' }], secondJump: [{ type: 'gamepad', button: 'A', pad: 1 }] },
+    });
+    pads = [fakePad({ pressed: [0] })];
+    input.beginFrame();
+    expect(actions.justPressed('jump')).toBe(true);
+    expect(actions.held('secondJump')).toBe(false);
+    pads = [];
+    input.beginFrame();
+    expect(actions.justReleased('jump')).toBe(true);
+  });
+
+  it('固定步长模式下一帧内多个逻辑步只有第一个报告刚按下', () => {
+    const scheduler = new ManualScheduler();
+    const loop = new GameLoop({ scheduler });
+    loop.setFixedTimestep(60);
+    input.bindGameLoop(loop);
+    const actions = new ActionMap(input, { actions: { jump: [{ type: 'key', code: 'Space' }] } });
+    const steps: boolean[] = [];
+    loop.addUpdateCallback(() => { steps.push(actions.justPressed('jump')); });
+    loop.start(false);
+    scheduler.step(1 / 60);
+
+    steps.length = 0;
+    key('keydown', ' ', 'Space');
+    scheduler.step(3 / 60);
+    expect(steps).toEqual([true, false, false]);
+    loop.stop();
+  });
+});
+
+describe('ActionMap 改键与序列化', () => {
+  let input: Input;
+  let actions: ActionMap;
+  const W = { type: 'key', code: 'KeyW' } as const;
+  const Up = { type: 'key', code: 'ArrowUp' } as const;
+  const Space = { type: 'key', code: 'Space' } as const;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    input = new Input();
+    actions = new ActionMap(input, { actions: { up: [W, Up], jump: [Space] } });
+  });
+
+  afterEach(() => {
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('与其他动作冲突时按策略处理：error抛出、allow共用、steal移除、swap交换', () => {
+    expect(() => actions.rebind('jump', 0, W)).toThrow('已绑定到动作"up"');
+    expect(actions.getBindings('jump')).toEqual([Space]);
+
+    actions.addBinding('jump', W, 'allow');
+    expect(actions.findConflicts(W)).toEqual(['up', 'jump']);
+    expect(actions.findConflicts(W, 'up')).toEqual(['jump']);
+    expect(actions.getConflicts()).toEqual([{ binding: W, actions: ['up', 'jump'] }]);
+
+    actions.resetToDefaults();
+    actions.rebind('jump', 0, W, 'steal');
+    expect(actions.getBindings('up')).toEqual([Up]);
+    expect(actions.getBindings('jump')).toEqual([W]);
+
+    actions.resetToDefaults();
+    actions.rebind('jump', 0, Up, 'swap');
+    expect(actions.getBindings('up')).toEqual([W, Space]);
+    expect(actions.getBindings('jump')).toEqual([Up]);
+    expect(actions.getConflicts()).toEqual([]);
+  });
+
+  it('改键为动作已有的另一个绑定时拒绝，序号越界时抛出错误', () => {
+    expect(() => actions.rebind('up', 1, W)).toThrow('[ActionMap] 动作"up"已绑定');
+    expect(actions.getBindings('up')).toEqual([W, Up]);
+    // 替换为自身与追加新绑定可以
+    actions.rebind('up', 0, W);
+    actions.rebind('up', 2, { type: 'mouse', button: 'left' });
+    expect(actions.getBindings('up')).toHaveLength(3);
+    expect(() => actions.rebind('up', 2, Up)).toThrow('[ActionMap]');
+    expect(() => actions.rebind('up', 5, Space)).toThrow('越界');
+    expect(() => actions.rebind('missing', 0, Space)).toThrow('不存在');
+  });
+
+  it('toJSON与loadJSON往返，拒绝不支持的版本并忽略未知动作与无效绑定', () => {
+    actions.rebind('jump', 0, { type: 'gamepad', button: 'A', pad: 1 });
+    actions.addBinding('up', { type: 'touch', region: { x: 0, y: 0, width: 100, height: 50 } });
+    const saved = JSON.stringify(actions.toJSON());
+
+    const restored = new ActionMap(input, { actions: { up: [W], jump: [Space], dash: [{ type: 'key', code: 'ShiftLeft' }] } });
+    restored.loadJSON(saved);
+    expect(restored.getBindings('up')).toEqual(actions.getBindings('up'));
+    expect(restored.getBindings('jump')).toEqual([{ type: 'gamepad', button: 'A', pad: 1 }]);
+    // 存档之后新增的动作保留默认绑定
+    expect(restored.getBindings('dash')).toEqual([{ type: 'key', code: 'ShiftLeft' }]);
+
+    expect(() => restored.loadJSON({ version: 99, bindings: {} })).toThrow('不支持的绑定数据版本');
+    expect(() => restored.loadJSON('null')).toThrow('[ActionMap]');
+    expect(() => restored.loadJSON({ version: 1 } as never)).toThrow('bindings');
+
+    restored.loadJSON({ version: 1, bindings: { ghost: [Space], jump: [Space, { type: 'key' } as never] } });
+    expect(restored.getBindings('jump')).toEqual([Space]);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+});
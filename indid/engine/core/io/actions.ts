@@ -0,0 +1,642 @@
+/**
+ * 动作映射模块
+ * 在Input之上以具名动作（如"jump"）和轴（如"moveX"）描述输入，
+ * 动作绑定到物理按键（KeyboardEvent.code）、鼠标按键、触摸区域或手柄按键/轴，支持运行时改键、冲突检测与JSON序列化
+ */
+
+import type { Input, MouseButton } from "./io";
+import type { ViewRect } from "../camera/camera";
+import type { ButtonSnapshot, InputSnapshot } from "./snapshot";
+import { STANDARD_BUTTONS, resolveGamepadButton } from "./gamepad";
+import type { GamepadButton } from "./gamepad";
+
+// ========== 类型定义 ==========
+/** 输入绑定 */
+type InputBinding =
+  | { type: 'key'; code: string } // 物理按键（KeyboardEvent.code，如'KeyW'、'Space'、'ArrowUp'）
+  | { type: 'mouse'; button: MouseButton } // 鼠标按键
+  | { type: 'touch'; region?: ViewRect } // 触摸（region为画布逻辑坐标区域，不传时任意位置）
+  | { type: 'gamepad'; button: GamepadButton; pad?: number } // 手柄按键（pad为手柄槽位，不传时任意手柄）
+  | { type: 'gamepadAxis'; axis: number; direction: 1 | -1; threshold?: number; pad?: number }; // 手柄轴（朝direction方向超过threshold视为按下，默认0.5）
+
+/** 轴定义：由两个动作组成，取值为正向动作 - 负向动作（-1、0、1） */
+type AxisDefinition = {
+  negative: string; // 负向动作名（如"moveLeft"）
+  positive: string; // 正向动作名（如"moveRight"）
+};
+
+/** 动作映射配置 */
+type ActionMapConfig = {
+  actions?: Record<string, InputBinding[]>; // 动作名 -> 默认绑定
+  axes?: Record<string, AxisDefinition>; // 轴名 -> 轴定义
+};
+
+/** 改键时的冲突处理：error抛出错误，allow允许重复，steal从原动作移除，swap与原动作交换 */
+type ConflictPolicy = 'error' | 'allow' | 'steal' | 'swap';
+
+/** 序列化格式（仅包含动作绑定，动作与轴的结构由代码定义） */
+type ActionMapJSON = {
+  version: number; // 格式版本
+  bindings: Record<string, InputBinding[]>; // 动作名 -> 绑定
+};
+
+/** 等待新绑定（captureNextBinding）的选项 */
+type CaptureBindingOptions = {
+  target?: EventTarget; // 鼠标与触摸事件目标（默认window）
+  signal?: AbortSignal; // 取消信号（中止时移除监听并以null结束，如改键界面卸载时）
+  touch?: boolean; // 是否接受触摸（默认true，得到任意位置的触摸绑定）
+  gamepad?: boolean; // 是否接受手柄按键与轴（默认true，需每帧调用beginFrame，通常通过bindGameLoop）
+  bindPad?: boolean; // 手柄绑定是否限定为按下的手柄槽位（默认false，任意手柄均可触发）
+  axisThreshold?: number; // 手柄轴超过该值视为按下（默认0.5）
+};
+
+/** 单个按键（或触点、手柄轴方向）在一帧内的状态 */
+type ButtonState = {
+  held: boolean; // 本帧按住
+  wasHeld: boolean; // 上一帧按住
+  pressed: boolean; // 本帧按下过
+  released: boolean; // 本帧松开过
+};
+
+/** 绑定冲突 */
+type BindingConflict = {
+  binding: InputBinding; // 重复的绑定
+  actions: string[]; // 使用该绑定的动作
+};
+
+const ACTION_MAP_VERSION = 1;
+
+/** 鼠标按键显示名 */
+const MOUSE_BUTTON_LABELS: Record<string, string> = { left: '鼠标左键', middle: '鼠标中键', right: '鼠标右键' };
+
+/** 手柄轴绑定的默认阈值 */
+const DEFAULT_AXIS_THRESHOLD = 0.5;
+
+/** 标准布局按键序号 -> 按键名 */
+const STANDARD_BUTTON_NAMES: Record<number, GamepadButton> = Object.fromEntries(
+  Object.entries(STANDARD_BUTTONS).map(([name, index]) => [index, name as GamepadButton])
+);
+
+// ========== 工具函数 ==========
+/**
+ * 判断两个绑定是否相同（触摸绑定按区域比较）
+ */
+function isSameBinding(a: InputBinding, b: InputBinding): boolean {
+  if (a.type === 'key' && b.type === 'key') return a.code === b.code;
+  if (a.type === 'mouse' && b.type === 'mouse') return a.button === b.button;
+  if (a.type === 'touch' && b.type === 'touch') {
+    if (!a.region || !b.region) return !a.region && !b.region;
+    return a.region.x === b.region.x && a.region.y === b.region.y &&
+      a.region.width === b.region.width && a.region.height === b.region.height;
+  }
+  if (a.type === 'gamepad' && b.type === 'gamepad') return a.button === b.button && a.pad === b.pad;
+  if (a.type === 'gamepadAxis' && b.type === 'gamepadAxis') {
+    return a.axis === b.axis && a.direction === b.direction && a.pad === b.pad;
+  }
+  return false;
+}
+
+/**
+ * 校验绑定格式（加载JSON时使用）
+ */
+function isInputBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const binding = value as Record<string, unknown>;
+  switch (binding.type) {
+    case 'key':
+      return typeof binding.code === 'string' && binding.code.length > 0;
+    case 'mouse':
+      return typeof binding.button === 'string' || typeof binding.button === 'number';
+    case 'touch': {
+      if (binding.region === undefined) return true;
+      const region = binding.region as Record<string, unknown> | null;
+      return typeof region === 'object' && region !== null &&
+        ['x', 'y', 'width', 'height'].every(k => typeof region[k] === 'number');
+    }
+    case 'gamepad':
+      return ((typeof binding.button === 'string' && Object.keys(STANDARD_BUTTONS).includes(binding.button)) || typeof binding.button === 'number') &&
+        (binding.pad === undefined || typeof binding.pad === 'number');
+    case 'gamepadAxis':
+      return typeof binding.axis === 'number' && (binding.direction === 1 || binding.direction === -1) &&
+        (binding.threshold === undefined || typeof binding.threshold === 'number') &&
+        (binding.pad === undefined || typeof binding.pad === 'number');
+    default:
+      return false;
+  }
+}
+
+/**
+ * 获取绑定的显示名（用于改键界面，如'KeyW' -> 'W'）
+ */
+function describeBinding(binding: InputBinding): string {
+  switch (binding.type) {
+    case 'key':
+      return binding.code
+        .replace(/^Key([A-Z])$/, '$1')
+        .replace(/^Digit(\d)$/, '$1')
+        .replace(/^Numpad(\w+)$/, '小键盘$1')
+        .replace(/^Arrow(\w+)$/, '方向键$1');
+    case 'mouse':
+      return MOUSE_BUTTON_LABELS[String(binding.button)] ?? `鼠标按键${binding.button}`;
+    case 'touch':
+      return binding.region
+        ? `触摸(${binding.region.x},${binding.region.y},${binding.region.width}×${binding.region.height})`
+        : '触摸';
+    case 'gamepad':
+      return `${binding.pad === undefined ? '手柄' : `手柄${binding.pad + 1}`} ${typeof binding.button === 'number' ? `按键${binding.button}` : binding.button}`;
+    case 'gamepadAxis':
+      return `${binding.pad === undefined ? '手柄' : `手柄${binding.pad + 1}`} 轴${binding.axis}${binding.direction > 0 ? '+' : '-'}`;
+  }
+}
+
+/**
+ * 按键快照中某个按键的状态
+ * 同一帧内按下又松开时：当前按住视为先松开再按下（上一帧按住），否则视为先按下再松开（上一帧未按住）
+ */
+function buttonState<T>(snapshot: ButtonSnapshot<T>, id: T): ButtonState {
+  const held = snapshot.held(id);
+  const pressed = snapshot.justPressed(id);
+  const released = snapshot.justReleased(id);
+  return { held, pressed, released, wasHeld: held ? !pressed || released : released && !pressed };
+}
+
+/** 点是否在区域内（含边界） */
+function inRegion(region: ViewRect, x: number, y: number): boolean {
+  return x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+}
+
+function cloneBinding(binding: InputBinding): InputBinding {
+  if (binding.type === 'touch' && binding.region) return { type: 'touch', region: { ...binding.region } };
+  return { ...binding };
+}
+
+class ActionMap {
+  // ========== 私有状态 ==========
+  /** 关联的输入模块 */
+  private input: Input;
+  /** 当前绑定：动作名 -> 绑定列表 */
+  private actions: Map<string, InputBinding[]>;
+  /** 默认绑定（resetToDefaults时恢复） */
+  private defaults: Map<string, InputBinding[]>;
+  /** 轴定义：轴名 -> 正负向动作 */
+  private axes: Map<string, AxisDefinition>;
+
+  // ========== 构造函数 ==========
+  /**
+   * 创建动作映射
+   * @param input 输入模块（读取按键、鼠标与触摸状态）
+   * @param config 动作与轴的默认配置（可选）
+   * @throws {Error} 配置中的轴引用了未定义的动作时抛出错误
+   */
+  constructor(input: Input, config: ActionMapConfig = {}) {
+    this.input = input;
+    this.actions = new Map();
+    this.defaults = new Map();
+    this.axes = new Map();
+    Object.entries(config.actions ?? {}).forEach(([name, bindings]) => this.defineAction(name, bindings));
+    Object.entries(config.axes ?? {}).forEach(([name, axis]) => this.defineAxis(name, axis));
+  }
+
+  // ========== 定义 ==========
+  /**
+   * 定义动作（已存在时覆盖其默认绑定与当前绑定）
+   * @param name 动作名
+   * @param bindings 默认绑定（可为空，之后由玩家绑定）
+   * @throws {Error} 动作名为空或绑定格式无效时抛出错误
+   */
+  defineAction(name: string, bindings: InputBinding[] = []): void {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error('[ActionMap] 动作名必须是非空字符串');
+    }
+    bindings.forEach(binding => this.assertBinding(binding));
+    this.defaults.set(name, bindings.map(cloneBinding));
+    this.actions.set(name, bindings.map(cloneBinding));
+  }
+
+  /**
+   * 定义轴
+   * @param name 轴名
+   * @param axis 正负向动作
+   * @throws {Error} 引用了未定义的动作时抛出错误
+   */
+  defineAxis(name: string, axis: AxisDefinition): void {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error('[ActionMap] 轴名必须是非空字符串');
+    }
+    [axis.negative, axis.positive].forEach(action => this.assertAction(action));
+    this.axes.set(name, { negative: axis.negative, positive: axis.positive });
+  }
+
+  /**
+   * 移除动作（同时移除引用该动作的轴）
+   * @param name 动作名
+   */
+  removeAction(name: string): void {
+    this.actions.delete(name);
+    this.defaults.delete(name);
+    this.axes.forEach((axis, axisName) => {
+      if (axis.negative === name || axis.positive === name) this.axes.delete(axisName);
+    });
+  }
+
+  /**
+   * 获取所有动作名
+   */
+  getActionNames(): string[] {
+    return Array.from(this.actions.keys());
+  }
+
+  /**
+   * 获取所有轴名
+   */
+  getAxisNames(): string[] {
+    return Array.from(this.axes.keys());
+  }
+
+  // ========== 查询 ==========
+  // 查询读取Input的帧快照（input.frame），同一帧内结果一致；fixedUpdate阶段读取逻辑步快照，
+  // 按下/松开只在本帧第一个逻辑步报告。动作有多个绑定时按整体判断：
+  // 按住一个绑定时再按下另一个绑定不算刚按下，松开其中一个而另一个仍按住不算刚松开
+
+  /**
+   * 动作在本帧是否**按住**（任一绑定处于按下状态）
+   * @param name 动作名
+   * @returns 是否按住（动作不存在时返回false）
+   */
+  held(name: string): boolean {
+    return this.getActionStates(name).some(state => state.held);
+  }
+
+  /**
+   * 动作是否在本帧**刚按下**（之前没有任何绑定按住）
+   * @param name 动作名
+   */
+  justPressed(name: string): boolean {
+    const states = this.getActionStates(name);
+    return states.some(state => state.pressed) && !states.some(state => state.wasHeld);
+  }
+
+  /**
+   * 动作是否在本帧**刚松开**（之后没有任何绑定按住）
+   * @param name 动作名
+   */
+  justReleased(name: string): boolean {
+    const states = this.getActionStates(name);
+    return states.some(state => state.released) && !states.some(state => state.held);
+  }
+
+  /**
+   * 检查动作是否**持续按下**（同held）
+   * @param name 动作名
+   * @returns 是否按下（动作不存在时返回false）
+   */
+  isActionPressed(name: string): boolean {
+    return this.held(name);
+  }
+
+  /**
+   * 获取轴的取值（正向动作按下为1，负向为-1，同时按下或都未按下为0）
+   * @param name 轴名
+   * @returns 轴取值（轴不存在时返回0）
+   */
+  getAxis(name: string): number {
+    const axis = this.axes.get(name);
+    if (!axis) return 0;
+    return (this.held(axis.positive) ? 1 : 0) - (this.held(axis.negative) ? 1 : 0);
+  }
+
+  /**
+   * 检查单个绑定在本帧是否处于按下状态
+   * @param binding 输入绑定
+   */
+  isBindingActive(binding: InputBinding): boolean {
+    return this.getBindingStates(binding, this.input.frame).some(state => state.held);
+  }
+
+  // ========== 改键 ==========
+  /**
+   * 获取动作的当前绑定（返回拷贝）
+   * @param name 动作名
+   * @throws {Error} 动作不存在时抛出错误
+   */
+  getBindings(name: string): InputBinding[] {
+    this.assertAction(name);
+    return this.actions.get(name)!.map(cloneBinding);
+  }
+
+  /**
+   * 替换动作的全部绑定
+   * @param name 动作名
+   * @param bindings 新绑定
+   * @param policy 与其他动作冲突时的处理方式（默认error；swap视同steal）
+   */
+  setBindings(name: string, bindings: InputBinding[], policy: ConflictPolicy = 'error'): void {
+    this.assertAction(name);
+    bindings.forEach(binding => this.assertBinding(binding));
+    bindings.forEach(binding => this.resolveConflict(name, binding, undefined, policy === 'swap' ? 'steal' : policy));
+    this.actions.set(name, bindings.map(cloneBinding));
+  }
+
+  /**
+   * 为动作添加绑定（已存在相同绑定时忽略）
+   * @param name 动作名
+   * @param binding 新绑定
+   * @param policy 与其他动作冲突时的处理方式（默认error；swap视同steal）
+   */
+  addBinding(name: string, binding: InputBinding, policy: ConflictPolicy = 'error'): void {
+    this.assertAction(name);
+    this.assertBinding(binding);
+    const bindings = this.actions.get(name)!;
+    if (bindings.some(item => isSameBinding(item, binding))) return;
+    this.resolveConflict(name, binding, undefined, policy === 'swap' ? 'steal' : policy);
+    bindings.push(cloneBinding(binding));
+  }
+
+  /**
+   * 移除动作的绑定
+   * @param name 动作名
+   * @param binding 要移除的绑定
+   */
+  removeBinding(name: string, binding: InputBinding): void {
+    this.assertAction(name);
+    this.actions.set(name, this.actions.get(name)!.filter(item => !isSameBinding(item, binding)));
+  }
+
+  /**
+   * 改键：替换动作的第index个绑定（index等于绑定数量时追加）
+   * @param name 动作名
+   * @param index 绑定序号
+   * @param binding 新绑定
+   * @param policy 与其他动作冲突时的处理方式（默认error；swap时原动作获得被替换的旧绑定）
+   * @throws {Error} 动作不存在、序号越界、动作的其他绑定已是该绑定或冲突（policy为error）时抛出错误
+   */
+  rebind(name: string, index: number, binding: InputBinding, policy: ConflictPolicy = 'error'): void {
+    this.assertAction(name);
+    this.assertBinding(binding);
+    const bindings = this.actions.get(name)!;
+    if (!Number.isInteger(index) || index < 0 || index > bindings.length) {
+      throw new Error(`[ActionMap] 动作"${name}"的绑定序号${index}越界（共${bindings.length}个）`);
+    }
+    if (bindings.some((item, i) => i !== index && isSameBinding(item, binding))) {
+      throw new Error(`[ActionMap] 动作"${name}"已绑定${describeBinding(binding)}`);
+    }
+    this.resolveConflict(name, binding, bindings[index], policy);
+    bindings[index] = cloneBinding(binding);
+  }
+
+  /**
+   * 查找已使用该绑定的动作
+   * @param binding 输入绑定
+   * @param except 排除的动作名（如正在改键的动作）
+   * @returns 动作名列表
+   */
+  findConflicts(binding: InputBinding, except?: string): string[] {
+    const result: string[] = [];
+    this.actions.forEach((bindings, name) => {
+      if (name !== except && bindings.some(item => isSameBinding(item, binding))) result.push(name);
+    });
+    return result;
+  }
+
+  /**
+   * 列出所有被多个动作共用的绑定
+   */
+  getConflicts(): BindingConflict[] {
+    const conflicts: BindingConflict[] = [];
+    this.actions.forEach(bindings => {
+      bindings.forEach(binding => {
+        if (conflicts.some(conflict => isSameBinding(conflict.binding, binding))) return;
+        const actions = this.findConflicts(binding);
+        if (actions.length > 1) conflicts.push({ binding: cloneBinding(binding), actions });
+      });
+    });
+    return conflicts;
+  }
+
+  /**
+   * 等待玩家按下下一个按键、鼠标按键、触摸或手柄按键/轴（用于"请按下新按键"的改键界面）
+   * 按Escape或中止signal时取消；键盘、鼠标与触摸事件在捕获阶段被拦截，不会触发游戏内的响应；
+   * 手柄在每帧轮询后检测，开始等待时已按下的手柄按键需先松开
+   * @param options 事件目标、取消信号与可接受的输入类型
+   * @returns 新绑定，取消时为null
+   */
+  captureNextBinding(options: CaptureBindingOptions = {}): Promise<InputBinding | null> {
+    const { target = window, signal, touch = true, gamepad = true, bindPad = false, axisThreshold = DEFAULT_AXIS_THRESHOLD } = options;
+    if (signal?.aborted) return Promise.resolve(null);
+    return new Promise(resolve => {
+      const cleanups: Array<() => void> = [];
+      const listen = (eventTarget: EventTarget, type: string, handler: (evt: Event) => InputBinding | null) => {
+        const listener = (evt: Event) => {
+          evt.preventDefault();
+          evt.stopImmediatePropagation();
+          finish(handler(evt));
+        };
+        eventTarget.addEventListener(type, listener, { capture: true });
+        cleanups.push(() => eventTarget.removeEventListener(type, listener, { capture: true }));
+      };
+      const finish = (binding: InputBinding | null) => {
+        cleanups.forEach(cleanup => cleanup());
+        cleanups.length = 0;
+        resolve(binding);
+      };
+
+      listen(window, 'keydown', evt => {
+        const { code } = evt as KeyboardEvent;
+        return code === 'Escape' ? null : { type: 'key', code };
+      });
+      listen(target, 'mousedown', evt => {
+        const { button } = evt as MouseEvent;
+        const buttons: Record<number, MouseButton> = { 0: 'left', 1: 'middle', 2: 'right' };
+        return { type: 'mouse', button: buttons[button] ?? button };
+      });
+      if (touch) listen(target, 'touchstart', () => ({ type: 'touch' }));
+      if (gamepad) {
+        // 开始等待时已按住的手柄输入需先松开，避免把打开改键界面的按键当作新绑定
+        const ignored = new Set(this.getHeldGamepadInputs(axisThreshold, bindPad).map(({ key }) => key));
+        cleanups.push(this.input.onFrame(() => {
+          const held = this.getHeldGamepadInputs(axisThreshold, bindPad);
+          ignored.forEach(key => {
+            if (!held.some(item => item.key === key)) ignored.delete(key);
+          });
+          const next = held.find(({ key }) => !ignored.has(key));
+          if (next) finish(next.binding);
+        }));
+      }
+      if (signal) {
+        const onAbort = () => finish(null);
+        signal.addEventListener('abort', onAbort);
+        cleanups.push(() => signal.removeEventListener('abort', onAbort));
+      }
+    });
+  }
+
+  /**
+   * 恢复默认绑定
+   * @param name 动作名（不传则恢复全部动作）
+   */
+  resetToDefaults(name?: string): void {
+    const names = name === undefined ? Array.from(this.defaults.keys()) : [name];
+    names.forEach(action => {
+      this.assertAction(action);
+      this.actions.set(action, this.defaults.get(action)!.map(cloneBinding));
+    });
+  }
+
+  // ========== 序列化 ==========
+  /**
+   * 导出当前绑定（可JSON.stringify后保存到本地，供玩家自定义按键）
+   */
+  toJSON(): ActionMapJSON {
+    const bindings: Record<string, InputBinding[]> = {};
+    this.actions.forEach((list, name) => {
+      bindings[name] = list.map(cloneBinding);
+    });
+    return { version: ACTION_MAP_VERSION, bindings };
+  }
+
+  /**
+   * 加载绑定（仅覆盖已定义动作的绑定；未知动作与无效绑定被忽略并提示，之后新增的动作保留默认绑定）
+   * @param data 序列化数据或其JSON字符串
+   * @throws {Error} 数据格式无效或版本不兼容时抛出错误
+   */
+  loadJSON(data: ActionMapJSON | string): void {
+    const parsed: unknown = typeof data === 'string' ? JSON.parse(data) : data;
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error('[ActionMap] 绑定数据格式无效');
+    }
+    const { version, bindings } = parsed as Partial<ActionMapJSON>;
+    if (version !== ACTION_MAP_VERSION) {
+      throw new Error(`[ActionMap] 不支持的绑定数据版本：${version}（当前版本${ACTION_MAP_VERSION}）`);
+    }
+    if (typeof bindings !== 'object' || bindings === null) {
+      throw new Error('[ActionMap] 绑定数据缺少bindings字段');
+    }
+    Object.entries(bindings).forEach(([name, list]) => {
+      if (!this.actions.has(name)) {
+        console.warn(`[ActionMap] 忽略未定义的动作"${name}"的绑定`);
+        return;
+      }
+      if (!Array.isArray(list)) {
+        console.warn(`[ActionMap] 动作"${name}"的绑定不是数组，保留当前绑定`);
+        return;
+      }
+      const valid = list.filter(isInputBinding);
+      if (valid.length !== list.length) {
+        console.warn(`[ActionMap] 动作"${name}"中有${list.length - valid.length}个无效绑定已忽略`);
+      }
+      this.actions.set(name, valid.map(cloneBinding));
+    });
+  }
+
+  // ========== 私有工具方法 ==========
+  /** 动作全部绑定在本帧的状态（动作不存在时为空） */
+  private getActionStates(name: string): ButtonState[] {
+    const frame = this.input.frame;
+    return (this.actions.get(name) ?? []).flatMap(binding => this.getBindingStates(binding, frame));
+  }
+
+  /**
+   * 绑定涉及的各个按键在本帧的状态
+   * （任意位置的触摸与不限定槽位的手柄绑定涉及多个触点/手柄，有一个按住即视为绑定按住）
+   */
+  private getBindingStates(binding: InputBinding, frame: InputSnapshot): ButtonState[] {
+    switch (binding.type) {
+      case 'key':
+        return [buttonState(frame.codes, binding.code)];
+      case 'mouse':
+        return [buttonState(frame.mouse, binding.button)];
+      case 'touch': {
+        const { region } = binding;
+        const { touches } = frame;
+        const ids = new Set([...touches.getHeld(), ...touches.getJustPressed(), ...touches.getJustReleased()]);
+        // 限定区域时只计入位于区域内的触点（抬起的触点按抬起位置判断）
+        const inside = region
+          ? new Set(frame.touchPositions.filter(({ x, y }) => inRegion(region, x, y)).map(({ id }) => id))
+          : ids;
+        return Array.from(ids).filter(id => inside.has(id)).map(id => buttonState(touches, id));
+      }
+      case 'gamepad': {
+        const button = resolveGamepadButton(binding.button);
+        const slots = binding.pad === undefined ? frame.gamepadButtons.getSlots() : [binding.pad];
+        return slots.map(slot => buttonState(frame.gamepadButtons.getButtons(slot), button));
+      }
+      case 'gamepadAxis': {
+        const threshold = binding.threshold ?? DEFAULT_AXIS_THRESHOLD;
+        const { gamepadAxes } = frame;
+        const slots = binding.pad === undefined ? gamepadAxes.getSlots() : [binding.pad];
+        return slots.map(slot => {
+          const held = gamepadAxes.value(slot, binding.axis) * binding.direction >= threshold;
+          const wasHeld = gamepadAxes.previous(slot, binding.axis) * binding.direction >= threshold;
+          return { held, wasHeld, pressed: held && !wasHeld, released: wasHeld && !held };
+        });
+      }
+    }
+  }
+
+  private assertAction(name: string): void {
+    if (!this.actions.has(name)) {
+      throw new Error(`[ActionMap] 动作"${name}"不存在`);
+    }
+  }
+
+  /**
+   * 列出已连接手柄上当前按住的按键与超过阈值的轴（改键用，key为"槽位:b按键序号"或"槽位:a轴序号±"）
+   * @param threshold 轴阈值
+   * @param bindPad 绑定是否限定为对应的手柄槽位
+   */
+  private getHeldGamepadInputs(threshold: number, bindPad: boolean): Array<{ key: string; binding: InputBinding }> {
+    const raw = this.input.getGamepadData();
+    const held: Array<{ key: string; binding: InputBinding }> = [];
+    this.input.getGamepads().forEach((info, i) => {
+      const pad = bindPad ? { pad: info.slot } : {};
+      raw[i]?.buttons.forEach((_, index) => {
+        if (!this.input.isGamepadButtonPressed(info.slot, index)) return;
+        const name = info.mapping === 'standard' ? STANDARD_BUTTON_NAMES[index] : undefined;
+        held.push({ key: `${info.slot}:b${index}`, binding: { type: 'gamepad', button: name ?? index, ...pad } });
+      });
+      raw[i]?.axes.forEach((_, axis) => {
+        const value = this.input.getGamepadAxis(info.slot, axis);
+        if (Math.abs(value) < threshold) return;
+        const direction = value > 0 ? 1 : -1;
+        held.push({
+          key: `${info.slot}:a${axis}${direction > 0 ? '+' : '-'}`,
+          binding: { type: 'gamepadAxis', axis, direction, ...pad },
+        });
+      });
+    });
+    return held;
+  }
+
+  private assertBinding(binding: InputBinding): void {
+    if (!isInputBinding(binding)) {
+      throw new Error(`[ActionMap] 无效的输入绑定：${JSON.stringify(binding)}`);
+    }
+  }
+
+  /**
+   * 按策略处理绑定冲突
+   * @param name 正在改键的动作
+   * @param binding 新绑定
+   * @param previous 被替换的旧绑定（swap时交给原动作）
+   * @param policy 冲突处理方式
+   */
+  private resolveConflict(name: string, binding: InputBinding, previous: InputBinding | undefined, policy: ConflictPolicy): void {
+    const owners = this.findConflicts(binding, name);
+    if (owners.length === 0 || policy === 'allow') return;
+    if (policy === 'error') {
+      throw new Error(`[ActionMap] ${describeBinding(binding)}已绑定到动作"${owners.join('", "')}"`);
+    }
+    owners.forEach(owner => {
+      const list = this.actions.get(owner)!;
+      const index = list.findIndex(item => isSameBinding(item, binding));
+      if (policy === 'swap' && previous) {
+        list[index] = cloneBinding(previous);
+      } else {
+        list.splice(index, 1);
+      }
+    });
+  }
+}
+
+export { ActionMap, isSameBinding, isInputBinding, describeBinding };
+export type { InputBinding, AxisDefinition, ActionMapConfig, ConflictPolicy, ActionMapJSON, BindingConflict, CaptureBindingOptions };
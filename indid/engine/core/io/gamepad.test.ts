@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GamepadManager } from './gamepad';
+import { Input } from './io';
+import { fakePad } from './testing';
+import type { GamepadLike } from './gamepad';
+
+/** 同一型号（相同设备描述）的手柄 */
+const xbox = (index: number) => fakePad({ index, id: 'Xbox Controller' });
+
+/** 槽位 -> 该槽位上手柄的浏览器序号 */
+function slotIndices(manager: GamepadManager): Record<number, number> {
+  const raw = manager.getRawPads();
+  return Object.fromEntries(manager.getConnected().map((info, i) => [info.slot, raw[i].index]));
+}
+
+describe('GamepadManager 槽位', () => {
+  it('相同型号的两个手柄都断开后重连，各自恢复原槽位', () => {
+    let pads: GamepadLike[] = [];
+    const manager = new GamepadManager(() => pads);
+    const first = xbox(0);
+    const second = xbox(1);
+
+    pads = [first, second];
+    manager.poll();
+    expect(slotIndices(manager)).toEqual({ 0: 0, 1: 1 });
+
+    pads = [];
+    manager.poll();
+    expect(manager.getConnected()).toEqual([]);
+
+    // 先重连浏览器序号0的手柄，再重连序号1的手柄
+    pads = [first];
+    manager.poll();
+    pads = [first, second];
+    manager.poll();
+    expect(slotIndices(manager)).toEqual({ 0: 0, 1: 1 });
+  });
+
+  it('浏览器序号变化时仍恢复同型号手柄空出的槽位', () => {
+    let pads: GamepadLike[] = [];
+    const manager = new GamepadManager(() => pads);
+    const other = fakePad({ id: 'Other Pad' });
+
+    pads = [other, xbox(1)];
+    manager.poll();
+    pads = [other];
+    manager.poll();
+
+    pads = [other, xbox(3)];
+    manager.poll();
+    expect(manager.getConnected().map(info => [info.slot, info.id])).toEqual([[0, 'Other Pad'], [1, 'Xbox Controller']]);
+  });
+});
+
+describe('GamepadManager 摇杆与扳机', () => {
+  it('摇杆径向死区内为0，死区外重新映射且长度不超过1', () => {
+    let axes = [0.1, 0.1, 0, 0];
+    const manager = new GamepadManager(() => [fakePad({ axes })]);
+    manager.poll();
+    // 单轴均未超过死区，但按长度判断
+    expect(manager.getStick(0)).toEqual({ x: 0, y: 0 });
+
+    axes = [0.6, 0, 0, -0.575];
+    manager.poll();
+    expect(manager.getStick(0).x).toBeCloseTo((0.6 - 0.15) / 0.85);
+    expect(manager.getStick(0).y).toBe(0);
+    expect(manager.getStick(0, 'right').y).toBeCloseTo(-0.5);
+
+    // 对角线推满时长度为1，方向不变
+    axes = [1, 1, 0, 0];
+    manager.poll();
+    const { x, y } = manager.getStick(0);
+    expect(Math.hypot(x, y)).toBeCloseTo(1);
+    expect(x).toBeCloseTo(y);
+    expect(manager.getAxis(0, 0)).toBe(1);
+  });
+
+  it('扳机应用死区并映射到0-1，死区可配置且校验范围', () => {
+    let values: Record<number, number> = { 6: 0.04, 7: 0.525 };
+    const manager = new GamepadManager(() => [fakePad({ values })]);
+    manager.poll();
+    expect(manager.getTrigger(0, 'left')).toBe(0);
+    expect(manager.getTrigger(0)).toBeCloseTo(0.5);
+
+    values = { 6: 1, 7: 0.5 };
+    manager.setDeadzones({ trigger: 0.5 });
+    manager.poll();
+    expect(manager.getTrigger(0, 'left')).toBe(1);
+    expect(manager.getTrigger(0)).toBe(0);
+    expect(manager.getDeadzones()).toEqual({ stick: 0.15, trigger: 0.5 });
+    expect(() => manager.setDeadzones({ stick: 1 })).toThrow('[Gamepad]');
+    expect(manager.getTrigger(1)).toBe(0);
+  });
+});
+
+describe('GamepadManager 按键', () => {
+  it('按住期间持续按下，单次触发每次按下只返回一次', () => {
+    let values: Record<number, number> = {};
+    const manager = new GamepadManager(() => [fakePad({ values })]);
+    manager.poll();
+    expect(manager.isButtonPressed(0, 'A')).toBe(false);
+
+    values = { 0: 1 };
+    manager.poll();
+    expect(manager.isButtonPressed(0, 'A')).toBe(true);
+    expect(manager.isButtonPressed(0, 0)).toBe(true);
+    expect(manager.isButtonPressedOnce(0, 'A')).toBe(true);
+    expect(manager.isButtonPressedOnce(0, 'A')).toBe(false);
+
+    // 继续按住不会再次单次触发
+    manager.poll();
+    expect(manager.isButtonPressed(0, 'A')).toBe(true);
+    expect(manager.isButtonPressedOnce(0, 'A')).toBe(false);
+
+    values = {};
+    manager.poll();
+    values = { 0: 1 };
+    manager.poll();
+    expect(manager.isButtonPressedOnce(0, 'A')).toBe(true);
+    expect(() => manager.isButtonPressed(0, 'Nope' as never)).toThrow('[Gamepad]');
+  });
+
+  it('每次轮询的按键边沿，断开时按住的按键报告为刚松开', () => {
+    let pads: GamepadLike[] = [fakePad({ pressed: [0] })];
+    const manager = new GamepadManager(() => pads);
+    manager.poll();
+    expect(manager.getButtonEdges()).toEqual([{ slot: 0, held: [0], pressed: [0], released: [] }]);
+
+    pads = [fakePad({ pressed: [0, 1] })];
+    manager.poll();
+    expect(manager.getButtonEdges()).toEqual([{ slot: 0, held: [0, 1], pressed: [1], released: [] }]);
+
+    pads = [];
+    manager.poll();
+    expect(manager.getButtonEdges()).toEqual([{ slot: 0, held: [], pressed: [], released: [0, 1] }]);
+    manager.poll();
+    expect(manager.getButtonEdges()).toEqual([]);
+  });
+});
+
+describe('GamepadManager 连接与震动', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('轮询时检测连接与断开并通知监听，移除监听后不再通知', () => {
+    let pads: GamepadLike[] = [];
+    const manager = new GamepadManager(() => pads);
+    const connects = vi.fn();
+    const disconnects = vi.fn();
+    const offConnect = manager.onConnect(connects);
+    manager.onDisconnect(disconnects);
+
+    pads = [fakePad({ id: 'Pad A' }), fakePad({ index: 1, id: 'Pad B', connected: false })];
+    manager.poll();
+    expect(connects).toHaveBeenCalledTimes(1);
+    expect(connects).toHaveBeenCalledWith({ slot: 0, id: 'Pad A', mapping: 'standard', canVibrate: false });
+    expect(manager.isConnected(0)).toBe(true);
+    expect(manager.isConnected(1)).toBe(false);
+
+    manager.poll();
+    expect(connects).toHaveBeenCalledTimes(1);
+
+    pads = [];
+    manager.poll();
+    expect(disconnects).toHaveBeenCalledWith(expect.objectContaining({ slot: 0, id: 'Pad A' }));
+    expect(manager.isConnected(0)).toBe(false);
+
+    offConnect();
+    pads = [fakePad({ id: 'Pad A' })];
+    manager.poll();
+    expect(connects).toHaveBeenCalledTimes(1);
+  });
+
+  it('通过vibrationActuator震动，不支持或失败时返回false', async () => {
+    const playEffect = vi.fn(() => Promise.resolve('complete'));
+    const reset = vi.fn(() => Promise.resolve('complete'));
+    const failing = vi.fn(() => Promise.reject(new Error('busy')));
+    const manager = new GamepadManager(() => [
+      fakePad({ id: 'Rumble', vibrationActuator: { playEffect, reset } }),
+      fakePad({ index: 1, id: 'Plain' }),
+      fakePad({ index: 2, id: 'Broken', vibrationActuator: { playEffect: failing } }),
+    ]);
+    manager.poll();
+    expect(manager.getConnected().map(info => info.canVibrate)).toEqual([true, false, true]);
+
+    await expect(manager.vibrate(0, { duration: 80, strongMagnitude: 2, weakMagnitude: 0.5 })).resolves.toBe(true);
+    expect(playEffect).toHaveBeenCalledWith('dual-rumble', { duration: 80, strongMagnitude: 1, weakMagnitude: 0.5 });
+    await manager.stopVibration(0);
+    expect(reset).toHaveBeenCalledTimes(1);
+
+    await expect(manager.vibrate(1)).resolves.toBe(false);
+    await expect(manager.vibrate(2)).resolves.toBe(false);
+    await expect(manager.vibrate(5)).resolves.toBe(false);
+    await expect(manager.stopVibration(1)).resolves.toBeUndefined();
+  });
+});
+
+describe('Input 手柄帧快照', () => {
+  let input: Input;
+  let pads: GamepadLike[];
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pads = [];
+    input = new Input(undefined, { gamepadSource: () => pads });
+  });
+
+  afterEach(() => {
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('按键边沿锁存到帧快照，同一帧内多次读取结果一致', () => {
+    pads = [fakePad({ pressed: [0] })];
+    input.beginFrame();
+    expect(input.frame.gamepadButtons.justPressed(0, 'A')).toBe(true);
+    expect(input.frame.gamepadButtons.justPressed(0, 'A')).toBe(true);
+    expect(input.frame.gamepadButtons.held(0, 0)).toBe(true);
+    expect(input.frame.gamepadButtons.justPressed(1, 'A')).toBe(false);
+
+    // 已废弃的单次触发仍可用，且不影响帧快照
+    expect(input.isGamepadButtonPressedOnce(0, 'A')).toBe(true);
+    expect(input.frame.gamepadButtons.justPressed(0, 'A')).toBe(true);
+
+    input.beginFrame();
+    expect(input.frame.gamepadButtons.justPressed(0, 'A')).toBe(false);
+    expect(input.frame.gamepadButtons.held(0, 'A')).toBe(true);
+
+    pads = [fakePad()];
+    input.beginFrame();
+    expect(input.frame.gamepadButtons.justReleased(0, 'A')).toBe(true);
+    expect(input.frame.gamepadButtons.held(0, 'A')).toBe(false);
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * 手柄输入模块
+ * 基于Gamepad API逐帧轮询手柄状态：按键的持续按下/单次触发、带死区的摇杆与扳机、连接/断开事件、震动
+ * 多个手柄按连接顺序分配稳定的玩家槽位（0、1、2…），断开重连后优先恢复原槽位
+ * 手柄数据源可注入（测试时使用假手柄）
+ */
+
+// ========== 类型定义 ==========
+/** 标准布局（W3C standard mapping）的按键名，或按键序号 */
+type GamepadButton =
+  | 'A' | 'B' | 'X' | 'Y' | 'LB' | 'RB' | 'LT' | 'RT' | 'Back' | 'Start' | 'LS' | 'RS'
+  | 'DPadUp' | 'DPadDown' | 'DPadLeft' | 'DPadRight' | 'Home'
+  | number;
+
+/** 摇杆/扳机位置 */
+type GamepadSide = 'left' | 'right';
+
+/** 手柄数据（Gamepad的最小子集，便于注入假手柄） */
+interface GamepadLike {
+  id: string; // 设备描述
+  index: number; // 浏览器分配的序号
+  connected: boolean; // 是否已连接
+  mapping: string; // 布局（'standard'为标准布局）
+  buttons: ReadonlyArray<{ pressed: boolean; value: number }>; // 按键状态
+  axes: ReadonlyArray<number>; // 轴（-1~1）
+  vibrationActuator?: {
+    playEffect?: (type: 'dual-rumble', params: { duration: number; startDelay?: number; strongMagnitude: number; weakMagnitude: number }) => Promise<unknown>;
+    reset?: () => Promise<unknown>;
+  } | null; // 震动（部分浏览器/手柄不支持）
+}
+
+/** 手柄数据源（默认读取navigator.getGamepads） */
+type GamepadSource = () => ReadonlyArray<GamepadLike | null>;
+
+/** 已连接手柄的信息 */
+type GamepadInfo = {
+  slot: number; // 玩家槽位（稳定序号）
+  id: string; // 设备描述
+  mapping: string; // 布局
+  canVibrate: boolean; // 是否支持震动
+};
+
+/** 死区配置 */
+type GamepadDeadzones = {
+  stick?: number; // 摇杆径向死区（0-1，默认0.15；超出部分重新映射到0-1）
+  trigger?: number; // 扳机死区（0-1，默认0.05）
+};
+
+/** 一次轮询中某个手柄的按键状态与变化（按键序号；断开的手柄按住的按键报告为刚松开） */
+type GamepadButtonEdges = {
+  slot: number; // 玩家槽位
+  held: number[]; // 轮询后按住的按键
+  pressed: number[]; // 本次轮询刚按下
+  released: number[]; // 本次轮询刚松开
+};
+
+/** 震动参数 */
+type VibrationOptions = {
+  duration?: number; // 时长（毫秒，默认200）
+  strongMagnitude?: number; // 低频马达强度（0-1，默认1）
+  weakMagnitude?: number; // 高频马达强度（0-1，默认1）
+};
+
+/** 手柄状态（内部） */
+type PadState = {
+  index: number; // 浏览器序号
+  id: string;
+  mapping: string;
+  pad: GamepadLike; // 最近一次轮询的数据
+  pressed: boolean[]; // 按键持续按下状态
+  pressedOnce: boolean[]; // 按键单次触发状态（读取后重置）
+};
+
+/** 标准布局按键名 -> 序号 */
+const STANDARD_BUTTONS: Record<string, number> = {
+  A: 0, B: 1, X: 2, Y: 3, LB: 4, RB: 5, LT: 6, RT: 7, Back: 8, Start: 9, LS: 10, RS: 11,
+  DPadUp: 12, DPadDown: 13, DPadLeft: 14, DPadRight: 15, Home: 16,
+};
+
+/** 按键视为按下的模拟量阈值（部分手柄的扳机只上报value） */
+const BUTTON_PRESS_THRESHOLD = 0.5;
+
+/**
+ * 按键名（标准布局）或序号 -> 按键序号
+ * @throws {Error} 未知的按键名时抛出错误
+ */
+function resolveGamepadButton(button: GamepadButton): number {
+  if (typeof button === 'number') return button;
+  if (!Object.prototype.hasOwnProperty.call(STANDARD_BUTTONS, button)) {
+    throw new Error(`[Gamepad] 未知的手柄按键"${button}"`);
+  }
+  return STANDARD_BUTTONS[button];
+}
+
+function defaultSource(): ReadonlyArray<GamepadLike | null> {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return [];
+  return navigator.getGamepads();
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+class GamepadManager {
+  // ========== 私有状态 ==========
+  /** 手柄数据源 */
+  private source: GamepadSource;
+  /** 已连接手柄：玩家槽位 -> 状态 */
+  private pads: Map<number, PadState>;
+  /** 断开的手柄上次使用的槽位：设备描述 -> [浏览器序号, 槽位]列表（重连时优先恢复；相同型号的多个手柄各占一项） */
+  private lastSlots: Map<string, Array<{ index: number; slot: number }>>;
+  /** 死区 */
+  private deadzones: Required<GamepadDeadzones>;
+  /** 最近一次轮询的按键变化（按槽位） */
+  private edges: GamepadButtonEdges[] = [];
+  /** 连接/断开监听 */
+  private connectListeners: Set<(info: GamepadInfo) => void>;
+  private disconnectListeners: Set<(info: GamepadInfo) => void>;
+
+  /**
+   * @param source 手柄数据源（可选，默认navigator.getGamepads，测试时可注入假手柄）
+   * @param deadzones 死区配置（可选）
+   */
+  constructor(source: GamepadSource = defaultSource, deadzones: GamepadDeadzones = {}) {
+    this.source = source;
+    this.pads = new Map();
+    this.lastSlots = new Map();
+    this.deadzones = { stick: 0.15, trigger: 0.05 };
+    this.connectListeners = new Set();
+    this.disconnectListeners = new Set();
+    this.setDeadzones(deadzones);
+  }
+
+  // ========== 轮询 ==========
+  /**
+   * 轮询手柄状态（每帧调用一次，由Input.beginFrame调用）
+   * 检测连接/断开，更新按键的持续按下与单次触发状态
+   * @param pads 本次使用的手柄数据（可选，回放时传入录制的数据；默认读取数据源）
+   */
+  poll(pads: ReadonlyArray<GamepadLike | null> = this.source()): void {
+    const current = new Map<number, GamepadLike>();
+    Array.from(pads).forEach(pad => {
+      if (pad && pad.connected) current.set(pad.index, pad);
+    });
+
+    const edges = new Map<number, GamepadButtonEdges>();
+    const edgesOf = (slot: number): GamepadButtonEdges => {
+      if (!edges.has(slot)) edges.set(slot, { slot, held: [], pressed: [], released: [] });
+      return edges.get(slot)!;
+    };
+
+    // 断开的手柄（浏览器序号消失，或同一序号换成了其他设备）
+    this.pads.forEach((state, slot) => {
+      const pad = current.get(state.index);
+      if (pad && pad.id === state.id) return;
+      state.pressed.forEach((down, index) => {
+        if (down) edgesOf(slot).released.push(index);
+      });
+      this.pads.delete(slot);
+      this.rememberSlot(state, slot);
+      this.emit(this.disconnectListeners, this.toInfo(slot, state));
+    });
+
+    current.forEach(pad => {
+      let slot = this.findSlot(pad.index);
+      if (slot === undefined) {
+        slot = this.assignSlot(pad.id, pad.index);
+        const state: PadState = { index: pad.index, id: pad.id, mapping: pad.mapping, pad, pressed: [], pressedOnce: [] };
+        this.pads.set(slot, state);
+        this.updateButtons(state, pad, edgesOf(slot));
+        this.emit(this.connectListeners, this.toInfo(slot, state));
+        return;
+      }
+      const state = this.pads.get(slot)!;
+      state.pad = pad;
+      this.updateButtons(state, pad, edgesOf(slot));
+    });
+
+    this.pads.forEach((state, slot) => {
+      edgesOf(slot).held = state.pressed.flatMap((down, index) => (down ? [index] : []));
+    });
+    this.edges = Array.from(edges.values()).sort((a, b) => a.slot - b.slot);
+  }
+
+  /**
+   * 获取最近一次轮询的按键状态与变化（由Input锁存进帧快照）
+   */
+  getButtonEdges(): GamepadButtonEdges[] {
+    return this.edges.map(edge => ({ ...edge, held: [...edge.held], pressed: [...edge.pressed], released: [...edge.released] }));
+  }
+
+  /**
+   * 获取最近一次轮询的原始手柄数据（按槽位排序，用于输入录制）
+   */
+  getRawPads(): GamepadLike[] {
+    return Array.from(this.pads.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, state]) => state.pad);
+  }
+
+  // ========== 按键 ==========
+  /**
+   * 检查手柄按键是否**持续按下**
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或序号
+   */
+  isButtonPressed(slot: number, button: GamepadButton): boolean {
+    const index = resolveGamepadButton(button);
+    return this.pads.get(slot)?.pressed[index] ?? false;
+  }
+
+  /**
+   * 检查手柄按键是否**单次触发**（与isKeyPressedOnce一致：按下一次仅返回true一次，松开后重置）
+   * @deprecated 读取即重置，同一帧内只有第一个调用者能读到；请改用帧快照 `input.frame.gamepadButtons.justPressed(slot, button)`
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或序号
+   */
+  isButtonPressedOnce(slot: number, button: GamepadButton): boolean {
+    const index = resolveGamepadButton(button);
+    const state = this.pads.get(slot);
+    if (!state?.pressedOnce[index]) return false;
+    state.pressedOnce[index] = false;
+    return true;
+  }
+
+  /**
+   * 获取按键的模拟量（0-1，数字按键为0或1）
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或序号
+   */
+  getButtonValue(slot: number, button: GamepadButton): number {
+    const index = resolveGamepadButton(button);
+    return this.pads.get(slot)?.pad.buttons[index]?.value ?? 0;
+  }
+
+  // ========== 摇杆与扳机 ==========
+  /**
+   * 获取摇杆位置（已应用径向死区，长度不超过1）
+   * @param slot 玩家槽位
+   * @param side 左/右摇杆（标准布局轴0/1、2/3）
+   * @returns {x, y}（向右、向下为正）
+   */
+  getStick(slot: number, side: GamepadSide = 'left'): { x: number; y: number } {
+    const axes = this.pads.get(slot)?.pad.axes;
+    if (!axes) return { x: 0, y: 0 };
+    const offset = side === 'left' ? 0 : 2;
+    const x = axes[offset] ?? 0;
+    const y = axes[offset + 1] ?? 0;
+    const length = Math.hypot(x, y);
+    const { stick } = this.deadzones;
+    if (length <= stick) return { x: 0, y: 0 };
+    const scaled = Math.min(1, (length - stick) / (1 - stick));
+    return { x: x / length * scaled, y: y / length * scaled };
+  }
+
+  /**
+   * 获取扳机按下程度（0-1，已应用死区）
+   * @param slot 玩家槽位
+   * @param side 左/右扳机（标准布局按键6/7）
+   */
+  getTrigger(slot: number, side: GamepadSide = 'right'): number {
+    const value = this.getButtonValue(slot, side === 'left' ? 'LT' : 'RT');
+    const { trigger } = this.deadzones;
+    if (value <= trigger) return 0;
+    return clamp01((value - trigger) / (1 - trigger));
+  }
+
+  /**
+   * 获取原始轴数值（未应用死区）
+   * @param slot 玩家槽位
+   * @param axis 轴序号
+   */
+  getAxis(slot: number, axis: number): number {
+    return this.pads.get(slot)?.pad.axes[axis] ?? 0;
+  }
+
+  /**
+   * 设置死区（仅覆盖传入的字段）
+   * @throws {Error} 死区不在0-1之间时抛出错误
+   */
+  setDeadzones(deadzones: GamepadDeadzones): void {
+    (['stick', 'trigger'] as const).forEach(key => {
+      const value = deadzones[key];
+      if (value === undefined) return;
+      if (typeof value !== 'number' || value < 0 || value >= 1) {
+        throw new Error(`[Gamepad] ${key}死区必须在0（含）到1（不含）之间`);
+      }
+      this.deadzones[key] = value;
+    });
+  }
+
+  /**
+   * 获取死区配置（返回拷贝）
+   */
+  getDeadzones(): Required<GamepadDeadzones> {
+    return { ...this.deadzones };
+  }
+
+  // ========== 连接管理 ==========
+  /**
+   * 获取已连接的手柄（按槽位排序）
+   */
+  getConnected(): GamepadInfo[] {
+    return Array.from(this.pads.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([slot, state]) => this.toInfo(slot, state));
+  }
+
+  /**
+   * 槽位上是否有已连接的手柄
+   * @param slot 玩家槽位
+   */
+  isConnected(slot: number): boolean {
+    return this.pads.has(slot);
+  }
+
+  /**
+   * 监听手柄连接（在poll中检测，回调参数为手柄信息）
+   * @returns 移除监听的函数
+   */
+  onConnect(callback: (info: GamepadInfo) => void): () => void {
+    this.connectListeners.add(callback);
+    return () => {
+      this.connectListeners.delete(callback);
+    };
+  }
+
+  /**
+   * 监听手柄断开
+   * @returns 移除监听的函数
+   */
+  onDisconnect(callback: (info: GamepadInfo) => void): () => void {
+    this.disconnectListeners.add(callback);
+    return () => {
+      this.disconnectListeners.delete(callback);
+    };
+  }
+
+  // ========== 震动 ==========
+  /**
+   * 震动（需要浏览器与手柄支持dual-rumble）
+   * @param slot 玩家槽位
+   * @param options 震动参数
+   * @returns 是否已开始震动（不支持或手柄未连接时为false）
+   */
+  async vibrate(slot: number, options: VibrationOptions = {}): Promise<boolean> {
+    const actuator = this.pads.get(slot)?.pad.vibrationActuator;
+    if (!actuator?.playEffect) return false;
+    const { duration = 200, strongMagnitude = 1, weakMagnitude = 1 } = options;
+    try {
+      await actuator.playEffect('dual-rumble', {
+        duration: Math.max(0, duration),
+        strongMagnitude: clamp01(strongMagnitude),
+        weakMagnitude: clamp01(weakMagnitude),
+      });
+      return true;
+    } catch (error) {
+      console.warn(`[Gamepad] 手柄${slot}震动失败：`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 停止震动
+   * @param slot 玩家槽位
+   */
+  async stopVibration(slot: number): Promise<void> {
+    await this.pads.get(slot)?.pad.vibrationActuator?.reset?.();
+  }
+
+  // ========== 重置与销毁 ==========
+  /**
+   * 重置按键单次触发状态（窗口失焦时调用；持续按下状态由下一次poll更新，
+   * 失焦期间一直按住的按键不会在聚焦后再次单次触发）
+   */
+  resetStates(): void {
+    this.pads.forEach(state => {
+      state.pressedOnce = [];
+    });
+  }
+
+  /**
+   * 销毁：清空手柄状态与监听
+   */
+  destroy(): void {
+    this.pads.clear();
+    this.edges = [];
+    this.lastSlots.clear();
+    this.connectListeners.clear();
+    this.disconnectListeners.clear();
+  }
+
+  // ========== 私有工具方法 ==========
+  private updateButtons(state: PadState, pad: GamepadLike, edges: GamepadButtonEdges): void {
+    pad.buttons.forEach((button, index) => {
+      const isPressed = button.pressed || button.value >= BUTTON_PRESS_THRESHOLD;
+      if (isPressed && !state.pressed[index]) {
+        state.pressedOnce[index] = true;
+        edges.pressed.push(index);
+      }
+      if (!isPressed) {
+        if (state.pressed[index]) edges.released.push(index);
+        state.pressedOnce[index] = false;
+      }
+      state.pressed[index] = isPressed;
+    });
+  }
+
+  private findSlot(index: number): number | undefined {
+    for (const [slot, state] of this.pads) {
+      if (state.index === index) return slot;
+    }
+    return undefined;
+  }
+
+  /** 记录断开手柄的槽位（同一设备描述下替换浏览器序号或槽位相同的旧记录） */
+  private rememberSlot(state: PadState, slot: number): void {
+    const list = (this.lastSlots.get(state.id) ?? []).filter(item => item.index !== state.index && item.slot !== slot);
+    list.push({ index: state.index, slot });
+    this.lastSlots.set(state.id, list);
+  }
+
+  /**
+   * 分配槽位：优先恢复该设备上次的槽位（设备描述与浏览器序号都相同的记录优先，
+   * 以区分相同型号的多个手柄），否则使用最小的空闲槽位
+   */
+  private assignSlot(id: string, index: number): number {
+    const list = (this.lastSlots.get(id) ?? []).filter(item => !this.pads.has(item.slot));
+    const previous = list.find(item => item.index === index) ?? list[0];
+    if (previous) {
+      const rest = list.filter(item => item !== previous);
+      if (rest.length > 0) this.lastSlots.set(id, rest);
+      else this.lastSlots.delete(id);
+      return previous.slot;
+    }
+    let slot = 0;
+    while (this.pads.has(slot)) slot++;
+    return slot;
+  }
+
+  private toInfo(slot: number, state: PadState): GamepadInfo {
+    return { slot, id: state.id, mapping: state.mapping, canVibrate: Boolean(state.pad.vibrationActuator?.playEffect) };
+  }
+
+  private emit(listeners: Set<(info: GamepadInfo) => void>, info: GamepadInfo): void {
+    listeners.forEach(listener => {
+      try {
+        listener(info);
+      } catch (error) {
+        console.error('[Gamepad] 连接监听回调错误：', error);
+      }
+    });
+  }
+}
+
+export { GamepadManager, STANDARD_BUTTONS, resolveGamepadButton };
+export type { GamepadButton, GamepadSide, GamepadLike, GamepadSource, GamepadInfo, GamepadDeadzones, VibrationOptions, GamepadButtonEdges };
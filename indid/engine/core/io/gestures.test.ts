@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Input } from './io';
+import { GestureRecognizer } from './gestures';
+import type { GestureEvent, GestureType } from './gestures';
+import type { InputFrame } from './io';
+
+type Point = [number, number];
+
+describe('GestureRecognizer', () => {
+  let input: Input;
+  let gestures: GestureRecognizer;
+  let next: InputFrame | null;
+  let events: GestureEvent[];
+
+  /** 以外部输入源提供一帧输入并锁存 */
+  function frame(data: InputFrame = {}, dt: number = 1 / 60): void {
+    next = data;
+    input.beginFrame(dt);
+  }
+
+  /** 触摸帧：positions为锁存时的全部触点位置 */
+  function touch(positions: Record<number, Point>, pressed: number[] = [], released: number[] = [], dt?: number): void {
+    const touchPositions = Object.entries(positions).map(([id, [x, y]]) => ({ id: Number(id), x, y }));
+    frame({ touches: { pressed, released }, touchPositions }, dt);
+  }
+
+  /** 记录指定类型的手势事件 */
+  function record(...types: GestureType[]): void {
+    types.forEach(type => gestures.on(type, event => { events.push(event); }));
+  }
+
+  const types = () => events.map(event => ('phase' in event ? `${event.type}:${event.phase}` : event.type));
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    input = new Input();
+    gestures = new GestureRecognizer(input);
+    next = null;
+    events = [];
+    input.setFrameSource(() => {
+      const data = next;
+      next = null;
+      return data;
+    });
+  });
+
+  afterEach(() => {
+    gestures.destroy();
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('按下后很快抬起识别为点击', () => {
+    record('press', 'tap');
+    touch({ 0: [10, 20] }, [0]);
+    touch({ 0: [12, 21] });
+    touch({}, [], [0]);
+    expect(types()).toEqual(['press', 'tap']);
+    expect(events[1]).toMatchObject({ x: 12, y: 21, pointerType: 'touch' });
+  });
+
+  it('两帧之间按下又抬起的触摸与鼠标点击同样识别为点击', () => {
+    record('press', 'tap', 'doubleTap');
+    touch({ 0: [10, 20] }, [0], [0]);
+    touch({});
+    expect(types()).toEqual(['press', 'tap']);
+    expect(events[1]).toMatchObject({ x: 10, y: 20 });
+
+    events = [];
+    frame({}, 1);
+    frame({ mouse: { pressed: ['left'], released: ['left'] }, mousePosition: { x: 50, y: 60 } });
+    frame({ mouse: { pressed: ['left'], released: ['left'] } });
+    expect(types()).toEqual(['press', 'tap', 'press', 'tap', 'doubleTap']);
+    expect(events[4]).toMatchObject({ x: 50, y: 60, pointerType: 'mouse' });
+  });
+
+  it('间隔与距离都足够小的两次点击识别为双击', () => {
+    record('tap', 'doubleTap');
+    touch({ 0: [10, 10] }, [0]);
+    touch({}, [], [0]);
+    touch({ 1: [15, 12] }, [1]);
+    touch({}, [], [1]);
+    expect(types()).toEqual(['tap', 'tap', 'doubleTap']);
+
+    // 间隔过长时不是双击
+    events = [];
+    touch({ 2: [10, 10] }, [2]);
+    touch({}, [], [2]);
+    frame({}, 0.5);
+    touch({ 3: [10, 10] }, [3]);
+    touch({}, [], [3]);
+    expect(types()).toEqual(['tap', 'tap']);
+  });
+
+  it('按住不动超过阈值时触发一次长按，抬起时不再点击', () => {
+    record('longPress', 'tap');
+    touch({ 0: [10, 10] }, [0]);
+    for (let i = 0; i < 4; i++) touch({ 0: [10, 10] }, [], [], 0.2);
+    touch({}, [], [0]);
+    expect(types()).toEqual(['longPress']);
+    expect((events[0] as GestureEvent<'longPress'>).duration).toBeCloseTo(0.6);
+  });
+
+  it('快速移动后抬起识别为拖动与滑动', () => {
+    record('pan', 'swipe', 'tap');
+    touch({ 0: [0, 0] }, [0]);
+    touch({ 0: [30, 0] });
+    touch({ 0: [70, 5] });
+    touch({ 0: [120, 5] });
+    touch({}, [], [0]);
+    expect(types()).toEqual(['pan:start', 'pan:move', 'pan:move', 'pan:end', 'swipe']);
+    expect(events[4]).toMatchObject({ x: 0, y: 0, dx: 120, dy: 5, direction: 'right' });
+  });
+
+  it('按住多帧后抬起的触点先移动到抬起处再结束拖动', () => {
+    record('pan', 'swipe');
+    touch({ 0: [0, 0] }, [0]);
+    touch({ 0: [40, 0] });
+    touch({ 0: [80, 0] });
+    touch({ 0: [200, 0] }, [], [0]);
+    expect(types()).toEqual(['pan:start', 'pan:move', 'pan:end', 'swipe']);
+    expect(events[2]).toMatchObject({ x: 200, dx: 120, totalX: 200 });
+    expect(events[3]).toMatchObject({ dx: 200, direction: 'right' });
+  });
+
+  it('双指距离变化识别为缩放', () => {
+    record('pinch', 'tap');
+    touch({ 0: [0, 0], 1: [100, 0] }, [0, 1]);
+    touch({ 0: [-10, 0], 1: [110, 0] });
+    touch({ 0: [-50, 0], 1: [150, 0] });
+    touch({ 0: [-50, 0] }, [], [1]);
+    touch({}, [], [0]);
+    expect(types()).toEqual(['pinch:start', 'pinch:move', 'pinch:end']);
+    expect((events[0] as GestureEvent<'pinch'>).scale).toBeCloseTo(1.2);
+    expect((events[1] as GestureEvent<'pinch'>).scale).toBeCloseTo(2);
+    expect((events[1] as GestureEvent<'pinch'>).scaleDelta).toBeCloseTo(2 / 1.2);
+  });
+
+  it('认领会话后只有认领者收到后续事件，取消会话后不再识别', () => {
+    const owner = {};
+    const claimed: string[] = [];
+    const others: string[] = [];
+    const unclaim = gestures.on('press', event => { claimed.push(event.type); event.claim(); }, { owner });
+    gestures.on('tap', event => { claimed.push(event.type); }, { owner });
+    gestures.on('press', event => { others.push(event.type); });
+    gestures.on('tap', event => { others.push(event.type); });
+    touch({ 0: [10, 10] }, [0]);
+    touch({}, [], [0]);
+    expect(claimed).toEqual(['press', 'tap']);
+    expect(others).toEqual([]);
+    unclaim();
+
+    record('pan', 'swipe');
+    gestures.on('pan', event => { if (event.phase === 'move') event.cancel(); });
+    touch({ 1: [0, 0] }, [1]);
+    touch({ 1: [40, 0] });
+    touch({ 1: [80, 0] });
+    touch({ 1: [160, 0] });
+    touch({}, [], [1]);
+    expect(types()).toEqual(['pan:start', 'pan:move', 'pan:cancel']);
+    expect(gestures.isActive()).toBe(false);
+  });
+});
+
+describe('GestureRecognizer DOM触摸', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('两次beginFrame之间按下又抬起的触摸识别为点击', () => {
+    const input = new Input();
+    const gestures = new GestureRecognizer(input);
+    const taps: Point[] = [];
+    gestures.on('tap', ({ x, y }) => { taps.push([x, y]); });
+
+    const point = { identifier: 7, clientX: 30, clientY: 40 };
+    input.beginFrame(1 / 60);
+    window.dispatchEvent(Object.assign(new Event('touchstart'), { touches: [point], changedTouches: [point] }));
+    window.dispatchEvent(Object.assign(new Event('touchend'), { touches: [], changedTouches: [point] }));
+    input.beginFrame(1 / 60);
+    expect(input.frame.touchPositions).toEqual([{ id: 7, x: 30, y: 40 }]);
+    input.beginFrame(1 / 60);
+    expect(input.frame.touchPositions).toEqual([]);
+    expect(taps).toEqual([[30, 40]]);
+
+    gestures.destroy();
+    input.destroy();
+  });
+
+  it('按住多帧的触摸在两次beginFrame之间抬起时，快照保留抬起位置', () => {
+    const input = new Input();
+    const gestures = new GestureRecognizer(input);
+    const pans: Array<[string, number, number]> = [];
+    gestures.on('pan', ({ phase, x, dx }) => { pans.push([phase, x, dx]); });
+
+    const at = (clientX: number) => ({ identifier: 3, clientX, clientY: 0 });
+    window.dispatchEvent(Object.assign(new Event('touchstart'), { touches: [at(0)], changedTouches: [at(0)] }));
+    input.beginFrame(1 / 60);
+    window.dispatchEvent(Object.assign(new Event('touchmove'), { touches: [at(60)], changedTouches: [at(60)] }));
+    input.beginFrame(1 / 60);
+    // 抬起前没有移动事件，抬起位置只来自touchend
+    window.dispatchEvent(Object.assign(new Event('touchend'), { touches: [], changedTouches: [at(150)] }));
+    input.beginFrame(1 / 60);
+    expect(input.frame.touchPositions).toEqual([{ id: 3, x: 150, y: 0 }]);
+    expect(input.frame.touches.justReleased(3)).toBe(true);
+    expect(pans).toEqual([['start', 60, 60], ['end', 150, 90]]);
+
+    input.beginFrame(1 / 60);
+    expect(input.frame.touchPositions).toEqual([]);
+    gestures.destroy();
+    input.destroy();
+  });
+});
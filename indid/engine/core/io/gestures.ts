@@ -0,0 +1,523 @@
+/**
+ * 手势识别模块
+ * 基于Input的逐帧快照识别触摸（以及可选的鼠标左键）手势：点击、双击、长按、滑动（swipe）、拖动（pan）、双指缩放、双指旋转
+ * 计时使用帧时间差累计，输入回放时识别结果与录制时一致
+ * 一次手势会话从第一个触点按下开始、到全部触点抬起结束；监听者可认领（claim）会话独占后续事件，或取消（cancel）会话
+ */
+
+import type { Input, InputSnapshot } from "./io";
+
+// ========== 类型定义 ==========
+/** 连续手势的阶段 */
+type GesturePhase = 'start' | 'move' | 'end' | 'cancel';
+
+/** 滑动方向 */
+type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/** 各手势的事件数据（坐标均为画布逻辑坐标，速度单位为像素/秒） */
+type GestureEventMap = {
+  press: { x: number; y: number }; // 会话开始（第一个触点按下，可在此认领会话）
+  tap: { x: number; y: number }; // 点击
+  doubleTap: { x: number; y: number }; // 双击（第二次点击时在tap之后触发）
+  longPress: { x: number; y: number; duration: number }; // 长按（按住不动超过阈值时触发一次，duration为秒）
+  swipe: { x: number; y: number; dx: number; dy: number; distance: number; direction: SwipeDirection; velocity: { x: number; y: number } }; // 快速滑动（抬起时触发，x/y为起点）
+  pan: { phase: GesturePhase; x: number; y: number; dx: number; dy: number; totalX: number; totalY: number; velocity: { x: number; y: number } }; // 单指拖动（dx/dy为本帧位移）
+  pinch: { phase: GesturePhase; center: { x: number; y: number }; scale: number; scaleDelta: number }; // 双指缩放（scale为相对开始时，scaleDelta为相对上一帧）
+  rotate: { phase: GesturePhase; center: { x: number; y: number }; rotation: number; rotationDelta: number }; // 双指旋转（弧度，顺时针为正）
+};
+
+/** 手势类型 */
+type GestureType = keyof GestureEventMap;
+
+/** 手势事件（不指定类型时为各手势事件的联合，可按type区分） */
+type GestureEvent<K extends GestureType = GestureType> = K extends GestureType ? GestureEventMap[K] & {
+  type: K; // 手势类型
+  pointerType: 'touch' | 'mouse'; // 输入来源
+  time: number; // 识别器时间（秒，帧时间差累计）
+  claim: () => void; // 认领会话：后续事件只发给当前监听者（及同一owner的监听），本事件不再传给后续监听者
+  cancel: () => void; // 取消会话：进行中的连续手势以cancel阶段结束，直到全部触点抬起前不再识别
+} : never;
+
+/** 识别阈值 */
+type GestureOptions = {
+  tapSlop?: number; // 点击/长按允许的移动距离（像素，默认10；超出后视为拖动）
+  tapTime?: number; // 点击的最长按下时间（秒，默认0.3）
+  doubleTapTime?: number; // 双击的最长间隔（秒，默认0.3）
+  doubleTapSlop?: number; // 双击两次点击的最大距离（像素，默认30）
+  longPressTime?: number; // 长按时间（秒，默认0.5）
+  swipeDistance?: number; // 滑动的最小距离（像素，默认50）
+  swipeVelocity?: number; // 滑动的最小抬起速度（像素/秒，默认300）
+  pinchThreshold?: number; // 开始缩放的最小比例变化（默认0.05）
+  rotateThreshold?: number; // 开始旋转的最小角度（弧度，默认0.1）
+  mouse?: boolean; // 是否把鼠标左键当作单个触点（桌面端调试，默认true）
+};
+
+/** 监听选项 */
+type GestureListenerOptions = {
+  priority?: number; // 优先级（数值越小越先收到事件，默认0；可传入场景的priority）
+  owner?: object; // 监听者标识（如场景对象）：同一标识的监听共享认领，未设置时认领只对当前监听生效
+};
+
+/** 监听记录 */
+type ListenerEntry = {
+  type: GestureType;
+  handler: (event: GestureEvent) => void;
+  priority: number;
+  owner: object; // 认领标识（未设置时为记录本身）
+  order: number; // 注册序号（同优先级按注册顺序）
+};
+
+/** 触点跟踪 */
+type Pointer = {
+  id: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  vx: number; // 平滑后的速度
+  vy: number;
+};
+
+/** 一帧收集到的触点：触点ID -> 位置 */
+type FramePointers = {
+  current: Map<number, { x: number; y: number }>; // 锁存时仍按下的触点
+  instant: Map<number, { x: number; y: number }>; // 两帧之间按下又抬起的触点（同一帧内刚按下且刚抬起）
+  lifted: Map<number, { x: number; y: number }>; // 此前已按下、上一帧以来抬起的触点（位置为抬起处）
+};
+
+/** 双指手势的基准 */
+type TwoFinger = {
+  ids: [number, number];
+  startDistance: number;
+  startAngle: number;
+  scale: number; // 上一帧的缩放比例
+  rotation: number; // 上一帧的旋转角度
+  pinching: boolean;
+  rotating: boolean;
+};
+
+/** 手势会话 */
+type Session = {
+  pointerType: 'touch' | 'mouse';
+  startTime: number;
+  maxPointers: number; // 会话中同时按下的最多触点数
+  moved: boolean; // 是否有触点移动超出tapSlop
+  longPressed: boolean; // 是否已触发长按
+  panning: boolean; // 是否正在拖动
+  twoFinger?: TwoFinger; // 双指手势
+  owner?: object; // 认领会话的监听者标识
+  cancelled: boolean; // 是否已取消
+};
+
+const DEFAULT_OPTIONS: Required<GestureOptions> = {
+  tapSlop: 10,
+  tapTime: 0.3,
+  doubleTapTime: 0.3,
+  doubleTapSlop: 30,
+  longPressTime: 0.5,
+  swipeDistance: 50,
+  swipeVelocity: 300,
+  pinchThreshold: 0.05,
+  rotateThreshold: 0.1,
+  mouse: true,
+};
+
+/** 鼠标左键对应的触点ID（触摸ID均为非负数） */
+const MOUSE_POINTER_ID = -1;
+
+/** 速度平滑系数（本帧瞬时速度的权重） */
+const VELOCITY_SMOOTHING = 0.5;
+
+function normalizeAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+class GestureRecognizer {
+  // ========== 私有状态 ==========
+  private options: Required<GestureOptions>; // 识别阈值
+  private listeners: ListenerEntry[] = []; // 监听（按优先级排序）
+  private nextOrder: number = 0; // 监听注册序号
+  private pointers: Map<number, Pointer> = new Map(); // 当前按下的触点
+  private session?: Session; // 当前会话
+  private lastTap?: { x: number; y: number; time: number }; // 上一次点击（用于识别双击）
+  private panLast?: { x: number; y: number }; // 拖动上一次事件的位置（计算本帧位移）
+  private time: number = 0; // 识别器时间（秒）
+  private unbindInput?: () => void; // 取消Input帧开始监听
+
+  /**
+   * @param input 输入模块（需每帧调用beginFrame，通常通过bindGameLoop）
+   * @param options 识别阈值
+   */
+  constructor(input: Input, options: GestureOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS };
+    this.setOptions(options);
+    this.unbindInput = input.onFrame((snapshot, deltaTime) => this.update(snapshot, deltaTime));
+  }
+
+  /**
+   * 更新识别阈值（仅覆盖传入的字段）
+   * @throws {Error} 阈值不是非负数时抛出错误
+   */
+  setOptions(options: GestureOptions): void {
+    (Object.keys(options) as (keyof GestureOptions)[]).forEach(key => {
+      const value = options[key];
+      if (value === undefined) return;
+      if (key !== 'mouse' && !(typeof value === 'number' && value >= 0)) {
+        throw new Error(`[Gesture] ${key}必须是非负数`);
+      }
+      Object.assign(this.options, { [key]: value });
+    });
+  }
+
+  /** 获取识别阈值（返回拷贝） */
+  getOptions(): Required<GestureOptions> {
+    return { ...this.options };
+  }
+
+  /**
+   * 监听手势
+   * @param type 手势类型
+   * @param handler 回调
+   * @param options 监听选项（优先级、认领标识）
+   * @returns 移除监听的函数
+   */
+  on<K extends GestureType>(type: K, handler: (event: GestureEvent<K>) => void, options: GestureListenerOptions = {}): () => void {
+    const entry: ListenerEntry = {
+      type,
+      handler: handler as unknown as (event: GestureEvent) => void,
+      priority: options.priority ?? 0,
+      owner: options.owner ?? {},
+      order: this.nextOrder++,
+    };
+    this.listeners.push(entry);
+    this.listeners.sort((a, b) => a.priority - b.priority || a.order - b.order);
+    return () => {
+      this.listeners = this.listeners.filter(item => item !== entry);
+      if (this.session?.owner === entry.owner && !this.listeners.some(item => item.owner === entry.owner)) {
+        this.session.owner = undefined;
+      }
+    };
+  }
+
+  /**
+   * 取消当前会话：进行中的拖动/缩放/旋转以cancel阶段结束，直到全部触点抬起前不再识别任何手势
+   */
+  cancel(): void {
+    const session = this.session;
+    if (!session || session.cancelled) return;
+    if (session.panning) this.emitPan('cancel', this.getSinglePointer(), 0, 0);
+    if (session.twoFinger) this.endTwoFinger('cancel');
+    session.cancelled = true;
+    this.lastTap = undefined;
+  }
+
+  /** 当前是否有进行中的会话（有触点按下） */
+  isActive(): boolean {
+    return this.session !== undefined;
+  }
+
+  /** 当前会话是否已被认领 */
+  isClaimed(): boolean {
+    return this.session?.owner !== undefined;
+  }
+
+  /**
+   * 销毁：取消Input监听，清空监听与状态
+   */
+  destroy(): void {
+    this.unbindInput?.();
+    this.unbindInput = undefined;
+    this.listeners = [];
+    this.pointers.clear();
+    this.session = undefined;
+    this.lastTap = undefined;
+  }
+
+  // ========== 逐帧识别 ==========
+  /**
+   * 处理一帧输入（由Input.beginFrame回调）
+   */
+  private update(snapshot: InputSnapshot, deltaTime: number): void {
+    this.time += deltaTime;
+    const { current, instant, lifted } = this.collectPointers(snapshot);
+
+    // 抬起的触点：先移动到抬起位置，拖动结束、滑动与双指手势按抬起处计算
+    Array.from(this.pointers.values()).forEach(pointer => {
+      if (current.has(pointer.id)) return;
+      const position = lifted.get(pointer.id);
+      if (position) this.movePointer(pointer, position, deltaTime);
+      this.releasePointer(pointer.id);
+    });
+
+    // 移动与按下
+    current.forEach((position, id) => {
+      const pointer = this.pointers.get(id);
+      if (pointer) {
+        this.movePointer(pointer, position, deltaTime);
+      } else {
+        this.pressPointer(id, position);
+      }
+    });
+
+    // 两帧之间按下又抬起的触点：补发按下与抬起，识别为点击
+    instant.forEach((position, id) => {
+      if (this.pointers.has(id)) return;
+      this.pressPointer(id, position);
+      this.releasePointer(id);
+    });
+
+    const session = this.session;
+    if (!session || session.cancelled) return;
+    if (this.pointers.size === 1 && session.maxPointers === 1) {
+      this.updateSingle(session);
+    } else if (this.pointers.size >= 2) {
+      this.updateTwoFinger(session);
+    }
+  }
+
+  /**
+   * 收集本帧的触点（会话开始后只跟踪同一来源的触点）
+   */
+  private collectPointers(snapshot: InputSnapshot): FramePointers {
+    const touches: FramePointers = { current: new Map(), instant: new Map(), lifted: new Map() };
+    snapshot.touchPositions.forEach(({ id, x, y }) => {
+      if (snapshot.touches.held(id) || !snapshot.touches.justReleased(id)) {
+        touches.current.set(id, { x, y });
+      } else {
+        (snapshot.touches.justPressed(id) ? touches.instant : touches.lifted).set(id, { x, y });
+      }
+    });
+    const mouse: FramePointers = { current: new Map(), instant: new Map(), lifted: new Map() };
+    if (this.options.mouse) {
+      const position = { x: snapshot.mousePosition.x, y: snapshot.mousePosition.y };
+      if (snapshot.mouse.held('left')) {
+        mouse.current.set(MOUSE_POINTER_ID, position);
+      } else if (snapshot.mouse.justReleased('left')) {
+        (snapshot.mouse.justPressed('left') ? mouse.instant : mouse.lifted).set(MOUSE_POINTER_ID, position);
+      }
+    }
+    const hasTouches = touches.current.size > 0 || touches.instant.size > 0;
+    const type = this.session?.pointerType ?? (hasTouches ? 'touch' : 'mouse');
+    return type === 'touch' ? touches : mouse;
+  }
+
+  private pressPointer(id: number, position: { x: number; y: number }): void {
+    this.pointers.set(id, { id, startX: position.x, startY: position.y, x: position.x, y: position.y, vx: 0, vy: 0 });
+    if (!this.session) {
+      this.session = {
+        pointerType: id === MOUSE_POINTER_ID ? 'mouse' : 'touch',
+        startTime: this.time,
+        maxPointers: 1,
+        moved: false,
+        longPressed: false,
+        panning: false,
+        cancelled: false,
+      };
+      this.emit('press', { x: position.x, y: position.y });
+      return;
+    }
+    const session = this.session;
+    session.maxPointers = Math.max(session.maxPointers, this.pointers.size);
+    if (session.cancelled) return;
+    // 第二个触点按下：单指拖动结束，开始跟踪双指手势
+    if (session.panning) {
+      this.emitPan('end', this.pointers.get(this.getFirstPointerId(id))!, 0, 0);
+      session.panning = false;
+    }
+    if (!session.twoFinger && this.pointers.size >= 2) this.beginTwoFinger();
+  }
+
+  private movePointer(pointer: Pointer, position: { x: number; y: number }, deltaTime: number): void {
+    const dx = position.x - pointer.x;
+    const dy = position.y - pointer.y;
+    if (deltaTime > 0) {
+      pointer.vx += (dx / deltaTime - pointer.vx) * VELOCITY_SMOOTHING;
+      pointer.vy += (dy / deltaTime - pointer.vy) * VELOCITY_SMOOTHING;
+    }
+    pointer.x = position.x;
+    pointer.y = position.y;
+    const session = this.session;
+    if (session && !session.moved &&
+      Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY) > this.options.tapSlop) {
+      session.moved = true;
+    }
+  }
+
+  private releasePointer(id: number): void {
+    const pointer = this.pointers.get(id)!;
+    const session = this.session;
+    if (session && !session.cancelled) {
+      if (session.twoFinger?.ids.includes(id)) this.endTwoFinger('end');
+      if (this.pointers.size === 1 && session.maxPointers === 1) this.finishSingle(session, pointer);
+    }
+    this.pointers.delete(id);
+    if (this.pointers.size === 0) this.session = undefined;
+  }
+
+  // ========== 单指手势 ==========
+  private updateSingle(session: Session): void {
+    const pointer = this.getSinglePointer();
+    const { longPressTime } = this.options;
+    if (!session.moved) {
+      const duration = this.time - session.startTime;
+      if (!session.longPressed && duration >= longPressTime) {
+        session.longPressed = true;
+        this.emit('longPress', { x: pointer.x, y: pointer.y, duration });
+      }
+      return;
+    }
+    if (!session.panning) {
+      session.panning = true;
+      this.emitPan('start', pointer, pointer.x - pointer.startX, pointer.y - pointer.startY);
+      return;
+    }
+    const dx = pointer.x - this.panLast!.x;
+    const dy = pointer.y - this.panLast!.y;
+    if (dx !== 0 || dy !== 0) this.emitPan('move', pointer, dx, dy);
+  }
+
+  private emitPan(phase: GesturePhase, pointer: Pointer, dx: number, dy: number): void {
+    this.panLast = { x: pointer.x, y: pointer.y };
+    this.emit('pan', {
+      phase,
+      x: pointer.x,
+      y: pointer.y,
+      dx,
+      dy,
+      totalX: pointer.x - pointer.startX,
+      totalY: pointer.y - pointer.startY,
+      velocity: { x: pointer.vx, y: pointer.vy },
+    });
+  }
+
+  /**
+   * 单指会话结束：拖动结束并判断滑动，或判断点击/双击
+   */
+  private finishSingle(session: Session, pointer: Pointer): void {
+    const { tapTime, doubleTapTime, doubleTapSlop, swipeDistance, swipeVelocity } = this.options;
+    if (session.panning) {
+      this.emitPan('end', pointer, pointer.x - this.panLast!.x, pointer.y - this.panLast!.y);
+      session.panning = false;
+      if (session.cancelled) return; // 监听者在拖动结束时取消了会话
+      const dx = pointer.x - pointer.startX;
+      const dy = pointer.y - pointer.startY;
+      const distance = Math.hypot(dx, dy);
+      if (distance >= swipeDistance && Math.hypot(pointer.vx, pointer.vy) >= swipeVelocity) {
+        const direction: SwipeDirection = Math.abs(dx) >= Math.abs(dy)
+          ? (dx > 0 ? 'right' : 'left')
+          : (dy > 0 ? 'down' : 'up');
+        this.emit('swipe', { x: pointer.startX, y: pointer.startY, dx, dy, distance, direction, velocity: { x: pointer.vx, y: pointer.vy } });
+      }
+      return;
+    }
+    if (session.moved || session.longPressed || this.time - session.startTime > tapTime) return;
+    const { x, y } = pointer;
+    this.emit('tap', { x, y });
+    if (session.cancelled) return;
+    const last = this.lastTap;
+    if (last && this.time - last.time <= doubleTapTime && Math.hypot(x - last.x, y - last.y) <= doubleTapSlop) {
+      this.lastTap = undefined; // 第三次点击重新计数，不会连续触发双击
+      this.emit('doubleTap', { x, y });
+    } else {
+      this.lastTap = { x, y, time: this.time };
+    }
+  }
+
+  // ========== 双指手势 ==========
+  private beginTwoFinger(): void {
+    const [a, b] = Array.from(this.pointers.values());
+    this.session!.twoFinger = {
+      ids: [a.id, b.id],
+      startDistance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      startAngle: Math.atan2(b.y - a.y, b.x - a.x),
+      scale: 1,
+      rotation: 0,
+      pinching: false,
+      rotating: false,
+    };
+  }
+
+  private updateTwoFinger(session: Session): void {
+    const twoFinger = session.twoFinger;
+    if (!twoFinger) return;
+    const { pinchThreshold, rotateThreshold } = this.options;
+    const [a, b] = twoFinger.ids.map(id => this.pointers.get(id)!);
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const scale = Math.hypot(b.x - a.x, b.y - a.y) / twoFinger.startDistance;
+    const rotation = normalizeAngle(Math.atan2(b.y - a.y, b.x - a.x) - twoFinger.startAngle);
+
+    if (!twoFinger.pinching && Math.abs(scale - 1) >= pinchThreshold) {
+      twoFinger.pinching = true;
+      this.emit('pinch', { phase: 'start', center, scale, scaleDelta: scale });
+    } else if (twoFinger.pinching && scale !== twoFinger.scale) {
+      this.emit('pinch', { phase: 'move', center, scale, scaleDelta: scale / twoFinger.scale });
+    }
+    if (session.cancelled) return;
+    if (!twoFinger.rotating && Math.abs(rotation) >= rotateThreshold) {
+      twoFinger.rotating = true;
+      this.emit('rotate', { phase: 'start', center, rotation, rotationDelta: rotation });
+    } else if (twoFinger.rotating && rotation !== twoFinger.rotation) {
+      this.emit('rotate', { phase: 'move', center, rotation, rotationDelta: normalizeAngle(rotation - twoFinger.rotation) });
+    }
+    twoFinger.scale = scale;
+    twoFinger.rotation = rotation;
+  }
+
+  /**
+   * 双指手势结束（任一触点抬起或会话取消）；剩余触点不再识别单指手势
+   */
+  private endTwoFinger(phase: 'end' | 'cancel'): void {
+    const session = this.session!;
+    const twoFinger = session.twoFinger;
+    if (!twoFinger) return;
+    session.twoFinger = undefined;
+    const [a, b] = twoFinger.ids.map(id => this.pointers.get(id)!);
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    if (twoFinger.pinching) this.emit('pinch', { phase, center, scale: twoFinger.scale, scaleDelta: 1 });
+    if (twoFinger.rotating) this.emit('rotate', { phase, center, rotation: twoFinger.rotation, rotationDelta: 0 });
+  }
+
+  // ========== 私有工具方法 ==========
+  private getSinglePointer(): Pointer {
+    return this.pointers.values().next().value!;
+  }
+
+  /** 除exclude外最早按下的触点 */
+  private getFirstPointerId(exclude: number): number {
+    return Array.from(this.pointers.keys()).find(id => id !== exclude)!;
+  }
+
+  /**
+   * 分发手势事件：按优先级依次调用监听；会话被认领后只发给认领者（同一标识的监听）
+   */
+  private emit<K extends GestureType>(type: K, data: GestureEventMap[K]): void {
+    const session = this.session;
+    if (!session || session.cancelled) return;
+    let stopped = false;
+    let current: ListenerEntry | undefined;
+    const event = {
+      ...data,
+      type,
+      pointerType: session.pointerType,
+      time: this.time,
+      claim: () => {
+        if (current && this.session === session) session.owner = current.owner;
+        stopped = true;
+      },
+      cancel: () => this.cancel(),
+    } as GestureEvent;
+    const targets = this.listeners.filter(entry => entry.type === type && (!session.owner || entry.owner === session.owner));
+    for (const entry of targets) {
+      current = entry;
+      try {
+        entry.handler(event);
+      } catch (error) {
+        console.error('[Gesture] 手势监听回调错误：', error);
+      }
+      if (stopped || session.cancelled) break;
+    }
+  }
+}
+
+export { GestureRecognizer };
+export type { GestureType, GestureEvent, GestureEventMap, GestureOptions, GestureListenerOptions, GesturePhase, SwipeDirection };
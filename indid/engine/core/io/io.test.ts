@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Input } from './io';
+import { GameLoop } from '../loop/loop';
+import { ManualScheduler } from '../loop/scheduler';
+import { key } from './testing';
+
+describe('Input 逻辑步快照', () => {
+  let loop: GameLoop;
+  let input: Input;
+  let scheduler: ManualScheduler;
+  let steps: boolean[];
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    loop.setFixedTimestep(60);
+    input = new Input();
+    input.bindGameLoop(loop);
+    steps = [];
+    loop.addUpdateCallback(() => steps.push(input.frame.keys.justPressed('a')), { phase: 'fixedUpdate' });
+    loop.start(false);
+  });
+
+  afterEach(() => {
+    loop.stop();
+    input.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('一帧执行多个逻辑步时，按下事件只在第一个逻辑步报告', () => {
+    const perFrame: boolean[] = [];
+    loop.addUpdateCallback(() => perFrame.push(input.frame.keys.justPressed('a')), { phase: 'update' });
+
+    key('keydown', 'a');
+    scheduler.step(3 / 60 + 1e-9);
+
+    expect(steps).toEqual([true, false, false]);
+    expect(perFrame).toEqual([true]);
+    expect(input.frame.keys.held('a')).toBe(true);
+  });
+
+  it('没有执行逻辑步的帧，其事件累计到下一个逻辑步', () => {
+    const released: boolean[] = [];
+    loop.addUpdateCallback(() => released.push(input.frame.keys.justReleased('a')), { phase: 'fixedUpdate' });
+
+    key('keydown', 'a');
+    scheduler.step(0.5 / 60);
+    expect(steps).toEqual([]);
+
+    key('keyup', 'a');
+    scheduler.step(0.6 / 60);
+    expect(steps).toEqual([true]);
+    expect(released).toEqual([true]);
+
+    scheduler.step(1 / 60);
+    expect(steps).toEqual([true, false]);
+  });
+});
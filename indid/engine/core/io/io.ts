@@ -1,9 +1,18 @@
 /**
  * 输入交互模块
- * 支持键盘、鼠标、触摸输入，提供单次触发、组合键、状态持久化等能力
+ * 支持键盘、鼠标、触摸、手柄输入，提供单次触发、组合键、逐帧输入快照、状态持久化等能力
  * 适配桌面端/移动端，内置事件销毁机制避免内存泄漏
  */
 
+import type { Viewport } from "../camera/camera";
+import type { Renderer } from "../render/render";
+import type { ResizeEvent } from "../render/resize";
+import type { GameLoop } from "../loop/loop";
+import { GamepadManager } from "./gamepad";
+import type { GamepadButton, GamepadSide, GamepadSource, GamepadInfo, GamepadDeadzones, VibrationOptions, GamepadLike } from "./gamepad";
+import { ButtonLatch, GamepadButtonSnapshot, createEmptySnapshot, mergeSnapshots, withoutEvents } from "./snapshot";
+import type { InputSnapshot, InputFrame, InputFrameSource, ButtonEvents } from "./snapshot";
+
 // ========== 类型定义 ==========
   /** 键盘按键名类型（基于DOM KeyboardEvent.key的常用值） */
   type Key =
@@ -28,6 +37,15 @@
     touches: Map<number, { x: number; y: number }>; // 触摸点（id -> 坐标）
   }
 
+  /** 输入模块选项 */
+  interface InputOptions {
+    gamepadSource?: GamepadSource; // 手柄数据源（默认navigator.getGamepads，测试时可注入假手柄）
+    gamepadDeadzones?: GamepadDeadzones; // 手柄死区
+  }
+
+
+/** 帧快照锁存与逻辑步快照切换在所属阶段内的优先级（早于同阶段的其他回调） */
+const FRAME_LATCH_PRIORITY = -1000;
 
 class Input {
   // ========== 私有状态 ==========
@@ -35,6 +53,8 @@ class Input {
   private keyStates: Map<Key, boolean>;
   /** 键盘单次触发状态：键名 -> 是否首次按下（触发后重置） */
   private keyDownOnceStates: Map<Key, boolean>;
+  /** 物理按键持续按下状态：KeyboardEvent.code -> 是否按下（不受大小写与键盘布局影响） */
+  private codeStates: Map<string, boolean>;
   /** 鼠标状态 */
   private mouseState: MouseState;
   /** 触摸状态（移动端） */
@@ -47,16 +67,51 @@ class Input {
   }>;
   /** 关联的Canvas元素（用于计算相对坐标） */
   private canvas?: HTMLCanvasElement;
+  /** 画布逻辑尺寸（由Renderer的尺寸变化事件同步；未同步时使用Canvas像素尺寸） */
+  private logicalSize?: { width: number; height: number };
+  /** 取消Renderer尺寸变化监听 */
+  private unbindRenderer?: () => void;
+  /** 按键按下监听（按键或组合键 -> 回调） */
+  private keyPressListeners: Set<{ keys: Key[]; callback: (event: KeyboardEvent) => void }>;
+  /** 手柄状态（逐帧轮询） */
+  private gamepads: GamepadManager;
+  /** 取消GameLoop中的逐帧锁存 */
+  private unbindGameLoop?: () => void;
+  /** 按键事件锁存器（两次beginFrame之间累计按下/松开） */
+  private latches: {
+    keys: ButtonLatch<Key>;
+    codes: ButtonLatch<string>;
+    mouse: ButtonLatch<MouseButton>;
+    touches: ButtonLatch<number>;
+  };
+  /** 上次beginFrame以来的鼠标移动与滚轮累计 */
+  private pendingMotion: { dx: number; dy: number; wheel: number };
+  /** 上次beginFrame以来抬起的触点的抬起位置（只计入下一次锁存的快照） */
+  private endedTouches: Map<number, { x: number; y: number }> = new Map();
+  /** 当前帧快照 */
+  private snapshot: InputSnapshot;
+  /** 逻辑步执行期间供读取的快照（仅本帧第一个逻辑步含事件；逻辑步之外为undefined） */
+  private stepSnapshot?: InputSnapshot;
+  /** 尚未被逻辑步读取的快照（没有执行逻辑步的帧，其事件累计到下一个逻辑步） */
+  private pendingStep?: InputSnapshot;
+  /** 是否按逻辑步分发快照（bindGameLoop后为true） */
+  private stepLatching: boolean = false;
+  /** 外部输入源（如回放；设置后忽略DOM输入事件） */
+  private frameSource?: InputFrameSource;
+  /** 帧开始监听（快照锁存后回调） */
+  private frameListeners: Set<(snapshot: InputSnapshot, deltaTime: number) => void>;
 
   // ========== 构造函数 ==========
   /**
    * 初始化输入模块
    * @param canvasId 可选：关联的Canvas元素ID，用于计算鼠标/触摸的相对坐标
+   * @param options 可选：手柄数据源与死区
    */
-  constructor(canvasId?: string) {
+  constructor(canvasId?: string, options: InputOptions = {}) {
     // 初始化键盘状态
     this.keyStates = new Map<Key, boolean>();
     this.keyDownOnceStates = new Map<Key, boolean>();
+    this.codeStates = new Map<string, boolean>();
 
     // 初始化鼠标状态
     this.mouseState = {
@@ -76,8 +131,23 @@ class Input {
       touches: new Map<number, { x: number; y: number }>(),
     };
 
+    // 初始化帧快照
+    this.latches = {
+      keys: new ButtonLatch(),
+      codes: new ButtonLatch(),
+      mouse: new ButtonLatch(),
+      touches: new ButtonLatch(),
+    };
+    this.pendingMotion = { dx: 0, dy: 0, wheel: 0 };
+    this.snapshot = createEmptySnapshot();
+    this.frameListeners = new Set();
+
+    // 初始化手柄状态
+    this.gamepads = new GamepadManager(options.gamepadSource, options.gamepadDeadzones);
+
     // 初始化事件监听器缓存
     this.eventListeners = [];
+    this.keyPressListeners = new Set();
 
     // 关联Canvas元素（可选）
     if (canvasId) {
@@ -103,8 +173,19 @@ class Input {
     return this.keyStates.get(key) || false;
   }
 
+  /**
+   * 检查物理按键是否**持续按下**（按KeyboardEvent.code匹配，如'KeyW'、'Space'、'ArrowUp'，
+   * 与Shift/CapsLock和键盘布局无关，适合动作映射）
+   * @param code 物理按键码
+   * @returns 按键是否按下
+   */
+  isCodePressed(code: string): boolean {
+    return this.codeStates.get(code) || false;
+  }
+
   /**
    * 检查按键是否**单次触发**（按下一次仅返回true一次，松开后重置）
+   * @deprecated 读取即重置，同一帧内只有第一个调用者能读到；请改用帧快照 `input.frame.keys.justPressed(key)`
    * @param key 按键名
    * @returns 是否首次按下
    */
@@ -126,13 +207,29 @@ class Input {
     return keys.every(key => this.isKeyPressed(key));
   }
 
+  /**
+   * 监听按键**按下瞬间**（事件驱动，适合截图等不依赖帧循环的快捷键；按住时的自动重复不会重复触发）
+   * @param keys 按键名或组合键数组（组合键在最后一个键按下时触发）
+   * @param callback 回调函数（参数为原始键盘事件）
+   * @returns 移除监听的函数
+   */
+  onKeyPress(keys: Key | Key[], callback: (event: KeyboardEvent) => void): () => void {
+    const listener = { keys: Array.isArray(keys) ? [...keys] : [keys], callback };
+    if (listener.keys.length === 0) {
+      throw new Error('Input模块：onKeyPress至少需要一个按键');
+    }
+    this.keyPressListeners.add(listener);
+    return () => {
+      this.keyPressListeners.delete(listener);
+    };
+  }
+
   /**
    * 手动重置单个按键状态
    * @param key 按键名
    */
   resetKeyState(key: Key): void {
-    this.keyStates.set(key, false);
-    this.keyDownOnceStates.set(key, false);
+    this.#setKey(key, false);
   }
 
   /**
@@ -141,6 +238,31 @@ class Input {
   resetAllKeyStates(): void {
     this.keyStates.clear();
     this.keyDownOnceStates.clear();
+    this.codeStates.clear();
+    this.latches.keys.releaseAll();
+    this.latches.codes.releaseAll();
+  }
+
+  // ========== 坐标换算 ==========
+  /**
+   * 关联渲染器：同步画布逻辑尺寸，使鼠标/触摸坐标与绘制坐标一致
+   * （HiDPI或fit/integer等缩放策略下，Canvas像素尺寸与逻辑尺寸不同）
+   * 构造时未关联Canvas的，改为相对该渲染器的Canvas换算坐标
+   * @param renderer 渲染器
+   */
+  bindRenderer(renderer: Renderer): void {
+    this.unbindRenderer?.();
+    if (!this.canvas) this.canvas = renderer.getCanvas();
+    this.handleResize(renderer.getResizeState());
+    this.unbindRenderer = renderer.onResize(event => this.handleResize(event));
+  }
+
+  /**
+   * 处理画布尺寸变化（更新逻辑尺寸）
+   * @param event 尺寸变化事件
+   */
+  handleResize(event: Pick<ResizeEvent, 'width' | 'height'>): void {
+    this.logicalSize = { width: event.width, height: event.height };
   }
 
   // ========== 核心鼠标方法 ==========
@@ -152,6 +274,16 @@ class Input {
     return { ...this.mouseState };
   }
 
+  /**
+   * 获取鼠标的世界坐标（经视口相机换算）
+   * @param viewport 鼠标所在的视口（可通过Scene.getViewportAt查找）
+   * @returns 鼠标{x, y}世界坐标
+   */
+  getMouseWorldPosition(viewport: Viewport): { x: number; y: number } {
+    const [x, y] = viewport.screenToWorld([this.mouseState.x, this.mouseState.y]);
+    return { x, y };
+  }
+
   /**
    * 检查鼠标按键是否按下
    * @param button 鼠标按键（left/middle/right 或 数字0/1/2）
@@ -163,6 +295,7 @@ class Input {
 
   /**
    * 获取鼠标滚轮偏移量（垂直方向）
+   * @deprecated 读取即重置，同一帧内只有第一个调用者能读到；请改用帧快照 `input.frame.wheelDelta`
    * @returns 滚轮偏移量（正数向上，负数向下）
    */
   getMouseWheelDelta(): number {
@@ -181,6 +314,7 @@ class Input {
     this.mouseState.buttons.forEach((_, key) => {
       this.mouseState.buttons.set(key, false);
     });
+    this.latches.mouse.releaseAll();
   }
 
   // ========== 核心触摸方法 ==========
@@ -223,16 +357,282 @@ class Input {
   resetTouchState(): void {
     this.touchState.isTouching = false;
     this.touchState.touches.clear();
+    this.endedTouches.clear();
+    this.latches.touches.releaseAll();
+  }
+
+  // ========== 帧快照 ==========
+  /**
+   * 开始新的一帧：把上一帧以来的输入事件锁存为快照，并轮询手柄
+   * （每帧调用一次；已调用bindGameLoop时无需手动调用）
+   * 设置了外部输入源时，先应用外部输入源提供的本帧输入
+   * @param deltaTime 本帧时间差（秒，传给外部输入源与帧开始监听）
+   * @returns 本帧快照
+   */
+  beginFrame(deltaTime: number = 0): InputSnapshot {
+    const source = this.frameSource;
+    const external = source ? source(deltaTime) : null;
+    if (external) this.#applyFrame(external);
+    // 外部输入源生效期间（含本帧刚结束的情况）手柄数据同样来自外部输入源
+    if (source) this.gamepads.poll(external?.gamepads ?? []);
+    else this.gamepads.poll();
+
+    const { dx, dy, wheel } = this.pendingMotion;
+    this.pendingMotion = { dx: 0, dy: 0, wheel: 0 };
+    this.snapshot = {
+      frame: this.snapshot.frame + 1,
+      keys: this.latches.keys.latch(),
+      codes: this.latches.codes.latch(),
+      mouse: this.latches.mouse.latch(),
+      touches: this.latches.touches.latch(),
+      gamepadButtons: GamepadButtonSnapshot.fromEdges(this.gamepads.getButtonEdges()),
+      gamepadAxes: this.snapshot.gamepadAxes.next(this.#latchGamepadAxes()),
+      mousePosition: { x: this.mouseState.x, y: this.mouseState.y },
+      mouseDelta: { x: dx, y: dy },
+      wheelDelta: wheel,
+      touchPositions: this.#latchTouchPositions(),
+    };
+    this.stepSnapshot = undefined;
+    if (this.stepLatching) {
+      this.pendingStep = this.pendingStep ? mergeSnapshots(this.pendingStep, this.snapshot) : this.snapshot;
+    }
+
+    const snapshot = this.snapshot;
+    this.frameListeners.forEach(listener => {
+      try {
+        listener(snapshot, deltaTime);
+      } catch (error) {
+        console.error('Input模块：帧开始监听回调错误：', error);
+      }
+    });
+    return snapshot;
+  }
+
+  /**
+   * 开始一个逻辑步（已调用bindGameLoop时在每个fixedUpdate开始时自动调用）
+   * 本帧第一个逻辑步读取到上次逻辑步以来的全部事件（含没有执行逻辑步的帧），
+   * 同一帧的后续逻辑步只保留按住状态，justPressed/justReleased不会重复触发
+   * @returns 本逻辑步的快照
+   */
+  beginStep(): InputSnapshot {
+    this.stepSnapshot = this.pendingStep ?? withoutEvents(this.stepSnapshot ?? this.snapshot);
+    this.pendingStep = undefined;
+    return this.stepSnapshot;
+  }
+
+  /**
+   * 监听帧开始（beginFrame锁存快照、轮询手柄后回调，用于输入录制等）
+   * @param listener 回调（参数为本帧快照与时间差）
+   * @returns 移除监听的函数
+   */
+  onFrame(listener: (snapshot: InputSnapshot, deltaTime: number) => void): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 设置外部输入源（如输入回放）：之后每帧的输入由外部输入源提供，DOM输入事件与失焦重置被忽略
+   * 设置时不产生松开事件地清空当前输入状态；传入null恢复DOM输入，此前按下的按键在下一帧报告为刚松开
+   * @param source 外部输入源（null表示恢复DOM输入）
+   * @param initial 设置时处于按下状态的按键与初始位置（可选，回放从录制开始时的状态继续）
+   */
+  setFrameSource(
+    source: InputFrameSource | null,
+    initial: { keys?: Key[]; codes?: string[]; mouse?: MouseButton[]; mousePosition?: { x: number; y: number }; touchPositions?: Array<{ id: number; x: number; y: number }> } = {}
+  ): void {
+    if (!source) {
+      if (!this.frameSource) return;
+      this.frameSource = undefined;
+      this.resetAllStates();
+      return;
+    }
+    this.frameSource = source;
+    const { keys = [], codes = [], mouse = [], mousePosition = { x: 0, y: 0 }, touchPositions = [] } = initial;
+    this.keyStates = new Map(keys.map(key => [key, true]));
+    this.keyDownOnceStates.clear();
+    this.codeStates = new Map(codes.map(code => [code, true]));
+    this.mouseState.buttons.forEach((_, button) => this.mouseState.buttons.set(button, false));
+    mouse.forEach(button => this.mouseState.buttons.set(button, true));
+    this.mouseState.x = mousePosition.x;
+    this.mouseState.y = mousePosition.y;
+    this.mouseState.wheelDelta = 0;
+    this.touchState.touches = new Map(touchPositions.map(({ id, x, y }) => [id, { x, y }]));
+    this.touchState.isTouching = this.touchState.touches.size > 0;
+    this.endedTouches.clear();
+    this.latches.keys.clear(keys);
+    this.latches.codes.clear(codes);
+    this.latches.mouse.clear(mouse);
+    this.latches.touches.clear(touchPositions.map(({ id }) => id));
+    this.pendingMotion = { dx: 0, dy: 0, wheel: 0 };
+    this.pendingStep = undefined;
+  }
+
+  /**
+   * 是否正在使用外部输入源
+   */
+  hasFrameSource(): boolean {
+    return this.frameSource !== undefined;
+  }
+
+  /**
+   * 当前帧的输入快照（同一帧内多次读取结果一致，读取不会消耗事件）
+   * 绑定GameLoop后，fixedUpdate阶段内读取的是本逻辑步的快照（见beginStep）
+   */
+  get frame(): InputSnapshot {
+    return this.stepSnapshot ?? this.snapshot;
+  }
+
+  /**
+   * 在GameLoop每帧开始时（input阶段，早于其他input阶段回调与逻辑更新）自动调用beginFrame，
+   * 在每个逻辑步开始时（fixedUpdate阶段最前面）自动调用beginStep
+   * @param gameLoop 游戏循环
+   */
+  bindGameLoop(gameLoop: GameLoop): void {
+    this.unbindGameLoop?.();
+    this.stepLatching = true;
+    const unbindFrame = gameLoop.addUpdateCallback((deltaTime) => {
+      this.beginFrame(deltaTime);
+    }, { phase: 'input', priority: FRAME_LATCH_PRIORITY, name: 'Input.beginFrame' });
+    const unbindStep = gameLoop.addUpdateCallback(() => {
+      this.beginStep();
+    }, { phase: 'fixedUpdate', priority: FRAME_LATCH_PRIORITY, name: 'Input.beginStep' });
+    // 逻辑步结束后，每帧阶段恢复读取帧快照
+    const unbindStepEnd = gameLoop.addUpdateCallback(() => {
+      this.stepSnapshot = undefined;
+    }, { phase: 'update', priority: FRAME_LATCH_PRIORITY, name: 'Input.endSteps' });
+    this.unbindGameLoop = () => {
+      unbindFrame();
+      unbindStep();
+      unbindStepEnd();
+      this.stepLatching = false;
+      this.stepSnapshot = undefined;
+      this.pendingStep = undefined;
+    };
+  }
+
+  // ========== 核心手柄方法 ==========
+  /**
+   * 轮询手柄状态（beginFrame已包含轮询，仅在不使用帧快照时手动调用）
+   * 检测连接/断开并更新按键状态
+   */
+  pollGamepads(): void {
+    this.gamepads.poll();
+  }
+
+  /**
+   * 获取最近一次轮询的原始手柄数据（按槽位排序，用于输入录制）
+   */
+  getGamepadData(): GamepadLike[] {
+    return this.gamepads.getRawPads();
+  }
+
+  /**
+   * 检查手柄按键是否**持续按下**
+   * @param pad 手柄槽位（按连接顺序分配，断开重连后保持不变）
+   * @param button 按键名（标准布局，如'A'、'Start'、'DPadUp'）或按键序号
+   */
+  isGamepadButtonPressed(pad: number, button: GamepadButton): boolean {
+    return this.gamepads.isButtonPressed(pad, button);
+  }
+
+  /**
+   * 检查手柄按键是否**单次触发**（按下一次仅返回true一次，松开后重置）
+   * @deprecated 读取即重置，同一帧内只有第一个读取者能收到；请改用帧快照 `input.frame.gamepadButtons.justPressed(pad, button)`
+   * @param pad 手柄槽位
+   * @param button 按键名或按键序号
+   */
+  isGamepadButtonPressedOnce(pad: number, button: GamepadButton): boolean {
+    return this.gamepads.isButtonPressedOnce(pad, button);
+  }
+
+  /**
+   * 获取摇杆位置（已应用径向死区）
+   * @param pad 手柄槽位
+   * @param side 左/右摇杆（默认左）
+   * @returns 摇杆{x, y}（-1~1，向右、向下为正）
+   */
+  getGamepadStick(pad: number, side: GamepadSide = 'left'): { x: number; y: number } {
+    return this.gamepads.getStick(pad, side);
+  }
+
+  /**
+   * 获取扳机按下程度（0-1，已应用死区）
+   * @param pad 手柄槽位
+   * @param side 左/右扳机（默认右）
+   */
+  getGamepadTrigger(pad: number, side: GamepadSide = 'right'): number {
+    return this.gamepads.getTrigger(pad, side);
+  }
+
+  /**
+   * 获取原始轴数值（未应用死区，用于非标准布局的手柄）
+   * @param pad 手柄槽位
+   * @param axis 轴序号
+   */
+  getGamepadAxis(pad: number, axis: number): number {
+    return this.gamepads.getAxis(pad, axis);
+  }
+
+  /**
+   * 设置手柄死区（仅覆盖传入的字段）
+   * @param deadzones 摇杆/扳机死区（0-1）
+   */
+  setGamepadDeadzones(deadzones: GamepadDeadzones): void {
+    this.gamepads.setDeadzones(deadzones);
+  }
+
+  /**
+   * 获取已连接的手柄（按槽位排序）
+   */
+  getGamepads(): GamepadInfo[] {
+    return this.gamepads.getConnected();
+  }
+
+  /**
+   * 监听手柄连接
+   * @returns 移除监听的函数
+   */
+  onGamepadConnect(callback: (info: GamepadInfo) => void): () => void {
+    return this.gamepads.onConnect(callback);
+  }
+
+  /**
+   * 监听手柄断开
+   * @returns 移除监听的函数
+   */
+  onGamepadDisconnect(callback: (info: GamepadInfo) => void): () => void {
+    return this.gamepads.onDisconnect(callback);
+  }
+
+  /**
+   * 手柄震动（浏览器或手柄不支持时不执行）
+   * @param pad 手柄槽位
+   * @param options 时长与强度
+   * @returns 是否已开始震动
+   */
+  vibrateGamepad(pad: number, options?: VibrationOptions): Promise<boolean> {
+    return this.gamepads.vibrate(pad, options);
+  }
+
+  /**
+   * 停止手柄震动
+   * @param pad 手柄槽位
+   */
+  stopGamepadVibration(pad: number): Promise<void> {
+    return this.gamepads.stopVibration(pad);
   }
 
   // ========== 全局重置 ==========
   /**
-   * 重置所有输入状态（键盘+鼠标+触摸）
+   * 重置所有输入状态（键盘+鼠标+触摸+手柄单次触发）
    */
   resetAllStates(): void {
     this.resetAllKeyStates();
     this.resetMouseState();
     this.resetTouchState();
+    this.gamepads.resetStates();
   }
 
   // ========== 销毁方法 ==========
@@ -246,9 +646,20 @@ class Input {
       target.removeEventListener(type, handler);
     });
     this.eventListeners = [];
+    this.keyPressListeners.clear();
+    this.unbindRenderer?.();
+    this.unbindRenderer = undefined;
+    this.unbindGameLoop?.();
+    this.unbindGameLoop = undefined;
 
     // 重置所有状态
     this.resetAllStates();
+    this.gamepads.destroy();
+    Object.values(this.latches).forEach(latch => latch.clear());
+    this.pendingMotion = { dx: 0, dy: 0, wheel: 0 };
+    this.snapshot = createEmptySnapshot();
+    this.frameSource = undefined;
+    this.frameListeners.clear();
 
     // 清空Canvas引用
     this.canvas = undefined;
@@ -271,21 +682,21 @@ class Input {
   #bindKeyboardEvents(): void {
     // 按键按下
     const keydownHandler = (evt: Event) => {
+      if (this.frameSource) return; // 外部输入源生效时忽略DOM事件
       const e = evt as KeyboardEvent // 断言解决监听回调参数定义问题（MDN定义参数必须为Event，无法直接定义为Event子类）
       const key = e.key as Key;
-      if (!this.keyStates.get(key)) {
-        this.keyDownOnceStates.set(key, true); // 标记单次触发
-      }
-      this.keyStates.set(key, true);
+      const isNewPress = this.#setKey(key, true);
+      if (e.code) this.#setCode(e.code, true);
+      if (isNewPress) this.#emitKeyPress(key, e);
     };
     this.#addEventListener(window, 'keydown', keydownHandler);
 
     // 按键松开
     const keyupHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as KeyboardEvent // 断言解决监听回调参数定义问题（MDN定义参数必须为Event，无法直接定义为Event子类）
-      const key = e.key as Key;
-      this.keyStates.set(key, false);
-      this.keyDownOnceStates.set(key, false);
+      this.#setKey(e.key as Key, false);
+      if (e.code) this.#setCode(e.code, false);
     };
     this.#addEventListener(window, 'keyup', keyupHandler);
   }
@@ -298,8 +709,13 @@ class Input {
 
     // 鼠标移动
     const mousemoveHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as MouseEvent
       const pos = this.#getRelativePosition(e.clientX, e.clientY);
+      // movementX/Y为CSS像素，按同一比例换算到画布逻辑坐标（指针锁定时坐标不变，但movement仍有效）
+      const from = this.#getRelativePosition(e.clientX - (e.movementX ?? 0), e.clientY - (e.movementY ?? 0));
+      this.pendingMotion.dx += pos.x - from.x;
+      this.pendingMotion.dy += pos.y - from.y;
       this.mouseState.x = pos.x;
       this.mouseState.y = pos.y;
     };
@@ -307,39 +723,42 @@ class Input {
 
     // 鼠标按下
     const mousedownHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as MouseEvent;
       const buttonMap: Record<number, MouseButton> = {
         0: 'left',
         1: 'middle',
         2: 'right',
       };
-      const button = buttonMap[e.button] || e.button;
-      this.mouseState.buttons.set(button, true);
+      this.#setMouseButton(buttonMap[e.button] || e.button, true);
     };
     this.#addEventListener(target, 'mousedown', mousedownHandler);
 
     // 鼠标松开
     const mouseupHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as MouseEvent;
       const buttonMap: Record<number, MouseButton> = {
         0: 'left',
         1: 'middle',
         2: 'right',
       };
-      const button = buttonMap[e.button] || e.button;
-      this.mouseState.buttons.set(button, false);
+      this.#setMouseButton(buttonMap[e.button] || e.button, false);
     };
     this.#addEventListener(target, 'mouseup', mouseupHandler);
 
     // 鼠标滚轮
     const wheelHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as WheelEvent;
       this.mouseState.wheelDelta = e.deltaY * -1; // 反转：正数向上，负数向下
+      this.pendingMotion.wheel += e.deltaY * -1; // 帧快照按帧累计
     };
     this.#addEventListener(target, 'wheel', wheelHandler);
 
     // 鼠标离开目标
     const mouseleaveHandler = () => {
+      if (this.frameSource) return;
       this.resetMouseState();
     };
     this.#addEventListener(target, 'mouseleave', mouseleaveHandler);
@@ -355,11 +774,13 @@ class Input {
     const touchstartHandler = (evt: Event) => {
       const e = evt as TouchEvent;
       e.preventDefault(); // 阻止默认滚动
+      if (this.frameSource) return;
       this.touchState.isTouching = true;
       Array.from(e.touches).forEach(touch => {
         const pos = this.#getRelativePosition(touch.clientX, touch.clientY);
         this.touchState.touches.set(touch.identifier, pos);
       });
+      Array.from(e.changedTouches).forEach(touch => this.latches.touches.press(touch.identifier));
     };
     this.#addEventListener(target, 'touchstart', touchstartHandler);
 
@@ -367,6 +788,7 @@ class Input {
     const touchmoveHandler = (evt: Event) => {
       const e = evt as TouchEvent;
       e.preventDefault();
+      if (this.frameSource) return;
       Array.from(e.touches).forEach(touch => {
         const pos = this.#getRelativePosition(touch.clientX, touch.clientY);
         this.touchState.touches.set(touch.identifier, pos);
@@ -376,9 +798,15 @@ class Input {
 
     // 触摸结束/取消
     const touchendHandler = (evt: Event) => {
+      if (this.frameSource) return;
       const e = evt as TouchEvent;
       Array.from(e.changedTouches).forEach(touch => {
+        // 保留抬起位置到下一次锁存，快照中仍可取得抬起处的坐标（用于识别极短的点击、拖动与滑动的终点）
+        if (evt.type === 'touchend') {
+          this.endedTouches.set(touch.identifier, this.#getRelativePosition(touch.clientX, touch.clientY));
+        }
         this.touchState.touches.delete(touch.identifier);
+        this.latches.touches.release(touch.identifier);
       });
       this.touchState.isTouching = this.touchState.touches.size > 0;
     };
@@ -392,18 +820,114 @@ class Input {
   #bindFocusEvents(): void {
     // 窗口失焦
     const blurHandler = () => {
+      if (this.frameSource) return; // 回放不受窗口焦点影响
       this.resetAllStates();
     };
     this.#addEventListener(window, 'blur', blurHandler);
 
     // 窗口聚焦
     const focusHandler = () => {
+      if (this.frameSource) return;
       this.resetAllStates();
     };
     this.#addEventListener(window, 'focus', focusHandler);
   }
 
   // ========== 私有工具方法 ==========
+  /**
+   * 更新按键状态（DOM事件与外部输入源共用）
+   * @returns 是否为新的按下（按住时的自动重复返回false）
+   */
+  #setKey(key: Key, down: boolean): boolean {
+    const isNewPress = down && !this.keyStates.get(key);
+    if (isNewPress) {
+      this.keyDownOnceStates.set(key, true); // 标记单次触发
+    }
+    if (!down) this.keyDownOnceStates.set(key, false);
+    this.keyStates.set(key, down);
+    if (down) this.latches.keys.press(key);
+    else this.latches.keys.release(key);
+    return isNewPress;
+  }
+
+  /** 更新物理按键状态 */
+  #setCode(code: string, down: boolean): void {
+    this.codeStates.set(code, down);
+    if (down) this.latches.codes.press(code);
+    else this.latches.codes.release(code);
+  }
+
+  /** 更新鼠标按键状态 */
+  #setMouseButton(button: MouseButton, down: boolean): void {
+    this.mouseState.buttons.set(button, down);
+    if (down) this.latches.mouse.press(button);
+    else this.latches.mouse.release(button);
+  }
+
+  /**
+   * 应用外部输入源提供的一帧输入
+   * @param frame 一帧输入
+   */
+  #applyFrame(frame: InputFrame): void {
+    this.#applyButtonEvents(this.latches.keys, frame.keys, (key, down) => this.#setKey(key, down));
+    this.#applyButtonEvents(this.latches.codes, frame.codes, (code, down) => this.#setCode(code, down));
+    this.#applyButtonEvents(this.latches.mouse, frame.mouse, (button, down) => this.#setMouseButton(button, down));
+    const touches = this.latches.touches;
+    this.#applyButtonEvents(touches, frame.touches, (id, down) => (down ? touches.press(id) : touches.release(id)));
+    if (frame.mousePosition) {
+      this.mouseState.x = frame.mousePosition.x;
+      this.mouseState.y = frame.mousePosition.y;
+    }
+    if (frame.mouseDelta) {
+      this.pendingMotion.dx += frame.mouseDelta.x;
+      this.pendingMotion.dy += frame.mouseDelta.y;
+    }
+    if (frame.wheelDelta) {
+      this.mouseState.wheelDelta = frame.wheelDelta;
+      this.pendingMotion.wheel += frame.wheelDelta;
+    }
+    if (frame.touchPositions) {
+      this.touchState.touches = new Map(frame.touchPositions.map(({ id, x, y }) => [id, { x, y }]));
+      this.touchState.isTouching = this.touchState.touches.size > 0;
+    }
+  }
+
+  /**
+   * 按顺序应用一类按键的按下/松开事件（同一按键同时按下和松开时，按当前状态还原先后顺序）
+   */
+  #applyButtonEvents<T>(latch: ButtonLatch<T>, events: ButtonEvents<T> | undefined, set: (id: T, down: boolean) => void): void {
+    if (!events) return;
+    const pressed = events.pressed ?? [];
+    const released = events.released ?? [];
+    pressed.filter(id => released.includes(id)).forEach(id => {
+      if (latch.isDown(id)) {
+        set(id, false);
+        set(id, true);
+      } else {
+        set(id, true);
+        set(id, false);
+      }
+    });
+    pressed.filter(id => !released.includes(id)).forEach(id => set(id, true));
+    released.filter(id => !pressed.includes(id)).forEach(id => set(id, false));
+  }
+
+  /**
+   * 触发包含该按键且组合键已全部按下的监听
+   * @param key 刚按下的按键
+   * @param event 原始键盘事件
+   */
+  #emitKeyPress(key: Key, event: KeyboardEvent): void {
+    this.keyPressListeners.forEach(({ keys, callback }) => {
+      if (!keys.includes(key) || !keys.every(k => this.isKeyPressed(k))) return;
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Input模块：按键监听回调错误：', error);
+      }
+    });
+  }
+
   /**
    * 封装事件监听：缓存监听器引用，方便后续销毁
    * @param target 事件目标
@@ -419,6 +943,26 @@ class Input {
     this.eventListeners.push({ target, type, handler });
   }
 
+  /**
+   * 锁存已连接手柄的轴（槽位 -> 原始轴数值）
+   */
+  #latchGamepadAxes(): Array<[number, number[]]> {
+    const raw = this.gamepads.getRawPads();
+    return this.gamepads.getConnected().map((info, i) => [info.slot, [...raw[i].axes]]);
+  }
+
+  /**
+   * 锁存触摸点位置：当前按下的触点，加上上次锁存以来抬起的触点（其抬起位置）
+   */
+  #latchTouchPositions(): Array<{ id: number; x: number; y: number }> {
+    const positions = this.getTouchPositions();
+    this.endedTouches.forEach((pos, id) => {
+      if (!this.touchState.touches.has(id)) positions.push({ id, ...pos });
+    });
+    this.endedTouches.clear();
+    return positions;
+  }
+
   /**
    * 计算相对坐标（窗口 -> Canvas）
    * @param clientX 客户端X坐标
@@ -430,11 +974,13 @@ class Input {
       return { x: clientX, y: clientY };
     }
     const rect = this.canvas.getBoundingClientRect();
+    const { width, height } = this.logicalSize ?? this.canvas;
     return {
-      x: (clientX - rect.left) * (this.canvas.width / rect.width),
-      y: (clientY - rect.top) * (this.canvas.height / rect.height),
+      x: (clientX - rect.left) * (width / rect.width),
+      y: (clientY - rect.top) * (height / rect.height),
     };
   }
 }
 
-export { Input };
\ No newline at end of file
+export { Input };
+export type { Key, MouseButton, InputOptions, InputSnapshot, InputFrame, InputFrameSource };
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Input } from './io';
+import { InputRecorder, InputReplay, parseRecording, serializeRecording } from './replay';
+import { ENGINE_VERSION } from '../config/config';
+import { GameLoop } from '../loop/loop';
+import { ManualScheduler } from '../loop/scheduler';
+import type { FrameScheduler } from '../loop/scheduler';
+import { fakePad, key } from './testing';
+import type { GamepadLike } from './gamepad';
+
+/** 最小游戏：按住d时x递增，按住手柄A键时y递增（逐逻辑步） */
+function createGame(pads: () => GamepadLike[]) {
+  const input = new Input(undefined, { gamepadSource: pads });
+  const state = { x: 0, y: 0 };
+  const checksum = () => `${state.x},${state.y}`;
+  const game = {
+    input,
+    state,
+    checksum,
+    loop: undefined as GameLoop | undefined,
+    /** 以指定调度器创建并启动游戏循环 */
+    run(scheduler: FrameScheduler): GameLoop {
+      const loop = new GameLoop({ scheduler });
+      loop.setFixedTimestep(60);
+      input.bindGameLoop(loop);
+      loop.addUpdateCallback(() => {
+        if (input.frame.keys.held('d')) state.x++;
+        if (input.isGamepadButtonPressed(0, 'A')) state.y++;
+      }, { phase: 'fixedUpdate' });
+      loop.start(false);
+      game.loop = loop;
+      return loop;
+    },
+  };
+  return game;
+}
+
+describe('InputRecorder / InputReplay', () => {
+  const games: Array<ReturnType<typeof createGame>> = [];
+
+  beforeEach(() => {
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    games.forEach(({ loop, input }) => {
+      loop?.stop();
+      input.destroy();
+    });
+    games.length = 0;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * 录制20帧：帧时间差不均匀，键盘与手柄输入交替出现，每帧记录状态校验值
+   * @returns 录制的游戏与经过序列化往返的录像
+   */
+  function recordSample(options: { seed?: number; sceneId?: string; extra?: Record<string, unknown> } = {}) {
+    let pad = fakePad();
+    const scheduler = new ManualScheduler();
+    const recorded = createGame(() => [pad]);
+    games.push(recorded);
+    const recordLoop = recorded.run(scheduler);
+    scheduler.step(1 / 60);
+
+    const recorder = new InputRecorder(recorded.input, { ...options, gameLoop: recordLoop, checksum: recorded.checksum, checksumInterval: 1 });
+    recorder.start();
+    for (let frame = 0; frame < 20; frame++) {
+      if (frame === 2) key('keydown', 'd');
+      if (frame === 6) key('keyup', 'd');
+      if (frame === 8) pad = fakePad({ pressed: [0] });
+      if (frame === 12) pad = fakePad();
+      scheduler.step((frame % 3 === 0 ? 1.5 : 1) / 60);
+    }
+    return { recorded, recording: parseRecording(serializeRecording(recorder.stop())) };
+  }
+
+  it('录制后回放，每帧状态校验值一致且最终状态相同', () => {
+    const { recorded, recording } = recordSample();
+    expect(recording.frames).toHaveLength(20);
+    expect(recorded.state.x).toBeGreaterThan(0);
+    expect(recorded.state.y).toBeGreaterThan(0);
+
+    // 回放：同一手柄保持连接，回放结束前后不应产生多余的断开与重连
+    const pacing = new ManualScheduler();
+    const replayed = createGame(() => [fakePad()]);
+    games.push(replayed);
+    const onDiverge = vi.fn();
+    const onEnd = vi.fn();
+    const replay = new InputReplay(replayed.input, recording, { checksum: replayed.checksum, onDiverge, onEnd });
+    const connects = vi.fn();
+    const disconnects = vi.fn();
+    replayed.input.onGamepadConnect(connects);
+    replayed.input.onGamepadDisconnect(disconnects);
+
+    replay.start();
+    replayed.run(replay.createScheduler(pacing));
+    for (let i = 0; i < 30 && replay.isPlaying(); i++) pacing.step(1 / 60);
+    expect(replay.isPlaying()).toBe(false);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    pacing.stepFrames(3);
+
+    expect(onDiverge).not.toHaveBeenCalled();
+    expect(replay.getDivergence()).toBeNull();
+    expect(replayed.state).toEqual(recorded.state);
+    expect(connects).toHaveBeenCalledTimes(1);
+    expect(disconnects).not.toHaveBeenCalled();
+  });
+
+  it('回放状态与录制时不一致时报告偏离的帧，仅首次偏离时回调', () => {
+    const { recording } = recordSample();
+    const pacing = new ManualScheduler();
+    const replayed = createGame(() => []);
+    games.push(replayed);
+    const onDiverge = vi.fn();
+    const replay = new InputReplay(replayed.input, recording, { checksum: replayed.checksum, onDiverge });
+    replay.start();
+    replayed.run(replay.createScheduler(pacing));
+    for (let i = 0; i < 5; i++) pacing.step(1 / 60);
+    expect(onDiverge).not.toHaveBeenCalled();
+
+    // 游戏逻辑与录制时不同（如随机数未按种子初始化），下一帧开始时校验值不一致
+    const frame = replay.getFrameIndex();
+    replayed.state.y += 100;
+    pacing.step(1 / 60);
+    // 校验值在帧开始时（本帧逻辑步之前）计算
+    const divergence = { frame, expected: recording.frames[frame].h, actual: expect.stringMatching(/,100$/) };
+    expect(onDiverge).toHaveBeenCalledTimes(1);
+    expect(onDiverge).toHaveBeenCalledWith(divergence);
+    expect(replay.getDivergence()).toEqual(divergence);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`第${frame}帧偏离`));
+
+    pacing.stepFrames(3);
+    expect(onDiverge).toHaveBeenCalledTimes(1);
+    expect(replay.isPlaying()).toBe(true);
+  });
+
+  it('元数据经序列化往返后保留，引擎版本不一致时开始回放提示', () => {
+    const extra = { level: 3, hero: 'knight' };
+    const { recording } = recordSample({ seed: 42, sceneId: 'level-3', extra });
+    const replayed = createGame(() => []);
+    games.push(replayed);
+    expect(new InputReplay(replayed.input, recording).getMetadata()).toMatchObject({
+      engineVersion: ENGINE_VERSION,
+      seed: 42,
+      sceneId: 'level-3',
+      frameCount: 20,
+      extra,
+    });
+    expect(Number.isNaN(Date.parse(recording.meta.recordedAt))).toBe(false);
+
+    const old = parseRecording(JSON.stringify({ ...recording, meta: { ...recording.meta, engineVersion: '0.0.1' } }));
+    new InputReplay(replayed.input, old).start();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('0.0.1'));
+  });
+
+  it('parseRecording拒绝格式错误、版本不支持或缺少字段的录像', () => {
+    const { recording } = recordSample();
+    const json = serializeRecording(recording);
+    expect(parseRecording(json)).toEqual(recording);
+    expect(() => parseRecording(json.slice(0, -10))).toThrow();
+    expect(() => parseRecording('42')).toThrow('[Replay] 录像格式不正确');
+    expect(() => parseRecording({ ...recording, format: 'other' })).toThrow('不是输入录像文件');
+    expect(() => parseRecording({ ...recording, version: 2 })).toThrow('不支持的录像版本：2');
+    expect(() => parseRecording({ ...recording, frames: undefined })).toThrow('缺少meta、initial或frames');
+    expect(() => parseRecording({ ...recording, meta: { frameCount: 20 } })).toThrow('缺少meta、initial或frames');
+    expect(() => new InputReplay(createGame(() => []).input, { ...recording, version: 0 })).toThrow('[Replay]');
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * 输入录制与回放
+ * 录制：在每帧开始时（Input.beginFrame）把帧快照中的按键事件、鼠标、触摸与手柄数据按变化量编码，
+ * 连同帧时间戳与可选的状态校验值写入录像（JSON，字段名缩写，无变化的字段省略）
+ * 回放：作为Input的外部输入源逐帧还原输入（DOM事件被忽略），可配合回放调度器复现每帧的时间差，
+ * 并在状态校验值不一致时报告回放已偏离
+ */
+
+import type { Input, Key, MouseButton, InputFrame } from "./io";
+import type { GamepadLike } from "./gamepad";
+import type { ButtonSnapshot, InputSnapshot } from "./snapshot";
+import type { GameLoop } from "../loop/loop";
+import type { FrameScheduler } from "../loop/scheduler";
+import { createDefaultScheduler } from "../loop/scheduler";
+import { ENGINE_VERSION } from "../config/config";
+
+// ========== 类型定义 ==========
+/** 录像格式标识 */
+const REPLAY_FORMAT = 'indid-input-replay';
+/** 录像格式版本 */
+const REPLAY_VERSION = 1;
+
+/** 状态校验函数（返回当前游戏状态的摘要，如关键实体坐标拼接的字符串或哈希值） */
+type ReplayChecksum = () => string | number;
+
+/** 按下/松开事件：[按下, 松开] */
+type EncodedButtons<T> = [T[], T[]];
+
+/** 手柄数据：[浏览器序号, 设备描述, 布局, 按下的按键序号, 按键模拟量, 轴] */
+type EncodedGamepad = [number, string, string, number[], number[], number[]];
+
+/** 触摸点：[id, x, y] */
+type EncodedTouch = [number, number, number];
+
+/** 录像中的一帧（字段缺省表示无变化） */
+type ReplayFrameData = {
+  t?: number; // 帧时间戳（毫秒，GameLoop.getFrameTime；录制时传入gameLoop才有）
+  k?: EncodedButtons<Key>; // 键盘按键
+  c?: EncodedButtons<string>; // 物理按键
+  m?: EncodedButtons<MouseButton>; // 鼠标按键
+  tc?: EncodedButtons<number>; // 触摸点
+  p?: [number, number]; // 鼠标位置
+  d?: [number, number]; // 鼠标移动
+  w?: number; // 滚轮偏移
+  tp?: EncodedTouch[]; // 全部触摸点位置
+  g?: EncodedGamepad[]; // 全部已连接手柄
+  h?: string | number; // 状态校验值
+};
+
+/** 录制开始时的输入状态 */
+type ReplayInitialState = {
+  k: Key[]; // 按下的键盘按键
+  c: string[]; // 按下的物理按键
+  m: MouseButton[]; // 按下的鼠标按键
+  p: [number, number]; // 鼠标位置
+  tp: EncodedTouch[]; // 触摸点
+  g: EncodedGamepad[]; // 已连接手柄
+};
+
+/** 录像元数据 */
+type ReplayMetadata = {
+  engineVersion: string; // 录制时的引擎版本
+  seed?: number; // 随机数种子（回放前用相同种子初始化游戏的随机数）
+  sceneId?: string; // 录制时的场景
+  recordedAt: string; // 录制开始时间（ISO格式）
+  frameCount: number; // 帧数
+  startTime?: number; // 第一帧之前的帧时间戳（毫秒，录制时传入gameLoop才有）
+  extra?: Record<string, unknown>; // 业务自定义信息（如关卡、角色配置）
+};
+
+/** 录像 */
+type InputRecording = {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  meta: ReplayMetadata;
+  initial: ReplayInitialState;
+  frames: ReplayFrameData[];
+};
+
+/** 录制选项 */
+type RecorderOptions = {
+  gameLoop?: GameLoop; // 游戏循环（传入时记录帧时间戳，回放时可精确复现时间差）
+  seed?: number; // 随机数种子
+  sceneId?: string; // 场景标识
+  extra?: Record<string, unknown>; // 业务自定义信息
+  checksum?: ReplayChecksum; // 状态校验函数（用于回放时检测偏离）
+  checksumInterval?: number; // 校验间隔（帧，默认60；第一帧总是校验）
+};
+
+/** 回放偏离信息 */
+type ReplayDivergence = {
+  frame: number; // 偏离的帧（从0开始）
+  expected: string | number; // 录制时的校验值
+  actual: string | number; // 回放时的校验值
+};
+
+/** 回放选项 */
+type ReplayOptions = {
+  checksum?: ReplayChecksum; // 状态校验函数（需与录制时一致）
+  stopOnDiverge?: boolean; // 偏离时是否停止回放（默认false，继续回放）
+  onDiverge?: (divergence: ReplayDivergence) => void; // 偏离回调（仅首次偏离时调用）
+  onEnd?: () => void; // 回放结束回调（全部帧回放完毕后的下一帧开始时调用）
+};
+
+// ========== 工具函数 ==========
+function encodeButtons<T>(snapshot: ButtonSnapshot<T>): EncodedButtons<T> | undefined {
+  const pressed = snapshot.getJustPressed();
+  const released = snapshot.getJustReleased();
+  return pressed.length > 0 || released.length > 0 ? [pressed, released] : undefined;
+}
+
+function encodeTouches(touches: ReadonlyArray<{ id: number; x: number; y: number }>): EncodedTouch[] {
+  return touches.map(({ id, x, y }) => [id, x, y]);
+}
+
+function encodeGamepads(pads: GamepadLike[]): EncodedGamepad[] {
+  return pads.map(pad => [
+    pad.index,
+    pad.id,
+    pad.mapping,
+    pad.buttons.flatMap((button, index) => (button.pressed ? [index] : [])),
+    pad.buttons.map(button => button.value),
+    Array.from(pad.axes),
+  ]);
+}
+
+function decodeGamepads(pads: EncodedGamepad[]): GamepadLike[] {
+  return pads.map(([index, id, mapping, pressed, values, axes]) => ({
+    index,
+    id,
+    mapping,
+    connected: true,
+    buttons: values.map((value, button) => ({ value, pressed: pressed.includes(button) })),
+    axes,
+  }));
+}
+
+function decodeTouches(touches: EncodedTouch[]): Array<{ id: number; x: number; y: number }> {
+  return touches.map(([id, x, y]) => ({ id, x, y }));
+}
+
+/**
+ * 校验并解析录像
+ * @param data 录像JSON字符串或已解析的对象
+ * @throws {Error} 格式不正确或版本不受支持时抛出错误
+ */
+function parseRecording(data: string | unknown): InputRecording {
+  const value: unknown = typeof data === 'string' ? JSON.parse(data) : data;
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('[Replay] 录像格式不正确');
+  }
+  const recording = value as Partial<InputRecording>;
+  if (recording.format !== REPLAY_FORMAT) {
+    throw new Error(`[Replay] 不是输入录像文件（format应为${REPLAY_FORMAT}）`);
+  }
+  if (recording.version !== REPLAY_VERSION) {
+    throw new Error(`[Replay] 不支持的录像版本：${recording.version}`);
+  }
+  if (!recording.meta || typeof recording.meta.engineVersion !== 'string' || !recording.initial || !Array.isArray(recording.frames)) {
+    throw new Error('[Replay] 录像缺少meta、initial或frames');
+  }
+  return recording as InputRecording;
+}
+
+/**
+ * 序列化录像（JSON字符串，可直接保存为文件）
+ */
+function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * 创建带种子的随机数函数（mulberry32，返回[0, 1)），相同种子产生相同序列
+ * 可传给ParticleEmitter的random选项等需要确定性随机数的地方
+ * @param seed 种子（整数）
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class InputRecorder {
+  // ========== 私有状态 ==========
+  private input: Input; // 录制的输入模块
+  private options: RecorderOptions; // 录制选项
+  private frames: ReplayFrameData[] = []; // 已录制的帧
+  private initial?: ReplayInitialState; // 录制开始时的输入状态
+  private meta?: ReplayMetadata; // 元数据（start时生成）
+  private unbindFrame?: () => void; // 取消帧开始监听
+  private lastPosition: [number, number] = [0, 0]; // 上一帧的鼠标位置
+  private lastTouches: string = '[]'; // 上一帧的触摸点（编码后）
+  private lastGamepads: string = '[]'; // 上一帧的手柄（编码后）
+
+  /**
+   * @param input 输入模块（需每帧调用beginFrame，通常通过bindGameLoop）
+   * @param options 录制选项
+   * @throws {Error} 校验间隔不是正整数时抛出错误
+   */
+  constructor(input: Input, options: RecorderOptions = {}) {
+    const { checksumInterval } = options;
+    if (checksumInterval !== undefined && !(Number.isInteger(checksumInterval) && checksumInterval > 0)) {
+      throw new Error('[Replay] 校验间隔必须是正整数');
+    }
+    this.input = input;
+    this.options = options;
+  }
+
+  /**
+   * 开始录制（从下一次beginFrame开始记录）
+   * @throws {Error} 已在录制时抛出错误
+   */
+  start(): void {
+    if (this.unbindFrame) {
+      throw new Error('[Replay] 已在录制中，请先调用stop');
+    }
+    const { gameLoop, seed, sceneId, extra } = this.options;
+    // 第一帧的事件相对于上一次锁存的快照，初始状态取自该快照
+    const frame = this.input.frame;
+    this.initial = {
+      k: frame.keys.getHeld(),
+      c: frame.codes.getHeld(),
+      m: frame.mouse.getHeld(),
+      p: [frame.mousePosition.x, frame.mousePosition.y],
+      tp: encodeTouches(frame.touchPositions),
+      g: encodeGamepads(this.input.getGamepadData()),
+    };
+    this.meta = {
+      engineVersion: ENGINE_VERSION,
+      seed,
+      sceneId,
+      recordedAt: new Date().toISOString(),
+      frameCount: 0,
+      startTime: gameLoop?.getFrameTime(),
+      extra,
+    };
+    this.frames = [];
+    this.lastPosition = this.initial.p;
+    this.lastTouches = JSON.stringify(this.initial.tp);
+    this.lastGamepads = JSON.stringify(this.initial.g);
+    this.unbindFrame = this.input.onFrame(snapshot => this.recordFrame(snapshot));
+  }
+
+  /**
+   * 停止录制
+   * @returns 录像
+   * @throws {Error} 未在录制时抛出错误
+   */
+  stop(): InputRecording {
+    if (!this.unbindFrame || !this.meta || !this.initial) {
+      throw new Error('[Replay] 当前没有进行中的录制');
+    }
+    this.unbindFrame();
+    this.unbindFrame = undefined;
+    const recording: InputRecording = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      meta: { ...this.meta, frameCount: this.frames.length },
+      initial: this.initial,
+      frames: this.frames,
+    };
+    this.frames = [];
+    return recording;
+  }
+
+  /** 是否正在录制 */
+  isRecording(): boolean {
+    return this.unbindFrame !== undefined;
+  }
+
+  /** 已录制的帧数 */
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  private recordFrame(snapshot: InputSnapshot): void {
+    const { gameLoop, checksum, checksumInterval = 60 } = this.options;
+    const data: ReplayFrameData = {};
+    if (gameLoop) data.t = gameLoop.getFrameTime();
+    const keys = encodeButtons(snapshot.keys);
+    if (keys) data.k = keys;
+    const codes = encodeButtons(snapshot.codes);
+    if (codes) data.c = codes;
+    const mouse = encodeButtons(snapshot.mouse);
+    if (mouse) data.m = mouse;
+    const touches = encodeButtons(snapshot.touches);
+    if (touches) data.tc = touches;
+
+    const { x, y } = snapshot.mousePosition;
+    if (x !== this.lastPosition[0] || y !== this.lastPosition[1]) {
+      data.p = [x, y];
+      this.lastPosition = [x, y];
+    }
+    if (snapshot.mouseDelta.x !== 0 || snapshot.mouseDelta.y !== 0) data.d = [snapshot.mouseDelta.x, snapshot.mouseDelta.y];
+    if (snapshot.wheelDelta !== 0) data.w = snapshot.wheelDelta;
+
+    const touchPositions = encodeTouches(snapshot.touchPositions);
+    const touchKey = JSON.stringify(touchPositions);
+    if (touchKey !== this.lastTouches) {
+      data.tp = touchPositions;
+      this.lastTouches = touchKey;
+    }
+    const gamepads = encodeGamepads(this.input.getGamepadData());
+    const gamepadKey = JSON.stringify(gamepads);
+    if (gamepadKey !== this.lastGamepads) {
+      data.g = gamepads;
+      this.lastGamepads = gamepadKey;
+    }
+
+    if (checksum && this.frames.length % checksumInterval === 0) data.h = checksum();
+    this.frames.push(data);
+  }
+}
+
+class InputReplay {
+  // ========== 私有状态 ==========
+  private input: Input; // 回放的输入模块
+  private recording: InputRecording; // 录像
+  private options: ReplayOptions; // 回放选项
+  private index: number = 0; // 下一帧的序号
+  private playing: boolean = false; // 是否正在回放
+  private gamepads: GamepadLike[] = []; // 当前手柄数据
+  private current?: ReplayFrameData; // 本帧的录像数据（帧开始监听中校验）
+  private divergence: ReplayDivergence | null = null; // 首次偏离
+  private unbindFrame?: () => void; // 取消帧开始监听
+
+  /**
+   * @param input 输入模块（需每帧调用beginFrame，通常通过bindGameLoop）
+   * @param recording 录像（可先用parseRecording校验）
+   * @param options 回放选项
+   */
+  constructor(input: Input, recording: InputRecording, options: ReplayOptions = {}) {
+    this.input = input;
+    this.recording = parseRecording(recording);
+    this.options = options;
+  }
+
+  /**
+   * 开始回放（从下一次beginFrame开始，Input的DOM输入被忽略）
+   * 回放前应按元数据恢复游戏状态（场景、随机数种子），使游戏从录制开始时的状态运行
+   * @throws {Error} 已在回放时抛出错误
+   */
+  start(): void {
+    if (this.playing) {
+      throw new Error('[Replay] 已在回放中，请先调用stop');
+    }
+    const { meta, initial } = this.recording;
+    if (meta.engineVersion !== ENGINE_VERSION) {
+      console.warn(`[Replay] 录像的引擎版本（${meta.engineVersion}）与当前版本（${ENGINE_VERSION}）不一致，回放结果可能不同`);
+    }
+    this.index = 0;
+    this.divergence = null;
+    this.current = undefined;
+    this.gamepads = decodeGamepads(initial.g);
+    this.playing = true;
+    this.input.setFrameSource(() => this.nextFrame(), {
+      keys: initial.k,
+      codes: initial.c,
+      mouse: initial.m,
+      mousePosition: { x: initial.p[0], y: initial.p[1] },
+      touchPositions: decodeTouches(initial.tp),
+    });
+    this.unbindFrame = this.input.onFrame(() => this.verifyFrame());
+  }
+
+  /**
+   * 停止回放，恢复DOM输入
+   */
+  stop(): void {
+    if (!this.playing) return;
+    this.playing = false;
+    this.current = undefined;
+    this.unbindFrame?.();
+    this.unbindFrame = undefined;
+    this.input.setFrameSource(null);
+  }
+
+  /** 是否正在回放 */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** 已回放的帧数 */
+  getFrameIndex(): number {
+    return this.index;
+  }
+
+  /** 录像总帧数 */
+  getFrameCount(): number {
+    return this.recording.frames.length;
+  }
+
+  /** 录像元数据 */
+  getMetadata(): ReplayMetadata {
+    return { ...this.recording.meta };
+  }
+
+  /** 首次偏离信息（未偏离时为null） */
+  getDivergence(): ReplayDivergence | null {
+    return this.divergence ? { ...this.divergence } : null;
+  }
+
+  /**
+   * 创建回放调度器：按录制的帧时间戳驱动GameLoop，使每帧的deltaTime与录制时完全一致
+   * 回放期间帧节奏由pacing决定（如浏览器刷新或ManualScheduler.step），时间戳取自录像；回放结束后按pacing的时间继续
+   * 使用方式：new GameLoop({ scheduler: replay.createScheduler() })，在start(false)之后再启动循环
+   * @param pacing 帧节奏调度器（默认按环境自动选择）
+   * @throws {Error} 录像没有帧时间戳（录制时未传入gameLoop）时抛出错误
+   */
+  createScheduler(pacing: FrameScheduler = createDefaultScheduler()): FrameScheduler {
+    const { meta, frames } = this.recording;
+    if (meta.startTime === undefined || frames.some(frame => frame.t === undefined)) {
+      throw new Error('[Replay] 录像没有帧时间戳（录制时未传入gameLoop），无法创建回放调度器');
+    }
+    const startTime = meta.startTime;
+    let endOffset: number | null = null; // 回放结束后：录像时间 - pacing时间
+    const afterEnd = (): number => {
+      const last = frames.length > 0 ? frames[frames.length - 1].t! : startTime;
+      if (endOffset === null) endOffset = last - pacing.now();
+      return pacing.now() + endOffset;
+    };
+    return {
+      now: () => {
+        if (endOffset !== null) return afterEnd();
+        return this.index === 0 ? startTime : frames[this.index - 1].t!;
+      },
+      request: (callback) => pacing.request(() => {
+        callback(this.index < frames.length ? frames[this.index].t! : afterEnd());
+      }),
+      cancel: (handle) => pacing.cancel(handle),
+    };
+  }
+
+  /**
+   * 外部输入源：提供下一帧的输入，全部帧回放完毕后结束回放
+   * 结束的这一帧仍提供录像最后的手柄数据（本帧手柄轮询仍取自外部输入源），
+   * 避免同一手柄在回放结束时先断开、下一帧又重新连接
+   */
+  private nextFrame(): InputFrame | null {
+    const frames = this.recording.frames;
+    if (this.index >= frames.length) {
+      this.stop();
+      this.options.onEnd?.();
+      return { gamepads: this.gamepads };
+    }
+    const data = frames[this.index];
+    this.current = data;
+    this.index++;
+    if (data.g) this.gamepads = decodeGamepads(data.g);
+    const decode = <T>(buttons?: EncodedButtons<T>) => (buttons ? { pressed: buttons[0], released: buttons[1] } : undefined);
+    return {
+      keys: decode(data.k),
+      codes: decode(data.c),
+      mouse: decode(data.m),
+      touches: decode(data.tc),
+      mousePosition: data.p ? { x: data.p[0], y: data.p[1] } : undefined,
+      mouseDelta: data.d ? { x: data.d[0], y: data.d[1] } : undefined,
+      wheelDelta: data.w,
+      touchPositions: data.tp ? decodeTouches(data.tp) : undefined,
+      gamepads: this.gamepads,
+    };
+  }
+
+  /**
+   * 帧开始时比对状态校验值（与录制时在同一时机计算）
+   */
+  private verifyFrame(): void {
+    const data = this.current;
+    const { checksum, stopOnDiverge = false, onDiverge } = this.options;
+    if (!data || data.h === undefined || !checksum || this.divergence) return;
+    const actual = checksum();
+    if (actual === data.h) return;
+    this.divergence = { frame: this.index - 1, expected: data.h, actual };
+    console.warn(`[Replay] 回放在第${this.index - 1}帧偏离：期望${data.h}，实际${actual}`);
+    onDiverge?.({ ...this.divergence });
+    if (stopOnDiverge) this.stop();
+  }
+}
+
+export { InputRecorder, InputReplay, parseRecording, serializeRecording, createSeededRandom, REPLAY_FORMAT, REPLAY_VERSION };
+export type {
+  InputRecording, ReplayMetadata, ReplayFrameData, ReplayInitialState, RecorderOptions, ReplayOptions,
+  ReplayDivergence, ReplayChecksum,
+};
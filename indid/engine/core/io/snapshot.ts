@@ -0,0 +1,324 @@
+/**
+ * 输入帧快照
+ * Input在每帧开始时（GameLoop的input阶段）把上一帧以来的输入事件锁存为只读快照，
+ * 同一帧内任意多次、任意位置读取结果一致，不存在"读取即重置"导致后读取者漏掉事件的问题
+ * 设置外部输入源（如回放）时，每帧的输入改由外部输入源提供，DOM事件被忽略
+ */
+
+import type { Key, MouseButton } from "./io";
+import { resolveGamepadButton } from "./gamepad";
+import type { GamepadLike, GamepadButton, GamepadButtonEdges } from "./gamepad";
+
+/**
+ * 一类按键在某一帧的状态（键盘按键、鼠标按键、触摸点）
+ * 同一帧内按下又松开时，justPressed与justReleased均为true，held为false
+ */
+class ButtonSnapshot<T> {
+  private down: ReadonlySet<T>; // 锁存时仍按下
+  private pressed: ReadonlySet<T>; // 上一帧以来按下过
+  private released: ReadonlySet<T>; // 上一帧以来松开过
+
+  constructor(down: Iterable<T> = [], pressed: Iterable<T> = [], released: Iterable<T> = []) {
+    this.down = new Set(down);
+    this.pressed = new Set(pressed);
+    this.released = new Set(released);
+  }
+
+  /**
+   * 是否在本帧**刚按下**
+   * @param id 按键（不传时表示任意按键）
+   */
+  justPressed(id?: T): boolean {
+    return id === undefined ? this.pressed.size > 0 : this.pressed.has(id);
+  }
+
+  /**
+   * 是否在本帧**刚松开**
+   * @param id 按键（不传时表示任意按键）
+   */
+  justReleased(id?: T): boolean {
+    return id === undefined ? this.released.size > 0 : this.released.has(id);
+  }
+
+  /**
+   * 本帧是否**按住**
+   * @param id 按键（不传时表示任意按键）
+   */
+  held(id?: T): boolean {
+    return id === undefined ? this.down.size > 0 : this.down.has(id);
+  }
+
+  /** 本帧按住的全部按键 */
+  getHeld(): T[] {
+    return Array.from(this.down);
+  }
+
+  /** 本帧刚按下的全部按键 */
+  getJustPressed(): T[] {
+    return Array.from(this.pressed);
+  }
+
+  /** 本帧刚松开的全部按键 */
+  getJustReleased(): T[] {
+    return Array.from(this.released);
+  }
+}
+
+/**
+ * 手柄按键在某一帧的状态（按玩家槽位区分，每帧轮询一次手柄时锁存）
+ * 手柄在本帧断开时，其按住的按键报告为刚松开
+ */
+class GamepadButtonSnapshot {
+  private pads: ReadonlyMap<number, ButtonSnapshot<number>>; // 槽位 -> 按键状态（按键序号）
+
+  constructor(pads: Iterable<[number, ButtonSnapshot<number>]> = []) {
+    this.pads = new Map(pads);
+  }
+
+  /** 由手柄轮询结果创建 */
+  static fromEdges(edges: GamepadButtonEdges[]): GamepadButtonSnapshot {
+    return new GamepadButtonSnapshot(edges.map(({ slot, held, pressed, released }) => [slot, new ButtonSnapshot(held, pressed, released)]));
+  }
+
+  /**
+   * 是否在本帧**刚按下**
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或按键序号
+   */
+  justPressed(slot: number, button: GamepadButton): boolean {
+    return this.pads.get(slot)?.justPressed(resolveGamepadButton(button)) ?? false;
+  }
+
+  /**
+   * 是否在本帧**刚松开**
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或按键序号
+   */
+  justReleased(slot: number, button: GamepadButton): boolean {
+    return this.pads.get(slot)?.justReleased(resolveGamepadButton(button)) ?? false;
+  }
+
+  /**
+   * 本帧是否**按住**
+   * @param slot 玩家槽位
+   * @param button 按键名（标准布局）或按键序号
+   */
+  held(slot: number, button: GamepadButton): boolean {
+    return this.pads.get(slot)?.held(resolveGamepadButton(button)) ?? false;
+  }
+
+  /** 有按键状态的槽位 */
+  getSlots(): number[] {
+    return Array.from(this.pads.keys());
+  }
+
+  /** 指定槽位的按键状态（按键序号，没有该槽位时为空） */
+  getButtons(slot: number): ButtonSnapshot<number> {
+    return this.pads.get(slot) ?? new ButtonSnapshot();
+  }
+}
+
+/**
+ * 手柄轴在某一帧的取值（原始值，未应用死区），同时保留上一帧的取值，用于判断轴刚越过阈值
+ */
+class GamepadAxisSnapshot {
+  private current: ReadonlyMap<number, ReadonlyArray<number>>; // 槽位 -> 锁存时的轴
+  private last: ReadonlyMap<number, ReadonlyArray<number>>; // 槽位 -> 上一帧锁存时的轴
+
+  constructor(current: Iterable<[number, ReadonlyArray<number>]> = [], previous: Iterable<[number, ReadonlyArray<number>]> = []) {
+    this.current = new Map(current);
+    this.last = new Map(previous);
+  }
+
+  /**
+   * 本帧的轴取值（手柄未连接时为0）
+   * @param slot 玩家槽位
+   * @param axis 轴序号
+   */
+  value(slot: number, axis: number): number {
+    return this.current.get(slot)?.[axis] ?? 0;
+  }
+
+  /**
+   * 上一帧的轴取值（手柄未连接时为0）
+   * @param slot 玩家槽位
+   * @param axis 轴序号
+   */
+  previous(slot: number, axis: number): number {
+    return this.last.get(slot)?.[axis] ?? 0;
+  }
+
+  /** 本帧或上一帧有轴数据的槽位 */
+  getSlots(): number[] {
+    return Array.from(new Set([...this.current.keys(), ...this.last.keys()]));
+  }
+
+  /** 以新的本帧取值创建快照，本快照的本帧取值作为上一帧 */
+  next(current: Iterable<[number, ReadonlyArray<number>]>): GamepadAxisSnapshot {
+    return new GamepadAxisSnapshot(current, this.current);
+  }
+
+  /** 合并连续两帧：取较新的本帧取值与较早的上一帧取值 */
+  since(earlier: GamepadAxisSnapshot): GamepadAxisSnapshot {
+    return new GamepadAxisSnapshot(this.current, earlier.last);
+  }
+
+  /** 不再变化的快照（上一帧取值与本帧相同） */
+  settled(): GamepadAxisSnapshot {
+    return new GamepadAxisSnapshot(this.current, this.current);
+  }
+}
+
+/**
+ * 按键事件锁存器（Input内部使用）：在两次锁存之间累计按下/松开事件
+ */
+class ButtonLatch<T> {
+  private down: Set<T> = new Set(); // 当前按下
+  private pressed: Set<T> = new Set(); // 上次锁存以来按下过
+  private released: Set<T> = new Set(); // 上次锁存以来松开过
+
+  /** 当前是否按下 */
+  isDown(id: T): boolean {
+    return this.down.has(id);
+  }
+
+  /** 记录按下（已按下时忽略，如键盘自动重复） */
+  press(id: T): void {
+    if (this.down.has(id)) return;
+    this.down.add(id);
+    this.pressed.add(id);
+  }
+
+  /** 记录松开（未按下时忽略） */
+  release(id: T): void {
+    if (!this.down.delete(id)) return;
+    this.released.add(id);
+  }
+
+  /** 松开全部按键（失焦、鼠标离开等状态重置时调用，下一帧报告为刚松开） */
+  releaseAll(): void {
+    Array.from(this.down).forEach(id => this.release(id));
+  }
+
+  /** 生成快照并开始累计下一帧的事件 */
+  latch(): ButtonSnapshot<T> {
+    const snapshot = new ButtonSnapshot(this.down, this.pressed, this.released);
+    this.pressed.clear();
+    this.released.clear();
+    return snapshot;
+  }
+
+  /**
+   * 清空全部状态，不产生松开事件（销毁、切换外部输入源时调用）
+   * @param down 清空后处于按下状态的按键（可选）
+   */
+  clear(down: Iterable<T> = []): void {
+    this.down = new Set(down);
+    this.pressed.clear();
+    this.released.clear();
+  }
+}
+
+/** 一帧的输入快照（只读，由Input.beginFrame生成） */
+type InputSnapshot = {
+  readonly frame: number; // 帧序号（第一次beginFrame为1；未开始时为0）
+  readonly keys: ButtonSnapshot<Key>; // 键盘按键（KeyboardEvent.key）
+  readonly codes: ButtonSnapshot<string>; // 物理按键（KeyboardEvent.code）
+  readonly mouse: ButtonSnapshot<MouseButton>; // 鼠标按键（left/middle/right或数字）
+  readonly touches: ButtonSnapshot<number>; // 触摸点（Touch.identifier）
+  readonly gamepadButtons: GamepadButtonSnapshot; // 手柄按键（按玩家槽位）
+  readonly gamepadAxes: GamepadAxisSnapshot; // 手柄轴（按玩家槽位，原始值）
+  readonly mousePosition: { readonly x: number; readonly y: number }; // 鼠标位置（画布逻辑坐标）
+  readonly mouseDelta: { readonly x: number; readonly y: number }; // 上一帧以来的鼠标移动（画布逻辑坐标，指针锁定时同样有效）
+  readonly wheelDelta: number; // 上一帧以来的滚轮累计偏移（正数向上）
+  readonly touchPositions: ReadonlyArray<{ readonly id: number; readonly x: number; readonly y: number }>; // 触摸点位置（含上一帧以来抬起的触点，位置为抬起处）
+};
+
+/** 一帧内某类按键的按下/松开事件（同时包含同一按键时，按键当前按下则视为先松开再按下，否则视为先按下再松开） */
+type ButtonEvents<T> = {
+  pressed?: T[]; // 按下
+  released?: T[]; // 松开
+};
+
+/** 外部输入源提供的一帧输入（如回放），字段缺省表示无变化 */
+type InputFrame = {
+  keys?: ButtonEvents<Key>; // 键盘按键（KeyboardEvent.key）
+  codes?: ButtonEvents<string>; // 物理按键（KeyboardEvent.code）
+  mouse?: ButtonEvents<MouseButton>; // 鼠标按键
+  touches?: ButtonEvents<number>; // 触摸点
+  mousePosition?: { x: number; y: number }; // 鼠标位置
+  mouseDelta?: { x: number; y: number }; // 鼠标移动
+  wheelDelta?: number; // 滚轮偏移
+  touchPositions?: Array<{ id: number; x: number; y: number }>; // 全部触摸点位置
+  gamepads?: GamepadLike[]; // 已连接的手柄（外部输入源生效时，缺省表示没有手柄）
+};
+
+/** 外部输入源：每帧开始时由Input.beginFrame调用，返回该帧的输入（返回null表示无输入） */
+type InputFrameSource = (deltaTime: number) => InputFrame | null;
+
+/** 尚未开始第一帧时的空快照 */
+function createEmptySnapshot(): InputSnapshot {
+  return {
+    frame: 0,
+    keys: new ButtonSnapshot(),
+    codes: new ButtonSnapshot(),
+    mouse: new ButtonSnapshot(),
+    touches: new ButtonSnapshot(),
+    gamepadButtons: new GamepadButtonSnapshot(),
+    gamepadAxes: new GamepadAxisSnapshot(),
+    mousePosition: { x: 0, y: 0 },
+    mouseDelta: { x: 0, y: 0 },
+    wheelDelta: 0,
+    touchPositions: [],
+  };
+}
+
+/**
+ * 合并两帧快照的事件（没有执行逻辑步的帧，其事件累计到下一帧供逻辑步读取）
+ * 按住状态与位置取较新的快照，按下/松开事件取并集，鼠标移动与滚轮累加
+ */
+function mergeSnapshots(earlier: InputSnapshot, later: InputSnapshot): InputSnapshot {
+  const merge = <T>(a: ButtonSnapshot<T>, b: ButtonSnapshot<T>) => new ButtonSnapshot(
+    b.getHeld(),
+    [...a.getJustPressed(), ...b.getJustPressed()],
+    [...a.getJustReleased(), ...b.getJustReleased()]
+  );
+  const slots = new Set([...earlier.gamepadButtons.getSlots(), ...later.gamepadButtons.getSlots()]);
+  return {
+    ...later,
+    keys: merge(earlier.keys, later.keys),
+    codes: merge(earlier.codes, later.codes),
+    mouse: merge(earlier.mouse, later.mouse),
+    touches: merge(earlier.touches, later.touches),
+    gamepadButtons: new GamepadButtonSnapshot(Array.from(slots, slot => [
+      slot,
+      merge(earlier.gamepadButtons.getButtons(slot), later.gamepadButtons.getButtons(slot)),
+    ])),
+    gamepadAxes: later.gamepadAxes.since(earlier.gamepadAxes),
+    mouseDelta: { x: earlier.mouseDelta.x + later.mouseDelta.x, y: earlier.mouseDelta.y + later.mouseDelta.y },
+    wheelDelta: earlier.wheelDelta + later.wheelDelta,
+  };
+}
+
+/**
+ * 去掉快照中的事件，只保留按住状态与位置（同一帧的后续逻辑步读取，避免重复触发）
+ */
+function withoutEvents(snapshot: InputSnapshot): InputSnapshot {
+  return {
+    ...snapshot,
+    keys: new ButtonSnapshot(snapshot.keys.getHeld()),
+    codes: new ButtonSnapshot(snapshot.codes.getHeld()),
+    mouse: new ButtonSnapshot(snapshot.mouse.getHeld()),
+    touches: new ButtonSnapshot(snapshot.touches.getHeld()),
+    gamepadButtons: new GamepadButtonSnapshot(snapshot.gamepadButtons.getSlots().map(slot => [
+      slot,
+      new ButtonSnapshot(snapshot.gamepadButtons.getButtons(slot).getHeld()),
+    ])),
+    gamepadAxes: snapshot.gamepadAxes.settled(),
+    mouseDelta: { x: 0, y: 0 },
+    wheelDelta: 0,
+  };
+}
+
+export { ButtonSnapshot, GamepadButtonSnapshot, GamepadAxisSnapshot, ButtonLatch, createEmptySnapshot, mergeSnapshots, withoutEvents };
+export type { InputSnapshot, ButtonEvents, InputFrame, InputFrameSource };
@@ -0,0 +1,38 @@
+/**
+ * 输入模块的测试辅助（仅供*.test.ts使用）
+ * 假手柄与键盘事件，测试需先用vi.stubGlobal('window', new EventTarget())替换window
+ */
+
+import type { GamepadLike } from "./gamepad";
+
+/** 假手柄选项（未指定buttons时按pressed与values生成标准布局的17个按键） */
+type FakePadOptions = Partial<GamepadLike> & {
+  pressed?: number[]; // 按下的按键序号（模拟量为1）
+  values?: Record<number, number>; // 按键序号 -> 模拟量（大于0.5视为按下）
+};
+
+/**
+ * 创建假手柄（默认：序号0、描述'Fake Pad'、标准布局、已连接、无按键按下、4个轴为0）
+ * @param options 覆盖的字段
+ */
+function fakePad(options: FakePadOptions = {}): GamepadLike {
+  const { pressed = [], values = {}, ...overrides } = options;
+  const buttons = Array.from({ length: 17 }, (_, i) => {
+    const value = values[i] ?? (pressed.includes(i) ? 1 : 0);
+    return { pressed: pressed.includes(i) || value > 0.5, value };
+  });
+  return { id: 'Fake Pad', index: 0, connected: true, mapping: 'standard', buttons, axes: [0, 0, 0, 0], ...overrides };
+}
+
+/**
+ * 在window上派发键盘事件
+ * @param type 事件类型
+ * @param key KeyboardEvent.key
+ * @param code KeyboardEvent.code（默认为字母键的物理按键，如'a' -> 'KeyA'）
+ */
+function key(type: 'keydown' | 'keyup', key: string, code: string = `Key${key.toUpperCase()}`): void {
+  window.dispatchEvent(Object.assign(new Event(type), { key, code }));
+}
+
+export { fakePad, key };
+export type { FakePadOptions };
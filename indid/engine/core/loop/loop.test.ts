@@ -0,0 +1,174 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { GameLoop } from './loop';
+import { ManualScheduler } from './scheduler';
+import { Scene } from '../scene/scene';
+
+describe('GameLoop 阶段执行', () => {
+  let loop: GameLoop;
+
+  afterEach(() => loop.stop());
+
+  /** 记录各阶段每次执行收到的参数 */
+  function track(target: GameLoop): Record<string, number[]> {
+    const calls: Record<string, number[]> = {};
+    (['input', 'preUpdate', 'fixedUpdate', 'update', 'postUpdate'] as const).forEach(phase => {
+      calls[phase] = [];
+      target.addUpdateCallback(dt => calls[phase].push(dt), { phase });
+    });
+    calls.render = [];
+    target.addRenderCallback(alpha => calls.render.push(alpha));
+    return calls;
+  }
+
+  it('固定步长模式下仅fixedUpdate按逻辑步执行，其余阶段每帧一次', () => {
+    const scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    loop.setFixedTimestep(60);
+    const calls = track(loop);
+    loop.start(false);
+
+    scheduler.step(3 / 60 + 1e-9);
+
+    expect(calls.fixedUpdate).toHaveLength(3);
+    calls.fixedUpdate.forEach(dt => expect(dt).toBeCloseTo(1 / 60, 9));
+    (['input', 'preUpdate', 'update', 'postUpdate', 'render'] as const).forEach(phase => {
+      expect(calls[phase]).toHaveLength(1);
+    });
+    expect(calls.update[0]).toBeCloseTo(3 / 60, 6);
+  });
+
+  it('没有逻辑步的帧仍执行每帧阶段，时间缩放作用于帧时间差', () => {
+    const scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    loop.setFixedTimestep(30);
+    loop.setTimeScale(0.5);
+    const calls = track(loop);
+    loop.start(false);
+
+    scheduler.step(1 / 60);
+
+    expect(calls.fixedUpdate).toHaveLength(0);
+    expect(calls.update).toHaveLength(1);
+    expect(calls.update[0]).toBeCloseTo(1 / 120, 9);
+    expect(calls.input[0]).toBeCloseTo(1 / 60, 9);
+    expect(calls.render[0]).toBeCloseTo(0.25, 6);
+  });
+
+  it('未指定阶段的更新回调在固定步长模式下按逻辑步执行', () => {
+    const scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    const steps: number[] = [];
+    loop.addUpdateCallback(dt => steps.push(dt));
+    loop.setFixedTimestep(60);
+    loop.start(false);
+
+    scheduler.step(3 / 60 + 1e-9);
+    scheduler.step(0.5 / 60);
+
+    expect(steps).toHaveLength(3);
+    steps.forEach(dt => expect(dt).toBeCloseTo(1 / 60, 9));
+    expect(loop.getCallbackOrder()[0].phase).toBe('fixedUpdate');
+  });
+
+  it('可变步长模式下每个逻辑阶段每帧执行一次', () => {
+    const scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    const calls = track(loop);
+    loop.start(false);
+
+    scheduler.stepFrames(2, 0.02);
+
+    (['preUpdate', 'fixedUpdate', 'update', 'postUpdate'] as const).forEach(phase => {
+      expect(calls[phase]).toHaveLength(2);
+      expect(calls[phase][1]).toBeCloseTo(0.02, 9);
+    });
+  });
+});
+
+describe('GameLoop 时间缩放与单帧步进', () => {
+  let scheduler: ManualScheduler;
+  let loop: GameLoop;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+  });
+
+  afterEach(() => {
+    loop.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('场景时间缩放与全局时间缩放相乘', () => {
+    const deltas: Record<string, number[]> = { normal: [], slow: [] };
+    const normal = new Scene({ id: 'normal', gameLoop: loop }, { onUpdate: (_scene, dt) => { deltas.normal.push(dt); } });
+    const slow = new Scene({ id: 'slow', gameLoop: loop, timeScale: 0.5 }, { onUpdate: (_scene, dt) => { deltas.slow.push(dt); } });
+    normal.activate();
+    slow.activate();
+    loop.setTimeScale(0.5);
+    loop.start(false);
+
+    scheduler.step(0.02);
+    expect(deltas.normal[0]).toBeCloseTo(0.01, 9);
+    expect(deltas.slow[0]).toBeCloseTo(0.005, 9);
+
+    // 全局冻结时场景缩放不会让逻辑继续推进
+    loop.setTimeScale(0);
+    slow.setTimeScale(4);
+    scheduler.step(0.02);
+    expect(deltas.slow[1]).toBe(0);
+
+    expect(() => loop.setTimeScale(-1)).toThrow('时间缩放必须是非负有限数');
+    expect(() => slow.setTimeScale(Number.NaN)).toThrow('[Scene]');
+    normal.destroy();
+    slow.destroy();
+  });
+
+  it('暂停时advanceFrame恰好执行一个固定步，不受时间缩放影响且不改变累加器', () => {
+    const steps: number[] = [];
+    const renders: number[] = [];
+    loop.setFixedTimestep(60);
+    loop.setTimeScale(0.25);
+    loop.addUpdateCallback(dt => steps.push(dt), { phase: 'fixedUpdate' });
+    loop.addRenderCallback(alpha => renders.push(alpha));
+    loop.start(false);
+
+    // 累加 0.5 个固定步
+    scheduler.step(2 / 60);
+    expect(steps).toHaveLength(0);
+    loop.pause();
+    scheduler.stepFrames(10);
+    expect(steps).toHaveLength(0);
+
+    const rendersBefore = renders.length;
+    loop.advanceFrame();
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toBeCloseTo(1 / 60, 9);
+    expect(renders).toHaveLength(rendersBefore + 1);
+    expect(renders[renders.length - 1]).toBeCloseTo(0.5, 6);
+    expect(loop.getTimeScale()).toBe(0.25);
+
+    // 恢复后累加器保持暂停前的半步
+    loop.resume();
+    scheduler.step(2 / 60 + 1e-9);
+    expect(steps).toHaveLength(2);
+  });
+
+  it('可变步长下advanceFrame按给定dt执行，非暂停时只警告', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const steps: number[] = [];
+    loop.addUpdateCallback(dt => steps.push(dt), { phase: 'fixedUpdate' });
+    loop.setTimeScale(2);
+    loop.start(false);
+
+    loop.advanceFrame(0.05);
+    expect(warn).toHaveBeenCalledWith('[GameLoop] advanceFrame 仅在循环运行且暂停时可用');
+    expect(steps).toHaveLength(0);
+
+    loop.pause();
+    loop.advanceFrame(0.05);
+    expect(steps).toEqual([0.05]);
+    expect(() => loop.advanceFrame(0)).toThrow('单帧步进时间必须是正数');
+  });
+});
@@ -1,12 +1,62 @@
 /**
  * 游戏循环管理器
- * 负责协调游戏逻辑更新与渲染，支持帧率控制、暂停/继续、多回调管理等功能
+ * 负责协调游戏逻辑更新与渲染，支持帧率控制、暂停/继续、多回调管理、固定步长模拟等功能
+ * 时间源与帧调度由可插拔的调度器提供，可运行于浏览器、Electron主进程或单元测试中
  */
+import { createDefaultScheduler } from "./scheduler";
+import type { FrameScheduler } from "./scheduler";
+import { TimerScheduler } from "./timer";
+import { FrameProfiler } from "./profiler";
+import type { ProfilerOptions } from "./profiler";
 
 type UpdateCallback = (deltaTime: number) => void;
-type RenderCallback = () => void;
+/** 渲染回调（alpha：固定步长模式下的插值系数，0-1；可变步长模式下恒为1） */
+type RenderCallback = (alpha: number) => void;
 type ErrorHandler = (error: Error) => void;
 
+/**
+ * 更新阶段（按声明顺序执行）
+ * input：每帧执行一次（不参与固定步长、不受时间缩放影响），用于采集输入
+ * preUpdate → fixedUpdate → update → postUpdate：逻辑阶段
+ * 固定步长模式下仅fixedUpdate按逻辑步执行0次或多次（固定步长），其余阶段每帧执行一次（缩放后的帧时间差）；
+ * 可变步长模式下四个阶段每帧各执行一次
+ */
+type UpdatePhase = 'input' | 'preUpdate' | 'fixedUpdate' | 'update' | 'postUpdate';
+/** 渲染阶段（按声明顺序执行）：render为场景绘制，overlay为叠加层（UI、调试信息） */
+type RenderPhase = 'render' | 'overlay';
+type LoopPhase = UpdatePhase | RenderPhase;
+
+const UPDATE_PHASES: readonly UpdatePhase[] = ['input', 'preUpdate', 'fixedUpdate', 'update', 'postUpdate'];
+const RENDER_PHASES: readonly RenderPhase[] = ['render', 'overlay'];
+
+/** 回调注册参数 */
+type CallbackOptions<P extends LoopPhase> = {
+  phase?: P; // 所属阶段（更新回调默认fixedUpdate，固定步长模式下按逻辑步执行；渲染回调默认render）
+  priority?: number; // 阶段内优先级（数值越小越先执行，默认0；相同优先级按注册顺序执行）
+  name?: string; // 回调名称（用于查看执行顺序、调试）
+};
+
+/** 回调执行顺序信息（getCallbackOrder返回） */
+type CallbackOrderInfo = {
+  phase: LoopPhase;
+  priority: number;
+  name: string;
+};
+
+/** 内部回调记录 */
+type CallbackEntry = {
+  callback: UpdateCallback | RenderCallback;
+  phase: LoopPhase;
+  priority: number;
+  name: string;
+  order: number; // 注册序号（保证同优先级稳定排序）
+};
+
+/** GameLoop初始化参数 */
+type GameLoopOptions = {
+  scheduler?: FrameScheduler; // 帧调度器（默认：浏览器用requestAnimationFrame，无DOM环境用定时器）
+};
+
 
 class GameLoop {
   // 核心状态控制
@@ -14,20 +64,69 @@ class GameLoop {
   private isPaused: boolean = false; // 循环是否处于暂停状态
   private lastTime: number = 0; // 上一帧时间戳（毫秒）
   private pauseStartTime: number = 0; // 暂停开始时间（用于恢复时修正时间差）
+  private scheduler: FrameScheduler; // 帧调度器（时间源 + 下一帧调度）
+  private frameHandle: number | null = null; // 已请求的下一帧句柄（用于停止时取消）
 
   // 帧率控制
   private maxFps: number | null = null; // 最大帧率限制（null表示不限制）
   private frameInterval: number = 0; // 基于最大帧率的每帧最小间隔（毫秒）
 
-  // 回调管理（支持多个回调函数）
-  private updateCallbacks: Array<(deltaTime: number) => void> = []; // 逻辑更新回调队列
-  private renderCallbacks: Array<() => void> = []; // 渲染回调队列
+  // 固定步长模拟（可选）
+  private tickRate: number | null = null; // 逻辑更新频率（次/秒，null表示使用可变步长）
+  private fixedDelta: number = 0; // 固定步长（秒）
+  private accumulator: number = 0; // 时间累加器（秒），存放尚未被逻辑更新消耗的时间
+  private maxStepsPerFrame: number = 5; // 单帧最多执行的逻辑步数（避免卡顿后的“死亡螺旋”）
+  public interpolationAlpha: number = 1; // 当前渲染插值系数（0-1）
+
+  // 时间缩放
+  private timeScale: number = 1; // 全局时间缩放（1为正常速度，0.5为慢动作，0为冻结逻辑）
+
+  // 回调管理（按阶段存储，阶段内按优先级排序）
+  private phaseCallbacks = new Map<LoopPhase, CallbackEntry[]>(); // 阶段 -> 有序回调队列
+  private callbackOrder: number = 0; // 注册序号计数器
   private errorCallback?: (error: Error) => void; // 错误处理回调
 
   // 性能监控
   private frameCount: number = 0; // 帧率计算用的帧数统计
   private lastFpsUpdate: number = 0; // 上一次更新FPS的时间戳
   public currentFps: number = 0; // 当前实时帧率（每秒更新一次）
+  private profiler: FrameProfiler | null = null; // 帧性能分析器（启用后记录每个回调耗时）
+
+  // 全局定时器（随逻辑步推进：暂停时停止、受时间缩放影响）
+  public readonly timers: TimerScheduler;
+
+  /**
+   * @param options 初始化参数（可选：自定义帧调度器）
+   */
+  constructor(options: GameLoopOptions = {}) {
+    this.scheduler = options.scheduler ?? createDefaultScheduler();
+    this.timers = new TimerScheduler((error) => this.#handleError(error, 'fixedUpdate'));
+  }
+
+  /**
+   * 替换帧调度器（仅允许在循环停止时调用）
+   * @param scheduler 新的帧调度器
+   */
+  setScheduler(scheduler: FrameScheduler): void {
+    if (this.isRunning) {
+      throw new Error('循环运行中无法替换调度器，请先调用stop');
+    }
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * 获取当前帧调度器
+   */
+  getScheduler(): FrameScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * 获取当前帧的时间戳（毫秒，调度器时间；在帧回调内调用时即本帧时间戳，供输入录制等需要复现帧时序的功能使用）
+   */
+  getFrameTime(): number {
+    return this.lastTime;
+  }
 
   /**
    * 启动游戏循环
@@ -38,16 +137,18 @@ class GameLoop {
 
     this.isRunning = true;
     this.isPaused = false;
-    this.lastTime = performance.now();
+    this.lastTime = this.scheduler.now();
     this.lastFpsUpdate = this.lastTime;
     this.frameCount = 0;
     this.currentFps = 0;
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
 
     // 立即执行第一帧或等待下一帧
     if (immediate) {
       this.#loop(this.lastTime);
     } else {
-      requestAnimationFrame((t) => this.#loop(t));
+      this.#requestNextFrame();
     }
   }
 
@@ -57,8 +158,12 @@ class GameLoop {
   stop(): void {
     this.isRunning = false;
     this.isPaused = false;
-    this.updateCallbacks = [];
-    this.renderCallbacks = [];
+    if (this.frameHandle !== null) {
+      this.scheduler.cancel(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.phaseCallbacks.clear();
+    this.timers.clear();
   }
 
   /**
@@ -67,7 +172,7 @@ class GameLoop {
   pause(): void {
     if (!this.isRunning || this.isPaused) return;
     this.isPaused = true;
-    this.pauseStartTime = performance.now();
+    this.pauseStartTime = this.scheduler.now();
   }
 
   /**
@@ -77,10 +182,57 @@ class GameLoop {
     if (!this.isRunning || !this.isPaused) return;
     this.isPaused = false;
     // 修正lastTime：减去暂停的时长，避免恢复后deltaTime突变
-    const pauseDuration = performance.now() - this.pauseStartTime;
+    const pauseDuration = this.scheduler.now() - this.pauseStartTime;
     this.lastTime += pauseDuration;
   }
 
+  /**
+   * 是否处于暂停状态
+   */
+  getIsPaused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * 暂停状态下推进恰好一帧（调试用：逐帧检查游戏逻辑）
+   * 固定步长模式下执行一个固定步，可变步长模式下以dt执行一次更新；随后执行渲染
+   * @param dt 可变步长模式下的时间差（秒，默认1/60；不受时间缩放影响）
+   */
+  advanceFrame(dt: number = 1 / 60): void {
+    if (!this.isRunning || !this.isPaused) {
+      console.warn('[GameLoop] advanceFrame 仅在循环运行且暂停时可用');
+      return;
+    }
+    if (typeof dt !== 'number' || dt <= 0) {
+      throw new Error('单帧步进时间必须是正数');
+    }
+    const previousScale = this.timeScale;
+    this.timeScale = 1;
+    try {
+      this.#runFrame(this.tickRate ? this.fixedDelta : dt, true);
+    } finally {
+      this.timeScale = previousScale;
+    }
+  }
+
+  /**
+   * 设置全局时间缩放（作用于所有逻辑阶段的deltaTime，input阶段除外）
+   * @param scale 缩放系数（>=0；1为正常速度，0.5为慢动作，0为冻结逻辑但继续渲染）
+   */
+  setTimeScale(scale: number): void {
+    if (typeof scale !== 'number' || !Number.isFinite(scale) || scale < 0) {
+      throw new Error('时间缩放必须是非负有限数');
+    }
+    this.timeScale = scale;
+  }
+
+  /**
+   * 获取全局时间缩放
+   */
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
   /**
    * 设置最大帧率限制
    * @param fps 目标帧率（必须>0，null表示取消限制）
@@ -93,13 +245,52 @@ class GameLoop {
     this.frameInterval = fps ? 1000 / fps : 0; // 计算每帧最小间隔（毫秒）
   }
 
+  /**
+   * 设置固定步长模拟（逻辑以固定频率更新，渲染按插值系数平滑过渡）
+   * @param tickRate 逻辑更新频率（次/秒，必须>0，null表示恢复可变步长）
+   * @param maxStepsPerFrame 单帧最多执行的逻辑步数（默认5，超出部分的时间将被丢弃）
+   */
+  setFixedTimestep(tickRate: number | null, maxStepsPerFrame: number = 5): void {
+    if (tickRate !== null && (typeof tickRate !== 'number' || tickRate <= 0)) {
+      throw new Error('逻辑更新频率必须是正数或null');
+    }
+    if (!Number.isInteger(maxStepsPerFrame) || maxStepsPerFrame < 1) {
+      throw new Error('单帧最大逻辑步数必须是正整数');
+    }
+    this.tickRate = tickRate;
+    this.fixedDelta = tickRate ? 1 / tickRate : 0;
+    this.maxStepsPerFrame = maxStepsPerFrame;
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+  }
+
+  /**
+   * 获取固定步长（秒）
+   * @returns 固定步长，未启用固定步长模式时返回null
+   */
+  getFixedDelta(): number | null {
+    return this.tickRate ? this.fixedDelta : null;
+  }
+
+  /**
+   * 是否处于固定步长模式
+   */
+  isFixedTimestep(): boolean {
+    return this.tickRate !== null;
+  }
+
   /**
    * 添加逻辑更新回调（支持多个）
    * @param callback 更新回调（接收deltaTime：秒级时间差）
+   * @param options 阶段、优先级与名称（默认fixedUpdate阶段、优先级0：固定步长模式下每帧执行0次或多次，可变步长模式下每帧一次）
    * @returns 用于移除回调的函数
    */
-  addUpdateCallback(callback: UpdateCallback): () => void {
-    this.updateCallbacks.push(callback);
+  addUpdateCallback(callback: UpdateCallback, options: CallbackOptions<UpdatePhase> = {}): () => void {
+    const phase = options.phase ?? 'fixedUpdate';
+    if (!UPDATE_PHASES.includes(phase)) {
+      throw new Error(`无效的更新阶段：${phase}`);
+    }
+    this.#insertCallback(callback, phase, options);
     // 返回移除当前回调的函数
     return () => this.removeUpdateCallback(callback);
   }
@@ -109,16 +300,21 @@ class GameLoop {
    * @param callback 要移除的回调
    */
   removeUpdateCallback(callback: UpdateCallback): void {
-    this.updateCallbacks = this.updateCallbacks.filter(cb => cb !== callback);
+    this.#removeCallback(callback, UPDATE_PHASES);
   }
 
   /**
    * 添加渲染回调（支持多个）
-   * @param callback 渲染回调
+   * @param callback 渲染回调（接收插值系数alpha）
+   * @param options 阶段、优先级与名称（默认render阶段、优先级0）
    * @returns 用于移除回调的函数
    */
-  addRenderCallback(callback: RenderCallback): () => void {
-    this.renderCallbacks.push(callback);
+  addRenderCallback(callback: RenderCallback, options: CallbackOptions<RenderPhase> = {}): () => void {
+    const phase = options.phase ?? 'render';
+    if (!RENDER_PHASES.includes(phase)) {
+      throw new Error(`无效的渲染阶段：${phase}`);
+    }
+    this.#insertCallback(callback, phase, options);
     return () => this.removeRenderCallback(callback);
   }
 
@@ -127,7 +323,86 @@ class GameLoop {
    * @param callback 要移除的回调
    */
   removeRenderCallback(callback: RenderCallback): void {
-    this.renderCallbacks = this.renderCallbacks.filter(cb => cb !== callback);
+    this.#removeCallback(callback, RENDER_PHASES);
+  }
+
+  /**
+   * 将已注册的回调移动到其他阶段（更新回调只能移入更新阶段，渲染回调只能移入渲染阶段）
+   * @param callback 已注册的回调
+   * @param phase 目标阶段
+   * @param priority 新优先级（可选，默认保留原优先级）
+   */
+  setCallbackPhase(callback: UpdateCallback | RenderCallback, phase: LoopPhase, priority?: number): void {
+    const entry = this.#findEntry(callback);
+    if (!entry) {
+      throw new Error('回调未注册，无法调整阶段');
+    }
+    const isUpdate = (UPDATE_PHASES as readonly LoopPhase[]).includes(entry.phase);
+    const targetPhases: readonly LoopPhase[] = isUpdate ? UPDATE_PHASES : RENDER_PHASES;
+    if (!targetPhases.includes(phase)) {
+      throw new Error(`${isUpdate ? '更新' : '渲染'}回调无法移动到${phase}阶段`);
+    }
+    this.#removeCallback(callback, targetPhases);
+    this.#insertCallback(callback, phase, { priority: priority ?? entry.priority, name: entry.name });
+  }
+
+  /**
+   * 调整已注册回调在阶段内的优先级
+   * @param callback 已注册的回调
+   * @param priority 新优先级（数值越小越先执行）
+   */
+  setCallbackPriority(callback: UpdateCallback | RenderCallback, priority: number): void {
+    const entry = this.#findEntry(callback);
+    if (!entry) {
+      throw new Error('回调未注册，无法调整优先级');
+    }
+    this.setCallbackPhase(callback, entry.phase, priority);
+  }
+
+  /**
+   * 指定阶段是否注册了回调
+   * @param phase 阶段
+   */
+  hasCallbacks(phase: LoopPhase): boolean {
+    return (this.phaseCallbacks.get(phase)?.length ?? 0) > 0;
+  }
+
+  /**
+   * 获取当前所有回调的执行顺序（按阶段、优先级排列）
+   * @returns 执行顺序信息数组
+   */
+  getCallbackOrder(): CallbackOrderInfo[] {
+    const result: CallbackOrderInfo[] = [];
+    [...UPDATE_PHASES, ...RENDER_PHASES].forEach(phase => {
+      this.phaseCallbacks.get(phase)?.forEach(({ priority, name }) => {
+        result.push({ phase, priority, name });
+      });
+    });
+    return result;
+  }
+
+  /**
+   * 启用帧性能分析器（记录每个回调耗时、帧耗时尖峰与掉帧数）
+   * @param options 分析器配置（历史长度、目标帧率、尖峰阈值等）
+   * @returns 分析器实例（可查询报告）
+   */
+  enableProfiler(options: ProfilerOptions = {}): FrameProfiler {
+    this.profiler = new FrameProfiler({ targetFps: this.maxFps ?? 60, ...options });
+    return this.profiler;
+  }
+
+  /**
+   * 关闭帧性能分析器
+   */
+  disableProfiler(): void {
+    this.profiler = null;
+  }
+
+  /**
+   * 获取帧性能分析器（未启用时返回null）
+   */
+  getProfiler(): FrameProfiler | null {
+    return this.profiler;
   }
 
   /**
@@ -139,16 +414,24 @@ class GameLoop {
   }
 
   /**
-   * 核心循环函数（私有，通过requestAnimationFrame驱动）
+   * 请求下一帧（通过调度器）
+   */
+  #requestNextFrame(): void {
+    this.frameHandle = this.scheduler.request((t) => this.#loop(t));
+  }
+
+  /**
+   * 核心循环函数（私有，通过调度器驱动）
    * @param timestamp 当前时间戳（毫秒）
    */
   #loop(timestamp: number): void {
+    this.frameHandle = null;
     // 如果循环已停止，终止递归
     if (!this.isRunning) return;
 
     // 若处于暂停状态，仅继续请求下一帧，不执行逻辑和渲染
     if (this.isPaused) {
-      requestAnimationFrame((t) => this.#loop(t));
+      this.#requestNextFrame();
       return;
     }
 
@@ -157,7 +440,7 @@ class GameLoop {
 
     // 帧率限制：如果设置了最大帧率，且当前帧间隔小于最小间隔，跳过本次执行
     if (this.maxFps && elapsed < this.frameInterval) {
-      requestAnimationFrame((t) => this.#loop(t));
+      this.#requestNextFrame();
       return;
     }
 
@@ -167,23 +450,9 @@ class GameLoop {
     // 更新时间戳
     this.lastTime = timestamp;
 
-    // 执行所有更新回调（带错误捕获）
-    this.updateCallbacks.forEach(callback => {
-      try {
-        callback(deltaTime);
-      } catch (error) {
-        this.#handleError(error as Error, 'update');
-      }
-    });
-
-    // 执行所有渲染回调（带错误捕获）
-    this.renderCallbacks.forEach(callback => {
-      try {
-        callback();
-      } catch (error) {
-        this.#handleError(error as Error, 'render');
-      }
-    });
+    this.profiler?.beginFrame(elapsed);
+    this.#runFrame(deltaTime);
+    this.profiler?.endFrame();
 
     // 计算并更新FPS（每秒更新一次）
     this.frameCount++;
@@ -195,15 +464,164 @@ class GameLoop {
     }
 
     // 继续下一帧循环
-    requestAnimationFrame((t) => this.#loop(t));
+    this.#requestNextFrame();
+  }
+
+  /**
+   * 执行一帧：输入阶段 → 逻辑阶段（按时间缩放）→ 渲染阶段
+   * 固定步长模式下preUpdate/update/postUpdate每帧执行一次，fixedUpdate按累加器执行0次或多次
+   * @param deltaTime 真实时间差（秒，未缩放）
+   * @param singleStep 是否强制只执行一个逻辑步（单帧步进调试用）
+   */
+  #runFrame(deltaTime: number, singleStep: boolean = false): void {
+    // 输入阶段每帧执行一次，使用真实时间（不受时间缩放影响）
+    this.#runUpdatePhase('input', deltaTime);
+
+    const scaledDelta = deltaTime * this.timeScale;
+    this.#runUpdatePhase('preUpdate', scaledDelta);
+    if (this.tickRate) {
+      if (singleStep) {
+        // 单帧步进：恰好执行一个固定步，不修改累加器
+        this.#runFixedStep(this.fixedDelta);
+      } else {
+        // 固定步长：累加缩放后的时间，按固定步长执行0次或多次逻辑更新
+        this.accumulator += scaledDelta;
+        let steps = 0;
+        while (this.accumulator >= this.fixedDelta && steps < this.maxStepsPerFrame) {
+          this.#runFixedStep(this.fixedDelta);
+          this.accumulator -= this.fixedDelta;
+          steps++;
+        }
+        // 达到单帧步数上限时丢弃整步的积压时间，避免累加器无限增长
+        if (this.accumulator >= this.fixedDelta) {
+          this.accumulator %= this.fixedDelta;
+        }
+      }
+      this.interpolationAlpha = this.accumulator / this.fixedDelta;
+    } else {
+      // 可变步长：每帧执行一次逻辑更新
+      this.#runFixedStep(scaledDelta);
+      this.interpolationAlpha = 1;
+    }
+    this.#runUpdatePhase('update', scaledDelta);
+    this.#runUpdatePhase('postUpdate', scaledDelta);
+
+    // 按阶段执行所有渲染回调（带错误捕获）
+    const alpha = this.interpolationAlpha;
+    RENDER_PHASES.forEach(phase => {
+      this.#getPhaseSnapshot(phase).forEach(entry => this.#invokeEntry(entry, alpha));
+    });
+  }
+
+  /**
+   * 执行一个逻辑步：推进全局定时器后执行fixedUpdate阶段
+   * @param deltaTime 本次更新的时间差（秒）
+   */
+  #runFixedStep(deltaTime: number): void {
+    if (this.profiler) {
+      const start = this.profiler.now();
+      this.timers.update(deltaTime);
+      this.profiler.record('timers', 'fixedUpdate', this.profiler.now() - start);
+    } else {
+      this.timers.update(deltaTime);
+    }
+    this.#runUpdatePhase('fixedUpdate', deltaTime);
+  }
+
+  /**
+   * 执行单个更新阶段的回调（带错误捕获）
+   * @param phase 更新阶段
+   * @param deltaTime 本次更新的时间差（秒）
+   */
+  #runUpdatePhase(phase: UpdatePhase, deltaTime: number): void {
+    this.#getPhaseSnapshot(phase).forEach(entry => this.#invokeEntry(entry, deltaTime));
+  }
+
+  /**
+   * 执行单个回调（带错误捕获；启用分析器时记录耗时）
+   * @param entry 回调记录
+   * @param arg 回调参数（更新回调为deltaTime，渲染回调为alpha）
+   */
+  #invokeEntry(entry: CallbackEntry, arg: number): void {
+    const profiler = this.profiler;
+    const start = profiler ? profiler.now() : 0;
+    try {
+      entry.callback(arg);
+    } catch (error) {
+      this.#handleError(error as Error, entry.phase);
+    }
+    if (profiler) {
+      profiler.record(entry.name, entry.phase, profiler.now() - start);
+    }
+  }
+
+  /**
+   * 获取阶段回调队列的快照（避免回调执行期间增删回调影响本次遍历）
+   */
+  #getPhaseSnapshot(phase: LoopPhase): CallbackEntry[] {
+    const entries = this.phaseCallbacks.get(phase);
+    return entries ? entries.slice() : [];
+  }
+
+  /**
+   * 按优先级插入回调（同优先级按注册顺序，保持稳定）
+   */
+  #insertCallback(
+    callback: UpdateCallback | RenderCallback,
+    phase: LoopPhase,
+    options: { priority?: number; name?: string }
+  ): void {
+    const priority = options.priority ?? 0;
+    if (typeof priority !== 'number' || Number.isNaN(priority)) {
+      throw new Error('回调优先级必须是数字');
+    }
+    const order = this.callbackOrder++;
+    const entry: CallbackEntry = {
+      callback,
+      phase,
+      priority,
+      name: options.name || callback.name || `${phase}#${order}`,
+      order,
+    };
+    const entries = this.phaseCallbacks.get(phase) ?? [];
+    const index = entries.findIndex(e => e.priority > priority);
+    if (index === -1) {
+      entries.push(entry);
+    } else {
+      entries.splice(index, 0, entry);
+    }
+    this.phaseCallbacks.set(phase, entries);
+  }
+
+  /**
+   * 从指定阶段集合中移除回调
+   */
+  #removeCallback(callback: UpdateCallback | RenderCallback, phases: readonly LoopPhase[]): void {
+    phases.forEach(phase => {
+      const entries = this.phaseCallbacks.get(phase);
+      if (entries) {
+        this.phaseCallbacks.set(phase, entries.filter(e => e.callback !== callback));
+      }
+    });
+  }
+
+  /**
+   * 查找回调记录
+   */
+  #findEntry(callback: UpdateCallback | RenderCallback): CallbackEntry | undefined {
+    for (const entries of this.phaseCallbacks.values()) {
+      const entry = entries.find(e => e.callback === callback);
+      if (entry) return entry;
+    }
+    return undefined;
   }
 
   /**
    * 错误处理内部方法
    * @param error 错误对象
-   * @param type 错误来源（'update'或'render'）
+   * @param type 错误来源（回调所属阶段）
    */
-  #handleError(error: Error, type: 'update' | 'render'): void {
+  #handleError(error: Error, type: LoopPhase): void {
     console.error(`[GameLoop] ${type} callback error:`, error);
     if (this.errorCallback) {
       try {
@@ -215,4 +633,5 @@ class GameLoop {
   }
 }
 
-export { GameLoop };
\ No newline at end of file
+export { GameLoop };
+export type { GameLoopOptions, UpdatePhase, RenderPhase, LoopPhase, CallbackOptions, CallbackOrderInfo };
\ No newline at end of file
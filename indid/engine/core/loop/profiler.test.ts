@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FrameProfiler } from './profiler';
+import { GameLoop } from './loop';
+import { ManualScheduler } from './scheduler';
+import type { LoopPhase } from './loop';
+
+describe('FrameProfiler', () => {
+  let clock: number;
+  let profiler: FrameProfiler;
+
+  /** 模拟一帧：依次执行回调（推进注入的时钟）后结束本帧 */
+  function frame(elapsed: number, calls: [string, LoopPhase, number][] = []): void {
+    profiler.beginFrame(elapsed);
+    calls.forEach(([name, phase, duration]) => {
+      clock += duration;
+      profiler.record(name, phase, duration);
+    });
+    profiler.endFrame();
+  }
+
+  beforeEach(() => {
+    clock = 0;
+    // 目标50帧：帧预算20毫秒
+    profiler = new FrameProfiler({ now: () => clock, historySize: 3, targetFps: 50 });
+  });
+
+  it('按帧汇总回调耗时，统计滚动窗口内的最小/平均/最大值', () => {
+    frame(0, [['physics', 'fixedUpdate', 5], ['draw', 'render', 2]]);
+    // 固定步长下同一回调一帧执行多次，按帧累计
+    frame(20, [['physics', 'fixedUpdate', 3], ['physics', 'fixedUpdate', 3]]);
+    frame(20, [['physics', 'fixedUpdate', 12]]);
+    frame(20, [['physics', 'fixedUpdate', 1]]);
+
+    const [physics, draw] = profiler.getCallbackStats();
+    expect(physics).toMatchObject({ name: 'physics', phase: 'fixedUpdate', calls: 5, last: 1, min: 1, max: 12, history: [6, 12, 1] });
+    expect(physics.avg).toBeCloseTo(19 / 3, 9);
+    // 未执行的帧不计入历史
+    expect(draw).toMatchObject({ name: 'draw', phase: 'render', calls: 1, min: 2, avg: 2, max: 2, history: [2] });
+
+    const report = profiler.getReport();
+    expect(report).toMatchObject({ frames: 4, fps: 50, budget: 20, droppedFrames: 0, spikes: [] });
+    expect(report.frameTime).toEqual({ last: 1, min: 1, avg: 19 / 3, max: 12, history: [6, 12, 1] });
+    expect(report.frameInterval).toEqual({ last: 20, avg: 20, history: [20, 20, 20] });
+  });
+
+  it('帧耗时超过阈值时记录尖峰及耗时最多的回调，只保留最近的尖峰', () => {
+    profiler = new FrameProfiler({ now: () => clock, targetFps: 50, spikeThreshold: 10, maxSpikes: 2 });
+    frame(20, [['ai', 'update', 4], ['physics', 'fixedUpdate', 8]]);
+    frame(20, [['ai', 'update', 9]]);
+    frame(20, [['ai', 'update', 3], ['physics', 'fixedUpdate', 9]]);
+    frame(20, [['ai', 'update', 11], ['physics', 'fixedUpdate', 1]]);
+
+    expect(profiler.getReport().spikes).toEqual([
+      { frame: 2, duration: 12, culprit: 'physics', culpritTime: 9 },
+      { frame: 3, duration: 12, culprit: 'ai', culpritTime: 11 },
+    ]);
+  });
+
+  it('帧间隔超过预算1.5倍时按缺失帧数累计掉帧', () => {
+    frame(0);
+    frame(25);
+    frame(31);
+    frame(100);
+    const report = profiler.getReport();
+    // 25毫秒未超过30毫秒不算掉帧；31毫秒至少算1帧；100毫秒缺失4帧
+    expect(report.droppedFrames).toBe(5);
+    expect(report.frameInterval.history).toEqual([25, 31, 100]);
+    expect(report.fps).toBe(19);
+
+    profiler.reset();
+    expect(profiler.getReport()).toMatchObject({ frames: 0, fps: 0, droppedFrames: 0, spikes: [], callbacks: [] });
+    expect(() => new FrameProfiler({ targetFps: 0 })).toThrow('[FrameProfiler] 目标帧率必须是正数');
+  });
+});
+
+describe('FrameProfiler 与GameLoop', () => {
+  let scheduler: ManualScheduler;
+  let loop: GameLoop;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+  });
+
+  afterEach(() => {
+    loop.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('启用后按回调名称与阶段记录每帧耗时', () => {
+    let clock = 0;
+    const profiler = loop.enableProfiler({ now: () => clock, spikeThreshold: 10 });
+    loop.addUpdateCallback(() => { clock += 4; }, { phase: 'update', name: 'ai' });
+    loop.addRenderCallback(() => { clock += 7; }, { name: 'sprites' });
+    loop.start(false);
+
+    scheduler.stepFrames(3);
+
+    const report = profiler.getReport();
+    expect(report.frames).toBe(3);
+    expect(report.frameTime.history).toEqual([11, 11, 11]);
+    expect(report.spikes).toHaveLength(3);
+    expect(report.spikes[0]).toMatchObject({ culprit: 'sprites', culpritTime: 7 });
+    expect(report.callbacks.map(({ name, phase, calls, avg }) => ({ name, phase, calls, avg }))).toEqual([
+      { name: 'sprites', phase: 'render', calls: 3, avg: 7 },
+      { name: 'ai', phase: 'update', calls: 3, avg: 4 },
+      { name: 'timers', phase: 'fixedUpdate', calls: 3, avg: 0 },
+    ]);
+
+    loop.disableProfiler();
+    scheduler.stepFrames(2);
+    expect(loop.getProfiler()).toBeNull();
+    expect(profiler.getReport().frames).toBe(3);
+  });
+});
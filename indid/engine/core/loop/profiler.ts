@@ -0,0 +1,243 @@
+/**
+ * 帧性能分析器
+ * 由GameLoop在启用后驱动：记录每个回调的耗时（最小/平均/最大 + 滚动历史）、
+ * 每帧总耗时、帧耗时尖峰与掉帧数，供代码查询或由Renderer绘制为性能面板
+ */
+import type { LoopPhase } from "./loop";
+
+/** 分析器配置 */
+type ProfilerOptions = {
+  historySize?: number; // 滚动历史长度（帧数，默认120）
+  targetFps?: number; // 目标帧率（用于计算帧预算与掉帧，默认60）
+  spikeThreshold?: number; // 帧耗时尖峰阈值（毫秒，默认为帧预算的1倍，即超出预算即视为尖峰）
+  maxSpikes?: number; // 保留的最近尖峰记录数（默认20）
+  now?: () => number; // 计时函数（毫秒，默认performance.now）
+};
+
+/** 单个回调的耗时统计 */
+type CallbackStats = {
+  name: string; // 回调名称
+  phase: LoopPhase; // 所属阶段
+  calls: number; // 累计调用次数
+  last: number; // 最近一次耗时（毫秒）
+  min: number; // 历史窗口内最小耗时（毫秒）
+  avg: number; // 历史窗口内平均耗时（毫秒）
+  max: number; // 历史窗口内最大耗时（毫秒）
+  history: number[]; // 滚动历史（按帧汇总的耗时，旧→新）
+};
+
+/** 帧耗时尖峰记录 */
+type FrameSpike = {
+  frame: number; // 帧序号
+  duration: number; // 帧耗时（毫秒）
+  culprit: string; // 本帧耗时最多的回调名称
+  culpritTime: number; // 该回调耗时（毫秒）
+};
+
+/** 分析报告 */
+type ProfilerReport = {
+  frames: number; // 已记录帧数
+  fps: number; // 根据帧间隔估算的帧率
+  budget: number; // 帧预算（毫秒）
+  frameTime: { last: number; min: number; avg: number; max: number; history: number[] }; // 每帧逻辑+渲染总耗时
+  frameInterval: { last: number; avg: number; history: number[] }; // 帧间隔（毫秒）
+  droppedFrames: number; // 累计掉帧数
+  spikes: FrameSpike[]; // 最近的耗时尖峰
+  callbacks: CallbackStats[]; // 回调统计（按平均耗时降序）
+};
+
+/**
+ * 固定长度的滚动缓冲区
+ */
+class RollingBuffer {
+  private readonly values: number[] = [];
+  private readonly capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  push(value: number): void {
+    this.values.push(value);
+    if (this.values.length > this.capacity) {
+      this.values.shift();
+    }
+  }
+
+  toArray(): number[] {
+    return this.values.slice();
+  }
+
+  summary(): { last: number; min: number; avg: number; max: number } {
+    const count = this.values.length;
+    if (count === 0) return { last: 0, min: 0, avg: 0, max: 0 };
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    for (const value of this.values) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+      sum += value;
+    }
+    return { last: this.values[count - 1], min, avg: sum / count, max };
+  }
+}
+
+/** 内部回调记录 */
+type CallbackRecord = {
+  name: string;
+  phase: LoopPhase;
+  calls: number;
+  frameTotal: number; // 当前帧累计耗时（固定步长下同一回调一帧可能执行多次）
+  seenThisFrame: boolean;
+  history: RollingBuffer;
+};
+
+class FrameProfiler {
+  private readonly historySize: number;
+  private readonly budget: number; // 帧预算（毫秒）
+  private readonly spikeThreshold: number;
+  private readonly maxSpikes: number;
+  public readonly now: () => number; // 计时函数
+
+  private records = new Map<string, CallbackRecord>(); // 阶段:名称 -> 记录
+  private frameTimes: RollingBuffer;
+  private frameIntervals: RollingBuffer;
+  private frameIndex: number = 0;
+  private frameStart: number = 0;
+  private droppedFrames: number = 0;
+  private spikes: FrameSpike[] = [];
+
+  constructor(options: ProfilerOptions = {}) {
+    const targetFps = options.targetFps ?? 60;
+    if (typeof targetFps !== 'number' || targetFps <= 0) {
+      throw new Error('[FrameProfiler] 目标帧率必须是正数');
+    }
+    this.historySize = Math.max(1, Math.floor(options.historySize ?? 120));
+    this.budget = 1000 / targetFps;
+    this.spikeThreshold = options.spikeThreshold ?? this.budget;
+    this.maxSpikes = Math.max(1, Math.floor(options.maxSpikes ?? 20));
+    this.now = options.now ?? (() => performance.now());
+    this.frameTimes = new RollingBuffer(this.historySize);
+    this.frameIntervals = new RollingBuffer(this.historySize);
+  }
+
+  /**
+   * 帧开始（由GameLoop调用）
+   * @param elapsed 距上一帧的间隔（毫秒，首帧为0）
+   */
+  beginFrame(elapsed: number): void {
+    this.frameStart = this.now();
+    this.records.forEach(record => {
+      record.frameTotal = 0;
+      record.seenThisFrame = false;
+    });
+
+    if (elapsed > 0) {
+      this.frameIntervals.push(elapsed);
+      // 帧间隔超过预算1.5倍时，按缺失的帧数累计掉帧
+      if (elapsed > this.budget * 1.5) {
+        this.droppedFrames += Math.max(1, Math.round(elapsed / this.budget) - 1);
+      }
+    }
+  }
+
+  /**
+   * 记录一次回调耗时（由GameLoop调用）
+   * @param name 回调名称
+   * @param phase 所属阶段
+   * @param duration 耗时（毫秒）
+   */
+  record(name: string, phase: LoopPhase, duration: number): void {
+    const key = `${phase}:${name}`;
+    let record = this.records.get(key);
+    if (!record) {
+      record = { name, phase, calls: 0, frameTotal: 0, seenThisFrame: false, history: new RollingBuffer(this.historySize) };
+      this.records.set(key, record);
+    }
+    record.calls++;
+    record.frameTotal += duration;
+    record.seenThisFrame = true;
+  }
+
+  /**
+   * 帧结束（由GameLoop调用）：汇总本帧数据并检测尖峰
+   */
+  endFrame(): void {
+    const duration = this.now() - this.frameStart;
+    this.frameTimes.push(duration);
+
+    let culprit = '';
+    let culpritTime = 0;
+    this.records.forEach(record => {
+      if (!record.seenThisFrame) return;
+      record.history.push(record.frameTotal);
+      if (record.frameTotal > culpritTime) {
+        culprit = record.name;
+        culpritTime = record.frameTotal;
+      }
+    });
+
+    if (duration > this.spikeThreshold) {
+      this.spikes.push({ frame: this.frameIndex, duration, culprit, culpritTime });
+      if (this.spikes.length > this.maxSpikes) {
+        this.spikes.shift();
+      }
+    }
+    this.frameIndex++;
+  }
+
+  /**
+   * 获取回调统计（按平均耗时降序）
+   */
+  getCallbackStats(): CallbackStats[] {
+    const result: CallbackStats[] = [];
+    this.records.forEach(record => {
+      const { last, min, avg, max } = record.history.summary();
+      result.push({
+        name: record.name,
+        phase: record.phase,
+        calls: record.calls,
+        last,
+        min,
+        avg,
+        max,
+        history: record.history.toArray(),
+      });
+    });
+    return result.sort((a, b) => b.avg - a.avg);
+  }
+
+  /**
+   * 获取完整分析报告
+   */
+  getReport(): ProfilerReport {
+    const frameSummary = this.frameTimes.summary();
+    const intervalSummary = this.frameIntervals.summary();
+    return {
+      frames: this.frameIndex,
+      fps: intervalSummary.avg > 0 ? Math.round(1000 / intervalSummary.avg) : 0,
+      budget: this.budget,
+      frameTime: { ...frameSummary, history: this.frameTimes.toArray() },
+      frameInterval: { last: intervalSummary.last, avg: intervalSummary.avg, history: this.frameIntervals.toArray() },
+      droppedFrames: this.droppedFrames,
+      spikes: this.spikes.slice(),
+      callbacks: this.getCallbackStats(),
+    };
+  }
+
+  /**
+   * 重置所有统计数据
+   */
+  reset(): void {
+    this.records.clear();
+    this.frameTimes = new RollingBuffer(this.historySize);
+    this.frameIntervals = new RollingBuffer(this.historySize);
+    this.frameIndex = 0;
+    this.droppedFrames = 0;
+    this.spikes = [];
+  }
+}
+
+export { FrameProfiler };
+export type { ProfilerOptions, ProfilerReport, CallbackStats, FrameSpike };
@@ -0,0 +1,170 @@
+/**
+ * 帧调度器（时间源 + 下一帧调度）
+ * GameLoop通过调度器获取时间戳、请求下一帧，从而脱离浏览器环境运行：
+ * - RafScheduler：基于requestAnimationFrame，适用于浏览器/渲染进程（默认）
+ * - TimeoutScheduler：基于setTimeout/setImmediate，适用于Electron主进程、Node服务端
+ * - ManualScheduler：手动驱动，调用step(dt)推进一帧，适用于单元测试/确定性模拟
+ */
+
+type FrameCallback = (timestamp: number) => void;
+
+/**
+ * 调度器接口
+ * 所有时间戳单位均为毫秒
+ */
+interface FrameScheduler {
+  /** 获取当前时间戳（毫秒） */
+  now(): number;
+  /** 请求在下一帧执行回调，返回可用于取消的句柄 */
+  request(callback: FrameCallback): number;
+  /** 取消已请求的回调 */
+  cancel(handle: number): void;
+}
+
+/**
+ * 获取高精度时间（优先performance.now，不可用时回退Date.now）
+ */
+const defaultNow = (): number =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+
+/**
+ * 基于requestAnimationFrame的调度器（浏览器默认）
+ */
+class RafScheduler implements FrameScheduler {
+  now(): number {
+    return defaultNow();
+  }
+
+  request(callback: FrameCallback): number {
+    return requestAnimationFrame(callback);
+  }
+
+  cancel(handle: number): void {
+    cancelAnimationFrame(handle);
+  }
+}
+
+/**
+ * 基于定时器的调度器（无DOM环境，如Electron主进程、Node服务端）
+ * interval为0时优先使用setImmediate，尽快执行下一帧
+ */
+class TimeoutScheduler implements FrameScheduler {
+  private readonly interval: number; // 帧间隔（毫秒）
+  private nextHandle: number = 1; // 自增句柄
+  private cancellers = new Map<number, () => void>(); // 句柄 -> 取消函数
+
+  /**
+   * @param tickRate 调度频率（次/秒，默认60；传0表示尽快执行）
+   */
+  constructor(tickRate: number = 60) {
+    if (typeof tickRate !== 'number' || tickRate < 0) {
+      throw new Error('调度频率必须是非负数');
+    }
+    this.interval = tickRate > 0 ? 1000 / tickRate : 0;
+  }
+
+  now(): number {
+    return defaultNow();
+  }
+
+  request(callback: FrameCallback): number {
+    const handle = this.nextHandle++;
+    const run = () => {
+      this.cancellers.delete(handle);
+      callback(this.now());
+    };
+
+    const immediate = (globalThis as { setImmediate?: (fn: () => void) => unknown }).setImmediate;
+    if (this.interval === 0 && typeof immediate === 'function') {
+      // setImmediate的句柄类型因环境而异，使用标记位实现取消
+      let cancelled = false;
+      immediate(() => {
+        if (!cancelled) run();
+      });
+      this.cancellers.set(handle, () => { cancelled = true; });
+    } else {
+      const timer = setTimeout(run, this.interval);
+      this.cancellers.set(handle, () => clearTimeout(timer));
+    }
+    return handle;
+  }
+
+  cancel(handle: number): void {
+    this.cancellers.get(handle)?.();
+    this.cancellers.delete(handle);
+  }
+}
+
+/**
+ * 手动调度器（测试/确定性模拟）
+ * 不会自动推进时间，每次调用step(dt)推进虚拟时间并执行一帧
+ */
+class ManualScheduler implements FrameScheduler {
+  private time: number; // 虚拟时间戳（毫秒）
+  private nextHandle: number = 1; // 自增句柄
+  private pending = new Map<number, FrameCallback>(); // 等待执行的回调
+
+  /**
+   * @param startTime 初始虚拟时间（毫秒，默认0）
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  request(callback: FrameCallback): number {
+    const handle = this.nextHandle++;
+    this.pending.set(handle, callback);
+    return handle;
+  }
+
+  cancel(handle: number): void {
+    this.pending.delete(handle);
+  }
+
+  /**
+   * 推进虚拟时间并执行当前等待中的帧回调（执行期间新请求的回调留到下一次step）
+   * @param dt 推进的时间（秒，默认1/60）
+   */
+  step(dt: number = 1 / 60): void {
+    if (typeof dt !== 'number' || dt < 0) {
+      throw new Error('推进时间必须是非负数');
+    }
+    this.time += dt * 1000;
+    const callbacks = Array.from(this.pending.values());
+    this.pending.clear();
+    callbacks.forEach(callback => callback(this.time));
+  }
+
+  /**
+   * 连续推进多帧
+   * @param frames 帧数
+   * @param dt 每帧推进的时间（秒，默认1/60）
+   */
+  stepFrames(frames: number, dt: number = 1 / 60): void {
+    for (let i = 0; i < frames; i++) {
+      this.step(dt);
+    }
+  }
+
+  /**
+   * 是否有等待执行的帧回调
+   */
+  hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+}
+
+/**
+ * 根据运行环境创建默认调度器（有requestAnimationFrame时使用RafScheduler，否则使用TimeoutScheduler）
+ */
+const createDefaultScheduler = (): FrameScheduler =>
+  typeof requestAnimationFrame === 'function' ? new RafScheduler() : new TimeoutScheduler();
+
+export { RafScheduler, TimeoutScheduler, ManualScheduler, createDefaultScheduler };
+export type { FrameScheduler, FrameCallback };
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TimerScheduler } from './timer';
+import { GameLoop } from './loop';
+import { ManualScheduler } from './scheduler';
+import { Scene } from '../scene/scene';
+
+describe('TimerScheduler 定时器', () => {
+  it('after到期后触发一次，every按次数重复，cancel后不再触发', () => {
+    const timers = new TimerScheduler();
+    const once = vi.fn();
+    const repeat = vi.fn();
+    timers.after(0.5, once);
+    timers.every(0.25, repeat, 3);
+    const cancelled = vi.fn();
+    const handle = timers.after(0.1, cancelled);
+    handle.cancel();
+
+    timers.update(0.25);
+    expect(once).not.toHaveBeenCalled();
+    expect(repeat).toHaveBeenCalledTimes(1);
+
+    timers.update(0.25);
+    expect(once).toHaveBeenCalledTimes(1);
+    timers.update(1);
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(repeat.mock.calls.map(([count]) => count)).toEqual([1, 2, 3]);
+    expect(cancelled).not.toHaveBeenCalled();
+    expect(handle.active).toBe(false);
+    expect(timers.getPendingCount()).toBe(0);
+  });
+
+  it('一步时间较长时重复定时器追赶触发', () => {
+    const timers = new TimerScheduler();
+    const times: number[] = [];
+    timers.every(0.1, () => times.push(timers.getTime()));
+    timers.update(0.35);
+    expect(times).toHaveLength(3);
+  });
+
+  it('回调中登记的after(0)在下一步才触发', () => {
+    const timers = new TimerScheduler();
+    let calls = 0;
+    const rearm = () => {
+      calls++;
+      timers.after(0, rearm);
+    };
+    timers.after(0, rearm);
+
+    timers.update(1 / 60);
+    expect(calls).toBe(1);
+    timers.update(1 / 60);
+    expect(calls).toBe(2);
+  });
+
+  it('回调错误交给错误处理，不影响其他定时器', () => {
+    const onError = vi.fn();
+    const timers = new TimerScheduler(onError);
+    const after = vi.fn();
+    timers.after(0.1, () => { throw new Error('boom'); });
+    timers.after(0.1, after);
+    timers.update(0.1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('TimerScheduler 协程', () => {
+  it('yield数字等待秒数，yield空值等待下一步，cancel后不再继续', () => {
+    const timers = new TimerScheduler();
+    const log: string[] = [];
+    const handle = timers.startCoroutine(function* () {
+      log.push('start');
+      yield 0.5;
+      log.push('waited');
+      yield;
+      log.push('next');
+      yield 1;
+      log.push('never');
+    });
+    expect(log).toEqual(['start']);
+
+    timers.update(0.25);
+    expect(log).toEqual(['start']);
+    timers.update(0.25);
+    expect(log).toEqual(['start', 'waited']);
+    timers.update(0.01);
+    expect(log).toEqual(['start', 'waited', 'next']);
+
+    handle.cancel();
+    timers.update(2);
+    expect(log).toEqual(['start', 'waited', 'next']);
+    expect(handle.active).toBe(false);
+  });
+
+  it('循环yield 0的协程每步只恢复一次', () => {
+    const timers = new TimerScheduler();
+    let resumes = 0;
+    timers.startCoroutine(function* () {
+      for (;;) {
+        resumes++;
+        yield 0;
+      }
+    });
+    expect(resumes).toBe(1);
+    timers.update(1 / 60);
+    expect(resumes).toBe(2);
+    timers.update(1 / 60);
+    expect(resumes).toBe(3);
+  });
+
+  it('协程执行完毕后句柄失效', () => {
+    const timers = new TimerScheduler();
+    const handle = timers.startCoroutine(function* () {
+      yield 0.1;
+    });
+    expect(handle.active).toBe(true);
+    timers.update(0.1);
+    expect(handle.active).toBe(false);
+  });
+});
+
+describe('TimerScheduler 与GameLoop/Scene', () => {
+  let scheduler: ManualScheduler;
+  let loop: GameLoop;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scheduler = new ManualScheduler();
+    loop = new GameLoop({ scheduler });
+    loop.setFixedTimestep(60);
+    loop.start(false);
+  });
+
+  afterEach(() => {
+    loop.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('暂停时不推进，时间缩放减慢定时器', () => {
+    const fired = vi.fn();
+    loop.timers.after(0.5, fired);
+    loop.setTimeScale(0.5);
+
+    scheduler.stepFrames(45);
+    expect(fired).not.toHaveBeenCalled();
+
+    loop.pause();
+    scheduler.stepFrames(60);
+    expect(fired).not.toHaveBeenCalled();
+
+    // 累计游戏时间 = 帧数 × 1/60 × 0.5
+    loop.resume();
+    scheduler.stepFrames(20);
+    expect(fired).toHaveBeenCalledTimes(1);
+  });
+
+  it('Scene.destroy后场景定时器与协程不再触发', () => {
+    const scene = new Scene({ id: 'timers', gameLoop: loop });
+    scene.activate();
+    const fired = vi.fn();
+    const resumed = vi.fn();
+    scene.timers.every(0.1, fired);
+    scene.timers.startCoroutine(function* () {
+      for (;;) {
+        yield;
+        resumed();
+      }
+    });
+
+    scheduler.stepFrames(12);
+    const firedBefore = fired.mock.calls.length;
+    const resumedBefore = resumed.mock.calls.length;
+    expect(firedBefore).toBeGreaterThan(0);
+    expect(resumedBefore).toBeGreaterThan(0);
+
+    scene.destroy();
+    scheduler.stepFrames(30);
+    expect(fired).toHaveBeenCalledTimes(firedBefore);
+    expect(resumed).toHaveBeenCalledTimes(resumedBefore);
+    expect(scene.timers.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * 定时器与协程调度器
+ * 由GameLoop（全局）和Scene（场景级）持有并在逻辑步中驱动，时间以“游戏时间”计算：
+ * 暂停时不推进、受时间缩放影响、调用clear后（如场景销毁）不再触发任何回调
+ */
+
+/** 协程可产出的等待指令：数字=等待秒数，undefined/null=等待下一逻辑步，Promise=等待其完成 */
+type CoroutineYield = number | null | undefined | void | Promise<unknown>;
+type Coroutine = Generator<CoroutineYield, void, unknown>;
+type TimerErrorHandler = (error: Error) => void;
+
+/** 内部定时器记录 */
+type TimerEntry = {
+  id: number;
+  fireAt: number; // 触发时间（调度器时间，秒）
+  interval: number; // 重复间隔（秒，0表示单次）
+  remaining: number; // 剩余触发次数（Infinity表示无限）
+  callback: (count: number) => void; // 回调（参数：已触发次数）
+  count: number; // 已触发次数
+};
+
+/**
+ * 定时器句柄（用于取消定时器/协程）
+ */
+class TimerHandle {
+  private cancelled = false;
+  private finished = false;
+  private readonly onCancel: () => void;
+
+  constructor(onCancel: () => void) {
+    this.onCancel = onCancel;
+  }
+
+  /** 是否仍处于有效状态（未取消且未完成） */
+  get active(): boolean {
+    return !this.cancelled && !this.finished;
+  }
+
+  /** 取消定时器/协程（重复调用无副作用） */
+  cancel(): void {
+    if (!this.active) return;
+    this.cancelled = true;
+    this.onCancel();
+  }
+
+  /** 标记为已完成（内部使用） */
+  markFinished(): void {
+    this.finished = true;
+  }
+}
+
+class TimerScheduler {
+  private time: number = 0; // 调度器累计时间（秒，已缩放）
+  private nextId: number = 1; // 自增定时器ID
+  private timers: TimerEntry[] = []; // 按触发时间升序排列的定时器
+  private handles = new Map<number, TimerHandle>(); // 定时器ID -> 句柄
+  private frameWaiters: Array<() => void> = []; // 等待下一逻辑步的回调
+  private coroutines = new Set<TimerHandle>(); // 运行中的协程句柄
+  private errorHandler?: TimerErrorHandler; // 回调错误处理
+  private generation: number = 0; // 清空代数（clear后使旧的Promise续体失效）
+
+  /**
+   * @param onError 回调错误处理（可选，默认打印错误日志）
+   */
+  constructor(onError?: TimerErrorHandler) {
+    this.errorHandler = onError;
+  }
+
+  /**
+   * 获取调度器累计时间（秒）
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * 获取当前有效的定时器数量（不含协程的逐帧等待）
+   */
+  getPendingCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * 延迟执行一次
+   * @param seconds 延迟时间（秒，>=0）
+   * @param callback 回调
+   * @returns 定时器句柄
+   */
+  after(seconds: number, callback: () => void): TimerHandle {
+    this.#validateSeconds(seconds, '延迟时间');
+    return this.#schedule(seconds, 0, 1, () => callback());
+  }
+
+  /**
+   * 按固定间隔重复执行
+   * @param seconds 间隔时间（秒，>0）
+   * @param callback 回调（参数：已触发次数，从1开始）
+   * @param times 重复次数（默认无限）
+   * @returns 定时器句柄
+   */
+  every(seconds: number, callback: (count: number) => void, times: number = Infinity): TimerHandle {
+    this.#validateSeconds(seconds, '间隔时间');
+    if (seconds <= 0) {
+      throw new Error('[TimerScheduler] 重复间隔必须大于0');
+    }
+    if (times !== Infinity && (!Number.isInteger(times) || times < 1)) {
+      throw new Error('[TimerScheduler] 重复次数必须是正整数');
+    }
+    return this.#schedule(seconds, seconds, times, callback);
+  }
+
+  /**
+   * 等待指定时间（async风格）
+   * 注意：调度器被clear后，等待中的Promise不会再完成
+   * @param seconds 等待时间（秒）
+   */
+  wait(seconds: number): Promise<void> {
+    return new Promise(resolve => {
+      this.after(seconds, resolve);
+    });
+  }
+
+  /**
+   * 等待下一逻辑步（async风格）
+   */
+  nextFrame(): Promise<void> {
+    return new Promise(resolve => {
+      this.frameWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * 启动生成器协程
+   * @param coroutine 生成器对象或生成器函数；yield 数字=等待秒数，yield（空）=等待下一逻辑步，yield Promise=等待其完成
+   * @returns 协程句柄（cancel后协程不再继续执行）
+   */
+  startCoroutine(coroutine: Coroutine | (() => Coroutine)): TimerHandle {
+    const iterator = typeof coroutine === 'function' ? coroutine() : coroutine;
+    let pending: TimerHandle | null = null;
+    const generation = this.generation;
+    const handle = new TimerHandle(() => {
+      this.coroutines.delete(handle);
+      pending?.cancel();
+      iterator.return?.();
+    });
+    const finish = (): void => {
+      handle.markFinished();
+      this.coroutines.delete(handle);
+    };
+    this.coroutines.add(handle);
+
+    const resume = (): void => {
+      if (!handle.active || generation !== this.generation) return;
+      let result: IteratorResult<CoroutineYield, void>;
+      try {
+        result = iterator.next();
+      } catch (error) {
+        finish();
+        this.#handleError(error as Error);
+        return;
+      }
+      if (result.done) {
+        finish();
+        return;
+      }
+
+      const instruction = result.value;
+      if (typeof instruction === 'number') {
+        pending = this.after(Math.max(0, instruction), resume);
+      } else if (instruction instanceof Promise) {
+        instruction.then(resume, (error: Error) => {
+          if (!handle.active) return;
+          finish();
+          this.#handleError(error);
+        });
+      } else {
+        this.frameWaiters.push(resume);
+      }
+    };
+
+    resume();
+    return handle;
+  }
+
+  /**
+   * 推进调度器时间并触发到期的定时器（由GameLoop/Scene在逻辑步中调用）
+   * 回调中新登记的定时器即使已到期也留到下一次update，延迟为0的定时器与协程的yield 0至少间隔一个逻辑步
+   * @param deltaTime 时间差（秒，已缩放）
+   */
+  update(deltaTime: number): void {
+    if (deltaTime < 0) return;
+    this.time += deltaTime;
+
+    // 1. 唤醒等待下一逻辑步的协程（仅处理本步之前登记的）
+    if (this.frameWaiters.length > 0) {
+      const waiters = this.frameWaiters;
+      this.frameWaiters = [];
+      waiters.forEach(waiter => this.#invoke(waiter));
+    }
+
+    // 2. 按触发时间依次执行到期定时器（重复定时器可在一步内追赶多次）
+    //    本次update期间新登记的定时器（ID不小于cutoff，如after(0)、协程yield 0）最早在下一逻辑步触发，避免同一步内无限重入
+    const cutoff = this.nextId;
+    for (;;) {
+      const index = this.timers.findIndex(t => t.fireAt > this.time || t.id < cutoff);
+      if (index === -1 || this.timers[index].fireAt > this.time) break;
+      const [entry] = this.timers.splice(index, 1);
+      entry.count++;
+      entry.remaining--;
+      const isLast = entry.remaining <= 0 || entry.interval === 0;
+      if (isLast) {
+        this.handles.get(entry.id)?.markFinished();
+        this.handles.delete(entry.id);
+      } else {
+        entry.fireAt += entry.interval;
+        this.#insert(entry);
+      }
+      this.#invoke(() => entry.callback(entry.count));
+    }
+  }
+
+  /**
+   * 取消所有定时器与协程（场景销毁时调用，保证之后不再触发任何回调）
+   */
+  clear(): void {
+    this.handles.forEach(handle => handle.markFinished());
+    this.handles.clear();
+    this.coroutines.forEach(handle => handle.markFinished());
+    this.coroutines.clear();
+    this.timers = [];
+    this.frameWaiters = [];
+    this.generation++;
+  }
+
+  /**
+   * 创建并登记定时器
+   */
+  #schedule(delay: number, interval: number, times: number, callback: (count: number) => void): TimerHandle {
+    const id = this.nextId++;
+    const entry: TimerEntry = {
+      id,
+      fireAt: this.time + delay,
+      interval,
+      remaining: times,
+      callback,
+      count: 0,
+    };
+    const handle = new TimerHandle(() => {
+      this.timers = this.timers.filter(t => t.id !== id);
+      this.handles.delete(id);
+    });
+    this.handles.set(id, handle);
+    this.#insert(entry);
+    return handle;
+  }
+
+  /**
+   * 按触发时间插入（同一时间按登记顺序，保持稳定）
+   */
+  #insert(entry: TimerEntry): void {
+    const index = this.timers.findIndex(t => t.fireAt > entry.fireAt);
+    if (index === -1) {
+      this.timers.push(entry);
+    } else {
+      this.timers.splice(index, 0, entry);
+    }
+  }
+
+  /**
+   * 执行回调（带错误捕获，单个回调异常不影响其他定时器）
+   */
+  #invoke(fn: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      this.#handleError(error as Error);
+    }
+  }
+
+  #handleError(error: Error): void {
+    if (this.errorHandler) {
+      this.errorHandler(error);
+    } else {
+      console.error('[TimerScheduler] callback error:', error);
+    }
+  }
+
+  #validateSeconds(seconds: number, name: string): void {
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`[TimerScheduler] ${name}必须是非负有限数`);
+    }
+  }
+}
+
+export { TimerScheduler, TimerHandle };
+export type { Coroutine, CoroutineYield };
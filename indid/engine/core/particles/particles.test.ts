@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { ParticleEmitter, ParticlePool } from './particles';
+import type { Particle } from './particles';
+
+describe('ParticlePool', () => {
+  it('回收的粒子被getOrCreate复用，空闲池为空时创建新对象', () => {
+    const pool = new ParticlePool();
+    const first = pool.getOrCreate();
+    expect(first).toMatchObject({ age: 0, life: 1, opacity: 1 });
+    pool.recycle(first);
+    expect(pool.getFreeCount()).toBe(1);
+    expect(pool.getOrCreate()).toBe(first);
+    expect(pool.getOrCreate()).not.toBe(first);
+
+    pool.recycle(first);
+    pool.clear();
+    expect(pool.getFreeCount()).toBe(0);
+  });
+});
+
+describe('ParticleEmitter', () => {
+  it('消亡的粒子回收后被新粒子复用', () => {
+    const emitter = new ParticleEmitter({ lifetime: 0.5 });
+    emitter.emit(3);
+    const spawned = new Set<Particle>(emitter.getParticles());
+    emitter.update(0.5);
+    expect(emitter.getParticleCount()).toBe(0);
+
+    emitter.emit(4);
+    const reused = emitter.getParticles().filter(p => spawned.has(p));
+    expect(reused).toHaveLength(3);
+    // 复用的粒子字段全部重置
+    expect(reused.every(p => p.age === 0 && p.opacity === 1)).toBe(true);
+  });
+
+  it('寿命到期的粒子被移除，发射结束且粒子全部消亡后不再存活', () => {
+    // 每个粒子依次采样发射区域x、y与寿命
+    const samples = [0, 0, 0, 0, 0, 1];
+    const emitter = new ParticleEmitter({ duration: 0.1, lifetime: [0.2, 0.6], random: () => samples.shift() ?? 0 });
+    emitter.emit(2);
+    expect(emitter.getParticles().map(p => p.life)).toEqual([0.2, 0.6]);
+    emitter.update(0.1);
+    expect(emitter.isEmitting()).toBe(false);
+    expect(emitter.isAlive()).toBe(true);
+
+    emitter.update(0.2);
+    expect(emitter.getParticles().map(p => p.life)).toEqual([0.6]);
+    emitter.update(0.3);
+    expect(emitter.getParticleCount()).toBe(0);
+    expect(emitter.isAlive()).toBe(false);
+  });
+
+  it('持续发射累计小数部分，最大粒子数限制同时存活数量', () => {
+    const emitter = new ParticleEmitter({ rate: 25, maxParticles: 4 });
+    emitter.update(0.1);
+    expect(emitter.getParticleCount()).toBe(2);
+    emitter.update(0.1);
+    expect(emitter.getParticleCount()).toBe(4);
+    emitter.update(0.1);
+    expect(emitter.getParticleCount()).toBe(4);
+  });
+
+  it('爆发按时间触发，重复间隔与次数生效，start后重新计划', () => {
+    const emitter = new ParticleEmitter({
+      lifetime: 10,
+      bursts: [{ time: 0.1, count: 5 }, { time: 0.2, count: [2, 4], interval: 0.5, cycles: 3 }],
+      random: () => 0.5,
+    });
+    emitter.update(0.05);
+    expect(emitter.getParticleCount()).toBe(0);
+    emitter.update(0.05);
+    expect(emitter.getParticleCount()).toBe(5);
+    emitter.update(0.1);
+    expect(emitter.getParticleCount()).toBe(8);
+    // 一步跨越两个间隔时追赶触发，次数用完后不再触发
+    emitter.update(1.5);
+    expect(emitter.getParticleCount()).toBe(14);
+    emitter.update(1);
+    expect(emitter.getParticleCount()).toBe(14);
+
+    emitter.start();
+    emitter.update(0.1);
+    expect(emitter.getParticleCount()).toBe(19);
+    emitter.stop(true);
+    expect(emitter.getParticleCount()).toBe(0);
+    expect(emitter.isAlive()).toBe(false);
+  });
+
+  it('尺寸、透明度与颜色按生命周期关键帧插值', () => {
+    const emitter = new ParticleEmitter({
+      lifetime: 1,
+      sizeOverLife: [10, 20, 0],
+      sizeVariance: 2,
+      opacityOverLife: [1, 0],
+      colorOverLife: ['#ff0000', 'rgba(0, 0, 255, 0.5)'],
+    });
+    emitter.emit(1);
+    const [p] = emitter.getParticles();
+    expect(p).toMatchObject({ size: 20, opacity: 1, color: 'rgba(255,0,0,1.000)' });
+
+    emitter.update(0.25);
+    expect(p.size).toBeCloseTo(30);
+    expect(p.opacity).toBeCloseTo(0.75);
+    expect(p.color).toBe('rgba(191,0,64,0.875)');
+
+    emitter.update(0.5);
+    expect(p.size).toBeCloseTo(20);
+    expect(p.opacity).toBeCloseTo(0.25);
+    expect(p.color).toBe('rgba(64,0,191,0.625)');
+  });
+
+  it('按速度、加速度与阻尼推进位置，保留上一逻辑步位置用于插值', () => {
+    const emitter = new ParticleEmitter({ position: [10, 20], velocity: { x: 100 }, acceleration: { y: 50 }, damping: 0.5, lifetime: 5, colorOverLife: ['#abc'] });
+    emitter.emit(1);
+    const [p] = emitter.getParticles();
+    expect(p.color).toBe('#abc');
+    emitter.update(1);
+    expect(p).toMatchObject({ prevX: 10, prevY: 20, vx: 50, vy: 25, x: 60, y: 45 });
+
+    expect(() => new ParticleEmitter({ colorOverLife: ['red', 'blue'] })).toThrow('[ParticleEmitter] 无法解析颜色');
+    expect(() => new ParticleEmitter({ rate: -1 })).toThrow('[ParticleEmitter]');
+    expect(() => new ParticleEmitter({ shape: 'image' })).toThrow('imageSrc');
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * 粒子系统模块
+ * ParticleEmitter：按发射速率/爆发配置生成粒子，并在逻辑步中推进粒子运动与生命周期属性
+ * ParticlePool：粒子对象复用池（与EntityPool.recycle/getOrCreate同样的复用思路），避免高频创建销毁造成GC抖动
+ * 粒子为轻量数据对象而非Player实例，由Renderer.drawParticles一次性批量绘制
+ */
+import type { Vec2 } from "../camera/camera";
+
+/** 数值范围：固定值或[最小值, 最大值]（生成粒子时在范围内均匀随机） */
+type Range = number | [min: number, max: number];
+
+/** 粒子数据（由发射器内部维护，外部只读） */
+type Particle = {
+  x: number; // 当前X坐标（世界/画布坐标）
+  y: number; // 当前Y坐标
+  prevX: number; // 上一逻辑步X坐标（用于渲染插值）
+  prevY: number; // 上一逻辑步Y坐标
+  vx: number; // X方向速度（像素/秒）
+  vy: number; // Y方向速度（像素/秒）
+  ax: number; // X方向加速度（像素/秒²）
+  ay: number; // Y方向加速度（像素/秒²）
+  rotation: number; // 旋转角度（弧度）
+  angularVelocity: number; // 角速度（弧度/秒）
+  age: number; // 已存活时间（秒）
+  life: number; // 寿命（秒）
+  size: number; // 当前尺寸（像素，由sizeOverLife计算）
+  sizeScale: number; // 尺寸随机系数（生成时确定）
+  opacity: number; // 当前透明度（由opacityOverLife计算）
+  color: string; // 当前颜色（由colorOverLife计算）
+};
+
+/** 爆发配置 */
+type BurstConfig = {
+  time: number; // 触发时间（相对发射器启动，秒）
+  count: Range; // 粒子数量
+  interval?: number; // 重复间隔（秒，不传则只触发一次）
+  cycles?: number; // 重复次数（默认1；配合interval使用，Infinity表示无限）
+};
+
+/** 发射器配置 */
+type ParticleEmitterOptions = {
+  id?: string; // 发射器ID（默认自动生成）
+  position?: Vec2; // 发射位置（默认[0, 0]）
+  spawnArea?: Vec2; // 发射区域尺寸（以position为中心的矩形，默认[0, 0]即点发射）
+  rate?: number; // 持续发射速率（个/秒，默认0即只使用爆发）
+  bursts?: BurstConfig[]; // 爆发配置
+  duration?: number; // 发射持续时间（秒，默认Infinity；到期后停止发射，已有粒子继续运动至消亡）
+  maxParticles?: number; // 同时存活的最大粒子数（默认1000）
+  lifetime?: Range; // 粒子寿命（秒，默认1）
+  speed?: Range; // 初速度大小（像素/秒，与angle配合使用；设置后忽略velocity）
+  angle?: Range; // 发射角度（弧度，0为向右，默认[0, 2π]）
+  velocity?: { x?: Range; y?: Range }; // 初速度分量（像素/秒，默认0）
+  acceleration?: { x?: Range; y?: Range }; // 加速度分量（像素/秒²，如重力{ y: 300 }）
+  damping?: number; // 速度阻尼（每秒保留比例，0-1，默认1即无阻尼）
+  rotation?: Range; // 初始旋转（弧度，默认0）
+  angularVelocity?: Range; // 角速度（弧度/秒，默认0）
+  sizeOverLife?: number[]; // 生命周期内的尺寸关键帧（均匀分布，默认[8]）
+  sizeVariance?: Range; // 尺寸随机系数（默认1）
+  colorOverLife?: string[]; // 生命周期内的颜色关键帧（支持#rgb/#rrggbb/rgb()/rgba()，默认['#ffffff']）
+  opacityOverLife?: number[]; // 生命周期内的透明度关键帧（默认[1, 0]淡出）
+  shape?: 'rect' | 'circle' | 'image'; // 粒子形状（默认circle）
+  imageSrc?: string; // 图片粒子的资源（资源键或路径）
+  blendMode?: GlobalCompositeOperation; // 混合模式（如'lighter'用于火焰、爆炸）
+  layer?: string; // 所属渲染层（默认"default"层）
+  zIndex?: number; // 层内绘制顺序
+  autoRemove?: boolean; // 发射结束且粒子全部消亡后是否自动从场景移除（默认false）
+  random?: () => number; // 随机数函数（默认Math.random，可注入带种子的随机数实现确定性回放）
+};
+
+/**
+ * 粒子对象复用池
+ */
+class ParticlePool {
+  private readonly freeList: Particle[] = []; // 空闲粒子
+
+  /**
+   * 从空闲池复用粒子，无可用则创建新对象（复用时由调用方重置全部字段）
+   */
+  getOrCreate(): Particle {
+    return this.freeList.pop() ?? {
+      x: 0, y: 0, prevX: 0, prevY: 0, vx: 0, vy: 0, ax: 0, ay: 0,
+      rotation: 0, angularVelocity: 0, age: 0, life: 1, size: 0, sizeScale: 1, opacity: 1, color: '#ffffff',
+    };
+  }
+
+  /**
+   * 回收粒子至空闲池
+   */
+  recycle(particle: Particle): void {
+    this.freeList.push(particle);
+  }
+
+  /** 空闲粒子数量 */
+  getFreeCount(): number {
+    return this.freeList.length;
+  }
+
+  /** 清空空闲池 */
+  clear(): void {
+    this.freeList.length = 0;
+  }
+}
+
+/** RGBA颜色 */
+type Rgba = [r: number, g: number, b: number, a: number];
+
+let emitterId = 0;
+
+class ParticleEmitter {
+  public readonly id: string;
+  public readonly shape: 'rect' | 'circle' | 'image';
+  public readonly imageSrc?: string;
+  public readonly blendMode?: GlobalCompositeOperation;
+  public readonly autoRemove: boolean;
+  public layer?: string; // 所属渲染层
+  public zIndex?: number; // 层内绘制顺序
+  public position: Vec2; // 发射位置（可每帧修改以实现拖尾）
+
+  private readonly options: ParticleEmitterOptions;
+  private readonly pool = new ParticlePool();
+  private readonly particles: Particle[] = []; // 存活粒子
+  private readonly colors: Rgba[]; // 解析后的颜色关键帧
+  private readonly random: () => number;
+  private emitting = true; // 是否发射中
+  private time = 0; // 发射器启动后经过的时间（秒）
+  private spawnAccumulator = 0; // 持续发射的小数部分累计
+  private burstState: Array<{ next: number; remaining: number }> = []; // 各爆发的下次触发时间与剩余次数
+
+  constructor(options: ParticleEmitterOptions = {}) {
+    if (options.rate !== undefined && (typeof options.rate !== 'number' || options.rate < 0)) {
+      throw new Error('[ParticleEmitter] 发射速率必须是非负数');
+    }
+    if (options.shape === 'image' && !options.imageSrc) {
+      throw new Error('[ParticleEmitter] 图片粒子必须指定imageSrc');
+    }
+    this.options = options;
+    this.id = options.id ?? `emitter-${++emitterId}`;
+    this.shape = options.shape ?? 'circle';
+    this.imageSrc = options.imageSrc;
+    this.blendMode = options.blendMode;
+    this.autoRemove = options.autoRemove ?? false;
+    this.layer = options.layer;
+    this.zIndex = options.zIndex;
+    this.position = options.position ? [options.position[0], options.position[1]] : [0, 0];
+    this.random = options.random ?? Math.random;
+    this.colors = (options.colorOverLife ?? ['#ffffff']).map(color => this.#parseColor(color));
+    this.#resetBursts();
+  }
+
+  /**
+   * 重新开始发射（重置发射时间与爆发计划，已有粒子保留）
+   */
+  start(): void {
+    this.emitting = true;
+    this.time = 0;
+    this.spawnAccumulator = 0;
+    this.#resetBursts();
+  }
+
+  /**
+   * 停止发射（已有粒子继续运动至消亡）
+   * @param clearParticles 是否立即清除所有粒子（默认false）
+   */
+  stop(clearParticles: boolean = false): void {
+    this.emitting = false;
+    if (clearParticles) this.clear();
+  }
+
+  /** 是否发射中 */
+  isEmitting(): boolean {
+    return this.emitting;
+  }
+
+  /** 是否仍有效（发射中或仍有存活粒子） */
+  isAlive(): boolean {
+    return this.emitting || this.particles.length > 0;
+  }
+
+  /**
+   * 立即发射指定数量的粒子（爆发）
+   * @param count 粒子数量
+   * @param position 发射位置（默认当前position）
+   */
+  emit(count: number, position: Vec2 = this.position): void {
+    const max = this.options.maxParticles ?? 1000;
+    for (let i = 0; i < count && this.particles.length < max; i++) {
+      this.#spawn(position);
+    }
+  }
+
+  /**
+   * 推进粒子（由Scene在逻辑步中调用）
+   * @param deltaTime 时间差（秒，已缩放）
+   */
+  update(deltaTime: number): void {
+    if (deltaTime <= 0) return;
+
+    // 1. 发射新粒子
+    if (this.emitting) {
+      this.time += deltaTime;
+      const rate = this.options.rate ?? 0;
+      if (rate > 0) {
+        this.spawnAccumulator += rate * deltaTime;
+        const count = Math.floor(this.spawnAccumulator);
+        this.spawnAccumulator -= count;
+        this.emit(count);
+      }
+      this.#updateBursts();
+      if (this.time >= (this.options.duration ?? Infinity)) {
+        this.emitting = false;
+      }
+    }
+
+    // 2. 推进粒子运动与生命周期属性（消亡粒子与末尾交换后回收，O(1)删除）
+    const damping = this.options.damping ?? 1;
+    const dampFactor = damping < 1 ? Math.pow(damping, deltaTime) : 1;
+    for (let i = this.particles.length - 1; i >= 0; i--) {
+      const p = this.particles[i];
+      p.age += deltaTime;
+      if (p.age >= p.life) {
+        const last = this.particles.pop()!;
+        if (last !== p) this.particles[i] = last;
+        this.pool.recycle(p);
+        continue;
+      }
+      p.prevX = p.x;
+      p.prevY = p.y;
+      p.vx = (p.vx + p.ax * deltaTime) * dampFactor;
+      p.vy = (p.vy + p.ay * deltaTime) * dampFactor;
+      p.x += p.vx * deltaTime;
+      p.y += p.vy * deltaTime;
+      p.rotation += p.angularVelocity * deltaTime;
+      this.#applyLifetimeProperties(p);
+    }
+  }
+
+  /** 获取存活粒子（只读，供Renderer批量绘制） */
+  getParticles(): readonly Particle[] {
+    return this.particles;
+  }
+
+  /** 存活粒子数量 */
+  getParticleCount(): number {
+    return this.particles.length;
+  }
+
+  /** 清除所有粒子（回收至复用池） */
+  clear(): void {
+    this.particles.forEach(p => this.pool.recycle(p));
+    this.particles.length = 0;
+  }
+
+  /** 生成单个粒子 */
+  #spawn(position: Vec2): void {
+    const o = this.options;
+    const p = this.pool.getOrCreate();
+    const [areaW, areaH] = o.spawnArea ?? [0, 0];
+    p.x = p.prevX = position[0] + (this.random() - 0.5) * areaW;
+    p.y = p.prevY = position[1] + (this.random() - 0.5) * areaH;
+    if (o.speed !== undefined) {
+      const speed = this.#sample(o.speed);
+      const angle = this.#sample(o.angle ?? [0, Math.PI * 2]);
+      p.vx = Math.cos(angle) * speed;
+      p.vy = Math.sin(angle) * speed;
+    } else {
+      p.vx = this.#sample(o.velocity?.x ?? 0);
+      p.vy = this.#sample(o.velocity?.y ?? 0);
+    }
+    p.ax = this.#sample(o.acceleration?.x ?? 0);
+    p.ay = this.#sample(o.acceleration?.y ?? 0);
+    p.rotation = this.#sample(o.rotation ?? 0);
+    p.angularVelocity = this.#sample(o.angularVelocity ?? 0);
+    p.age = 0;
+    p.life = Math.max(0.001, this.#sample(o.lifetime ?? 1));
+    p.sizeScale = this.#sample(o.sizeVariance ?? 1);
+    this.#applyLifetimeProperties(p);
+    this.particles.push(p);
+  }
+
+  /** 按生命周期进度计算尺寸、透明度与颜色 */
+  #applyLifetimeProperties(p: Particle): void {
+    const t = Math.min(1, p.age / p.life);
+    p.size = this.#interpolate(this.options.sizeOverLife ?? [8], t) * p.sizeScale;
+    p.opacity = Math.max(0, Math.min(1, this.#interpolate(this.options.opacityOverLife ?? [1, 0], t)));
+    p.color = this.#interpolateColor(t);
+  }
+
+  /** 触发到期的爆发 */
+  #updateBursts(): void {
+    const bursts = this.options.bursts ?? [];
+    this.burstState.forEach((state, index) => {
+      const burst = bursts[index];
+      while (state.remaining > 0 && this.time >= state.next) {
+        this.emit(Math.round(this.#sample(burst.count)));
+        state.remaining--;
+        if (!burst.interval || burst.interval <= 0) {
+          state.remaining = 0;
+        } else {
+          state.next += burst.interval;
+        }
+      }
+    });
+  }
+
+  #resetBursts(): void {
+    this.burstState = (this.options.bursts ?? []).map(burst => ({
+      next: burst.time,
+      remaining: burst.cycles ?? 1,
+    }));
+  }
+
+  /** 在范围内均匀采样 */
+  #sample(range: Range): number {
+    if (typeof range === 'number') return range;
+    return range[0] + (range[1] - range[0]) * this.random();
+  }
+
+  /** 关键帧线性插值（关键帧在生命周期内均匀分布） */
+  #interpolate(keys: number[], t: number): number {
+    if (keys.length === 0) return 0;
+    if (keys.length === 1) return keys[0];
+    const scaled = t * (keys.length - 1);
+    const index = Math.min(keys.length - 2, Math.floor(scaled));
+    const local = scaled - index;
+    return keys[index] + (keys[index + 1] - keys[index]) * local;
+  }
+
+  #interpolateColor(t: number): string {
+    const colors = this.colors;
+    if (colors.length === 1) return this.options.colorOverLife?.[0] ?? '#ffffff';
+    const scaled = t * (colors.length - 1);
+    const index = Math.min(colors.length - 2, Math.floor(scaled));
+    const local = scaled - index;
+    const from = colors[index];
+    const to = colors[index + 1];
+    const mix = (i: number) => from[i] + (to[i] - from[i]) * local;
+    return `rgba(${Math.round(mix(0))},${Math.round(mix(1))},${Math.round(mix(2))},${mix(3).toFixed(3)})`;
+  }
+
+  /** 解析颜色（支持#rgb、#rrggbb、rgb()、rgba()） */
+  #parseColor(color: string): Rgba {
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    if (hex) {
+      const value = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+      return [parseInt(value.slice(0, 2), 16), parseInt(value.slice(2, 4), 16), parseInt(value.slice(4, 6), 16), 1];
+    }
+    const rgb = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+    if (rgb) {
+      return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), rgb[4] === undefined ? 1 : Number(rgb[4])];
+    }
+    throw new Error(`[ParticleEmitter] 无法解析颜色"${color}"，请使用#rgb、#rrggbb、rgb()或rgba()格式`);
+  }
+}
+
+export { ParticleEmitter, ParticlePool };
+export type { Particle, ParticleEmitterOptions, BurstConfig, Range };
@@ -0,0 +1,112 @@
+/**
+ * 渲染后端接口
+ * Renderer负责画布尺寸、资源、分层与缓存调度，所有实际绘制都通过RenderBackend完成；
+ * Canvas2D、WebGL2与录制后端接收相同的RenderableEntity数据，可互相替换
+ */
+import type { AssetManager, DrawableImage } from "../assets/assets";
+import type { ViewRect } from "../camera/camera";
+import type { ParticleEmitter } from "../particles/particles";
+import type { RenderableEntity } from "./render";
+import type { BitmapFont, TextStyle, TextMetrics } from "./text";
+import type { Transform2D } from "./cache";
+import type { ResizeEvent } from "./resize";
+
+/** 内置后端类型 */
+type RenderBackendType = 'canvas2d' | 'webgl2' | 'recording';
+
+/** 后端可绘制的图片源（资源图片、离屏Canvas、区块缓存等） */
+type BackendImage = DrawableImage;
+
+/** 创建后端时由Renderer提供的上下文 */
+type RenderBackendContext = {
+  canvas: HTMLCanvasElement; // 目标画布
+  assets: AssetManager; // 图片资源缓存
+  getBitmapFont: (name: string) => BitmapFont | undefined; // 查找已注册的位图字体
+};
+
+/** 自定义后端工厂 */
+type RenderBackendFactory = (context: RenderBackendContext) => RenderBackend;
+
+/**
+ * 渲染后端
+ * 状态模型与Canvas2D一致：save/restore维护变换、透明度、混合模式与裁剪的状态栈，
+ * 坐标均为当前变换下的坐标（初始变换为逻辑坐标 -> 后备缓冲区像素）
+ */
+interface RenderBackend {
+  readonly type: RenderBackendType | string; // 后端类型
+  readonly cacheable: boolean; // 是否使用离屏静态缓存（录制后端为false，静态实体逐个绘制以便记录）
+
+  /** 画布后备缓冲区尺寸变化后调用：重置基础变换与视口 */
+  resize(state: ResizeEvent): void;
+  /** 帧开始 */
+  beginFrame(): void;
+  /** 帧结束（批处理后端在此提交剩余绘制） */
+  endFrame(): void;
+  /** 以指定颜色填充当前裁剪区域内的整个画布（不受当前变换影响） */
+  clear(color: string): void;
+
+  // --- 状态栈 ---
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  getTransform(): Transform2D;
+  setTransform(transform: Transform2D): void;
+  /** 将之后的绘制限制在矩形区域内（当前变换下的坐标） */
+  clipRect(rect: ViewRect): void;
+  /** 当前透明度乘以alpha */
+  multiplyAlpha(alpha: number): void;
+  /** 设置混合模式（不支持的模式回退为source-over） */
+  setBlendMode(mode: GlobalCompositeOperation): void;
+
+  // --- 绘制 ---
+  /** 绘制实体（alpha为插值系数） */
+  drawEntity(entity: RenderableEntity, alpha: number): void;
+  /** 批量绘制粒子（alpha为插值系数） */
+  drawParticles(emitter: ParticleEmitter, alpha: number): void;
+  /** 绘制图片子区域 */
+  drawImage(
+    image: BackendImage,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void;
+  /** 通知图片源内容已变化（如离屏Canvas重新绘制），纹理类后端需重新上传 */
+  invalidateImage(image: BackendImage): void;
+  /** 对画布当前内容整体应用CSS滤镜（后处理调色，受当前裁剪影响；'none'时不处理） */
+  filterCanvas(filter: string): void;
+  /** 填充矩形 */
+  fillRect(x: number, y: number, w: number, h: number, color: string): void;
+  /** 绘制文本 */
+  drawText(text: string, x: number, y: number, style: TextStyle): TextMetrics;
+  /** 测量文本 */
+  measureText(text: string, style: TextStyle): TextMetrics;
+
+  /** 释放后端资源 */
+  destroy(): void;
+}
+
+/**
+ * 计算插值后的绘制位置（各后端共用）
+ * 无上一步位置或alpha>=1时直接返回当前位置
+ */
+function interpolateLocation(entity: RenderableEntity, alpha: number): [number, number] {
+  const [x, y] = entity.location;
+  const prev = entity.previousLocation;
+  if (!prev || alpha >= 1) return [x, y];
+  const t = Math.max(0, alpha);
+  return [prev[0] + (x - prev[0]) * t, prev[1] + (y - prev[1]) * t];
+}
+
+/**
+ * 计算插值后的旋转角度（各后端共用）
+ */
+function interpolateRotation(entity: RenderableEntity, alpha: number): number {
+  const rotation = entity.rotation ?? 0;
+  const prev = entity.previousRotation;
+  if (prev === undefined || alpha >= 1) return rotation;
+  return prev + (rotation - prev) * Math.max(0, alpha);
+}
+
+export { interpolateLocation, interpolateRotation };
+export type { RenderBackend, RenderBackendType, RenderBackendContext, RenderBackendFactory, BackendImage };
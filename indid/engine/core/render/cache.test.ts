@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StaticCache } from './cache';
+import { Player } from '../entities/Player/player';
+
+/** 假离屏Canvas（只记录尺寸） */
+function fakeCanvas() {
+  return { width: 0, height: 0, getContext: () => ({ setTransform: () => {}, clearRect: () => {} }) };
+}
+
+describe('StaticCache 世界坐标烘焙', () => {
+  const loaded = () => 'loaded';
+  let wall: Player;
+  let cache: StaticCache;
+
+  beforeEach(() => {
+    vi.stubGlobal('document', { createElement: fakeCanvas });
+    wall = new Player({ id: 'wall', location: [100, 50], size: [40, 20], isStatic: true });
+    cache = new StaticCache();
+  });
+
+  afterEach(() => {
+    cache.release();
+    vi.unstubAllGlobals();
+  });
+
+  it('按实体的世界包围盒与分辨率确定离屏尺寸和烘焙变换', () => {
+    const transform = cache.prepare([wall], 2, loaded);
+
+    // 包围盒含2像素抗锯齿外扩
+    expect(cache.getBounds()).toEqual({ x: 98, y: 48, width: 44, height: 24 });
+    expect(cache.getCanvas()).toMatchObject({ width: 88, height: 48 });
+    expect(transform).toEqual({ a: 2, b: 0, c: 0, d: 2, e: -196, f: -96 });
+  });
+
+  it('只在外观版本或分辨率变化时失效', () => {
+    cache.prepare([wall], 1, loaded);
+    expect(cache.isValid([wall], 1, loaded)).toBe(true);
+
+    // 直接修改字段不会改变版本号，需要手动标记
+    wall.background = 'red';
+    expect(cache.isValid([wall], 1, loaded)).toBe(true);
+    wall.markRenderDirty();
+    expect(cache.isValid([wall], 1, loaded)).toBe(false);
+
+    cache.prepare([wall], 1, loaded);
+    wall.setLocation(120, 50);
+    expect(cache.isValid([wall], 1, loaded)).toBe(false);
+
+    cache.prepare([wall], 1, loaded);
+    expect(cache.isValid([wall], 2, loaded)).toBe(false);
+  });
+
+  it('烘焙时未就绪的图片加载完成后失效', () => {
+    wall.setImageSrc('wall.png');
+    let status = 'loading';
+    cache.prepare([wall], 1, () => status);
+    expect(cache.isValid([wall], 1, () => status)).toBe(true);
+
+    status = 'loaded';
+    expect(cache.isValid([wall], 1, () => status)).toBe(false);
+  });
+});
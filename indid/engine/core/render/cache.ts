@@ -0,0 +1,337 @@
+/**
+ * 渲染缓存模块
+ * StaticCache：将一组静态实体按世界坐标烘焙到离屏Canvas，仅在实体外观版本或分辨率变化时重新烘焙
+ * DirtyRegionTracker：对比前后两帧的实体外观，计算本帧需要重绘的脏矩形
+ */
+import type { RenderableEntity } from "./render";
+import type { ViewRect } from "../camera/camera";
+import { getFilterPadding } from "./filters";
+
+/** 二维仿射变换（与DOMMatrix的a-f分量一致） */
+type Transform2D = Pick<DOMMatrixReadOnly, 'a' | 'b' | 'c' | 'd' | 'e' | 'f'>;
+
+/** 单位变换 */
+const IDENTITY: Transform2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * 计算实体外观签名（序列化所有影响绘制结果的字段）
+ * 签名相同即认为绘制结果相同；包含上一逻辑步的位置/旋转，保证插值绘制停止时也能检测到变化
+ * @param entity 实体
+ * @param imageStatus 获取图片加载状态（图片由占位图变为就绪时签名随之变化）
+ */
+function getEntitySignature(entity: RenderableEntity, imageStatus?: (src: string) => string): string {
+  const {
+    location, size, rotation, opacity, background, color, border, shape, fill, points,
+    cornerRadius, arc, path, imageSrc, frame, text, textStyle, filter, blendMode, previousLocation, previousRotation,
+  } = entity;
+  return JSON.stringify([
+    location, size, rotation, opacity, background, color, border, shape, fill, points, cornerRadius, arc, path,
+    imageSrc, imageSrc ? imageStatus?.(imageSrc) : undefined, frame, text, textStyle, filter, blendMode,
+    previousLocation, previousRotation,
+  ]);
+}
+
+/**
+ * 计算实体在画布上的包围盒（覆盖上一逻辑步与当前位置，旋转时取外接圆；含模糊与投影的外扩）
+ * @param entity 实体
+ * @param transform 当前画布变换
+ * @param padding 额外外扩像素（抗锯齿、描边）
+ * @returns 包围盒；SVG路径形状无法估算范围，返回null
+ */
+function getEntityBounds(entity: RenderableEntity, transform: Transform2D, padding: number = 2): ViewRect | null {
+  if (entity.shape === 'path') return null;
+  const [w, h] = entity.size;
+  const pad = (entity.border?.width ?? 0) + getFilterPadding(entity.filter) + padding;
+  let minX = 0;
+  let minY = 0;
+  let maxX = w;
+  let maxY = h;
+  entity.points?.forEach(([px, py]) => {
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  });
+  minX -= pad;
+  minY -= pad;
+  maxX += pad;
+  maxY += pad;
+
+  const rotated = (entity.rotation ?? 0) !== 0 || (entity.previousRotation ?? 0) !== 0;
+  let bounds: ViewRect | null = null;
+  [entity.previousLocation ?? entity.location, entity.location].forEach(([x, y]) => {
+    let corners: Array<[number, number]>;
+    if (rotated) {
+      // 绕实体中心旋转，插值过程中的任意角度都落在外接圆内
+      const cx = w / 2;
+      const cy = h / 2;
+      const r = Math.max(Math.hypot(minX - cx, minY - cy), Math.hypot(maxX - cx, maxY - cy),
+        Math.hypot(minX - cx, maxY - cy), Math.hypot(maxX - cx, minY - cy));
+      corners = [[x + cx - r, y + cy - r], [x + cx + r, y + cy - r], [x + cx + r, y + cy + r], [x + cx - r, y + cy + r]];
+    } else {
+      corners = [[x + minX, y + minY], [x + maxX, y + minY], [x + maxX, y + maxY], [x + minX, y + maxY]];
+    }
+    bounds = unionRect(bounds, transformRect(corners, transform));
+  });
+  return bounds;
+}
+
+/** 实体是否处于两个逻辑步之间的插值移动中（每个渲染帧的绘制位置都可能不同） */
+function isMoving(entity: RenderableEntity): boolean {
+  const { location, previousLocation, rotation, previousRotation } = entity;
+  return (previousLocation !== undefined && (previousLocation[0] !== location[0] || previousLocation[1] !== location[1])) ||
+    (previousRotation !== undefined && previousRotation !== (rotation ?? 0));
+}
+
+/** 将局部坐标下的四边形变换到画布坐标并取轴对齐包围盒 */
+function transformRect(corners: Array<[number, number]>, t: Transform2D): ViewRect {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  corners.forEach(([x, y]) => {
+    const tx = t.a * x + t.c * y + t.e;
+    const ty = t.b * x + t.d * y + t.f;
+    minX = Math.min(minX, tx);
+    minY = Math.min(minY, ty);
+    maxX = Math.max(maxX, tx);
+    maxY = Math.max(maxY, ty);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** 合并两个矩形（任一为null时返回另一个） */
+function unionRect(a: ViewRect | null, b: ViewRect | null): ViewRect | null {
+  if (!a) return b;
+  if (!b) return a;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/** 矩形取整（向外扩展到整像素）并裁剪到画布范围，无交集时返回null */
+function clipRect(rect: ViewRect, width: number, height: number): ViewRect | null {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+  return x1 > x0 && y1 > y0 ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } : null;
+}
+
+/** 静态缓存离屏Canvas单边的最大像素数（世界范围过大时降低烘焙分辨率） */
+const MAX_STATIC_CACHE_SIZE = 4096;
+
+/** 实体的外观标识：有版本号时使用版本号，否则退化为外观签名 */
+function getEntityToken(entity: RenderableEntity, imageStatus?: (src: string) => string): number | string {
+  return entity.renderVersion ?? getEntitySignature(entity, imageStatus);
+}
+
+/** 实体引用的图片（图片与图案填充） */
+function getEntityImages(entity: RenderableEntity): string[] {
+  const images: string[] = [];
+  if (entity.imageSrc) images.push(entity.imageSrc);
+  if (typeof entity.fill === 'object' && entity.fill.type === 'pattern') images.push(entity.fill.image);
+  return images;
+}
+
+/**
+ * 静态缓存：将一组静态实体按世界（层）坐标烘焙到与其包围盒等大的离屏Canvas，
+ * 绘制时经当前变换（相机、视差）整体拷贝，相机移动、缩放、震动均无需重新烘焙；
+ * 仅在实体组成或外观版本变化、烘焙时未就绪的图片加载完成、分辨率（视口尺寸、设备像素比）变化时失效
+ */
+class StaticCache {
+  private canvas?: HTMLCanvasElement; // 离屏Canvas（首次烘焙时创建）
+  private bounds: ViewRect | null = null; // 烘焙内容的世界范围（整数坐标）
+  private entities: RenderableEntity[] = []; // 烘焙时的实体（按绘制顺序）
+  private tokens: Array<number | string> = []; // 烘焙时各实体的外观标识
+  private pendingImages = new Map<string, string>(); // 烘焙时尚未加载完成的图片及其状态
+  private resolution: number = 0; // 烘焙时的分辨率（画布像素 / 逻辑单位）
+  private valid: boolean = false; // 是否已烘焙且未被手动失效
+
+  /**
+   * 缓存是否仍然有效（只比较引用与版本号，不序列化实体）
+   * @param entities 本帧的实体（按绘制顺序）
+   * @param resolution 当前分辨率（画布像素 / 逻辑单位）
+   * @param imageStatus 获取图片加载状态
+   */
+  isValid(entities: readonly RenderableEntity[], resolution: number, imageStatus: (src: string) => string): boolean {
+    if (!this.valid || !this.canvas || resolution !== this.resolution || entities.length !== this.entities.length) return false;
+    for (let i = 0; i < entities.length; i++) {
+      if (entities[i] !== this.entities[i] || getEntityToken(entities[i], imageStatus) !== this.tokens[i]) return false;
+    }
+    for (const [src, status] of this.pendingImages) {
+      if (imageStatus(src) !== status) return false;
+    }
+    return true;
+  }
+
+  /**
+   * 准备重新烘焙：按实体的世界包围盒调整离屏Canvas尺寸并清空，返回烘焙时使用的变换
+   * @param entities 实体（按绘制顺序）
+   * @param resolution 分辨率（画布像素 / 逻辑单位）
+   * @param imageStatus 获取图片加载状态
+   * @returns 烘焙变换（世界坐标 -> 离屏Canvas像素）；存在无法估算范围的实体（SVG路径）或范围为空时返回null
+   */
+  prepare(entities: readonly RenderableEntity[], resolution: number, imageStatus: (src: string) => string): Transform2D | null {
+    this.valid = false;
+    let region: ViewRect | null = null;
+    for (const entity of entities) {
+      const bounds = getEntityBounds(entity, IDENTITY);
+      if (!bounds) return null;
+      region = unionRect(region, bounds);
+    }
+    if (!region) return null;
+    const x = Math.floor(region.x);
+    const y = Math.floor(region.y);
+    const width = Math.ceil(region.x + region.width) - x;
+    const height = Math.ceil(region.y + region.height) - y;
+    if (width <= 0 || height <= 0) return null;
+
+    const scale = Math.min(resolution, MAX_STATIC_CACHE_SIZE / width, MAX_STATIC_CACHE_SIZE / height);
+    const pixelWidth = Math.max(1, Math.ceil(width * scale));
+    const pixelHeight = Math.max(1, Math.ceil(height * scale));
+    this.canvas = this.canvas ?? document.createElement('canvas');
+    if (this.canvas.width !== pixelWidth || this.canvas.height !== pixelHeight) {
+      this.canvas.width = pixelWidth;
+      this.canvas.height = pixelHeight;
+    }
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+
+    this.bounds = { x, y, width, height };
+    this.entities = [...entities];
+    this.tokens = entities.map(entity => getEntityToken(entity, imageStatus));
+    this.pendingImages = new Map();
+    entities.forEach(entity => getEntityImages(entity).forEach(src => {
+      const status = imageStatus(src);
+      if (status !== 'loaded') this.pendingImages.set(src, status);
+    }));
+    this.resolution = resolution;
+    this.valid = true;
+    const sx = pixelWidth / width;
+    const sy = pixelHeight / height;
+    return { a: sx, b: 0, c: 0, d: sy, e: -x * sx, f: -y * sy };
+  }
+
+  /** 获取离屏Canvas（未烘焙时为undefined） */
+  getCanvas(): HTMLCanvasElement | undefined {
+    return this.canvas;
+  }
+
+  /** 烘焙内容的世界范围（未烘焙时为null） */
+  getBounds(): ViewRect | null {
+    return this.bounds;
+  }
+
+  /** 使缓存失效（下次绘制时重新烘焙） */
+  invalidate(): void {
+    this.valid = false;
+  }
+
+  /** 释放离屏Canvas */
+  release(): void {
+    if (this.canvas) {
+      this.canvas.width = 0;
+      this.canvas.height = 0;
+    }
+    this.canvas = undefined;
+    this.bounds = null;
+    this.entities = [];
+    this.tokens = [];
+    this.pendingImages.clear();
+    this.valid = false;
+  }
+}
+
+/**
+ * 脏矩形追踪：记录每个实体上一帧的签名与包围盒，
+ * 新增、移除、外观变化或仍在插值移动的实体，其新旧包围盒合并为本帧脏矩形
+ */
+class DirtyRegionTracker {
+  private entries = new Map<RenderableEntity, { signature: string; bounds: ViewRect | null }>();
+  private pending: ViewRect | null = null; // 手动标记的脏区域
+  private full: boolean = true; // 是否需要整帧重绘（首帧默认整帧）
+  private stateKey: string | null = null; // 影响整帧的状态（画布尺寸、层设置等）
+
+  /**
+   * 手动标记脏区域
+   * @param rect 画布坐标区域（不传则整帧重绘）
+   */
+  markDirty(rect?: ViewRect): void {
+    if (rect) {
+      this.pending = unionRect(this.pending, rect);
+    } else {
+      this.full = true;
+    }
+  }
+
+  /**
+   * 计算本帧脏矩形
+   * @param entities 本帧绘制的实体
+   * @param transform 实体绘制时的画布变换
+   * @param width 画布宽度
+   * @param height 画布高度
+   * @param stateKey 影响整帧的其他状态（变化时整帧重绘）
+   * @param imageStatus 获取图片加载状态
+   * @returns 需重绘的区域（整帧时为整个画布），无变化时返回null
+   */
+  update(
+    entities: readonly RenderableEntity[],
+    transform: Transform2D,
+    width: number,
+    height: number,
+    stateKey: string,
+    imageStatus?: (src: string) => string
+  ): ViewRect | null {
+    let full = this.full || stateKey !== this.stateKey;
+    let region = this.pending;
+    const next = new Map<RenderableEntity, { signature: string; bounds: ViewRect | null }>();
+
+    entities.forEach(entity => {
+      const signature = getEntitySignature(entity, imageStatus);
+      const previous = this.entries.get(entity);
+      if (previous && previous.signature === signature && !isMoving(entity)) {
+        next.set(entity, previous);
+        return;
+      }
+      const bounds = getEntityBounds(entity, transform);
+      next.set(entity, { signature, bounds });
+      if (full) return;
+      if (!bounds || (previous && !previous.bounds)) {
+        full = true;
+        return;
+      }
+      region = unionRect(region, unionRect(bounds, previous?.bounds ?? null));
+    });
+    this.entries.forEach((entry, entity) => {
+      if (next.has(entity) || full) return;
+      if (!entry.bounds) full = true;
+      else region = unionRect(region, entry.bounds);
+    });
+
+    this.entries = next;
+    this.pending = null;
+    this.full = false;
+    this.stateKey = stateKey;
+    if (full) return { x: 0, y: 0, width, height };
+    return region ? clipRect(region, width, height) : null;
+  }
+
+  /** 清空记录（下一帧整帧重绘） */
+  reset(): void {
+    this.entries.clear();
+    this.pending = null;
+    this.full = true;
+    this.stateKey = null;
+  }
+}
+
+export { StaticCache, DirtyRegionTracker, getEntitySignature, getEntityBounds, unionRect };
+export type { Transform2D };
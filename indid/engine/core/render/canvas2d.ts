@@ -0,0 +1,530 @@
+/**
+ * Canvas2D渲染后端
+ * 原Renderer中的2D绘制实现：形状、渐变/图案、SVG路径、精灵帧、文本与粒子
+ * 也用于离屏烘焙（静态缓存、旧版离屏Canvas）与WebGL2后端的复杂图形光栅化
+ */
+import type { ViewRect } from "../camera/camera";
+import type { ParticleEmitter } from "../particles/particles";
+import type { RenderableEntity, SpriteFrame } from "./render";
+import { layoutText } from "./text";
+import type { BitmapFont, TextStyle, TextMetrics } from "./text";
+import { traceShape } from "./shapes";
+import type { FillStyle } from "./shapes";
+import { getEntityBounds } from "./cache";
+import type { Transform2D } from "./cache";
+import { toCssFilter, getTint } from "./filters";
+import type { ResizeEvent } from "./resize";
+import { interpolateLocation, interpolateRotation } from "./backend";
+import type { RenderBackend, RenderBackendContext, BackendImage } from "./backend";
+
+class Canvas2DBackend implements RenderBackend {
+  public readonly type = 'canvas2d';
+  public readonly cacheable = true;
+  private context: RenderBackendContext; // 画布、资源与位图字体
+  private ctx: CanvasRenderingContext2D; // 2D渲染上下文
+  private paintCache = new WeakMap<object, CanvasGradient | CanvasPattern>(); // 渐变/图案缓存（按填充样式对象）
+  private pathCache = new Map<string, Path2D>(); // SVG路径缓存（按路径数据）
+  private scratch?: Canvas2DBackend; // 临时Canvas（着色滤镜与后处理调色使用，首次使用时创建）
+
+  /**
+   * @param context 后端上下文
+   * @throws {Error} 当前环境不支持Canvas 2D渲染上下文时抛出错误
+   */
+  constructor(context: RenderBackendContext) {
+    const ctx = context.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('[Canvas2DBackend] 当前环境不支持Canvas 2D渲染上下文');
+    }
+    this.context = context;
+    this.ctx = ctx;
+  }
+
+  resize(state: ResizeEvent): void {
+    // 修改canvas.width会重置上下文状态，需重新设置基础变换与图像平滑
+    this.ctx.setTransform(state.pixelWidth / state.width, 0, 0, state.pixelHeight / state.height, 0, 0);
+    this.ctx.imageSmoothingEnabled = state.policy !== 'integer';
+  }
+
+  beginFrame(): void {}
+
+  endFrame(): void {}
+
+  clear(color: string): void {
+    const { ctx } = this;
+    ctx.save();
+    // 覆盖整个后备缓冲区，不受外部残留变换影响（保留裁剪）
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, this.context.canvas.width, this.context.canvas.height);
+    ctx.restore();
+  }
+
+  save(): void {
+    this.ctx.save();
+  }
+
+  restore(): void {
+    this.ctx.restore();
+  }
+
+  translate(x: number, y: number): void {
+    this.ctx.translate(x, y);
+  }
+
+  rotate(angle: number): void {
+    this.ctx.rotate(angle);
+  }
+
+  scale(x: number, y: number): void {
+    this.ctx.scale(x, y);
+  }
+
+  getTransform(): Transform2D {
+    return this.ctx.getTransform();
+  }
+
+  setTransform(transform: Transform2D): void {
+    const { a, b, c, d, e, f } = transform;
+    this.ctx.setTransform(a, b, c, d, e, f);
+  }
+
+  clipRect(rect: ViewRect): void {
+    this.ctx.beginPath();
+    this.ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    this.ctx.clip();
+  }
+
+  multiplyAlpha(alpha: number): void {
+    this.ctx.globalAlpha *= alpha;
+  }
+
+  setBlendMode(mode: GlobalCompositeOperation): void {
+    this.ctx.globalCompositeOperation = mode;
+  }
+
+  drawEntity(entity: RenderableEntity, alpha: number): void {
+    const tint = getTint(entity.filter);
+    if (tint) {
+      this.drawTintedEntity(entity, alpha, tint);
+      return;
+    }
+    const { ctx } = this;
+    // 解析实体属性
+    const {
+      size: [w, h],
+      opacity = 1,
+      imageSrc
+    } = entity;
+    const [x, y] = interpolateLocation(entity, alpha);
+    const rotation = interpolateRotation(entity, alpha);
+
+    // 保存当前上下文状态（避免旋转/透明度影响其他绘制）
+    ctx.save();
+
+    // 应用透明度（与所在层的透明度相乘）
+    ctx.globalAlpha *= Math.max(0, Math.min(1, opacity)); // 限制在0-1之间
+    // 混合模式与滤镜（随restore恢复）
+    if (entity.blendMode) ctx.globalCompositeOperation = entity.blendMode;
+    const filter = toCssFilter(entity.filter);
+    if (filter !== 'none') ctx.filter = filter;
+
+    // 平移到实体中心点（用于旋转）
+    ctx.translate(x + w / 2, y + h / 2);
+    // 应用旋转
+    ctx.rotate(rotation);
+    // 平移回原位置（抵消中心点平移）
+    ctx.translate(-(x + w / 2), -(y + h / 2));
+
+    // 优先绘制图片（如果有图片资源）
+    if (imageSrc) {
+      this.drawEntityImage(imageSrc, x, y, w, h, entity.frame);
+    } else {
+      // 根据形状绘制实体
+      this.drawShape(entity, x, y, w, h);
+    }
+
+    // 绘制文本（在实体区域内按对齐方式排版）
+    const { text, textStyle } = entity;
+    if (text) {
+      this.drawTextInBox(text, x, y, w, h, textStyle);
+    }
+
+    // 恢复上下文状态
+    ctx.restore();
+  }
+
+  drawParticles(emitter: ParticleEmitter, alpha: number): void {
+    const particles = emitter.getParticles();
+    if (particles.length === 0) return;
+    const { ctx } = this;
+    const { assets } = this.context;
+    ctx.save();
+    if (emitter.blendMode) ctx.globalCompositeOperation = emitter.blendMode;
+    const baseAlpha = ctx.globalAlpha;
+    const baseTransform = ctx.getTransform();
+    const image = emitter.shape === 'image' && emitter.imageSrc ? assets.getImage(emitter.imageSrc) : undefined;
+    const t = Math.max(0, Math.min(1, alpha));
+
+    for (const p of particles) {
+      if (p.opacity <= 0 || p.size <= 0) continue;
+      const x = p.prevX + (p.x - p.prevX) * t;
+      const y = p.prevY + (p.y - p.prevY) * t;
+      const half = p.size / 2;
+      ctx.globalAlpha = baseAlpha * p.opacity;
+
+      if (emitter.shape === 'circle') {
+        ctx.fillStyle = p.color;
+        ctx.beginPath();
+        ctx.arc(x, y, half, 0, Math.PI * 2);
+        ctx.fill();
+        continue;
+      }
+
+      // 矩形/图片粒子支持旋转：直接设置变换矩阵，避免逐粒子save/restore
+      if (p.rotation !== 0) {
+        ctx.setTransform(baseTransform);
+        ctx.translate(x, y);
+        ctx.rotate(p.rotation);
+        if (image) {
+          ctx.drawImage(image, -half, -half, p.size, p.size);
+        } else {
+          ctx.fillStyle = p.color;
+          ctx.fillRect(-half, -half, p.size, p.size);
+        }
+        ctx.setTransform(baseTransform);
+      } else if (image) {
+        ctx.drawImage(image, x - half, y - half, p.size, p.size);
+      } else {
+        ctx.fillStyle = p.color;
+        ctx.fillRect(x - half, y - half, p.size, p.size);
+      }
+    }
+    ctx.restore();
+  }
+
+  drawImage(
+    image: BackendImage,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void {
+    this.ctx.drawImage(image, sx, sy, sw, sh, dx, dy, dw, dh);
+  }
+
+  invalidateImage(): void {
+    // Canvas2D每次绘制直接读取图片源，无需处理
+  }
+
+  filterCanvas(filter: string): void {
+    if (filter === 'none') return;
+    const { canvas } = this.context;
+    const scratch = this.getScratch(canvas.width, canvas.height);
+    scratch.ctx.drawImage(canvas, 0, 0);
+    // 以copy模式将滤镜处理后的内容写回（裁剪区域外保持不变）
+    const { ctx } = this;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'copy';
+    ctx.filter = filter;
+    ctx.drawImage(scratch.context.canvas, 0, 0, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: string): void {
+    this.ctx.fillStyle = color;
+    this.ctx.fillRect(x, y, w, h);
+  }
+
+  drawText(text: string, x: number, y: number, style: TextStyle): TextMetrics {
+    this.ctx.save();
+    const metrics = this.renderText(text, x, y, style);
+    this.ctx.restore();
+    return metrics;
+  }
+
+  measureText(text: string, style: TextStyle): TextMetrics {
+    this.ctx.save();
+    const metrics = this.layoutTextBlock(text, style);
+    this.ctx.restore();
+    return metrics;
+  }
+
+  destroy(): void {
+    this.pathCache.clear();
+    this.scratch?.destroy();
+    this.scratch = undefined;
+  }
+
+  /**
+   * 绘制带着色滤镜的实体（内部方法）
+   * 着色没有对应的CSS滤镜：先将实体绘制到临时Canvas，以source-atop叠加颜色（保留透明区域），
+   * 再按实体的透明度、混合模式与其余滤镜拷贝回当前画布
+   */
+  private drawTintedEntity(entity: RenderableEntity, alpha: number, tint: { color: string; amount: number }): void {
+    const { ctx } = this;
+    const { canvas } = this.context;
+    const transform = ctx.getTransform();
+    // 仅处理实体包围盒（路径形状无法估算时取整个画布）
+    const rect = getEntityBounds(entity, transform) ?? { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    const x0 = Math.max(0, Math.floor(rect.x));
+    const y0 = Math.max(0, Math.floor(rect.y));
+    const x1 = Math.min(canvas.width, Math.ceil(rect.x + rect.width));
+    const y1 = Math.min(canvas.height, Math.ceil(rect.y + rect.height));
+    if (x1 <= x0 || y1 <= y0) return;
+    const w = x1 - x0;
+    const h = y1 - y0;
+
+    const scratch = this.getScratch(w, h);
+    scratch.setTransform({ a: transform.a, b: transform.b, c: transform.c, d: transform.d, e: transform.e - x0, f: transform.f - y0 });
+    scratch.drawEntity({ ...entity, filter: undefined, blendMode: undefined, opacity: 1 }, alpha);
+    const scratchCtx = scratch.ctx;
+    scratchCtx.save();
+    scratchCtx.setTransform(1, 0, 0, 1, 0, 0);
+    scratchCtx.globalCompositeOperation = 'source-atop';
+    scratchCtx.globalAlpha = tint.amount;
+    scratchCtx.fillStyle = tint.color;
+    scratchCtx.fillRect(0, 0, w, h);
+    scratchCtx.restore();
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha *= Math.max(0, Math.min(1, entity.opacity ?? 1));
+    if (entity.blendMode) ctx.globalCompositeOperation = entity.blendMode;
+    const filter = toCssFilter(entity.filter);
+    if (filter !== 'none') ctx.filter = filter;
+    ctx.drawImage(scratch.context.canvas, 0, 0, w, h, x0, y0, w, h);
+    ctx.restore();
+  }
+
+  /**
+   * 获取清空后的临时Canvas（尺寸只增不减，使用左上角w×h区域）
+   */
+  private getScratch(w: number, h: number): Canvas2DBackend {
+    if (!this.scratch) {
+      this.scratch = new Canvas2DBackend({ ...this.context, canvas: document.createElement('canvas') });
+    }
+    const { canvas } = this.scratch.context;
+    if (canvas.width < w || canvas.height < h) {
+      canvas.width = Math.max(canvas.width, w);
+      canvas.height = Math.max(canvas.height, h);
+    }
+    const { ctx } = this.scratch;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    return this.scratch;
+  }
+
+  /**
+   * 绘制形状（内部工具方法）
+   * 平移到实体左上角后以局部坐标构建路径，依次填充与描边；polyline与开放圆弧仅描边
+   */
+  private drawShape(entity: RenderableEntity, x: number, y: number, w: number, h: number): void {
+    const { ctx } = this;
+    const { border, shape = 'rect' } = entity;
+    if (shape === 'path' && !entity.path) return;
+    ctx.save();
+    ctx.translate(x, y);
+
+    let path: Path2D | undefined;
+    let fillable = true;
+    if (shape === 'path') {
+      path = this.getPath2D(entity.path!);
+    } else {
+      ctx.beginPath();
+      fillable = traceShape(ctx, entity, w, h);
+    }
+
+    // 绘制填充（fill优先于background，兼容旧版默认红色）
+    if (fillable) {
+      ctx.fillStyle = this.resolveFill(entity.fill ?? entity.background ?? '#ff0000');
+      if (path) ctx.fill(path); else ctx.fill();
+    }
+
+    // 绘制描边（如果有）；仅描边的形状未设置border时使用background作为线色
+    const stroke = border ?? (fillable ? undefined : { width: 1, color: entity.background ?? '#ff0000' });
+    if (stroke && stroke.width > 0 && stroke.color) {
+      ctx.strokeStyle = stroke.color;
+      ctx.lineWidth = stroke.width;
+      ctx.setLineDash(stroke.dash ?? []);
+      ctx.lineDashOffset = stroke.dashOffset ?? 0;
+      if (stroke.lineCap) ctx.lineCap = stroke.lineCap;
+      if (stroke.lineJoin) ctx.lineJoin = stroke.lineJoin;
+      if (path) ctx.stroke(path); else ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 解析填充样式（内部工具方法）
+   * 渐变以局部坐标创建并按样式对象缓存；图案图片未就绪时回退为灰色
+   */
+  private resolveFill(fill: FillStyle): string | CanvasGradient | CanvasPattern {
+    if (typeof fill === 'string') return fill;
+    const cached = this.paintCache.get(fill);
+    if (cached) return cached;
+
+    const { ctx } = this;
+    const { assets } = this.context;
+    let paint: CanvasGradient | CanvasPattern | null = null;
+    if (fill.type === 'pattern') {
+      const image = assets.getImage(fill.image);
+      if (image === assets.getPlaceholder()) return '#cccccc';
+      paint = ctx.createPattern(image, fill.repeat ?? 'repeat');
+    } else {
+      const gradient = fill.type === 'linear'
+        ? ctx.createLinearGradient(fill.from[0], fill.from[1], fill.to[0], fill.to[1])
+        : ctx.createRadialGradient(fill.from[0], fill.from[1], fill.fromRadius, fill.to[0], fill.to[1], fill.toRadius);
+      fill.stops.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+      paint = gradient;
+    }
+    if (!paint) return '#cccccc';
+    this.paintCache.set(fill, paint);
+    return paint;
+  }
+
+  /**
+   * 获取SVG路径对象（内部工具方法，按路径数据缓存）
+   */
+  private getPath2D(data: string): Path2D {
+    let path = this.pathCache.get(data);
+    if (!path) {
+      path = new Path2D(data);
+      this.pathCache.set(data, path);
+    }
+    return path;
+  }
+
+  /**
+   * 绘制实体图片（内部工具方法）
+   * 同步读取资源缓存，在实体变换（旋转、透明度）内立即绘制；未加载完成或加载失败时绘制灰色占位图
+   * 指定精灵帧时仅绘制图集中的子区域，原始帧尺寸缩放到实体尺寸
+   */
+  private drawEntityImage(src: string, x: number, y: number, w: number, h: number, frame?: SpriteFrame): void {
+    const { assets } = this.context;
+    const image = assets.getImage(src);
+    if (!frame || image === assets.getPlaceholder()) {
+      this.ctx.drawImage(image, x, y, w, h);
+      return;
+    }
+    const scaleX = w / (frame.sourceW ?? frame.w);
+    const scaleY = h / (frame.sourceH ?? frame.h);
+    this.ctx.drawImage(
+      image,
+      frame.x, frame.y, frame.w, frame.h,
+      x + (frame.offsetX ?? 0) * scaleX,
+      y + (frame.offsetY ?? 0) * scaleY,
+      frame.w * scaleX,
+      frame.h * scaleY
+    );
+  }
+
+  /**
+   * 在实体区域内绘制文本（内部工具方法）
+   * 水平方向按align对齐到区域左/中/右，垂直方向按verticalAlign对齐到区域上/中/下
+   */
+  private drawTextInBox(text: string, x: number, y: number, w: number, h: number, style: TextStyle = {}): void {
+    const { align = 'left', verticalAlign = 'top' } = style;
+    const anchorX = align === 'center' ? x + w / 2 : align === 'right' ? x + w : x;
+    const anchorY = verticalAlign === 'middle' ? y + h / 2 : verticalAlign === 'bottom' ? y + h : y;
+    this.renderText(text, anchorX, anchorY, { ...style, maxWidth: style.maxWidth ?? w });
+  }
+
+  /**
+   * 文本排版（内部工具方法，会修改ctx.font，调用方负责save/restore）
+   */
+  private layoutTextBlock(text: string, style: TextStyle): TextMetrics {
+    const { ctx } = this;
+    const fontSize = style.fontSize ?? 16;
+    const bitmapFont = style.bitmapFont ? this.context.getBitmapFont(style.bitmapFont) : undefined;
+    let measure: (line: string) => number;
+    let lineHeight: number;
+    if (bitmapFont) {
+      const scale = (style.fontSize ?? bitmapFont.size) / bitmapFont.size;
+      measure = (line) => bitmapFont.measure(line) * scale;
+      lineHeight = style.lineHeight ?? bitmapFont.lineHeight * scale;
+    } else {
+      ctx.font = style.font ?? `${fontSize}px ${style.fontFamily ?? 'sans-serif'}`;
+      measure = (line) => ctx.measureText(line).width;
+      lineHeight = style.lineHeight ?? fontSize * 1.2;
+    }
+    const lines = layoutText(text, measure, style.maxWidth);
+    const width = lines.reduce((max, line) => Math.max(max, measure(line)), 0);
+    return { lines, width, height: lines.length * lineHeight, lineHeight };
+  }
+
+  /**
+   * 绘制排版后的文本（内部工具方法，调用方负责save/restore）
+   */
+  private renderText(text: string, x: number, y: number, style: TextStyle): TextMetrics {
+    const { ctx } = this;
+    const metrics = this.layoutTextBlock(text, style);
+    const { align = 'left', verticalAlign = 'top', color = '#ffffff', outline, shadow } = style;
+    const top = verticalAlign === 'middle' ? y - metrics.height / 2 : verticalAlign === 'bottom' ? y - metrics.height : y;
+
+    if (shadow) {
+      ctx.shadowColor = shadow.color;
+      ctx.shadowBlur = shadow.blur ?? 0;
+      ctx.shadowOffsetX = shadow.offsetX ?? 0;
+      ctx.shadowOffsetY = shadow.offsetY ?? 0;
+    }
+
+    const bitmapFont = style.bitmapFont ? this.context.getBitmapFont(style.bitmapFont) : undefined;
+    if (style.bitmapFont && !bitmapFont) {
+      console.warn(`[Renderer] 位图字体"${style.bitmapFont}"未注册，将使用系统字体绘制`);
+    }
+
+    metrics.lines.forEach((line, index) => {
+      const lineTop = top + index * metrics.lineHeight;
+      if (bitmapFont) {
+        const scale = (style.fontSize ?? bitmapFont.size) / bitmapFont.size;
+        const lineWidth = bitmapFont.measure(line) * scale;
+        const left = align === 'center' ? x - lineWidth / 2 : align === 'right' ? x - lineWidth : x;
+        this.drawBitmapLine(bitmapFont, line, left, lineTop, scale);
+        return;
+      }
+      ctx.textAlign = align;
+      ctx.textBaseline = 'top';
+      if (outline && outline.width > 0) {
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = outline.width;
+        ctx.strokeStyle = outline.color;
+        ctx.strokeText(line, x, lineTop);
+        // 描边已投射阴影，填充时不再重复
+        ctx.shadowColor = 'transparent';
+      }
+      ctx.fillStyle = color;
+      ctx.fillText(line, x, lineTop);
+      if (shadow) ctx.shadowColor = shadow.color;
+    });
+    return metrics;
+  }
+
+  /**
+   * 绘制一行位图文字（内部工具方法，字形图集未就绪时跳过）
+   */
+  private drawBitmapLine(font: BitmapFont, line: string, x: number, y: number, scale: number): void {
+    const { assets } = this.context;
+    const image = assets.getImage(font.image);
+    if (image === assets.getPlaceholder()) return;
+    let cursor = x;
+    let prev = '';
+    for (const char of line) {
+      if (prev) cursor += font.getKerning(prev, char) * scale;
+      const glyph = font.getGlyph(char);
+      if (glyph && glyph.w > 0 && glyph.h > 0) {
+        this.ctx.drawImage(
+          image,
+          glyph.x, glyph.y, glyph.w, glyph.h,
+          cursor + glyph.xOffset * scale,
+          y + glyph.yOffset * scale,
+          glyph.w * scale,
+          glyph.h * scale
+        );
+      }
+      cursor += (glyph?.xAdvance ?? font.getGlyph(' ')?.xAdvance ?? font.size / 2) * scale;
+      prev = char;
+    }
+  }
+}
+
+export { Canvas2DBackend };
@@ -0,0 +1,285 @@
+/**
+ * 画面捕获
+ * 截图（PNG）与录像（MediaRecorder + captureStream，WebM），由Renderer持有并在每次endFrame时同步画面；
+ * 排除叠加层时使用场景绘制完成（endFrame）时的画面副本，overlay阶段的绘制（UI、调试信息）不会出现在结果中
+ */
+import type { Input } from "../io/io";
+import type { Renderer } from "./render";
+
+/** 截图选项 */
+type ScreenshotOptions = {
+  excludeOverlay?: boolean; // 是否排除overlay阶段的绘制（默认false；为true时等待下一帧场景绘制完成）
+  mimeType?: string; // 图片格式（默认image/png）
+  quality?: number; // 有损格式的质量（0-1，仅image/jpeg、image/webp有效）
+  timeout?: number; // 等待下一帧的超时时间（毫秒，默认1000，仅excludeOverlay时有效）
+};
+
+/** 录像选项 */
+type RecordingOptions = {
+  excludeOverlay?: boolean; // 是否排除overlay阶段的绘制（默认false）
+  frameRate?: number; // 录制帧率（默认60）
+  mimeType?: string; // 视频格式（默认video/webm，不支持时由浏览器选择）
+  videoBitsPerSecond?: number; // 视频码率（可选）
+};
+
+/** 捕获结果保存函数（如通过Electron IPC写入用户选择的目录） */
+type CaptureSaver = (blob: Blob, fileName: string) => Promise<unknown> | void;
+
+/** 捕获快捷键选项 */
+type CaptureHotkeyOptions = {
+  screenshotKey?: string; // 截图按键（默认F2，传空字符串禁用）
+  recordKey?: string; // 开始/停止录像按键（默认F3，传空字符串禁用）
+  excludeOverlay?: boolean; // 是否排除overlay阶段的绘制（默认false）
+  save?: CaptureSaver; // 保存函数（默认触发浏览器下载）
+};
+
+/** 等待中的截图 */
+type PendingShot = {
+  options: ScreenshotOptions;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+class FrameCapture {
+  private canvas: HTMLCanvasElement; // 主画布
+  private flush: () => void; // 提交后端剩余绘制（WebGL2读取像素前需要）
+  private snapshot?: HTMLCanvasElement; // 场景绘制完成时的画面副本（排除叠加层时使用）
+  private pendingShots: PendingShot[] = []; // 等待下一帧的截图
+  private finalizeScheduled: boolean = false; // 是否已安排在本帧结束后输出截图
+  private recorder?: MediaRecorder; // 进行中的录像
+  private recordChunks: Blob[] = []; // 录像数据块
+  private recordStream?: MediaStream; // 录像视频流
+  private recordMirror: boolean = false; // 录像是否使用画面副本（排除叠加层）
+
+  /**
+   * @param canvas 主画布
+   * @param flush 提交后端剩余绘制
+   */
+  constructor(canvas: HTMLCanvasElement, flush: () => void) {
+    this.canvas = canvas;
+    this.flush = flush;
+  }
+
+  /**
+   * 截图
+   * 包含叠加层时立即读取当前画布（即最近一帧的完整画面）；排除叠加层时等待下一帧场景绘制完成
+   * @returns 图片Blob
+   */
+  screenshot(options: ScreenshotOptions = {}): Promise<Blob> {
+    if (!options.excludeOverlay) {
+      this.flush();
+      return this.toBlob(this.canvas, options);
+    }
+    return new Promise<Blob>((resolve, reject) => {
+      const timeout = options.timeout ?? 1000;
+      const shot: PendingShot = {
+        options,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.pendingShots = this.pendingShots.filter(item => item !== shot);
+          reject(new Error(`[Renderer] 截图超时：${timeout}ms内没有新的帧（游戏循环是否已停止？）`));
+        }, timeout),
+      };
+      this.pendingShots.push(shot);
+    });
+  }
+
+  /**
+   * 开始录像
+   * @throws {Error} 已在录制或当前环境不支持MediaRecorder时抛出错误
+   */
+  startRecording(options: RecordingOptions = {}): void {
+    if (this.recorder) {
+      throw new Error('[Renderer] 已在录制中，请先调用stopRecording');
+    }
+    if (typeof MediaRecorder === 'undefined' || typeof this.canvas.captureStream !== 'function') {
+      throw new Error('[Renderer] 当前环境不支持MediaRecorder录制');
+    }
+    const { excludeOverlay = false, frameRate = 60, mimeType = 'video/webm', videoBitsPerSecond } = options;
+    this.recordMirror = excludeOverlay;
+    const source = excludeOverlay ? this.copyToSnapshot() : this.canvas;
+    this.recordStream = source.captureStream(frameRate);
+    this.recordChunks = [];
+    this.recorder = new MediaRecorder(this.recordStream, {
+      mimeType: MediaRecorder.isTypeSupported(mimeType) ? mimeType : undefined,
+      videoBitsPerSecond,
+    });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.recordChunks.push(event.data);
+    };
+    this.recorder.start(1000); // 每秒输出一个数据块，避免长录像全部积压在编码器内
+  }
+
+  /**
+   * 停止录像
+   * @returns 录像Blob
+   * @throws {Error} 未在录制时抛出错误
+   */
+  stopRecording(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('[Renderer] 当前没有进行中的录像'));
+    }
+    this.recorder = undefined;
+    return new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        const blob = new Blob(this.recordChunks, { type: recorder.mimeType || 'video/webm' });
+        this.recordChunks = [];
+        this.recordStream?.getTracks().forEach(track => track.stop());
+        this.recordStream = undefined;
+        this.recordMirror = false;
+        resolve(blob);
+      };
+      recorder.stop();
+    });
+  }
+
+  /** 是否正在录像 */
+  isRecording(): boolean {
+    return this.recorder !== undefined;
+  }
+
+  /**
+   * 场景绘制完成（Renderer.endFrame在后端提交后调用）
+   * 更新画面副本，并在本次任务结束后（overlay阶段之后）输出等待中的截图
+   */
+  handleFrameEnd(): void {
+    if (this.pendingShots.length === 0 && !this.recordMirror) return;
+    // 多个场景各自调用endFrame，副本以最后一次为准
+    this.copyToSnapshot();
+    if (this.pendingShots.length === 0 || this.finalizeScheduled) return;
+    this.finalizeScheduled = true;
+    // GameLoop的各渲染阶段在同一个任务内执行，微任务在全部阶段结束后运行
+    queueMicrotask(() => {
+      this.finalizeScheduled = false;
+      const shots = this.pendingShots;
+      this.pendingShots = [];
+      shots.forEach(shot => {
+        clearTimeout(shot.timer);
+        // toBlob调用时即复制画面，之后副本被下一帧覆盖不影响结果
+        this.toBlob(this.snapshot!, shot.options).then(shot.resolve, shot.reject);
+      });
+    });
+  }
+
+  /**
+   * 释放资源：停止录像，拒绝等待中的截图
+   */
+  destroy(): void {
+    this.pendingShots.forEach(shot => {
+      clearTimeout(shot.timer);
+      shot.reject(new Error('[Renderer] 渲染器已销毁，截图取消'));
+    });
+    this.pendingShots = [];
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+    this.recorder = undefined;
+    this.recordStream?.getTracks().forEach(track => track.stop());
+    this.recordStream = undefined;
+    this.recordChunks = [];
+    this.recordMirror = false;
+  }
+
+  /**
+   * 拷贝主画布到画面副本（尺寸随主画布同步）
+   */
+  private copyToSnapshot(): HTMLCanvasElement {
+    const snapshot = this.snapshot ?? document.createElement('canvas');
+    this.snapshot = snapshot;
+    if (snapshot.width !== this.canvas.width || snapshot.height !== this.canvas.height) {
+      snapshot.width = this.canvas.width;
+      snapshot.height = this.canvas.height;
+    }
+    const ctx = snapshot.getContext('2d');
+    if (ctx) {
+      ctx.clearRect(0, 0, snapshot.width, snapshot.height);
+      ctx.drawImage(this.canvas, 0, 0);
+    }
+    return snapshot;
+  }
+
+  private toBlob(canvas: HTMLCanvasElement, options: ScreenshotOptions): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error('[Renderer] 截图编码失败'));
+      }, options.mimeType ?? 'image/png', options.quality);
+    });
+  }
+}
+
+/**
+ * 生成带时间戳的捕获文件名（如screenshot-20240101-120000-123.png）
+ * @param prefix 文件名前缀
+ * @param extension 扩展名（不含点）
+ */
+function getCaptureFileName(prefix: string, extension: string): string {
+  const now = new Date();
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}-${pad(now.getMilliseconds(), 3)}`;
+  return `${prefix}-${date}-${time}.${extension}`;
+}
+
+/**
+ * 通过浏览器下载保存捕获结果（未提供保存函数时的默认行为）
+ */
+function downloadCapture(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * 绑定截图/录像快捷键
+ * @param input 输入模块
+ * @param renderer 渲染器
+ * @param options 快捷键与保存选项
+ * @returns 解除绑定的函数（录像进行中时会停止并保存）
+ */
+function bindCaptureHotkeys(input: Input, renderer: Renderer, options: CaptureHotkeyOptions = {}): () => void {
+  const { screenshotKey = 'F2', recordKey = 'F3', excludeOverlay = false, save = downloadCapture } = options;
+  const saveSafely = async (blob: Blob, fileName: string) => {
+    try {
+      await save(blob, fileName);
+    } catch (error) {
+      console.error('[Capture] 保存失败：', error);
+    }
+  };
+  const stopAndSave = () => renderer.stopRecording()
+    .then(blob => saveSafely(blob, getCaptureFileName('recording', 'webm')))
+    .catch(error => console.error('[Capture] 录像失败：', error));
+
+  const removers: Array<() => void> = [];
+  if (screenshotKey) {
+    removers.push(input.onKeyPress(screenshotKey, () => {
+      renderer.captureScreenshot({ excludeOverlay })
+        .then(blob => saveSafely(blob, getCaptureFileName('screenshot', 'png')))
+        .catch(error => console.error('[Capture] 截图失败：', error));
+    }));
+  }
+  if (recordKey) {
+    removers.push(input.onKeyPress(recordKey, () => {
+      if (renderer.isRecording()) {
+        stopAndSave();
+        return;
+      }
+      try {
+        renderer.startRecording({ excludeOverlay });
+      } catch (error) {
+        console.error('[Capture] 录像失败：', error);
+      }
+    }));
+  }
+  return () => {
+    removers.forEach(remove => remove());
+    if (renderer.isRecording()) stopAndSave();
+  };
+}
+
+export { FrameCapture, getCaptureFileName, downloadCapture, bindCaptureHotkeys };
+export type { ScreenshotOptions, RecordingOptions, CaptureSaver, CaptureHotkeyOptions };
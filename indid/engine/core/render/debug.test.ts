@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { DebugDraw } from './debug';
+import { Player } from '../entities/Player/player';
+import type { DebugCommand } from './debug';
+
+/** 模拟一帧：执行steps个逻辑步（每步调用submit），然后取出绘制命令 */
+function frame(debug: DebugDraw, steps: number, submit: (step: number) => void = () => {}): DebugCommand[] {
+  for (let i = 0; i < steps; i++) {
+    debug.beginStep();
+    submit(i);
+    debug.endStep();
+  }
+  return debug.takeCommands();
+}
+
+const texts = (commands: DebugCommand[]) => commands.flatMap(command => (command.type === 'text' ? [command.text] : []));
+
+describe('DebugDraw 即时图形', () => {
+  it('同一帧内多个逻辑步提交的图形都会绘制，下一帧的第一个逻辑步才清除', () => {
+    const debug = new DebugDraw();
+    debug.setEnabled(true);
+    expect(texts(frame(debug, 3, step => debug.text(`step${step}`, [0, 0])))).toEqual(['step0', 'step1', 'step2']);
+    expect(texts(frame(debug, 1, () => debug.text('next', [0, 0])))).toEqual(['next']);
+  });
+
+  it('没有执行逻辑步的帧继续绘制之前逻辑步的图形', () => {
+    const debug = new DebugDraw();
+    debug.setEnabled(true);
+    frame(debug, 1, () => debug.point([1, 2]));
+    expect(frame(debug, 0)).toHaveLength(1);
+    expect(frame(debug, 0)).toHaveLength(1);
+    expect(frame(debug, 1)).toEqual([]);
+  });
+
+  it('逻辑步外提交的图形只绘制一次，隐藏时丢弃全部图形', () => {
+    const debug = new DebugDraw();
+    debug.setEnabled(true);
+    debug.rect({ x: 0, y: 0, width: 10, height: 5 }, { color: 'red', width: 2, space: 'screen' });
+    expect(debug.takeCommands()).toEqual([{
+      type: 'line',
+      points: [[0, 0], [10, 0], [10, 5], [0, 5], [0, 0]],
+      color: 'red',
+      width: 2,
+      space: 'screen',
+    }]);
+    expect(debug.takeCommands()).toEqual([]);
+
+    frame(debug, 1, () => debug.line([0, 0], [1, 1]));
+    debug.text('frame', [0, 0]);
+    expect(debug.toggle()).toBe(false);
+    expect(debug.takeCommands()).toEqual([]);
+    debug.text('hidden', [0, 0]);
+    debug.setEnabled(true);
+    expect(debug.takeCommands()).toEqual([]);
+  });
+});
+
+describe('DebugDraw 实体与网格', () => {
+  it('按旋转后的矩形生成包围盒与标签，速度优先读取velocity属性', () => {
+    const debug = new DebugDraw({ origin: false, rotation: false, velocityScale: 1 });
+    const entity = Object.assign(new Player({ id: 'box', location: [0, 0], size: [20, 10], rotation: Math.PI / 2 }), { velocity: { x: 10, y: 0 } });
+    const commands = debug.collectEntities([entity], 1, 1 / 60);
+    const [bounds, arrow] = commands;
+    expect(bounds.type === 'line' && bounds.points.map(([x, y]) => [Math.round(x), Math.round(y)])).toEqual([
+      [15, -5], [15, 15], [5, 15], [5, -5], [15, -5],
+    ]);
+    // 速度向量从中心出发，长度 = 速度 × 系数
+    expect(arrow).toMatchObject({ type: 'line', points: [[10, 5], [20, 5]] });
+    expect(texts(commands)).toEqual(['box']);
+  });
+
+  it('没有velocity属性时按上一逻辑步的位移估算速度', () => {
+    const debug = new DebugDraw({ bounds: false, origin: false, rotation: false, labels: false, velocityScale: 0.5 });
+    const entity = new Player({ id: 'mover', location: [10, 0], size: [2, 2] });
+    entity.previousLocation = [9, 0];
+    const [arrow] = debug.collectEntities([entity], 1, 0.1);
+    expect(arrow).toMatchObject({ points: [[11, 1], [16, 1]] });
+
+    entity.previousLocation = [10, 0];
+    expect(debug.collectEntities([entity], 1, 0.1)).toEqual([]);
+  });
+
+  it('网格覆盖可见范围，过密时间距加倍，选项校验', () => {
+    const debug = new DebugDraw({ gridSize: 10 });
+    expect(debug.collectGrid({ minX: 5, minY: 0, maxX: 30, maxY: 10 })).toHaveLength(4 + 2);
+    // 2000宽度按10间距超过100条线，加倍到20
+    const wide = debug.collectGrid({ minX: 0, minY: 0, maxX: 2000, maxY: 0 });
+    expect(wide.filter(command => command.type === 'line' && command.points[0][0] === command.points[1][0])).toHaveLength(101);
+
+    debug.setOptions({ grid: false });
+    expect(debug.collectGrid({ minX: 0, minY: 0, maxX: 100, maxY: 100 })).toEqual([]);
+    expect(() => debug.setOptions({ gridSize: 0 })).toThrow('[DebugDraw]');
+    expect(() => debug.setOptions({ velocityScale: -1 })).toThrow('[DebugDraw]');
+    expect(debug.getOptions().gridSize).toBe(10);
+  });
+});
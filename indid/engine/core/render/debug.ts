@@ -0,0 +1,307 @@
+/**
+ * 调试绘制
+ * 可开关的调试层：实体包围盒、id/name、原点、朝向与速度向量、世界网格，
+ * 以及玩法代码随时提交的即时调试图形（线段、点、矩形、文本），只显示一帧
+ */
+import type { Vec2, ViewRect, CameraBounds } from "../camera/camera";
+import type { RenderableEntity } from "./render";
+import { interpolateLocation, interpolateRotation } from "./backend";
+
+/** 调试图形的坐标空间：world为世界坐标（随视口相机变换），screen为画布坐标 */
+type DebugSpace = 'world' | 'screen';
+
+/** 调试绘制命令 */
+type DebugCommand =
+  | { type: 'line'; points: Vec2[]; color: string; width: number; space: DebugSpace } // 折线（宽度为屏幕像素）
+  | { type: 'point'; at: Vec2; color: string; size: number; space: DebugSpace } // 点（边长为屏幕像素）
+  | { type: 'text'; text: string; at: Vec2; color: string; space: DebugSpace }; // 文本（左上角对齐）
+
+/** 即时调试图形的样式 */
+type DebugStyle = {
+  color?: string; // 颜色（默认使用调试层的color）
+  width?: number; // 线宽（屏幕像素，默认1）
+  size?: number; // 点的大小（屏幕像素，默认4）
+  space?: DebugSpace; // 坐标空间（默认world）
+};
+
+/** 调试层选项 */
+type DebugDrawOptions = {
+  bounds?: boolean; // 实体包围盒（按旋转后的实体矩形绘制，默认true）
+  labels?: boolean; // 实体id/name（默认true）
+  origin?: boolean; // 实体原点（location，默认true）
+  rotation?: boolean; // 实体朝向（从中心指向旋转方向，默认true）
+  velocity?: boolean; // 速度向量（默认true）
+  grid?: boolean; // 世界网格（默认true）
+  gridSize?: number; // 网格间距（世界坐标，默认64；缩小到过密时自动加倍）
+  color?: string; // 包围盒与即时图形的默认颜色
+  gridColor?: string; // 网格颜色
+  velocityColor?: string; // 速度向量颜色
+  textColor?: string; // 标签颜色
+  velocityScale?: number; // 速度向量长度系数（秒，长度 = 速度 × 系数，默认0.25）
+};
+
+/** 调试层可读取的实体字段（velocity为可选的业务属性，缺省时按两次逻辑步的位移估算） */
+type DebugEntity = RenderableEntity & { name?: string; velocity?: unknown };
+
+const DEFAULT_OPTIONS: Required<DebugDrawOptions> = {
+  bounds: true,
+  labels: true,
+  origin: true,
+  rotation: true,
+  velocity: true,
+  grid: true,
+  gridSize: 64,
+  color: '#00ff88',
+  gridColor: 'rgba(255, 255, 255, 0.15)',
+  velocityColor: '#ff4d4f',
+  textColor: '#ffffff',
+  velocityScale: 0.25,
+};
+
+const MAX_GRID_LINES = 100; // 单方向网格线上限（超出时间距加倍）
+
+class DebugDraw {
+  private enabled: boolean = false; // 是否显示调试层
+  private options: Required<DebugDrawOptions>; // 当前选项
+  private stepCommands: DebugCommand[] = []; // 逻辑步内提交的即时图形（绘制后的第一个逻辑步开始时清除）
+  private frameCommands: DebugCommand[] = []; // 逻辑步外（如onRender）提交的即时图形（绘制后清除）
+  private inStep: boolean = false; // 当前是否处于逻辑步内
+  private drawnSinceStep: boolean = false; // 上次逻辑步以来是否已绘制过
+
+  /**
+   * @param options 调试层选项
+   */
+  constructor(options: DebugDrawOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS };
+    this.setOptions(options);
+  }
+
+  /** 显示或隐藏调试层（隐藏时丢弃已提交的即时图形） */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.clear();
+  }
+
+  /**
+   * 切换调试层显示
+   * @returns 切换后是否显示
+   */
+  toggle(): boolean {
+    this.setEnabled(!this.enabled);
+    return this.enabled;
+  }
+
+  /** 调试层是否显示 */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * 更新调试层选项（仅覆盖传入的字段）
+   * @throws {Error} 网格间距或速度系数不是正数时抛出错误
+   */
+  setOptions(options: DebugDrawOptions): void {
+    if (options.gridSize !== undefined && !(options.gridSize > 0)) {
+      throw new Error(`[DebugDraw] 网格间距必须是正数`);
+    }
+    if (options.velocityScale !== undefined && !(options.velocityScale > 0)) {
+      throw new Error(`[DebugDraw] 速度向量长度系数必须是正数`);
+    }
+    (Object.keys(options) as (keyof DebugDrawOptions)[]).forEach(key => {
+      if (options[key] !== undefined) Object.assign(this.options, { [key]: options[key] });
+    });
+  }
+
+  /** 获取调试层选项（返回拷贝） */
+  getOptions(): Required<DebugDrawOptions> {
+    return { ...this.options };
+  }
+
+  // ========== 即时调试图形（只显示一帧，调试层隐藏时丢弃） ==========
+  /**
+   * 绘制线段
+   * @param from 起点
+   * @param to 终点
+   */
+  line(from: Vec2, to: Vec2, style: DebugStyle = {}): void {
+    this.push({ type: 'line', points: [[from[0], from[1]], [to[0], to[1]]], ...this.resolveLine(style) });
+  }
+
+  /**
+   * 绘制矩形边框
+   * @param rect 矩形区域
+   */
+  rect(rect: ViewRect, style: DebugStyle = {}): void {
+    const { x, y, width, height } = rect;
+    this.push({
+      type: 'line',
+      points: [[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]],
+      ...this.resolveLine(style),
+    });
+  }
+
+  /**
+   * 绘制点
+   * @param at 位置
+   */
+  point(at: Vec2, style: DebugStyle = {}): void {
+    this.push({
+      type: 'point',
+      at: [at[0], at[1]],
+      color: style.color ?? this.options.color,
+      size: style.size ?? 4,
+      space: style.space ?? 'world',
+    });
+  }
+
+  /**
+   * 绘制文本
+   * @param text 文本内容
+   * @param at 左上角位置
+   */
+  text(text: string, at: Vec2, style: DebugStyle = {}): void {
+    this.push({
+      type: 'text',
+      text,
+      at: [at[0], at[1]],
+      color: style.color ?? this.options.textColor,
+      space: style.space ?? 'world',
+    });
+  }
+
+  // ========== Scene调度 ==========
+  /**
+   * 逻辑步开始（绘制后的第一个逻辑步清除之前逻辑步提交的即时图形）
+   * 固定步长模式下一帧可能执行多个逻辑步或不执行逻辑步：同一帧内各逻辑步提交的图形都会绘制，
+   * 没有执行逻辑步的帧继续绘制之前逻辑步的图形，避免闪烁
+   */
+  beginStep(): void {
+    if (this.drawnSinceStep) {
+      this.stepCommands = [];
+      this.drawnSinceStep = false;
+    }
+    this.inStep = true;
+  }
+
+  /** 逻辑步结束 */
+  endStep(): void {
+    this.inStep = false;
+  }
+
+  /**
+   * 取出本帧需绘制的即时图形（逻辑步外提交的图形随之清除）
+   */
+  takeCommands(): DebugCommand[] {
+    const commands = [...this.stepCommands, ...this.frameCommands];
+    this.frameCommands = [];
+    this.drawnSinceStep = true;
+    return commands;
+  }
+
+  /** 清除所有即时图形 */
+  clear(): void {
+    this.stepCommands = [];
+    this.frameCommands = [];
+  }
+
+  /**
+   * 生成实体的调试图形（世界坐标）
+   * @param entities 实体列表
+   * @param alpha 插值系数（与实体绘制位置一致）
+   * @param stepDelta 上一逻辑步的时长（秒，用于按位移估算速度）
+   */
+  collectEntities(entities: readonly DebugEntity[], alpha: number, stepDelta: number): DebugCommand[] {
+    const { bounds, labels, origin, rotation, velocity, color, velocityColor, textColor, velocityScale } = this.options;
+    const commands: DebugCommand[] = [];
+    const line = (points: Vec2[], lineColor: string): DebugCommand => ({ type: 'line', points, color: lineColor, width: 1, space: 'world' });
+    entities.forEach(entity => {
+      const [x, y] = interpolateLocation(entity, alpha);
+      const [w, h] = entity.size;
+      const angle = interpolateRotation(entity, alpha);
+      const cx = x + w / 2;
+      const cy = y + h / 2;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      // 绕实体中心旋转（与渲染后端一致）
+      const toWorld = (px: number, py: number): Vec2 => {
+        const dx = px - cx;
+        const dy = py - cy;
+        return [cx + dx * cos - dy * sin, cy + dx * sin + dy * cos];
+      };
+      const corners = [toWorld(x, y), toWorld(x + w, y), toWorld(x + w, y + h), toWorld(x, y + h)];
+      if (bounds) commands.push(line([...corners, corners[0]], color));
+      if (origin) commands.push({ type: 'point', at: [x, y], color, size: 4, space: 'world' });
+      if (rotation) commands.push(line([[cx, cy], [cx + cos * w / 2, cy + sin * w / 2]], color));
+      if (velocity) {
+        const [vx, vy] = this.getVelocity(entity, stepDelta);
+        if (vx !== 0 || vy !== 0) {
+          const tip: Vec2 = [cx + vx * velocityScale, cy + vy * velocityScale];
+          const head = Math.min(6, Math.hypot(vx, vy) * velocityScale / 2);
+          const back = Math.atan2(vy, vx) + Math.PI;
+          commands.push(line([[cx, cy], tip], velocityColor));
+          commands.push(line([
+            [tip[0] + Math.cos(back - 0.5) * head, tip[1] + Math.sin(back - 0.5) * head],
+            tip,
+            [tip[0] + Math.cos(back + 0.5) * head, tip[1] + Math.sin(back + 0.5) * head],
+          ], velocityColor));
+        }
+      }
+      if (labels) {
+        const name = entity.name && entity.name !== 'undefined' ? ` ${entity.name}` : '';
+        const top = Math.min(...corners.map(corner => corner[1]));
+        const left = Math.min(...corners.map(corner => corner[0]));
+        commands.push({ type: 'text', text: `${entity.id}${name}`, at: [left, top - 14], color: textColor, space: 'world' });
+      }
+    });
+    return commands;
+  }
+
+  /**
+   * 生成覆盖可见范围的世界网格（世界坐标）
+   * @param visible 可见的世界范围
+   */
+  collectGrid(visible: CameraBounds): DebugCommand[] {
+    if (!this.options.grid) return [];
+    const { minX, minY, maxX, maxY } = visible;
+    let size = this.options.gridSize;
+    while ((maxX - minX) / size > MAX_GRID_LINES || (maxY - minY) / size > MAX_GRID_LINES) size *= 2;
+    const commands: DebugCommand[] = [];
+    const { gridColor } = this.options;
+    for (let gx = Math.floor(minX / size) * size; gx <= maxX; gx += size) {
+      commands.push({ type: 'line', points: [[gx, minY], [gx, maxY]], color: gridColor, width: 1, space: 'world' });
+    }
+    for (let gy = Math.floor(minY / size) * size; gy <= maxY; gy += size) {
+      commands.push({ type: 'line', points: [[minX, gy], [maxX, gy]], color: gridColor, width: 1, space: 'world' });
+    }
+    return commands;
+  }
+
+  private push(command: DebugCommand): void {
+    if (!this.enabled) return;
+    (this.inStep ? this.stepCommands : this.frameCommands).push(command);
+  }
+
+  private resolveLine(style: DebugStyle): { color: string; width: number; space: DebugSpace } {
+    return { color: style.color ?? this.options.color, width: style.width ?? 1, space: style.space ?? 'world' };
+  }
+
+  /**
+   * 获取实体速度（优先读取velocity属性：[vx, vy]或{ x, y }；否则按上一逻辑步的位移估算）
+   */
+  private getVelocity(entity: DebugEntity, stepDelta: number): Vec2 {
+    const { velocity } = entity;
+    if (Array.isArray(velocity) && typeof velocity[0] === 'number' && typeof velocity[1] === 'number') {
+      return [velocity[0], velocity[1]];
+    }
+    if (typeof velocity === 'object' && velocity !== null) {
+      const { x, y } = velocity as { x?: unknown; y?: unknown };
+      if (typeof x === 'number' && typeof y === 'number') return [x, y];
+    }
+    const prev = entity.previousLocation;
+    if (!prev || stepDelta <= 0) return [0, 0];
+    return [(entity.location[0] - prev[0]) / stepDelta, (entity.location[1] - prev[1]) / stepDelta];
+  }
+}
+
+export { DebugDraw };
+export type { DebugCommand, DebugSpace, DebugStyle, DebugDrawOptions, DebugEntity };
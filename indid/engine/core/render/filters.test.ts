@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { toCssFilter, getTint, getFilterPadding, toColorGradeFilter } from './filters';
+
+describe('toCssFilter', () => {
+  it('按数组顺序拼接CSS滤镜，补全默认值', () => {
+    expect(toCssFilter([
+      { type: 'grayscale' },
+      { type: 'blur', radius: 4 },
+      { type: 'brightness', amount: 1.5 },
+      { type: 'dropShadow', color: 'rgba(0,0,0,0.5)', offsetY: 3 },
+    ])).toBe('grayscale(1) blur(4px) brightness(1.5) drop-shadow(0px 3px 0px rgba(0,0,0,0.5))');
+  });
+
+  it('跳过着色与零半径模糊，无可应用滤镜时返回none', () => {
+    expect(toCssFilter(undefined)).toBe('none');
+    expect(toCssFilter([])).toBe('none');
+    expect(toCssFilter([{ type: 'tint', color: 'red' }, { type: 'blur', radius: 0 }])).toBe('none');
+    expect(toCssFilter([{ type: 'tint', color: 'red' }, { type: 'grayscale', amount: 0.3 }])).toBe('grayscale(0.3)');
+  });
+});
+
+describe('getTint', () => {
+  it('取最后一个着色滤镜，程度默认0.5并限制在0-1', () => {
+    expect(getTint(undefined)).toBeUndefined();
+    expect(getTint([{ type: 'blur', radius: 2 }])).toBeUndefined();
+    expect(getTint([{ type: 'tint', color: 'red' }])).toEqual({ color: 'red', amount: 0.5 });
+    expect(getTint([
+      { type: 'tint', color: 'red', amount: 0.2 },
+      { type: 'grayscale' },
+      { type: 'tint', color: 'blue', amount: 3 },
+    ])).toEqual({ color: 'blue', amount: 1 });
+    expect(getTint([{ type: 'tint', color: 'green', amount: -1 }])).toEqual({ color: 'green', amount: 0 });
+  });
+});
+
+describe('滤镜绘制范围与调色', () => {
+  it('模糊与投影扩大绘制范围，调色只输出非默认项', () => {
+    expect(getFilterPadding([{ type: 'blur', radius: 3 }, { type: 'dropShadow', color: '#000', offsetX: -5, offsetY: 2, blur: 1 }])).toBe(6 + 2 + 5);
+    expect(getFilterPadding([{ type: 'tint', color: 'red' }])).toBe(0);
+    expect(toColorGradeFilter({ type: 'colorGrade', contrast: 1.2, hueRotate: 30 })).toBe('contrast(1.2) hue-rotate(30deg)');
+    expect(toColorGradeFilter({ type: 'colorGrade' })).toBe('none');
+  });
+});
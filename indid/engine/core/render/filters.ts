@@ -0,0 +1,133 @@
+/**
+ * 滤镜与后处理定义
+ * EntityFilter：实体级滤镜（模糊、亮度、灰度、着色、投影），按数组顺序叠加
+ * PostProcessEffect：场景级后处理（暗角、调色、淡入淡出），在整帧绘制完成后按顺序应用
+ */
+
+/** 支持的实体滤镜类型 */
+const FILTER_TYPES = ['blur', 'brightness', 'grayscale', 'tint', 'dropShadow'] as const;
+type FilterType = typeof FILTER_TYPES[number];
+
+/** 支持的混合模式（与Canvas globalCompositeOperation一致） */
+const BLEND_MODES: readonly GlobalCompositeOperation[] = [
+  'source-over', 'source-in', 'source-out', 'source-atop', 'destination-over', 'destination-in', 'destination-out',
+  'destination-atop', 'lighter', 'copy', 'xor', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge',
+  'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+];
+
+/** 实体滤镜 */
+type EntityFilter =
+  | { type: 'blur'; radius: number } // 高斯模糊半径（像素）
+  | { type: 'brightness'; amount: number } // 亮度倍数（1为原样，0为全黑）
+  | { type: 'grayscale'; amount?: number } // 灰度（0-1，默认1）
+  | { type: 'tint'; color: string; amount?: number } // 着色：按比例混合为指定颜色（0-1，默认0.5，保留透明区域）
+  | { type: 'dropShadow'; color: string; offsetX?: number; offsetY?: number; blur?: number }; // 投影
+
+/** 场景后处理效果 */
+type PostProcessEffect =
+  | {
+    type: 'vignette';
+    strength?: number; // 暗角强度（0-1，默认0.5）
+    radius?: number; // 暗角起始位置（相对画布中心到角落距离的比例，0-1，默认0.6）
+    color?: string; // 暗角颜色（默认#000000）
+  }
+  | {
+    type: 'colorGrade';
+    brightness?: number; // 亮度倍数（默认1）
+    contrast?: number; // 对比度倍数（默认1）
+    saturate?: number; // 饱和度倍数（默认1）
+    hueRotate?: number; // 色相旋转（角度，默认0）
+    sepia?: number; // 怀旧（0-1，默认0）
+  }
+  | {
+    type: 'fade';
+    color: string; // 淡入淡出颜色
+    amount: number; // 覆盖程度（0-1，0为不可见）
+  };
+
+/**
+ * 转换为CSS滤镜字符串（着色无对应的CSS滤镜，由后端单独处理）
+ * @returns 无需应用时返回'none'
+ */
+function toCssFilter(filters: readonly EntityFilter[] | undefined): string {
+  if (!filters) return 'none';
+  const parts = filters.map(filter => {
+    switch (filter.type) {
+      case 'blur': return filter.radius > 0 ? `blur(${filter.radius}px)` : '';
+      case 'brightness': return `brightness(${filter.amount})`;
+      case 'grayscale': return `grayscale(${filter.amount ?? 1})`;
+      case 'dropShadow':
+        return `drop-shadow(${filter.offsetX ?? 0}px ${filter.offsetY ?? 0}px ${filter.blur ?? 0}px ${filter.color})`;
+      case 'tint': return '';
+    }
+  }).filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+/**
+ * 获取着色滤镜（多个时取最后一个）
+ */
+function getTint(filters: readonly EntityFilter[] | undefined): { color: string; amount: number } | undefined {
+  const tint = filters?.filter(filter => filter.type === 'tint').pop();
+  if (!tint || tint.type !== 'tint') return undefined;
+  return { color: tint.color, amount: Math.max(0, Math.min(1, tint.amount ?? 0.5)) };
+}
+
+/**
+ * 滤镜使绘制结果超出实体区域的距离（模糊与投影），用于脏矩形与光栅化范围
+ */
+function getFilterPadding(filters: readonly EntityFilter[] | undefined): number {
+  if (!filters) return 0;
+  return filters.reduce((pad, filter) => {
+    if (filter.type === 'blur') return pad + Math.max(0, filter.radius) * 2;
+    if (filter.type === 'dropShadow') {
+      return pad + Math.max(0, filter.blur ?? 0) * 2 + Math.max(Math.abs(filter.offsetX ?? 0), Math.abs(filter.offsetY ?? 0));
+    }
+    return pad;
+  }, 0);
+}
+
+/**
+ * 转换调色效果为CSS滤镜字符串
+ */
+function toColorGradeFilter(effect: Extract<PostProcessEffect, { type: 'colorGrade' }>): string {
+  const { brightness = 1, contrast = 1, saturate = 1, hueRotate = 0, sepia = 0 } = effect;
+  const parts: string[] = [];
+  if (brightness !== 1) parts.push(`brightness(${brightness})`);
+  if (contrast !== 1) parts.push(`contrast(${contrast})`);
+  if (saturate !== 1) parts.push(`saturate(${saturate})`);
+  if (hueRotate !== 0) parts.push(`hue-rotate(${hueRotate}deg)`);
+  if (sepia !== 0) parts.push(`sepia(${sepia})`);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+/**
+ * 校验滤镜数组（供Player校验器使用）
+ */
+function isEntityFilterList(value: unknown): value is EntityFilter[] {
+  if (!Array.isArray(value)) return false;
+  return value.every(item => {
+    if (typeof item !== 'object' || item === null) return false;
+    const filter = item as Record<string, unknown>;
+    const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+    const isOptionalNumber = (v: unknown) => v === undefined || isNumber(v);
+    switch (filter.type as FilterType) {
+      case 'blur':
+        return isNumber(filter.radius) && (filter.radius as number) >= 0;
+      case 'brightness':
+        return isNumber(filter.amount) && (filter.amount as number) >= 0;
+      case 'grayscale':
+        return isOptionalNumber(filter.amount);
+      case 'tint':
+        return typeof filter.color === 'string' && isOptionalNumber(filter.amount);
+      case 'dropShadow':
+        return typeof filter.color === 'string' && isOptionalNumber(filter.offsetX) &&
+          isOptionalNumber(filter.offsetY) && isOptionalNumber(filter.blur);
+      default:
+        return false;
+    }
+  });
+}
+
+export { FILTER_TYPES, BLEND_MODES, toCssFilter, getTint, getFilterPadding, toColorGradeFilter, isEntityFilterList };
+export type { FilterType, EntityFilter, PostProcessEffect };
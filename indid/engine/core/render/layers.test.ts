@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LayerManager, RenderQueue } from './layers';
+
+type Item = { id: string; layer?: string; zIndex?: number };
+
+describe('RenderQueue 排序', () => {
+  let layers: LayerManager;
+  let queue: RenderQueue<Item>;
+
+  const ids = () => queue.getSorted().map(item => item.id);
+
+  beforeEach(() => {
+    layers = new LayerManager();
+    layers.addLayer('background', { order: -10 });
+    layers.addLayer('ui', { order: 10 });
+    queue = new RenderQueue<Item>();
+  });
+
+  it('按层顺序、zIndex、添加顺序稳定排序，并按层切分批次', () => {
+    const items: Item[] = [
+      { id: 'hud', layer: 'ui' },
+      { id: 'b', zIndex: 1 },
+      { id: 'a', zIndex: 1 },
+      { id: 'sky', layer: 'background' },
+      { id: 'low', zIndex: -1 },
+      { id: 'c' },
+      // 不存在的层按默认层绘制
+      { id: 'lost', layer: 'missing' },
+    ];
+    const batches = queue.update(items, layers);
+
+    expect(ids()).toEqual(['sky', 'low', 'c', 'lost', 'b', 'a', 'hud']);
+    expect(batches.map(batch => [batch.layer.name, batch.entities.map(item => item.id)])).toEqual([
+      ['background', ['sky']],
+      ['default', ['low', 'c', 'lost', 'b', 'a']],
+      ['ui', ['hud']],
+    ]);
+  });
+
+  it('实体与层级都未变化时复用上次结果，不重新排序', () => {
+    const items: Item[] = [{ id: 'a', zIndex: 2 }, { id: 'b', zIndex: 1 }];
+    const first = queue.update(items, layers);
+    // 传入新数组但内容相同，仍视为未变化
+    expect(queue.update(items.slice(), layers)).toBe(first);
+    expect(queue.update(items, layers)).toBe(first);
+
+    queue.invalidate();
+    const forced = queue.update(items, layers);
+    expect(forced).not.toBe(first);
+    expect(forced).toEqual(first);
+  });
+
+  it('zIndex、layer、实体增删或层顺序变化时重新排序', () => {
+    const a: Item = { id: 'a', zIndex: 2 };
+    const b: Item = { id: 'b', zIndex: 1 };
+    const items = [a, b];
+    let last = queue.update(items, layers);
+    expect(ids()).toEqual(['b', 'a']);
+
+    const expectResorted = (order: string[]) => {
+      const next = queue.update(items, layers);
+      expect(next).not.toBe(last);
+      expect(ids()).toEqual(order);
+      last = next;
+    };
+
+    a.zIndex = 0;
+    expectResorted(['a', 'b']);
+    b.layer = 'background';
+    expectResorted(['b', 'a']);
+    items.push({ id: 'c', layer: 'background', zIndex: -1 });
+    expectResorted(['c', 'b', 'a']);
+    items.splice(2, 1);
+    expectResorted(['b', 'a']);
+    layers.setOrder('background', 20);
+    expectResorted(['a', 'b']);
+    // 修改层可见性或透明度不影响排序
+    layers.setVisible('background', false);
+    expect(queue.update(items, layers)).toBe(last);
+  });
+});
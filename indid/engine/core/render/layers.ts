@@ -0,0 +1,223 @@
+/**
+ * 渲染分层模块
+ * LayerManager：管理具名渲染层（顺序、可见性、透明度、视差系数）
+ * RenderQueue：按“层顺序 → zIndex → 添加顺序”维护稳定有序的绘制列表，仅在实体增删或层级变化时重新排序
+ */
+import type { RenderableEntity } from "./render";
+import type { Vec2 } from "../camera/camera";
+
+/** 默认层名称（未指定layer的实体归属此层） */
+const DEFAULT_LAYER = 'default';
+
+/** 渲染层 */
+type RenderLayer = {
+  name: string; // 层名称（唯一）
+  order: number; // 层顺序（数值越小越先绘制，即越靠下）
+  visible: boolean; // 是否可见
+  opacity: number; // 层透明度（0-1，与实体透明度相乘）
+  parallax: Vec2; // 视差系数（仅在视口中生效，默认[1, 1]；背景层可设为[0.5, 0.5]）
+  static: boolean; // 是否为静态层（层内实体均按静态实体烘焙到离屏缓存，默认false）
+};
+
+/** 渲染层配置 */
+type RenderLayerOptions = Partial<Omit<RenderLayer, 'name'>>;
+
+class LayerManager {
+  private layers = new Map<string, RenderLayer>(); // 层名称 -> 层
+  private ordered: RenderLayer[] = []; // 按order排序的层列表
+  private version: number = 0; // 层顺序版本号（顺序变化时递增，用于通知RenderQueue重排）
+
+  constructor() {
+    this.addLayer(DEFAULT_LAYER, { order: 0 });
+  }
+
+  /**
+   * 添加渲染层
+   * @param name 层名称
+   * @param options 顺序、可见性、透明度、视差、是否静态
+   */
+  addLayer(name: string, options: RenderLayerOptions = {}): RenderLayer {
+    if (!name) throw new Error('[LayerManager] 层名称不能为空');
+    if (this.layers.has(name)) {
+      throw new Error(`[LayerManager] 渲染层"${name}"已存在`);
+    }
+    const layer: RenderLayer = {
+      name,
+      order: options.order ?? 0,
+      visible: options.visible ?? true,
+      opacity: this.#validateOpacity(options.opacity ?? 1),
+      parallax: options.parallax ? [options.parallax[0], options.parallax[1]] : [1, 1],
+      static: options.static ?? false,
+    };
+    this.layers.set(name, layer);
+    this.#reorder();
+    return layer;
+  }
+
+  /**
+   * 移除渲染层（默认层不可移除；该层实体将按默认层顺序绘制）
+   * @param name 层名称
+   */
+  removeLayer(name: string): void {
+    if (name === DEFAULT_LAYER) {
+      throw new Error('[LayerManager] 默认层不可移除');
+    }
+    if (this.layers.delete(name)) {
+      this.#reorder();
+    }
+  }
+
+  /**
+   * 获取渲染层（不存在的层名称回退到默认层）
+   * @param name 层名称
+   */
+  getLayer(name: string = DEFAULT_LAYER): RenderLayer {
+    return this.layers.get(name) ?? this.layers.get(DEFAULT_LAYER)!;
+  }
+
+  /** 是否存在指定层 */
+  hasLayer(name: string): boolean {
+    return this.layers.has(name);
+  }
+
+  /** 获取按顺序排列的所有层（返回拷贝） */
+  getLayers(): RenderLayer[] {
+    return this.ordered.map(layer => ({ ...layer, parallax: [layer.parallax[0], layer.parallax[1]] as Vec2 }));
+  }
+
+  /** 调整层顺序 */
+  setOrder(name: string, order: number): void {
+    this.#require(name).order = order;
+    this.#reorder();
+  }
+
+  /** 设置层可见性 */
+  setVisible(name: string, visible: boolean): void {
+    this.#require(name).visible = visible;
+  }
+
+  /** 设置层透明度（0-1） */
+  setOpacity(name: string, opacity: number): void {
+    this.#require(name).opacity = this.#validateOpacity(opacity);
+  }
+
+  /** 设置层视差系数 */
+  setParallax(name: string, parallax: Vec2): void {
+    this.#require(name).parallax = [parallax[0], parallax[1]];
+  }
+
+  /** 设置是否为静态层（静态层内的实体由Scene烘焙到离屏缓存） */
+  setStatic(name: string, isStatic: boolean): void {
+    this.#require(name).static = isStatic;
+  }
+
+  /** 获取层在绘制顺序中的位置（用于排序） */
+  getRank(name: string | undefined): number {
+    const layer = this.getLayer(name ?? DEFAULT_LAYER);
+    return this.ordered.indexOf(layer);
+  }
+
+  /** 层顺序版本号 */
+  getVersion(): number {
+    return this.version;
+  }
+
+  #require(name: string): RenderLayer {
+    const layer = this.layers.get(name);
+    if (!layer) throw new Error(`[LayerManager] 渲染层"${name}"不存在`);
+    return layer;
+  }
+
+  #validateOpacity(opacity: number): number {
+    if (typeof opacity !== 'number' || opacity < 0 || opacity > 1) {
+      throw new Error('[LayerManager] 层透明度必须在0-1之间');
+    }
+    return opacity;
+  }
+
+  /** 重新计算层顺序（同order按添加顺序，Array.sort为稳定排序） */
+  #reorder(): void {
+    this.ordered = Array.from(this.layers.values()).sort((a, b) => a.order - b.order);
+    this.version++;
+  }
+}
+
+/** 实体分组（同一层的连续实体） */
+type LayerBatch<T> = {
+  layer: RenderLayer;
+  entities: T[];
+};
+
+/**
+ * 渲染队列：缓存排序结果，仅在以下情况重新排序
+ * 1. 实体增删或顺序变化 2. 某实体的layer/zIndex变化 3. 层顺序变化
+ */
+class RenderQueue<T extends Pick<RenderableEntity, 'layer' | 'zIndex'>> {
+  private source: T[] = []; // 上一次的实体列表（添加顺序）
+  private keys: Array<string | undefined> = []; // 上一次各实体的层级键
+  private layerVersion: number = -1; // 上一次排序时的层顺序版本
+  private sorted: T[] = []; // 排序结果
+  private batches: LayerBatch<T>[] = []; // 按层分组结果
+
+  /**
+   * 同步实体列表并返回按层分组的有序结果
+   * @param entities 实体列表（添加顺序）
+   * @param layers 层管理器
+   */
+  update(entities: readonly T[], layers: LayerManager): LayerBatch<T>[] {
+    if (this.#isDirty(entities, layers)) {
+      this.source = entities.slice();
+      this.keys = entities.map(entity => this.#keyOf(entity));
+      this.layerVersion = layers.getVersion();
+
+      // 稳定排序：层顺序 → zIndex → 添加顺序
+      const indexed = this.source.map((entity, index) => ({ entity, index, rank: layers.getRank(entity.layer) }));
+      indexed.sort((a, b) => a.rank - b.rank || (a.entity.zIndex ?? 0) - (b.entity.zIndex ?? 0) || a.index - b.index);
+      this.sorted = indexed.map(item => item.entity);
+      this.#rebuildBatches(layers);
+    }
+    return this.batches;
+  }
+
+  /** 获取排序后的实体列表 */
+  getSorted(): T[] {
+    return this.sorted.slice();
+  }
+
+  /** 强制下次update时重新排序 */
+  invalidate(): void {
+    this.layerVersion = -1;
+  }
+
+  /** O(n)检查是否需要重新排序（无需排序） */
+  #isDirty(entities: readonly T[], layers: LayerManager): boolean {
+    if (layers.getVersion() !== this.layerVersion) return true;
+    if (entities.length !== this.source.length) return true;
+    for (let i = 0; i < entities.length; i++) {
+      if (entities[i] !== this.source[i]) return true;
+      if (this.#keyOf(entities[i]) !== this.keys[i]) return true;
+    }
+    return false;
+  }
+
+  #keyOf(entity: T): string {
+    return `${entity.layer ?? DEFAULT_LAYER}|${entity.zIndex ?? 0}`;
+  }
+
+  /** 将有序列表切分为按层的连续批次 */
+  #rebuildBatches(layers: LayerManager): void {
+    this.batches = [];
+    let current: LayerBatch<T> | null = null;
+    for (const entity of this.sorted) {
+      const layer = layers.getLayer(entity.layer ?? DEFAULT_LAYER);
+      if (!current || current.layer !== layer) {
+        current = { layer, entities: [] };
+        this.batches.push(current);
+      }
+      current.entities.push(entity);
+    }
+  }
+}
+
+export { LayerManager, RenderQueue, DEFAULT_LAYER };
+export type { RenderLayer, RenderLayerOptions, LayerBatch };
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Renderer } from './render';
+import { RecordingBackend } from './recording';
+import { Viewport } from '../camera/camera';
+import type { RenderLayer } from './layers';
+
+describe('RecordingBackend', () => {
+  let renderer: Renderer;
+  let backend: RecordingBackend;
+
+  beforeEach(() => {
+    renderer = new Renderer(null, undefined, 'recording');
+    renderer.setResizePolicy({ policy: 'fixed', width: 200, height: 100, pixelRatio: 2 });
+    backend = renderer.getBackend() as RecordingBackend;
+    backend.reset();
+  });
+
+  afterEach(() => renderer.destroy());
+
+  it('记录绘制时的变换、层透明度与视口裁剪', () => {
+    const viewport = new Viewport({ id: 'main', rect: { x: 0, y: 0, width: 200, height: 100 } });
+    viewport.camera.setPosition(150, 50);
+    const layer: RenderLayer = { name: 'bg', order: 0, visible: true, opacity: 0.5, parallax: [0.5, 0.5], static: false };
+
+    renderer.beginFrame();
+    renderer.beginViewport(viewport);
+    renderer.beginLayer(layer, viewport);
+    renderer.drawEntity({ id: 'tree', location: [0, 0], size: [10, 10] });
+    renderer.endLayer();
+    renderer.endViewport();
+    renderer.drawText('HUD', 4, 4);
+    renderer.endFrame();
+
+    const [tree] = backend.getCommands('drawEntity');
+    // 后备缓冲区按2倍像素比放大；视差0.5时相机位移减半：(100 - 150 * 0.5) * 2 = 50
+    expect(tree.transform).toEqual({ a: 2, b: 0, c: 0, d: 2, e: 50, f: 50 });
+    expect(tree.alpha).toBe(0.5);
+    expect(tree.clip).toEqual({ x: 0, y: 0, width: 400, height: 200 });
+
+    // 退出视口与层后恢复绘制状态
+    const [hud] = backend.getCommands('drawText');
+    expect(hud).toMatchObject({ text: 'HUD', alpha: 1, clip: null, transform: { a: 2, e: 0, f: 0 } });
+    expect(backend.getCommands().map(command => command.op)).toEqual(['beginFrame', 'drawEntity', 'drawText', 'endFrame']);
+  });
+
+  it('按插值系数记录实体位置，实体后续修改不影响已录制的命令', () => {
+    const entity = { id: 'p1', location: [10, 0] as [number, number], previousLocation: [0, 0] as [number, number], size: [4, 4] as [number, number] };
+
+    renderer.drawEntity(entity, false, 0.25);
+    entity.location[0] = 99;
+
+    const [draw] = backend.getCommands('drawEntity');
+    expect(draw.entity.location).toEqual([2.5, 0]);
+    expect(draw.entity).not.toHaveProperty('previousLocation');
+
+    backend.reset();
+    expect(backend.getCommands()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * 录制渲染后端
+ * 不绘制任何像素，而是把每次绘制连同当时的变换、透明度、混合模式与裁剪记录为数据，
+ * 用于测试断言（如“某实体是否以正确的位置/透明度被绘制”）与调试绘制顺序
+ */
+import type { ViewRect } from "../camera/camera";
+import type { ParticleEmitter } from "../particles/particles";
+import type { RenderableEntity } from "./render";
+import { layoutText } from "./text";
+import type { TextStyle, TextMetrics } from "./text";
+import type { Transform2D } from "./cache";
+import type { ResizeEvent } from "./resize";
+import { interpolateLocation, interpolateRotation } from "./backend";
+import type { RenderBackend, BackendImage } from "./backend";
+
+/** 绘制时的状态 */
+type RecordedState = {
+  transform: Transform2D; // 当前变换（后备缓冲区像素）
+  alpha: number; // 当前透明度（已叠加层透明度，不含实体自身opacity）
+  blendMode: GlobalCompositeOperation; // 当前混合模式
+  clip: ViewRect | null; // 当前裁剪区域（后备缓冲区像素包围盒）
+};
+
+/** 实体快照（插值后的位置与旋转，不含业务字段） */
+type RecordedEntity = Omit<RenderableEntity, 'previousLocation' | 'previousRotation'>;
+
+/** 录制的绘制命令 */
+type RenderCommand =
+  | { op: 'beginFrame'; frame: number }
+  | { op: 'endFrame'; frame: number }
+  | { op: 'resize'; state: ResizeEvent }
+  | ({ op: 'clear'; color: string } & RecordedState)
+  | ({ op: 'drawEntity'; entity: RecordedEntity } & RecordedState)
+  | ({ op: 'drawParticles'; emitterId: string; count: number } & RecordedState)
+  | ({ op: 'drawImage'; image: BackendImage; source: ViewRect; dest: ViewRect } & RecordedState)
+  | ({ op: 'fillRect'; rect: ViewRect; color: string } & RecordedState)
+  | ({ op: 'filterCanvas'; filter: string } & RecordedState)
+  | ({ op: 'drawText'; text: string; x: number; y: number; style: TextStyle } & RecordedState);
+
+/** 需要快照的实体字段 */
+const ENTITY_FIELDS = [
+  'id', 'size', 'background', 'color', 'opacity', 'border', 'shape', 'fill', 'points', 'cornerRadius', 'arc',
+  'path', 'imageSrc', 'frame', 'text', 'textStyle', 'filter', 'blendMode', 'zIndex', 'layer', 'isStatic',
+] as const;
+
+const IDENTITY: Transform2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+class RecordingBackend implements RenderBackend {
+  public readonly type = 'recording';
+  public readonly cacheable = false;
+  private commands: RenderCommand[] = [];
+  private frame: number = 0;
+  private state: RecordedState = { transform: IDENTITY, alpha: 1, blendMode: 'source-over', clip: null };
+  private stack: RecordedState[] = [];
+
+  /**
+   * 获取已录制的命令（返回拷贝）
+   * @param op 仅返回指定类型的命令（可选）
+   */
+  getCommands(): RenderCommand[];
+  getCommands<K extends RenderCommand['op']>(op: K): Extract<RenderCommand, { op: K }>[];
+  getCommands(op?: RenderCommand['op']): RenderCommand[] {
+    return op ? this.commands.filter(command => command.op === op) : this.commands.slice();
+  }
+
+  /** 清空已录制的命令 */
+  reset(): void {
+    this.commands = [];
+  }
+
+  resize(state: ResizeEvent): void {
+    this.stack = [];
+    this.state = {
+      transform: { a: state.pixelWidth / state.width, b: 0, c: 0, d: state.pixelHeight / state.height, e: 0, f: 0 },
+      alpha: 1,
+      blendMode: 'source-over',
+      clip: null,
+    };
+    this.commands.push({ op: 'resize', state: { ...state } });
+  }
+
+  beginFrame(): void {
+    this.commands.push({ op: 'beginFrame', frame: ++this.frame });
+  }
+
+  endFrame(): void {
+    this.commands.push({ op: 'endFrame', frame: this.frame });
+  }
+
+  clear(color: string): void {
+    this.commands.push({ op: 'clear', color, ...this.snapshot() });
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state });
+  }
+
+  restore(): void {
+    const prev = this.stack.pop();
+    if (prev) this.state = prev;
+  }
+
+  translate(x: number, y: number): void {
+    const m = this.state.transform;
+    this.state.transform = { ...m, e: m.e + m.a * x + m.c * y, f: m.f + m.b * x + m.d * y };
+  }
+
+  rotate(angle: number): void {
+    const m = this.state.transform;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.state.transform = {
+      a: m.a * cos + m.c * sin,
+      b: m.b * cos + m.d * sin,
+      c: m.c * cos - m.a * sin,
+      d: m.d * cos - m.b * sin,
+      e: m.e,
+      f: m.f,
+    };
+  }
+
+  scale(x: number, y: number): void {
+    const m = this.state.transform;
+    this.state.transform = { a: m.a * x, b: m.b * x, c: m.c * y, d: m.d * y, e: m.e, f: m.f };
+  }
+
+  getTransform(): Transform2D {
+    return { ...this.state.transform };
+  }
+
+  setTransform(transform: Transform2D): void {
+    const { a, b, c, d, e, f } = transform;
+    this.state.transform = { a, b, c, d, e, f };
+  }
+
+  clipRect(rect: ViewRect): void {
+    const m = this.state.transform;
+    const points = [[rect.x, rect.y], [rect.x + rect.width, rect.y], [rect.x, rect.y + rect.height], [rect.x + rect.width, rect.y + rect.height]]
+      .map(([x, y]) => [m.a * x + m.c * y + m.e, m.b * x + m.d * y + m.f]);
+    let x0 = Math.min(...points.map(p => p[0]));
+    let y0 = Math.min(...points.map(p => p[1]));
+    let x1 = Math.max(...points.map(p => p[0]));
+    let y1 = Math.max(...points.map(p => p[1]));
+    const current = this.state.clip;
+    if (current) {
+      x0 = Math.max(x0, current.x);
+      y0 = Math.max(y0, current.y);
+      x1 = Math.min(x1, current.x + current.width);
+      y1 = Math.min(y1, current.y + current.height);
+    }
+    this.state.clip = { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+  }
+
+  multiplyAlpha(alpha: number): void {
+    this.state.alpha *= alpha;
+  }
+
+  setBlendMode(mode: GlobalCompositeOperation): void {
+    this.state.blendMode = mode;
+  }
+
+  drawEntity(entity: RenderableEntity, alpha: number): void {
+    const snapshot: Record<string, unknown> = {};
+    ENTITY_FIELDS.forEach(field => {
+      if (entity[field] !== undefined) snapshot[field] = structuredClone(entity[field]);
+    });
+    const recorded = {
+      ...snapshot,
+      location: interpolateLocation(entity, alpha),
+      rotation: interpolateRotation(entity, alpha),
+    } as RecordedEntity;
+    this.commands.push({ op: 'drawEntity', entity: recorded, ...this.snapshot() });
+  }
+
+  drawParticles(emitter: ParticleEmitter): void {
+    const count = emitter.getParticles().filter(p => p.opacity > 0 && p.size > 0).length;
+    if (count === 0) return;
+    const state = this.snapshot();
+    if (emitter.blendMode) state.blendMode = emitter.blendMode;
+    this.commands.push({ op: 'drawParticles', emitterId: emitter.id, count, ...state });
+  }
+
+  drawImage(
+    image: BackendImage,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void {
+    this.commands.push({
+      op: 'drawImage',
+      image,
+      source: { x: sx, y: sy, width: sw, height: sh },
+      dest: { x: dx, y: dy, width: dw, height: dh },
+      ...this.snapshot(),
+    });
+  }
+
+  invalidateImage(): void {}
+
+  filterCanvas(filter: string): void {
+    if (filter === 'none') return;
+    this.commands.push({ op: 'filterCanvas', filter, ...this.snapshot() });
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: string): void {
+    this.commands.push({ op: 'fillRect', rect: { x, y, width: w, height: h }, color, ...this.snapshot() });
+  }
+
+  drawText(text: string, x: number, y: number, style: TextStyle): TextMetrics {
+    this.commands.push({ op: 'drawText', text, x, y, style: { ...style }, ...this.snapshot() });
+    return this.measureText(text, style);
+  }
+
+  /** 近似测量（每个字符宽度按字号的0.6倍，中日韩字符按1倍） */
+  measureText(text: string, style: TextStyle): TextMetrics {
+    const fontSize = style.fontSize ?? 16;
+    const lineHeight = style.lineHeight ?? fontSize * 1.2;
+    const measure = (line: string) => Array.from(line)
+      .reduce((width, char) => width + (char.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6), 0);
+    const lines = layoutText(text, measure, style.maxWidth);
+    const width = lines.reduce((max, line) => Math.max(max, measure(line)), 0);
+    return { lines, width, height: lines.length * lineHeight, lineHeight };
+  }
+
+  destroy(): void {
+    this.commands = [];
+    this.stack = [];
+  }
+
+  private snapshot(): RecordedState {
+    const { transform, alpha, blendMode, clip } = this.state;
+    return { transform: { ...transform }, alpha, blendMode, clip: clip ? { ...clip } : null };
+  }
+}
+
+export { RecordingBackend };
+export type { RenderCommand, RecordedEntity, RecordedState };
@@ -1,4 +1,52 @@
 import { PlayerStateType } from "../entities/Player/player.type";
+import type { ProfilerReport } from "../loop/profiler";
+import type { Viewport, Vec2, ViewRect } from "../camera/camera";
+import type { RenderLayer } from "./layers";
+import { AssetManager } from "../assets/assets";
+import type { BitmapFont, TextStyle, TextMetrics } from "./text";
+import type { ShapeType, FillStyle, StrokeStyle, ArcOptions } from "./shapes";
+import { toColorGradeFilter } from "./filters";
+import type { EntityFilter, PostProcessEffect } from "./filters";
+import type { ParticleEmitter } from "../particles/particles";
+import { drawTile } from "../tilemap/tilemap";
+import type { TileLayer } from "../tilemap/tilemap";
+import { StaticCache } from "./cache";
+import type { Transform2D } from "./cache";
+import { RESIZE_POLICIES, computeResize } from "./resize";
+import type { ResizeOptions, ResizeEvent } from "./resize";
+import type { RenderBackend, RenderBackendType, RenderBackendFactory, RenderBackendContext } from "./backend";
+import { Canvas2DBackend } from "./canvas2d";
+import { WebGL2Backend } from "./webgl2";
+import { RecordingBackend } from "./recording";
+import { FrameCapture } from "./capture";
+import type { ScreenshotOptions, RecordingOptions } from "./capture";
+import type { DebugCommand } from "./debug";
+
+/** 单位矩阵（按后备缓冲区像素原样拷贝离屏缓存时使用） */
+const IDENTITY_TRANSFORM: Transform2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * 创建无DOM环境下的占位画布（只保存尺寸，不可获取绘制上下文）
+ * 供无画布模式的录制/自定义后端使用，使Renderer可在Node测试与服务端运行
+ */
+function createHeadlessCanvas(): HTMLCanvasElement {
+  return { width: 300, height: 150, style: {} } as unknown as HTMLCanvasElement;
+}
+
+/**
+ * 精灵帧：图集图片中的子区域（像素坐标）
+ * 裁剪过透明边的帧通过offset/source描述其在原始尺寸中的位置
+ */
+type SpriteFrame = {
+  x: number; // 子区域X坐标
+  y: number; // 子区域Y坐标
+  w: number; // 子区域宽度
+  h: number; // 子区域高度
+  offsetX?: number; // 裁剪后区域在原始帧中的X偏移（默认0）
+  offsetY?: number; // 裁剪后区域在原始帧中的Y偏移（默认0）
+  sourceW?: number; // 原始帧宽度（默认等于w）
+  sourceH?: number; // 原始帧高度（默认等于h）
+};
 
 /**
  * 通用实体渲染接口（支持多种实体类型，不局限于Player）
@@ -12,53 +60,128 @@ interface RenderableEntity {
   color?: string; // 兼容旧版属性（优先级低于background）
   opacity?: number; // 透明度（0-1，默认1）
   rotation?: number; // 旋转角度（弧度，默认0）
-  border?: {
-    width: number; // 边框宽度
-    color: string; // 边框颜色
-  }; // 边框样式（可选）
-  shape?: 'rect' | 'circle'; // 形状（默认矩形）
+  border?: StrokeStyle; // 边框/描边样式（宽度、颜色、虚线、线帽，可选）
+  shape?: ShapeType; // 形状（默认矩形）
+  fill?: FillStyle; // 填充样式（颜色/线性渐变/径向渐变/图案，优先于background）
+  points?: Vec2[]; // polygon/polyline顶点（局部坐标，以location为原点）
+  cornerRadius?: number | number[]; // roundRect圆角半径
+  arc?: ArcOptions; // arc参数（起止角度、方向、扇形/弓形/开放）
+  path?: string; // path的SVG路径数据（局部坐标）
   imageSrc?: string; // 图片资源路径（优先于背景色绘制）
+  frame?: SpriteFrame; // 当前精灵帧（仅绘制imageSrc中的该子区域，通常由Animator写入）
+  text?: string; // 文本内容（在实体区域内绘制，绘制于背景/图片之上）
+  textStyle?: TextStyle; // 文本样式（未指定maxWidth时按实体宽度换行）
+  filter?: EntityFilter[]; // 滤镜（模糊、亮度、灰度、着色、投影，按顺序叠加）
+  blendMode?: GlobalCompositeOperation; // 与下方已绘制内容的混合模式（默认source-over）
+  zIndex?: number; // 层内绘制顺序（越大越靠上，默认0）
+  layer?: string; // 所属渲染层名称（默认"default"层）
+  isStatic?: boolean; // 是否为静态实体（由Scene自动烘焙到离屏缓存，外观变化时重新烘焙）
+  renderVersion?: number; // 外观版本号（外观变化时递增，静态缓存据此判断是否重新烘焙；缺省时比较外观签名）
+  previousLocation?: [x: number, y: number]; // 上一逻辑步的位置（用于固定步长模式下的渲染插值）
+  previousRotation?: number; // 上一逻辑步的旋转角度（用于渲染插值）
 }
 
 /**
  * 渲染模块
- * 负责游戏画面的绘制与Canvas管理，支持多种实体类型和绘制样式
+ * 负责Canvas管理（尺寸、缩放策略）、资源、分层/视口/缓存调度，实际绘制委托给渲染后端：
+ * canvas2d（默认）、webgl2（批处理，适合大量实体）或recording（录制绘制命令，用于测试）
  */
 class Renderer {
   // 核心属性
-  private canvas: HTMLCanvasElement; // Canvas元素（非空，构造函数确保初始化）
-  private ctx: CanvasRenderingContext2D; // 2D渲染上下文（非空）
-  private width: number; // 画布实际宽度（与canvas像素宽一致）
-  private height: number; // 画布实际高度（与canvas像素高一致）
+  private canvas: HTMLCanvasElement; // Canvas元素（非空，构造函数确保初始化；无画布模式下为占位画布）
+  private readonly headless: boolean; // 是否为无画布模式（不访问DOM，不跟随窗口尺寸与设备像素比）
+  private backend: RenderBackend; // 渲染后端（所有绘制的出口）
+  private width: number; // 画布逻辑宽度（绘制坐标范围，后备缓冲区按设备像素比放大）
+  private height: number; // 画布逻辑高度
   private offscreenCanvas?: HTMLCanvasElement; // 离屏Canvas（用于缓存静态资源）
-  private offscreenCtx?: CanvasRenderingContext2D | null; // 离屏渲染上下文
+  private offscreenBackend?: Canvas2DBackend; // 离屏Canvas的绘制后端（始终为Canvas2D）
+  private offscreenDirty: boolean = false; // 离屏Canvas自上次拷贝后是否有新绘制
+  public readonly assets: AssetManager; // 图片资源缓存（drawEntity同步读取，未就绪时绘制占位图）
+  private bitmapFonts = new Map<string, BitmapFont>(); // 已注册的位图字体
+  private viewportBaseTransform?: Transform2D; // 进入视口时（应用相机变换前）的变换矩阵，供分层视差重新应用相机
+  private viewportAlpha: number = 1; // 当前视口相机的插值系数（分层视差重新应用相机时沿用）
+  private staticCaches = new Map<string, StaticCache>(); // 静态实体缓存（按缓存键）
+  private bakeBackends = new WeakMap<HTMLCanvasElement, Canvas2DBackend>(); // 静态缓存Canvas的烘焙后端
+  private chunkVersions = new WeakMap<HTMLCanvasElement, number>(); // 图块区块已提交给后端的版本（变化时通知后端重新上传）
+  private resizeOptions!: ResizeOptions; // 当前缩放策略
+  private resizeState!: ResizeEvent; // 当前尺寸状态
+  private resizeListeners = new Set<(event: ResizeEvent) => void>(); // 尺寸变化监听
+  private resizeTeardowns: Array<() => void> = []; // 缩放策略绑定的监听移除函数
+  private removePixelRatioWatcher?: () => void; // 设备像素比监听移除函数
+  private capture: FrameCapture; // 截图与录像
 
   /**
    * 初始化渲染器
-   * @param canvasId Canvas元素ID
-   * @throws {Error} 当Canvas元素不存在或不支持2D渲染时抛出错误
+   * @param canvasId Canvas元素ID（传null为无画布模式：不访问DOM，仅支持recording或自定义后端，逻辑尺寸默认300x150，可通过setResizePolicy修改）
+   * @param assets 资源管理器（可选，多个渲染器可共享同一缓存；默认新建）
+   * @param backend 渲染后端类型或自定义后端工厂（默认canvas2d；webgl2不可用时回退为canvas2d）
+   * @throws {Error} 当Canvas元素不存在或不支持2D渲染、无画布模式使用了需要画布的后端时抛出错误
    */
-  constructor(canvasId: string) {
-    // 获取Canvas元素并校验
-    const canvas = document.getElementById(canvasId) as HTMLCanvasElement | null;
+  constructor(
+    canvasId: string | null,
+    assets: AssetManager = new AssetManager(),
+    backend: RenderBackendType | RenderBackendFactory = 'canvas2d'
+  ) {
+    // 获取Canvas元素并校验（无画布模式使用占位画布）
+    this.headless = canvasId === null;
+    if (this.headless && backend !== 'recording' && typeof backend !== 'function') {
+      throw new Error(`[Renderer] 无画布模式仅支持recording后端或自定义后端`);
+    }
+    const canvas = canvasId === null ? createHeadlessCanvas() : document.getElementById(canvasId) as HTMLCanvasElement | null;
     if (!canvas) {
       throw new Error(`Renderer初始化失败：未找到ID为"${canvasId}"的Canvas元素`);
     }
     this.canvas = canvas;
+    this.assets = assets;
 
-    // 获取2D渲染上下文并校验
-    const ctx = this.canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Renderer初始化失败：当前环境不支持Canvas 2D渲染上下文');
-    }
-    this.ctx = ctx;
+    // 创建渲染后端（同一Canvas只能获取一种上下文）
+    this.backend = this.createBackend(backend);
+    this.capture = new FrameCapture(this.canvas, () => this.backend.endFrame());
 
     // 初始化尺寸（以Canvas元素的实际像素宽高为准）
     this.width = this.canvas.width;
     this.height = this.canvas.height;
 
-    // 初始化离屏Canvas（用于缓存静态资源，提升性能）
-    this.initOffscreenCanvas();
+    // 初始化离屏Canvas（用于缓存静态资源，提升性能；无画布模式下不创建，离屏绘制直接输出到后端）
+    if (!this.headless) this.initOffscreenCanvas();
+
+    // 默认固定逻辑尺寸，后备缓冲区按设备像素比放大（HiDPI屏幕下清晰）
+    this.setResizePolicy({ policy: 'fixed', width: this.width, height: this.height });
+  }
+
+  /**
+   * 创建渲染后端（内部方法）
+   */
+  private createBackend(backend: RenderBackendType | RenderBackendFactory): RenderBackend {
+    const context = this.createBackendContext(this.canvas);
+    if (typeof backend === 'function') return backend(context);
+    switch (backend) {
+      case 'webgl2':
+        try {
+          return new WebGL2Backend(context);
+        } catch (error) {
+          console.warn('[Renderer] WebGL2后端不可用，回退为Canvas2D：', error);
+          return this.createCanvas2DBackend(context);
+        }
+      case 'recording':
+        return new RecordingBackend();
+      case 'canvas2d':
+        return this.createCanvas2DBackend(context);
+      default:
+        throw new Error(`[Renderer] 未知的渲染后端"${backend}"，可选：canvas2d/webgl2/recording`);
+    }
+  }
+
+  private createCanvas2DBackend(context: RenderBackendContext): Canvas2DBackend {
+    try {
+      return new Canvas2DBackend(context);
+    } catch {
+      throw new Error('Renderer初始化失败：当前环境不支持Canvas 2D渲染上下文');
+    }
+  }
+
+  private createBackendContext(canvas: HTMLCanvasElement): RenderBackendContext {
+    return { canvas, assets: this.assets, getBitmapFont: (name) => this.bitmapFonts.get(name) };
   }
 
   /**
@@ -68,7 +191,79 @@ class Renderer {
     this.offscreenCanvas = document.createElement('canvas');
     this.offscreenCanvas.width = this.width;
     this.offscreenCanvas.height = this.height;
-    this.offscreenCtx = this.offscreenCanvas.getContext('2d');
+    try {
+      this.offscreenBackend = new Canvas2DBackend(this.createBackendContext(this.offscreenCanvas));
+    } catch {
+      this.offscreenBackend = undefined;
+    }
+  }
+
+  /**
+   * 获取离屏或主画布的绘制后端（内部方法）
+   */
+  private getTarget(useOffscreen: boolean): RenderBackend {
+    if (useOffscreen && this.offscreenBackend) {
+      this.offscreenDirty = true;
+      return this.offscreenBackend;
+    }
+    return this.backend;
+  }
+
+  /**
+   * 帧开始（Scene在每次渲染前调用）
+   */
+  beginFrame(): void {
+    this.backend.beginFrame();
+  }
+
+  /**
+   * 帧结束：批处理后端在此提交剩余绘制（Scene在每次渲染后调用；
+   * 直接使用Renderer绘制时可省略，WebGL2后端会在当前任务结束前自动提交）
+   */
+  endFrame(): void {
+    this.backend.endFrame();
+    this.capture.handleFrameEnd();
+  }
+
+  /**
+   * 截图（默认PNG）
+   * 默认包含overlay阶段的绘制；excludeOverlay为true时等待下一帧，取场景绘制完成（endFrame）时的画面
+   * @param options 截图选项
+   * @returns 图片Blob（后备缓冲区像素尺寸）
+   */
+  captureScreenshot(options: ScreenshotOptions = {}): Promise<Blob> {
+    return this.capture.screenshot(options);
+  }
+
+  /**
+   * 开始录像（MediaRecorder，默认WebM）
+   * @param options 录像选项
+   * @throws {Error} 已在录制或当前环境不支持MediaRecorder时抛出错误
+   */
+  startRecording(options: RecordingOptions = {}): void {
+    this.capture.startRecording(options);
+  }
+
+  /**
+   * 停止录像
+   * @returns 录像Blob（未在录制时返回被拒绝的Promise）
+   */
+  stopRecording(): Promise<Blob> {
+    return this.capture.stopRecording();
+  }
+
+  /**
+   * 是否正在录像
+   */
+  isRecording(): boolean {
+    return this.capture.isRecording();
+  }
+
+  /**
+   * 获取当前渲染后端（如录制后端的getCommands）
+   */
+  getBackend(): RenderBackend {
+    return this.backend;
   }
 
   /**
@@ -77,200 +272,624 @@ class Renderer {
    * @param useOffscreen 是否清理离屏Canvas（默认false）
    */
   clear(backgroundColor: string = '#ffffff', useOffscreen: boolean = false): void {
-    const targetCtx = useOffscreen && this.offscreenCtx ? this.offscreenCtx : this.ctx;
+    this.getTarget(useOffscreen).clear(backgroundColor);
+  }
+
+  /**
+   * 进入视口绘制：裁剪到视口区域并应用相机变换，之后的绘制均使用世界坐标
+   * 必须与endViewport成对调用
+   * @param viewport 视口（区域 + 相机）
+   * @param parallax 视差系数（默认[1, 1]）
+   * @param alpha 插值系数（默认1；相机在上一逻辑步与当前状态之间插值，与实体插值一致）
+   */
+  beginViewport(viewport: Viewport, parallax: Vec2 = [1, 1], alpha: number = 1): void {
+    const rect = viewport.getRect();
+    const { backend } = this;
+    backend.save();
+    // 裁剪到视口区域
+    backend.clipRect(rect);
+    // 视口背景
+    if (viewport.background) {
+      backend.fillRect(rect.x, rect.y, rect.width, rect.height, viewport.background);
+    }
+    this.viewportBaseTransform = backend.getTransform();
+    this.viewportAlpha = alpha;
+    viewport.camera.applyTransform(backend, rect, parallax, alpha);
+  }
+
+  /**
+   * 退出视口绘制（恢复beginViewport之前的绘制状态）
+   */
+  endViewport(): void {
+    this.viewportBaseTransform = undefined;
+    this.viewportAlpha = 1;
+    this.backend.restore();
+  }
+
+  /**
+   * 进入渲染层绘制：叠加层透明度，在视口内按层视差系数重新应用相机变换
+   * 必须与endLayer成对调用；在视口中使用时需位于beginViewport/endViewport之间
+   * @param layer 渲染层
+   * @param viewport 当前视口（可选，不传时不处理视差）
+   */
+  beginLayer(layer: RenderLayer, viewport?: Viewport): void {
+    const { backend } = this;
+    backend.save();
+    backend.multiplyAlpha(layer.opacity);
+    const [px, py] = layer.parallax;
+    if (viewport && this.viewportBaseTransform && (px !== 1 || py !== 1)) {
+      backend.setTransform(this.viewportBaseTransform);
+      viewport.camera.applyTransform(backend, viewport.getRect(), layer.parallax, this.viewportAlpha);
+    }
+  }
 
-    // 保存当前上下文状态（避免影响后续绘制）
-    targetCtx.save();
-    // 清屏（覆盖整个画布）
-    targetCtx.fillStyle = backgroundColor;
-    targetCtx.fillRect(0, 0, this.width, this.height);
-    // 恢复上下文状态
-    targetCtx.restore();
+  /**
+   * 退出渲染层绘制（恢复beginLayer之前的绘制状态）
+   */
+  endLayer(): void {
+    this.backend.restore();
   }
 
   /**
    * 绘制单个实体（支持多种样式和形状）
    * @param entity 待绘制的实体（支持RenderableEntity或PlayerStateType）
    * @param useOffscreen 是否绘制到离屏Canvas（默认false，用于缓存）
+   * @param alpha 插值系数（0-1，默认1；小于1时在previousLocation与location之间插值绘制）
    */
   drawEntity(
     entity: RenderableEntity | PlayerStateType,
-    useOffscreen: boolean = false
+    useOffscreen: boolean = false,
+    alpha: number = 1
   ): void {
-    const ctx = useOffscreen && this.offscreenCtx ? this.offscreenCtx : this.ctx;
-
     // 校验实体必要属性（避免绘制错误）
     if (!this.validateEntity(entity)) {
       console.warn(`跳过无效实体绘制（ID: ${(entity as any).id || '未知'}）`);
       return;
     }
 
-    // 解析实体属性
-    const {
-      location: [x, y],
-      size: [w, h],
-      background =  '#ff0000', // 兼容旧版color属性
-      opacity = 1,
-      rotation = 0,
-      border,
-      shape = 'rect',
-      imageSrc
-    } = entity as RenderableEntity;
-
-    // 保存当前上下文状态（避免旋转/透明度影响其他绘制）
-    ctx.save();
-
-    // 应用透明度
-    ctx.globalAlpha = Math.max(0, Math.min(1, opacity)); // 限制在0-1之间
-
-    // 平移到实体中心点（用于旋转）
-    ctx.translate(x + w / 2, y + h / 2);
-    // 应用旋转
-    ctx.rotate(rotation);
-    // 平移回原位置（抵消中心点平移）
-    ctx.translate(-(x + w / 2), -(y + h / 2));
-
-    // 优先绘制图片（如果有图片资源）
-    if (imageSrc) {
-      this.drawImage(ctx, imageSrc, x, y, w, h);
-    } else {
-      // 根据形状绘制实体
-      switch (shape) {
-        case 'rect':
-          this.drawRect(ctx, x, y, w, h, background, border);
-          break;
-        case 'circle':
-          this.drawCircle(ctx, x + w / 2, y + h / 2, w / 2, background, border); // 以宽为直径
-          break;
+    this.getTarget(useOffscreen).drawEntity(entity as RenderableEntity, alpha);
+  }
+
+  /**
+   * 绘制一组静态实体（按世界坐标烘焙到离屏缓存后，经当前变换整体拷贝）
+   * 缓存与相机、视差无关，仅在实体组成或外观版本（renderVersion）变化、图片加载完成、
+   * 视口尺寸或设备像素比变化时重新烘焙；静态实体不做插值，按当前位置烘焙。
+   * 后端不使用缓存（录制后端）或存在无法估算范围的实体（SVG路径）时逐个绘制
+   * @param key 缓存键（同一组实体每帧使用相同的键）
+   * @param entities 实体数组（按绘制顺序）
+   */
+  drawStaticEntities(key: string, entities: (RenderableEntity | PlayerStateType)[]): void {
+    const valid = entities.filter(entity => this.validateEntity(entity)) as RenderableEntity[];
+    const { backend } = this;
+    if (!backend.cacheable) {
+      valid.forEach(entity => backend.drawEntity(entity, 1));
+      return;
+    }
+    const imageStatus = (src: string) => this.assets.getStatus(src);
+    const resolution = Math.max(this.canvas.width / this.width, this.canvas.height / this.height);
+
+    let cache = this.staticCaches.get(key);
+    if (!cache) {
+      cache = new StaticCache();
+      this.staticCaches.set(key, cache);
+    }
+    if (!cache.isValid(valid, resolution, imageStatus)) {
+      const transform = cache.prepare(valid, resolution, imageStatus);
+      if (!transform) {
+        valid.forEach(entity => backend.drawEntity(entity, 1));
+        return;
       }
+      const cacheCanvas = cache.getCanvas()!;
+      let bake = this.bakeBackends.get(cacheCanvas);
+      if (!bake) {
+        bake = new Canvas2DBackend(this.createBackendContext(cacheCanvas));
+        this.bakeBackends.set(cacheCanvas, bake);
+      }
+      bake.setTransform(transform);
+      valid.forEach(entity => bake!.drawEntity(entity, 1));
+      backend.invalidateImage(cacheCanvas);
+    }
+
+    const canvas = cache.getCanvas();
+    const bounds = cache.getBounds();
+    if (!canvas || !bounds) return;
+    // 缓存按世界坐标烘焙，经当前变换（相机、视差）绘制到烘焙范围
+    backend.drawImage(canvas, 0, 0, canvas.width, canvas.height, bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+
+  /**
+   * 释放静态缓存
+   * @param key 缓存键（不传则释放全部）
+   */
+  releaseStaticCache(key?: string): void {
+    if (key === undefined) {
+      this.staticCaches.forEach(cache => cache.release());
+      this.staticCaches.clear();
+      return;
     }
+    this.staticCaches.get(key)?.release();
+    this.staticCaches.delete(key);
+  }
+
+  /**
+   * 获取当前持有的静态缓存键
+   */
+  getStaticCacheKeys(): string[] {
+    return Array.from(this.staticCaches.keys());
+  }
 
-    // 恢复上下文状态
-    ctx.restore();
+  /**
+   * 进入局部重绘：之后的绘制（包括clear）仅作用于该区域
+   * 必须与endClip成对调用
+   * @param rect 画布逻辑坐标区域
+   */
+  beginClip(rect: ViewRect): void {
+    this.backend.save();
+    this.backend.clipRect(rect);
+  }
+
+  /**
+   * 退出局部重绘
+   */
+  endClip(): void {
+    this.backend.restore();
   }
 
   /**
    * 批量绘制实体（优化性能，减少上下文切换）
    * @param entities 实体数组
+   * @param alpha 插值系数（0-1，默认1）
    */
-  drawEntities(entities: (RenderableEntity | PlayerStateType)[]): void {
+  drawEntities(entities: (RenderableEntity | PlayerStateType)[], alpha: number = 1): void {
     // 批量绘制前保存一次状态
-    this.ctx.save();
-    entities.forEach(entity => this.drawEntity(entity));
+    this.backend.save();
+    entities.forEach(entity => this.drawEntity(entity, false, alpha));
     // 批量绘制后恢复一次状态
-    this.ctx.restore();
+    this.backend.restore();
   }
 
   /**
-   * 绘制矩形（内部工具方法）
+   * 批量绘制发射器的所有粒子（Canvas2D单次save/restore；WebGL2合并为一个批次）
+   * @param emitter 粒子发射器
+   * @param alpha 插值系数（0-1，默认1）
    */
-  private drawRect(
-    ctx: CanvasRenderingContext2D,
-    x: number,
-    y: number,
-    w: number,
-    h: number,
-    fillColor: string,
-    border?: { width: number; color: string }
-  ): void {
-    // 绘制填充
-    ctx.fillStyle = fillColor;
-    ctx.fillRect(x, y, w, h);
-
-    // 绘制边框（如果有）
-    if (border && border?.width > 0 && border.color) {
-      ctx.strokeStyle = border.color;
-      ctx.lineWidth = border.width;
-      ctx.strokeRect(x, y, w, h);
-    }
+  drawParticles(emitter: ParticleEmitter, alpha: number = 1): void {
+    this.backend.drawParticles(emitter, alpha);
   }
 
   /**
-   * 绘制圆形（内部工具方法）
+   * 绘制图块层：只绘制与画布可见区域相交的区块（区块静态内容缓存在离屏Canvas中），动画图块每帧单独绘制
+   * 可见区域由当前变换矩阵反算，自动适配视口相机、缩放、旋转与分层视差
+   * @param layer 图块层
    */
-  private drawCircle(
-    ctx: CanvasRenderingContext2D,
-    cx: number,
-    cy: number,
-    radius: number,
-    fillColor: string,
-    border?: { width: number; color: string }
-  ): void {
-    ctx.beginPath();
-    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
-
-    // 绘制填充
-    ctx.fillStyle = fillColor;
-    ctx.fill();
-
-    // 绘制边框（如果有）
-    if (border && border?.width > 0 && border.color) {
-      ctx.strokeStyle = border.color;
-      ctx.lineWidth = border.width;
-      ctx.stroke();
-    }
+  drawTileLayer(layer: TileLayer): void {
+    if (!layer.visible || layer.opacity <= 0) return;
+    const { backend } = this;
+    const { map } = layer;
+    const chunkW = map.tileWidth * map.chunkSize;
+    const chunkH = map.tileHeight * map.chunkSize;
+
+    // 画布四角反算到图层坐标，得到可见范围
+    const { a, b, c, d, e, f } = backend.getTransform();
+    const det = a * d - b * c;
+    if (det === 0) return;
+    const corners = [[0, 0], [this.canvas.width, 0], [0, this.canvas.height], [this.canvas.width, this.canvas.height]]
+      .map(([cx, cy]) => ({
+        x: (d * (cx - e) - c * (cy - f)) / det,
+        y: (a * (cy - f) - b * (cx - e)) / det,
+      }));
+    const bounds = {
+      minX: Math.min(...corners.map(p => p.x)),
+      minY: Math.min(...corners.map(p => p.y)),
+      maxX: Math.max(...corners.map(p => p.x)),
+      maxY: Math.max(...corners.map(p => p.y)),
+    };
+    const placeholder = this.assets.getPlaceholder();
+    const getImage = (src: string) => {
+      const image = this.assets.getImage(src);
+      return image === placeholder ? undefined : image;
+    };
+
+    backend.save();
+    backend.multiplyAlpha(layer.opacity);
+    const [ox, oy] = layer.offset;
+    layer.getVisibleChunks(bounds).forEach(([col, row]) => {
+      const chunk = layer.getChunk(col, row, getImage);
+      const { canvas } = chunk;
+      if (canvas) {
+        // 区块重建后通知后端（纹理类后端需重新上传）
+        if (this.chunkVersions.get(canvas) !== chunk.version) {
+          backend.invalidateImage(canvas);
+          this.chunkVersions.set(canvas, chunk.version);
+        }
+        backend.drawImage(canvas, 0, 0, canvas.width, canvas.height, ox + col * chunkW, oy + row * chunkH, canvas.width, canvas.height);
+      }
+      chunk.animated.forEach(tile => {
+        const info = map.getDrawInfo(tile.gid);
+        const image = info ? getImage(info.image) : undefined;
+        if (!info || !image) return;
+        drawTile(backend, image, info.frame, tile.gid, ox + tile.col * map.tileWidth, oy + tile.row * map.tileHeight, map.tileHeight);
+      });
+    });
+    backend.restore();
   }
 
   /**
-   * 绘制图片（内部工具方法，支持自动加载图片）
+   * 注册位图字体（TextStyle.bitmapFont引用此名称）
+   * @param name 字体名称
+   * @param font 位图字体
    */
-  private drawImage(
-    ctx: CanvasRenderingContext2D,
-    src: string,
-    x: number,
-    y: number,
-    w: number,
-    h: number
-  ): void {
-    const img = new Image();
-    img.src = src;
-    // 图片加载完成后绘制
-    img.onload = () => ctx.drawImage(img, x, y, w, h);
-    // 图片加载失败时 fallback 到矩形
-    img.onerror = () => {
-      console.warn(`图片加载失败：${src}，将使用默认矩形绘制`);
-      this.drawRect(ctx, x, y, w, h, '#cccccc'); // 灰色占位
-    };
+  registerBitmapFont(name: string, font: BitmapFont): void {
+    if (!name) throw new Error('[Renderer] 位图字体名称不能为空');
+    this.bitmapFonts.set(name, font);
+  }
+
+  /**
+   * 测量文本（含自动换行）
+   * @param text 文本内容
+   * @param style 文本样式
+   */
+  measureText(text: string, style: TextStyle = {}): TextMetrics {
+    return this.backend.measureText(text, style);
+  }
+
+  /**
+   * 绘制文本（支持自动换行、对齐、描边、阴影与位图字体）
+   * @param text 文本内容（\n强制换行）
+   * @param x 锚点X坐标（按align对齐）
+   * @param y 锚点Y坐标（按verticalAlign对齐）
+   * @param style 文本样式
+   * @param useOffscreen 是否绘制到离屏Canvas（默认false）
+   * @returns 文本测量结果
+   */
+  drawText(text: string, x: number, y: number, style: TextStyle = {}, useOffscreen: boolean = false): TextMetrics {
+    return this.getTarget(useOffscreen).drawText(text, x, y, style);
   }
 
   /**
    * 从离屏Canvas绘制缓存内容到主Canvas（用于静态资源复用）
    */
   drawOffscreenCache(): void {
-    if (this.offscreenCanvas) {
-      this.ctx.drawImage(this.offscreenCanvas, 0, 0);
+    const canvas = this.offscreenCanvas;
+    if (!canvas) return;
+    if (this.offscreenDirty) {
+      this.backend.invalidateImage(canvas);
+      this.offscreenDirty = false;
     }
+    // 离屏Canvas与主Canvas的后备缓冲区等大，按像素原样拷贝
+    this.backend.save();
+    this.backend.setTransform(IDENTITY_TRANSFORM);
+    this.backend.drawImage(canvas, 0, 0, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    this.backend.restore();
   }
 
   /**
-   * 调整Canvas尺寸（支持响应式）
-   * @param width 新宽度（像素）
-   * @param height 新高度（像素）
-   * @param scaleWithWindow 是否跟随窗口大小调整（默认false）
+   * 绘制性能分析面板（通常在GameLoop的overlay阶段调用）
+   * 包含帧率、帧耗时曲线（超出预算标红）、掉帧数与耗时最高的回调
+   * @param report 性能分析报告（GameLoop.getProfiler().getReport()）
+   * @param options 面板位置与显示的回调数量
    */
-  resize(width: number, height: number, scaleWithWindow: boolean = false): void {
-    // 更新Canvas像素尺寸
-    this.canvas.width = width;
-    this.canvas.height = height;
-    this.width = width;
-    this.height = height;
+  drawProfilerOverlay(
+    report: ProfilerReport,
+    options: { x?: number; y?: number; width?: number; topCallbacks?: number } = {}
+  ): void {
+    const { x = 10, y = 10, width = 240, topCallbacks = 5 } = options;
+    const lineHeight = 14;
+    const graphHeight = 40;
+    const callbacks = report.callbacks.slice(0, topCallbacks);
+    const height = 8 + lineHeight * 2 + graphHeight + 8 + lineHeight * callbacks.length + 8;
+    const { backend } = this;
+    const textStyle: TextStyle = { font: '12px monospace', color: '#ffffff' };
+
+    backend.save();
+    // 面板背景
+    backend.save();
+    backend.multiplyAlpha(0.75);
+    backend.fillRect(x, y, width, height, '#000000');
+    backend.restore();
+
+    // 概要信息
+    const { frameTime } = report;
+    backend.drawText(`FPS ${report.fps}  dropped ${report.droppedFrames}  spikes ${report.spikes.length}`, x + 6, y + 6, textStyle);
+    backend.drawText(
+      `frame ${frameTime.last.toFixed(2)}ms (avg ${frameTime.avg.toFixed(2)} / max ${frameTime.max.toFixed(2)})`,
+      x + 6,
+      y + 6 + lineHeight,
+      textStyle
+    );
 
-    // 更新离屏Canvas尺寸
-    if (this.offscreenCanvas) {
-      this.offscreenCanvas.width = width;
-      this.offscreenCanvas.height = height;
+    // 帧耗时曲线（以2倍帧预算为满刻度，超出预算标红）
+    const graphY = y + 8 + lineHeight * 2;
+    const history = frameTime.history;
+    const barWidth = history.length > 0 ? (width - 12) / history.length : 0;
+    const scale = graphHeight / (report.budget * 2);
+    history.forEach((value, index) => {
+      const barHeight = Math.min(graphHeight, value * scale);
+      backend.fillRect(
+        x + 6 + index * barWidth,
+        graphY + graphHeight - barHeight,
+        Math.max(1, barWidth - 1),
+        barHeight,
+        value > report.budget ? '#ef4444' : '#22c55e'
+      );
+    });
+    // 帧预算参考线
+    backend.fillRect(x + 6, graphY + graphHeight - report.budget * scale, width - 12, 1, '#facc15');
+
+    // 耗时最高的回调
+    callbacks.forEach((stats, index) => {
+      backend.drawText(
+        `${stats.phase}:${stats.name} ${stats.avg.toFixed(2)}/${stats.max.toFixed(2)}ms`,
+        x + 6,
+        graphY + graphHeight + 8 + index * lineHeight,
+        textStyle
+      );
+    });
+    backend.restore();
+  }
+
+  /**
+   * 绘制调试图形（线宽、点大小与文字不随相机缩放变化）
+   * @param commands 调试绘制命令（由DebugDraw生成）
+   * @param viewport 世界坐标命令所在的视口（不传时按画布坐标绘制；不会重绘视口背景）
+   * @param alpha 视口相机的插值系数（默认1）
+   */
+  drawDebugOverlay(commands: readonly DebugCommand[], viewport?: Viewport, alpha: number = 1): void {
+    if (commands.length === 0) return;
+    const { backend } = this;
+    backend.save();
+    if (viewport) {
+      const rect = viewport.getRect();
+      backend.clipRect(rect);
+      viewport.camera.applyTransform(backend, rect, [1, 1], alpha);
     }
+    // 当前坐标下1个画布逻辑像素对应的长度
+    const { a, b, c, d } = backend.getTransform();
+    const baseScale = Math.sqrt((this.resizeState.pixelWidth / this.width) * (this.resizeState.pixelHeight / this.height));
+    const unit = baseScale / (Math.sqrt(Math.abs(a * d - b * c)) || 1);
+    commands.forEach(command => {
+      switch (command.type) {
+        case 'line': {
+          if (command.points.length < 2) return;
+          const [ox, oy] = command.points[0];
+          // 以起点为实体位置，形状只与相对坐标有关（WebGL2后端可复用光栅化缓存）
+          backend.drawEntity({
+            id: 'debug',
+            location: [ox, oy],
+            size: [1, 1],
+            shape: 'polyline',
+            points: command.points.map(([px, py]) => [px - ox, py - oy]),
+            border: { width: command.width * unit, color: command.color },
+          }, 1);
+          break;
+        }
+        case 'point': {
+          const size = command.size * unit;
+          backend.fillRect(command.at[0] - size / 2, command.at[1] - size / 2, size, size, command.color);
+          break;
+        }
+        case 'text':
+          backend.save();
+          backend.translate(command.at[0], command.at[1]);
+          backend.scale(unit, unit);
+          backend.drawText(command.text, 0, 0, { font: '12px monospace', color: command.color });
+          backend.restore();
+          break;
+      }
+    });
+    backend.restore();
+  }
+
+  /**
+   * 应用场景后处理（在整帧内容绘制完成后调用，按数组顺序依次应用，受当前裁剪影响）
+   * 暗角与淡入淡出为覆盖在画面上的绘制，调色对画布已有内容整体应用滤镜
+   * @param effects 后处理效果列表
+   */
+  applyPostProcess(effects: readonly PostProcessEffect[]): void {
+    const { backend } = this;
+    const { width, height, pixelWidth, pixelHeight } = this.resizeState;
+    backend.save();
+    // 以逻辑坐标覆盖整个画布，不受视口/相机残留变换影响
+    backend.setTransform({ a: pixelWidth / width, b: 0, c: 0, d: pixelHeight / height, e: 0, f: 0 });
+    effects.forEach(effect => {
+      switch (effect.type) {
+        case 'vignette': {
+          const { strength = 0.5, radius = 0.6, color = '#000000' } = effect;
+          if (strength <= 0) return;
+          const outer = Math.hypot(width, height) / 2;
+          backend.save();
+          backend.multiplyAlpha(Math.min(1, strength));
+          backend.drawEntity({
+            id: 'post-vignette',
+            location: [0, 0],
+            size: [width, height],
+            fill: {
+              type: 'radial',
+              from: [width / 2, height / 2],
+              fromRadius: outer * Math.max(0, Math.min(1, radius)),
+              to: [width / 2, height / 2],
+              toRadius: outer,
+              stops: [[0, 'rgba(0, 0, 0, 0)'], [1, color]],
+            },
+          }, 1);
+          backend.restore();
+          break;
+        }
+        case 'colorGrade':
+          backend.filterCanvas(toColorGradeFilter(effect));
+          break;
+        case 'fade':
+          if (effect.amount <= 0) return;
+          backend.save();
+          backend.multiplyAlpha(Math.min(1, effect.amount));
+          backend.fillRect(0, 0, width, height, effect.color);
+          backend.restore();
+          break;
+      }
+    });
+    backend.restore();
+  }
 
-    // 如果需要跟随窗口大小，监听resize事件
+  /**
+   * 调整Canvas尺寸（兼容旧接口）
+   * @param width 新逻辑宽度
+   * @param height 新逻辑高度
+   * @param scaleWithWindow 是否跟随窗口大小调整（默认false；为true时等同于fill策略，逻辑尺寸取窗口尺寸）
+   */
+  resize(width: number, height: number, scaleWithWindow: boolean = false): void {
     if (scaleWithWindow) {
-      window.addEventListener('resize', () => {
-        this.resize(window.innerWidth, window.innerHeight);
-      });
+      this.setResizePolicy({ policy: 'fill', container: window });
+    } else {
+      this.setResizePolicy({ policy: 'fixed', width, height });
+    }
+  }
+
+  /**
+   * 设置画布缩放策略（替换之前的策略，旧策略的监听会被移除）
+   * 后备缓冲区按设备像素比放大，绘制坐标始终为逻辑坐标
+   * 无画布模式下不监听窗口，容器尺寸视为设计分辨率，设备像素比默认1
+   * @param options 策略、设计分辨率、设备像素比、参照容器
+   * @throws {Error} 策略未知或尺寸、像素比不合法时抛出错误
+   */
+  setResizePolicy(options: ResizeOptions): void {
+    const { policy, width = this.width, height = this.height, pixelRatio } = options;
+    if (!RESIZE_POLICIES.includes(policy)) {
+      throw new Error(`[Renderer] 未知的缩放策略"${policy}"，可选：${RESIZE_POLICIES.join('/')}`);
+    }
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('[Renderer] 逻辑宽高必须是正数');
+    }
+    if (pixelRatio !== undefined && !(pixelRatio > 0)) {
+      throw new Error('[Renderer] 设备像素比必须是正数');
+    }
+
+    this.teardownResize();
+    this.resizeOptions = { ...options, width, height };
+
+    // 跟随容器尺寸（元素容器优先使用ResizeObserver）
+    if (policy !== 'fixed' && !this.headless) {
+      const container = options.container ?? window;
+      const handler = () => this.applyResizePolicy();
+      if (container instanceof Window || typeof ResizeObserver === 'undefined') {
+        window.addEventListener('resize', handler);
+        this.resizeTeardowns.push(() => window.removeEventListener('resize', handler));
+      } else {
+        const observer = new ResizeObserver(handler);
+        observer.observe(container);
+        this.resizeTeardowns.push(() => observer.disconnect());
+      }
+    }
+    if (pixelRatio === undefined && !this.headless) this.watchPixelRatio();
+
+    this.applyResizePolicy();
+  }
+
+  /**
+   * 监听尺寸变化（策略生效、容器缩放、设备像素比变化时触发）
+   * @param listener 监听函数
+   * @returns 取消监听的函数
+   */
+  onResize(listener: (event: ResizeEvent) => void): () => void {
+    this.resizeListeners.add(listener);
+    return () => this.resizeListeners.delete(listener);
+  }
+
+  /**
+   * 获取当前尺寸状态（逻辑尺寸、像素尺寸、显示尺寸、缩放与设备像素比）
+   */
+  getResizeState(): ResizeEvent {
+    return { ...this.resizeState };
+  }
+
+  /**
+   * 销毁渲染器：移除缩放与设备像素比监听，释放缓存
+   * （组件卸载/游戏结束时调用，避免内存泄漏）
+   */
+  destroy(): void {
+    this.teardownResize();
+    this.resizeListeners.clear();
+    this.releaseStaticCache();
+    this.capture.destroy();
+    this.backend.destroy();
+    this.offscreenBackend?.destroy();
+  }
+
+  /**
+   * 按当前策略重新计算尺寸并同步后备缓冲区、离屏Canvas与基础变换（内部方法）
+   */
+  private applyResizePolicy(): void {
+    const { policy, width = this.width, height = this.height, pixelRatio } = this.resizeOptions;
+    const next = this.headless
+      ? computeResize(policy, { width, height }, { width, height }, pixelRatio ?? 1)
+      : computeResize(policy, { width, height }, this.getContainerSize(), pixelRatio ?? (window.devicePixelRatio || 1));
+    // 容器不可见（尺寸为0）时保持原尺寸
+    if (!next) return;
+    const prev = this.resizeState;
+    if (prev && (Object.keys(next) as (keyof ResizeEvent)[]).every(key => next[key] === prev[key])) return;
+
+    this.width = next.width;
+    this.height = next.height;
+    this.resizeState = next;
+    // 修改canvas.width会清空画布并重置上下文状态，由后端重新设置基础变换与图像平滑
+    this.canvas.width = next.pixelWidth;
+    this.canvas.height = next.pixelHeight;
+    this.canvas.style.width = `${next.cssWidth}px`;
+    this.canvas.style.height = `${next.cssHeight}px`;
+    if (this.offscreenCanvas) {
+      this.offscreenCanvas.width = next.pixelWidth;
+      this.offscreenCanvas.height = next.pixelHeight;
     }
+    this.backend.resize(next);
+    this.offscreenBackend?.resize(next);
+
+    this.resizeListeners.forEach(listener => {
+      try {
+        listener({ ...next });
+      } catch (error) {
+        console.error('[Renderer] resize监听回调错误：', error);
+      }
+    });
+  }
+
+  /**
+   * 获取缩放策略参照容器的尺寸（内部方法）
+   */
+  private getContainerSize(): { width: number; height: number } {
+    const container = this.resizeOptions.container ?? window;
+    return container instanceof Window
+      ? { width: window.innerWidth, height: window.innerHeight }
+      : { width: container.clientWidth, height: container.clientHeight };
+  }
+
+  /**
+   * 监听设备像素比变化（matchMedia查询与当前像素比绑定，变化后需重新注册）
+   */
+  private watchPixelRatio(): void {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+    const handler = () => {
+      this.removePixelRatioWatcher?.();
+      this.watchPixelRatio();
+      this.applyResizePolicy();
+    };
+    query.addEventListener('change', handler);
+    this.removePixelRatioWatcher = () => {
+      query.removeEventListener('change', handler);
+      this.removePixelRatioWatcher = undefined;
+    };
+  }
+
+  /**
+   * 移除当前缩放策略绑定的所有监听
+   */
+  private teardownResize(): void {
+    this.resizeTeardowns.forEach(teardown => teardown());
+    this.resizeTeardowns = [];
+    this.removePixelRatioWatcher?.();
   }
 
   /**
-   * 获取当前Canvas尺寸
+   * 获取当前逻辑尺寸
    * @returns 包含width和height的尺寸对象
    */
   getSize(): { width: number; height: number } {
@@ -309,4 +928,4 @@ class Renderer {
 }
 
 export { Renderer };
-export type {RenderableEntity};
\ No newline at end of file
+export type {RenderableEntity, SpriteFrame};
\ No newline at end of file
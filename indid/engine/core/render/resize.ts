@@ -0,0 +1,84 @@
+/**
+ * 画布缩放策略
+ * 逻辑尺寸：游戏代码使用的坐标范围（实体位置、getSize）
+ * 像素尺寸：Canvas后备缓冲区尺寸（逻辑尺寸 × 显示缩放 × 设备像素比），保证HiDPI屏幕下清晰
+ */
+
+/** 支持的缩放策略 */
+const RESIZE_POLICIES = ['fixed', 'fit', 'fill', 'integer'] as const;
+/**
+ * fixed：固定逻辑尺寸，按1:1显示
+ * fit：固定逻辑尺寸，保持宽高比缩放到容器内（居中留边由容器样式负责，如flex居中）
+ * fill：逻辑尺寸跟随容器尺寸
+ * integer：固定逻辑尺寸，按设备像素的整数倍缩放（像素风格，关闭图像平滑）
+ */
+type ResizePolicy = typeof RESIZE_POLICIES[number];
+
+/** 缩放策略配置 */
+type ResizeOptions = {
+  policy: ResizePolicy;
+  width?: number; // 逻辑宽度（fixed/fit/integer的设计分辨率，默认当前逻辑宽度）
+  height?: number; // 逻辑高度（默认当前逻辑高度）
+  pixelRatio?: number; // 设备像素比（默认window.devicePixelRatio，并跟随其变化，如窗口拖到另一块屏幕）
+  container?: HTMLElement | Window; // fit/fill/integer参照的容器（默认window）
+};
+
+/** 尺寸变化事件（Input可据此将鼠标/触摸坐标换算为逻辑坐标） */
+type ResizeEvent = {
+  policy: ResizePolicy;
+  width: number; // 逻辑宽度
+  height: number; // 逻辑高度
+  pixelWidth: number; // 后备缓冲区宽度（canvas.width）
+  pixelHeight: number; // 后备缓冲区高度（canvas.height）
+  cssWidth: number; // 显示宽度（CSS像素）
+  cssHeight: number; // 显示高度（CSS像素）
+  scale: number; // 显示缩放（CSS像素 / 逻辑单位）
+  pixelRatio: number; // 设备像素比
+};
+
+/**
+ * 按策略计算画布尺寸
+ * @param policy 缩放策略
+ * @param design 设计分辨率（逻辑尺寸）
+ * @param container 容器尺寸（CSS像素）
+ * @param pixelRatio 设备像素比
+ * @returns 尺寸结果；容器尺寸为0（如被隐藏）时返回null
+ */
+function computeResize(
+  policy: ResizePolicy,
+  design: { width: number; height: number },
+  container: { width: number; height: number },
+  pixelRatio: number
+): ResizeEvent | null {
+  let width = design.width;
+  let height = design.height;
+  let scale = 1;
+  switch (policy) {
+    case 'fill':
+      width = Math.floor(container.width);
+      height = Math.floor(container.height);
+      break;
+    case 'fit':
+      scale = Math.min(container.width / width, container.height / height);
+      break;
+    case 'integer':
+      // 以设备像素取整，保证每个逻辑像素对应整数个物理像素
+      scale = Math.max(1, Math.floor(Math.min(container.width * pixelRatio / width, container.height * pixelRatio / height))) / pixelRatio;
+      break;
+  }
+  if (!(width > 0) || !(height > 0) || !(scale > 0)) return null;
+  return {
+    policy,
+    width,
+    height,
+    pixelWidth: Math.max(1, Math.round(width * scale * pixelRatio)),
+    pixelHeight: Math.max(1, Math.round(height * scale * pixelRatio)),
+    cssWidth: width * scale,
+    cssHeight: height * scale,
+    scale,
+    pixelRatio,
+  };
+}
+
+export { RESIZE_POLICIES, computeResize };
+export type { ResizePolicy, ResizeOptions, ResizeEvent };
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { traceShape, isFillStyle } from './shapes';
+import type { ShapeGeometry } from './shapes';
+
+/** 记录路径调用的上下文（角度保留两位小数） */
+function createContext(): { ctx: CanvasRenderingContext2D; calls: string[] } {
+  const calls: string[] = [];
+  const ctx = new Proxy({}, {
+    get: (_target, name) => (...args: unknown[]) => {
+      calls.push(`${String(name)}(${args.map(arg => (typeof arg === 'number' ? +arg.toFixed(2) : JSON.stringify(arg))).join(',')})`);
+    },
+  }) as CanvasRenderingContext2D;
+  return { ctx, calls };
+}
+
+function trace(geometry: ShapeGeometry, w: number = 40, h: number = 20): { fillable: boolean; calls: string[] } {
+  const { ctx, calls } = createContext();
+  const fillable = traceShape(ctx, geometry, w, h);
+  return { fillable, calls };
+}
+
+describe('traceShape', () => {
+  it('矩形、圆、椭圆与圆角矩形按实体尺寸构建闭合路径', () => {
+    expect(trace({})).toEqual({ fillable: true, calls: ['rect(0,0,40,20)'] });
+    expect(trace({ shape: 'circle' }).calls).toEqual(['arc(20,10,20,0,6.28)']);
+    expect(trace({ shape: 'ellipse' }).calls).toEqual(['ellipse(20,10,20,10,0,0,6.28)']);
+    // 默认圆角为短边的10%
+    expect(trace({ shape: 'roundRect' }).calls).toEqual(['roundRect(0,0,40,20,2)']);
+    expect(trace({ shape: 'roundRect', cornerRadius: [1, 2, 3, 4] }).calls).toEqual(['roundRect(0,0,40,20,[1,2,3,4])']);
+  });
+
+  it('多边形闭合可填充，折线只描边', () => {
+    const points: [number, number][] = [[0, 0], [10, 0], [5, 8]];
+    expect(trace({ shape: 'polygon', points })).toEqual({
+      fillable: true,
+      calls: ['moveTo(0,0)', 'lineTo(10,0)', 'lineTo(5,8)', 'closePath()'],
+    });
+    expect(trace({ shape: 'polyline', points })).toEqual({
+      fillable: false,
+      calls: ['moveTo(0,0)', 'lineTo(10,0)', 'lineTo(5,8)'],
+    });
+    expect(trace({ shape: 'polygon' }).calls).toEqual(['closePath()']);
+  });
+
+  it('圆弧按模式构建扇形、弓形或开放弧线，半径为短边一半', () => {
+    const arc = { startAngle: 0, endAngle: Math.PI / 2 };
+    expect(trace({ shape: 'arc', arc })).toEqual({
+      fillable: true,
+      calls: ['moveTo(20,10)', 'arc(20,10,10,0,1.57,false)', 'closePath()'],
+    });
+    expect(trace({ shape: 'arc', arc: { ...arc, mode: 'chord', counterclockwise: true } }).calls)
+      .toEqual(['arc(20,10,10,0,1.57,true)', 'closePath()']);
+    expect(trace({ shape: 'arc', arc: { ...arc, mode: 'open' } })).toEqual({
+      fillable: false,
+      calls: ['arc(20,10,10,0,1.57,false)'],
+    });
+    // 未指定参数时为整圆扇形
+    expect(trace({ shape: 'arc' }).calls).toEqual(['moveTo(20,10)', 'arc(20,10,10,0,6.28,false)', 'closePath()']);
+  });
+
+  it('SVG路径由Renderer通过Path2D绘制，不写入路径', () => {
+    expect(trace({ shape: 'path', path: 'M0 0 L10 10' })).toEqual({ fillable: true, calls: [] });
+  });
+});
+
+describe('isFillStyle', () => {
+  it('接受CSS颜色、渐变与图案，拒绝缺字段或越界色标', () => {
+    expect(isFillStyle('#fff')).toBe(true);
+    expect(isFillStyle({ type: 'linear', from: [0, 0], to: [10, 0], stops: [[0, 'red'], [1, 'blue']] })).toBe(true);
+    expect(isFillStyle({ type: 'radial', from: [5, 5], fromRadius: 0, to: [5, 5], toRadius: 5, stops: [] })).toBe(true);
+    expect(isFillStyle({ type: 'pattern', image: 'bricks.png' })).toBe(true);
+
+    expect(isFillStyle(null)).toBe(false);
+    expect(isFillStyle({ type: 'linear', from: [0, 0], to: [10], stops: [] })).toBe(false);
+    expect(isFillStyle({ type: 'linear', from: [0, 0], to: [10, 0], stops: [[1.5, 'red']] })).toBe(false);
+    expect(isFillStyle({ type: 'radial', from: [0, 0], to: [0, 0], toRadius: 5, stops: [] })).toBe(false);
+    expect(isFillStyle({ type: 'conic' })).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * 形状与填充样式定义
+ * 所有几何坐标均为实体局部坐标（以实体location为原点，单位像素），
+ * 绘制时由Renderer平移到实体位置，因此实体移动/旋转时无需重新计算顶点与渐变
+ */
+import type { Vec2 } from "../camera/camera";
+
+/** 支持的形状类型 */
+const SHAPE_TYPES = ['rect', 'circle', 'ellipse', 'roundRect', 'polygon', 'polyline', 'arc', 'path'] as const;
+type ShapeType = typeof SHAPE_TYPES[number];
+
+/** 渐变色标：[位置(0-1), 颜色] */
+type GradientStop = [offset: number, color: string];
+
+/** 线性渐变 */
+type LinearGradientFill = {
+  type: 'linear';
+  from: Vec2; // 起点（局部坐标）
+  to: Vec2; // 终点（局部坐标）
+  stops: GradientStop[];
+};
+
+/** 径向渐变 */
+type RadialGradientFill = {
+  type: 'radial';
+  from: Vec2; // 内圆圆心（局部坐标）
+  fromRadius: number; // 内圆半径
+  to: Vec2; // 外圆圆心（局部坐标）
+  toRadius: number; // 外圆半径
+  stops: GradientStop[];
+};
+
+/** 图案填充 */
+type PatternFill = {
+  type: 'pattern';
+  image: string; // 图案图片（资源键或路径，需由AssetManager加载）
+  repeat?: 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat'; // 平铺方式（默认repeat）
+};
+
+/** 填充样式：CSS颜色或渐变/图案 */
+type FillStyle = string | LinearGradientFill | RadialGradientFill | PatternFill;
+
+/** 描边样式（兼容旧版border的width/color） */
+type StrokeStyle = {
+  width: number; // 线宽
+  color: string; // 颜色
+  dash?: number[]; // 虚线模式（如[6, 4]）
+  dashOffset?: number; // 虚线偏移
+  lineCap?: CanvasLineCap; // 线帽（butt/round/square）
+  lineJoin?: CanvasLineJoin; // 拐角（miter/round/bevel）
+};
+
+/** 圆弧参数 */
+type ArcOptions = {
+  startAngle: number; // 起始角度（弧度）
+  endAngle: number; // 结束角度（弧度）
+  counterclockwise?: boolean; // 是否逆时针
+  mode?: 'pie' | 'chord' | 'open'; // 扇形/弓形/开放弧线（默认pie，open仅描边）
+};
+
+/** 形状几何参数（由实体提供） */
+type ShapeGeometry = {
+  shape?: ShapeType;
+  points?: Vec2[]; // polygon/polyline顶点（局部坐标）
+  cornerRadius?: number | number[]; // roundRect圆角半径（单值或[左上, 右上, 右下, 左下]）
+  arc?: ArcOptions; // arc参数（圆心为实体中心，半径为短边一半）
+  path?: string; // path的SVG路径数据（局部坐标）
+};
+
+/**
+ * 在上下文中构建形状路径（局部坐标，调用方负责beginPath与平移）
+ * @param ctx 渲染上下文
+ * @param geometry 形状几何参数
+ * @param w 实体宽度
+ * @param h 实体高度
+ * @returns 是否为可填充的闭合形状（polyline与开放圆弧仅描边）
+ */
+function traceShape(ctx: CanvasRenderingContext2D, geometry: ShapeGeometry, w: number, h: number): boolean {
+  switch (geometry.shape ?? 'rect') {
+    case 'rect':
+      ctx.rect(0, 0, w, h);
+      return true;
+    case 'circle':
+      ctx.arc(w / 2, h / 2, w / 2, 0, Math.PI * 2); // 以宽为直径
+      return true;
+    case 'ellipse':
+      ctx.ellipse(w / 2, h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+      return true;
+    case 'roundRect':
+      ctx.roundRect(0, 0, w, h, geometry.cornerRadius ?? Math.min(w, h) * 0.1);
+      return true;
+    case 'polygon':
+    case 'polyline': {
+      const points = geometry.points ?? [];
+      points.forEach(([px, py], index) => (index === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+      if (geometry.shape === 'polygon') {
+        ctx.closePath();
+        return true;
+      }
+      return false;
+    }
+    case 'arc': {
+      const { startAngle, endAngle, counterclockwise = false, mode = 'pie' } = geometry.arc ?? { startAngle: 0, endAngle: Math.PI * 2 };
+      const cx = w / 2;
+      const cy = h / 2;
+      if (mode === 'pie') ctx.moveTo(cx, cy);
+      ctx.arc(cx, cy, Math.min(w, h) / 2, startAngle, endAngle, counterclockwise);
+      if (mode === 'open') return false;
+      ctx.closePath();
+      return true;
+    }
+    case 'path':
+      // SVG路径由Path2D绘制，见Renderer
+      return true;
+  }
+}
+
+/**
+ * 校验填充样式（供Player校验器使用）
+ */
+function isFillStyle(value: unknown): value is FillStyle {
+  if (typeof value === 'string') return true;
+  if (typeof value !== 'object' || value === null) return false;
+  const fill = value as Record<string, unknown>;
+  const isVec2 = (v: unknown) => Array.isArray(v) && v.length === 2 && typeof v[0] === 'number' && typeof v[1] === 'number';
+  const hasStops = Array.isArray(fill.stops) && fill.stops.every(stop =>
+    Array.isArray(stop) && typeof stop[0] === 'number' && stop[0] >= 0 && stop[0] <= 1 && typeof stop[1] === 'string');
+  switch (fill.type) {
+    case 'linear':
+      return isVec2(fill.from) && isVec2(fill.to) && hasStops;
+    case 'radial':
+      return isVec2(fill.from) && isVec2(fill.to) && typeof fill.fromRadius === 'number' &&
+        typeof fill.toRadius === 'number' && hasStops;
+    case 'pattern':
+      return typeof fill.image === 'string';
+    default:
+      return false;
+  }
+}
+
+export { SHAPE_TYPES, traceShape, isFillStyle };
+export type {
+  ShapeType,
+  ShapeGeometry,
+  FillStyle,
+  StrokeStyle,
+  GradientStop,
+  LinearGradientFill,
+  RadialGradientFill,
+  PatternFill,
+  ArcOptions,
+};
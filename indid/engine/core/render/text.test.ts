@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { BitmapFont, layoutText } from './text';
+import { RecordingBackend } from './recording';
+
+/** 每个字符宽10像素 */
+const measure = (line: string) => Array.from(line).length * 10;
+
+describe('layoutText 换行排版', () => {
+  it('未指定最大宽度时只按\\n换行', () => {
+    expect(layoutText('a long line\nnext', measure)).toEqual(['a long line', 'next']);
+    expect(layoutText('a long line', measure, 0)).toEqual(['a long line']);
+  });
+
+  it('英文按单词换行，丢弃行尾空白并保留空段落', () => {
+    expect(layoutText('the quick brown fox', measure, 100)).toEqual(['the quick', 'brown fox']);
+    expect(layoutText('abcdefghij klm', measure, 100)).toEqual(['abcdefghij', 'klm']);
+    expect(layoutText('a\n\nb', measure, 100)).toEqual(['a', '', 'b']);
+  });
+
+  it('超过行宽的单词逐字符断开', () => {
+    expect(layoutText('abcdefghijklmnopqrstuvwxy', measure, 100)).toEqual(['abcdefghij', 'klmnopqrst', 'uvwxy']);
+    expect(layoutText('hi abcdefghijkl', measure, 100)).toEqual(['hi', 'abcdefghij', 'kl']);
+  });
+
+  it('中日韩文字与全角标点可在任意字符间断行', () => {
+    expect(layoutText('你好世界你好', measure, 40)).toEqual(['你好世界', '你好']);
+    expect(layoutText('你好，世界。', measure, 30)).toEqual(['你好，', '世界。']);
+    expect(layoutText('我爱TypeScript', measure, 50)).toEqual(['我爱', 'TypeS', 'cript']);
+  });
+
+  it('行宽小于单个字符时每行至少保留一个字符', () => {
+    expect(layoutText('ab 你', measure, 5)).toEqual(['a', 'b', '你']);
+  });
+});
+
+describe('BitmapFont', () => {
+  it('等宽网格按行优先排列字形，缺失字符按空格宽度前进', () => {
+    const font = BitmapFont.fromGrid('font.png', 'AB C', 8, 10, 2);
+    expect(font.getGlyph('C')).toEqual({ x: 8, y: 10, w: 8, h: 10, xOffset: 0, yOffset: 0, xAdvance: 8 });
+    expect(font.size).toBe(10);
+    expect(font.measure('AB')).toBe(16);
+    expect(font.measure('AZ')).toBe(16);
+    expect(layoutText('AB CA BC', line => font.measure(line), 24)).toEqual(['AB', 'CA', 'BC']);
+    expect(() => BitmapFont.fromGrid('font.png', 'A', 8, 10, 0)).toThrow('[BitmapFont]');
+  });
+
+  it('BMFont按字距调整测量，无空格字形时缺失字符按半个字号前进', () => {
+    const font = BitmapFont.fromBMFont({
+      info: { size: 32 },
+      common: { lineHeight: 36 },
+      chars: [
+        { id: 65, x: 0, y: 0, width: 20, height: 30, xoffset: 1, yoffset: 2, xadvance: 20 },
+        { id: 86, x: 20, y: 0, width: 18, height: 30, xoffset: 0, yoffset: 2, xadvance: 18 },
+      ],
+      kernings: [{ first: 65, second: 86, amount: -3 }],
+    }, 'font.png');
+    expect([font.size, font.lineHeight]).toEqual([32, 36]);
+    expect(font.measure('AV')).toBe(35);
+    expect(font.measure('VA')).toBe(38);
+    expect(font.measure('AX')).toBe(36);
+    expect(() => BitmapFont.fromBMFont({ common: { lineHeight: 10 } } as never, 'font.png')).toThrow('缺少chars或common字段');
+  });
+});
+
+describe('文本测量', () => {
+  it('按换行结果计算最宽行宽度与总高度', () => {
+    const backend = new RecordingBackend();
+    // 记录后端按字号的0.6倍近似字符宽度
+    expect(backend.measureText('hello world', { fontSize: 10, maxWidth: 40, lineHeight: 12 })).toEqual({
+      lines: ['hello', 'world'], width: 30, height: 24, lineHeight: 12,
+    });
+    expect(backend.measureText('你好\nhi', { fontSize: 10 })).toEqual({ lines: ['你好', 'hi'], width: 20, height: 24, lineHeight: 12 });
+  });
+});
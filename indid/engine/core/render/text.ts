@@ -0,0 +1,201 @@
+/**
+ * 文本渲染模块
+ * TextStyle：文本样式（字体、对齐、换行、描边、阴影、位图字体）
+ * BitmapFont：基于字形图集的位图字体（支持BMFont JSON或等宽网格）
+ * layoutText：按最大宽度自动换行（英文按单词、中日韩文字按字符断行）
+ */
+
+/** 文本样式 */
+type TextStyle = {
+  font?: string; // 完整CSS字体（如"bold 16px sans-serif"，优先于fontSize/fontFamily）
+  fontSize?: number; // 字号（像素，默认16；位图字体按此缩放）
+  fontFamily?: string; // 字体族（默认sans-serif）
+  color?: string; // 文字颜色（默认#ffffff）
+  align?: 'left' | 'center' | 'right'; // 水平对齐（默认left）
+  verticalAlign?: 'top' | 'middle' | 'bottom'; // 垂直对齐（相对整段文本，默认top）
+  lineHeight?: number; // 行高（像素，默认字号的1.2倍）
+  maxWidth?: number; // 最大行宽（超出时自动换行，不传则仅按\n换行）
+  outline?: { width: number; color: string }; // 描边
+  shadow?: { color: string; blur?: number; offsetX?: number; offsetY?: number }; // 阴影
+  bitmapFont?: string; // 位图字体名称（需通过Renderer.registerBitmapFont注册）
+};
+
+/** 文本测量结果 */
+type TextMetrics = {
+  lines: string[]; // 换行后的各行文本
+  width: number; // 最宽行宽度
+  height: number; // 总高度（行数 × 行高）
+  lineHeight: number; // 行高
+};
+
+/** 位图字形 */
+type Glyph = {
+  x: number; // 字形在图集中的X坐标
+  y: number; // 字形在图集中的Y坐标
+  w: number; // 字形宽度
+  h: number; // 字形高度
+  xOffset: number; // 绘制时的X偏移
+  yOffset: number; // 绘制时的Y偏移（相对行顶部）
+  xAdvance: number; // 光标前进距离
+};
+
+/** BMFont导出的JSON结构（常见工具如Hiero、bmfont-generator） */
+type BMFontData = {
+  info?: { size?: number };
+  common: { lineHeight: number };
+  chars: Array<{ id: number; x: number; y: number; width: number; height: number; xoffset: number; yoffset: number; xadvance: number }>;
+  kernings?: Array<{ first: number; second: number; amount: number }>;
+};
+
+/** 中日韩字符与全角标点（可在任意字符间断行） */
+const CJK_PATTERN = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF\u3000-\u303F]/;
+const TOKEN_PATTERN = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF\u3000-\u303F]|[^\s\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF\u3000-\u303F]+|\s+/g;
+
+class BitmapFont {
+  public readonly image: string; // 字形图集（资源键或路径）
+  public readonly size: number; // 原始字号（用于按fontSize缩放）
+  public readonly lineHeight: number; // 原始行高
+  private glyphs = new Map<string, Glyph>(); // 字符 -> 字形
+  private kernings = new Map<string, number>(); // "前字符|后字符" -> 间距调整
+
+  /**
+   * @param image 字形图集（资源键或路径，需由AssetManager加载）
+   * @param size 原始字号
+   * @param lineHeight 原始行高
+   */
+  constructor(image: string, size: number, lineHeight: number = size) {
+    if (!image) throw new Error('[BitmapFont] 字形图集不能为空');
+    if (size <= 0 || lineHeight <= 0) throw new Error('[BitmapFont] 字号与行高必须是正数');
+    this.image = image;
+    this.size = size;
+    this.lineHeight = lineHeight;
+  }
+
+  /**
+   * 从BMFont JSON创建位图字体
+   * @param data 已解析的JSON对象
+   * @param image 字形图集（资源键或路径）
+   */
+  static fromBMFont(data: BMFontData, image: string): BitmapFont {
+    if (!data || !Array.isArray(data.chars) || !data.common) {
+      throw new Error('[BitmapFont] BMFont JSON缺少chars或common字段');
+    }
+    const font = new BitmapFont(image, data.info?.size ?? data.common.lineHeight, data.common.lineHeight);
+    data.chars.forEach(c => font.addGlyph(String.fromCodePoint(c.id), {
+      x: c.x, y: c.y, w: c.width, h: c.height, xOffset: c.xoffset, yOffset: c.yoffset, xAdvance: c.xadvance,
+    }));
+    data.kernings?.forEach(k => font.kernings.set(`${String.fromCodePoint(k.first)}|${String.fromCodePoint(k.second)}`, k.amount));
+    return font;
+  }
+
+  /**
+   * 从等宽网格图集创建位图字体（字符按行优先顺序排列）
+   * @param image 字形图集（资源键或路径）
+   * @param chars 图集中的字符序列
+   * @param cellWidth 单元格宽度
+   * @param cellHeight 单元格高度
+   * @param columns 每行单元格数
+   */
+  static fromGrid(image: string, chars: string, cellWidth: number, cellHeight: number, columns: number): BitmapFont {
+    if (cellWidth <= 0 || cellHeight <= 0 || columns <= 0) {
+      throw new Error('[BitmapFont] 单元格尺寸与列数必须是正数');
+    }
+    const font = new BitmapFont(image, cellHeight);
+    Array.from(chars).forEach((char, index) => font.addGlyph(char, {
+      x: (index % columns) * cellWidth,
+      y: Math.floor(index / columns) * cellHeight,
+      w: cellWidth,
+      h: cellHeight,
+      xOffset: 0,
+      yOffset: 0,
+      xAdvance: cellWidth,
+    }));
+    return font;
+  }
+
+  /**
+   * 添加（或覆盖）字形
+   * @param char 字符
+   * @param glyph 字形数据
+   */
+  addGlyph(char: string, glyph: Glyph): void {
+    this.glyphs.set(char, { ...glyph });
+  }
+
+  /** 获取字形（缺失字符返回undefined） */
+  getGlyph(char: string): Glyph | undefined {
+    return this.glyphs.get(char);
+  }
+
+  /** 获取两字符间的间距调整 */
+  getKerning(first: string, second: string): number {
+    return this.kernings.get(`${first}|${second}`) ?? 0;
+  }
+
+  /**
+   * 测量单行文本宽度（原始字号下）
+   * 缺失字形按空格宽度（无空格字形时为半个字号）前进
+   */
+  measure(text: string): number {
+    let width = 0;
+    let prev = '';
+    for (const char of text) {
+      width += this.#advanceOf(char) + (prev ? this.getKerning(prev, char) : 0);
+      prev = char;
+    }
+    return width;
+  }
+
+  #advanceOf(char: string): number {
+    return this.glyphs.get(char)?.xAdvance ?? this.glyphs.get(' ')?.xAdvance ?? this.size / 2;
+  }
+}
+
+/**
+ * 文本换行排版
+ * @param text 原始文本（\n强制换行）
+ * @param measure 单行宽度测量函数
+ * @param maxWidth 最大行宽（不传或<=0时不自动换行）
+ * @returns 各行文本
+ */
+function layoutText(text: string, measure: (line: string) => number, maxWidth?: number): string[] {
+  const paragraphs = text.split('\n');
+  if (!maxWidth || maxWidth <= 0) return paragraphs;
+
+  const lines: string[] = [];
+  paragraphs.forEach(paragraph => {
+    const tokens = paragraph.match(TOKEN_PATTERN) ?? [''];
+    let line = '';
+    tokens.forEach(token => {
+      const candidate = line + token;
+      if (measure(candidate) <= maxWidth || line === '') {
+        line = candidate;
+      } else if (/^\s+$/.test(token)) {
+        // 行尾空白直接丢弃
+        lines.push(line);
+        line = '';
+        return;
+      } else {
+        lines.push(line.trimEnd());
+        line = token;
+      }
+      // 单个超长单词：逐字符断开
+      if (measure(line) > maxWidth && !CJK_PATTERN.test(line) && Array.from(line).length > 1) {
+        let chunk = '';
+        for (const char of line) {
+          if (chunk !== '' && measure(chunk + char) > maxWidth) {
+            lines.push(chunk);
+            chunk = '';
+          }
+          chunk += char;
+        }
+        line = chunk;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+}
+
+export { BitmapFont, layoutText };
+export type { TextStyle, TextMetrics, Glyph, BMFontData };
@@ -0,0 +1,905 @@
+/**
+ * WebGL2渲染后端（精灵/形状批处理）
+ * 所有绘制合并为带纹理的四边形：顶点在CPU端完成变换，仅在纹理、混合模式或裁剪区域变化时提交一次drawElements
+ * 快速路径：纯色矩形（含实线边框）、无边框的圆形/椭圆、图片与精灵帧、粒子、图块区块
+ * 其他图形（渐变、图案、多边形、路径、虚线边框、文本、滤镜）由Canvas2D光栅化为纹理后按四边形绘制，按外观缓存
+ */
+import type { ViewRect } from "../camera/camera";
+import type { ParticleEmitter } from "../particles/particles";
+import type { RenderableEntity, SpriteFrame } from "./render";
+import type { TextStyle, TextMetrics } from "./text";
+import type { StrokeStyle } from "./shapes";
+import type { Transform2D } from "./cache";
+import { getFilterPadding } from "./filters";
+import type { ResizeEvent } from "./resize";
+import { interpolateLocation, interpolateRotation } from "./backend";
+import type { RenderBackend, RenderBackendContext, BackendImage } from "./backend";
+import { Canvas2DBackend } from "./canvas2d";
+
+const MAX_QUADS = 4096; // 单批最大四边形数（索引为Uint16，顶点数不超过65535）
+const VERTEX_STRIDE = 5; // 每个顶点的32位字数：x, y, u, v, color(RGBA8)
+const RASTER_CACHE_SIZE = 256; // 光栅化纹理缓存上限（LRU）
+const COLOR_CACHE_SIZE = 1024; // CSS颜色解析缓存上限
+const CIRCLE_TEXTURE_SIZE = 128; // 圆形纹理边长
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+in vec2 a_uv;
+in vec4 a_color;
+uniform vec2 u_resolution;
+out vec2 v_uv;
+out vec4 v_color;
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = a_uv;
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_texture;
+in vec2 v_uv;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  outColor = texture(u_texture, v_uv) * v_color;
+}`;
+
+/** 2D仿射矩阵（与DOMMatrix的a-f含义一致，不可变） */
+type Matrix = { a: number; b: number; c: number; d: number; e: number; f: number };
+
+/** 裁剪区域（后备缓冲区像素，左上角为原点） */
+type ScissorRect = { x: number; y: number; width: number; height: number };
+
+/** 绘制状态（save/restore的栈元素） */
+type DrawState = {
+  matrix: Matrix;
+  alpha: number;
+  blend: GlobalCompositeOperation;
+  scissor: ScissorRect | null;
+};
+
+/** 纹理 */
+type TextureEntry = {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  dirty: boolean; // 图片源内容已变化，下次使用前重新上传
+  smoothing: boolean; // 当前过滤方式（true为线性）
+};
+
+/** 光栅化纹理（bounds为相对锚点的局部区域，scale为光栅化倍率） */
+type RasterEntry = TextureEntry & { bounds: ViewRect; scale: number };
+
+/** RGBA颜色（0-1，非预乘） */
+type Rgba = [r: number, g: number, b: number, a: number];
+
+const IDENTITY: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+function translateMatrix(m: Matrix, x: number, y: number): Matrix {
+  return { ...m, e: m.e + m.a * x + m.c * y, f: m.f + m.b * x + m.d * y };
+}
+
+function rotateMatrix(m: Matrix, angle: number): Matrix {
+  if (angle === 0) return m;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    a: m.a * cos + m.c * sin,
+    b: m.b * cos + m.d * sin,
+    c: m.c * cos - m.a * sin,
+    d: m.d * cos - m.b * sin,
+    e: m.e,
+    f: m.f,
+  };
+}
+
+/** 预乘透明度后打包为RGBA8（小端序，与顶点属性UNSIGNED_BYTE×4对应） */
+function packColor([r, g, b, a]: Rgba, alpha: number): number {
+  const pa = Math.max(0, Math.min(1, a * alpha));
+  return ((Math.round(pa * 255) << 24) | (Math.round(b * pa * 255) << 16) |
+    (Math.round(g * pa * 255) << 8) | Math.round(r * pa * 255)) >>> 0;
+}
+
+function isSameScissor(a: ScissorRect | null, b: ScissorRect | null): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/** 边框是否可用四个矩形条绘制（实线且为直角拐角） */
+function isSolidBorder(border: StrokeStyle): boolean {
+  return (!border.dash || border.dash.length === 0) && (!border.lineJoin || border.lineJoin === 'miter');
+}
+
+function getImageSize(image: BackendImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+class WebGL2Backend implements RenderBackend {
+  public readonly type = 'webgl2';
+  public readonly cacheable = true;
+  private context: RenderBackendContext;
+  private gl: WebGL2RenderingContext;
+  private program!: WebGLProgram;
+  private vao!: WebGLVertexArrayObject;
+  private vertexBuffer!: WebGLBuffer;
+  private indexBuffer!: WebGLBuffer;
+  private resolutionLocation: WebGLUniformLocation | null = null;
+  private maxTextureSize: number = 4096;
+  private whiteTexture!: TextureEntry; // 1×1白色纹理（纯色填充）
+  private circleTexture!: TextureEntry; // 圆形纹理（圆形/椭圆/圆形粒子）
+
+  // 批处理
+  private vertexData = new ArrayBuffer(MAX_QUADS * 4 * VERTEX_STRIDE * 4);
+  private floats = new Float32Array(this.vertexData);
+  private colors = new Uint32Array(this.vertexData);
+  private quadCount: number = 0; // 当前批次的四边形数
+  private batchTexture: TextureEntry | null = null; // 当前批次的纹理
+  private batchBlend: GlobalCompositeOperation = 'source-over'; // 当前批次的混合模式
+  private batchScissor: ScissorRect | null = null; // 当前批次的裁剪区域
+  private flushScheduled: boolean = false; // 是否已安排微任务提交（未调用endFrame时兜底）
+
+  // 状态
+  private state: DrawState = { matrix: IDENTITY, alpha: 1, blend: 'source-over', scissor: null };
+  private stack: DrawState[] = [];
+  private smoothing: boolean = true; // 图像平滑（integer缩放策略下关闭）
+  private contextLost: boolean = false;
+
+  // 缓存
+  private textures = new WeakMap<object, TextureEntry>(); // 图片源 -> 纹理
+  private rasterCache = new Map<string, RasterEntry>(); // 外观键 -> 光栅化纹理（Map按插入顺序实现LRU）
+  private rasterCanvas: HTMLCanvasElement; // 光栅化用的临时Canvas（上传后即可复用）
+  private rasterBackend: Canvas2DBackend; // 光栅化用的Canvas2D后端
+  private colorCtx: CanvasRenderingContext2D | null; // 解析CSS颜色用的上下文
+  private colorCache = new Map<string, Rgba>(); // CSS颜色 -> RGBA
+  private warnedBlendModes = new Set<string>(); // 已提示过的不支持混合模式
+  private filterSource?: HTMLCanvasElement; // 后处理调色用的临时Canvas
+
+  /**
+   * @param context 后端上下文
+   * @throws {Error} 当前环境不支持WebGL2或着色器编译失败时抛出错误
+   */
+  constructor(context: RenderBackendContext) {
+    const gl = context.canvas.getContext('webgl2', {
+      alpha: true,
+      premultipliedAlpha: true,
+      antialias: true,
+      preserveDrawingBuffer: true, // 脏矩形重绘与截图需要保留上一帧内容
+    });
+    if (!gl) {
+      throw new Error('[WebGL2Backend] 当前环境不支持WebGL2渲染上下文');
+    }
+    this.context = context;
+    this.gl = gl;
+    this.rasterCanvas = document.createElement('canvas');
+    this.rasterBackend = new Canvas2DBackend({ ...context, canvas: this.rasterCanvas });
+    const colorCanvas = document.createElement('canvas');
+    colorCanvas.width = colorCanvas.height = 1;
+    this.colorCtx = colorCanvas.getContext('2d');
+
+    this.initResources();
+    this.applyViewport();
+    context.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    context.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+  }
+
+  resize(state: ResizeEvent): void {
+    this.flush();
+    this.stack = [];
+    this.state = {
+      matrix: { a: state.pixelWidth / state.width, b: 0, c: 0, d: state.pixelHeight / state.height, e: 0, f: 0 },
+      alpha: 1,
+      blend: 'source-over',
+      scissor: null,
+    };
+    this.smoothing = state.policy !== 'integer';
+    this.applyViewport();
+  }
+
+  beginFrame(): void {}
+
+  endFrame(): void {
+    this.flush();
+  }
+
+  clear(color: string): void {
+    if (this.contextLost) return;
+    this.flush();
+    const { gl } = this;
+    const [r, g, b, a] = this.parseColor(color);
+    gl.clearColor(r * a, g * a, b * a, a);
+    this.applyScissor(this.state.scissor);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state });
+  }
+
+  restore(): void {
+    const prev = this.stack.pop();
+    if (prev) this.state = prev;
+  }
+
+  translate(x: number, y: number): void {
+    this.state.matrix = translateMatrix(this.state.matrix, x, y);
+  }
+
+  rotate(angle: number): void {
+    this.state.matrix = rotateMatrix(this.state.matrix, angle);
+  }
+
+  scale(x: number, y: number): void {
+    const m = this.state.matrix;
+    this.state.matrix = { a: m.a * x, b: m.b * x, c: m.c * y, d: m.d * y, e: m.e, f: m.f };
+  }
+
+  getTransform(): Transform2D {
+    return { ...this.state.matrix };
+  }
+
+  setTransform(transform: Transform2D): void {
+    const { a, b, c, d, e, f } = transform;
+    this.state.matrix = { a, b, c, d, e, f };
+  }
+
+  /** 裁剪为变换后矩形的包围盒（旋转变换下为近似裁剪） */
+  clipRect(rect: ViewRect): void {
+    const m = this.state.matrix;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    [[rect.x, rect.y], [rect.x + rect.width, rect.y], [rect.x, rect.y + rect.height], [rect.x + rect.width, rect.y + rect.height]]
+      .forEach(([x, y]) => {
+        xs.push(m.a * x + m.c * y + m.e);
+        ys.push(m.b * x + m.d * y + m.f);
+      });
+    let x0 = Math.floor(Math.min(...xs));
+    let y0 = Math.floor(Math.min(...ys));
+    let x1 = Math.ceil(Math.max(...xs));
+    let y1 = Math.ceil(Math.max(...ys));
+    const current = this.state.scissor;
+    if (current) {
+      x0 = Math.max(x0, current.x);
+      y0 = Math.max(y0, current.y);
+      x1 = Math.min(x1, current.x + current.width);
+      y1 = Math.min(y1, current.y + current.height);
+    }
+    this.state.scissor = { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+  }
+
+  multiplyAlpha(alpha: number): void {
+    this.state.alpha *= alpha;
+  }
+
+  setBlendMode(mode: GlobalCompositeOperation): void {
+    if (!this.getBlendFactors(mode)) {
+      if (!this.warnedBlendModes.has(mode)) {
+        this.warnedBlendModes.add(mode);
+        console.warn(`[WebGL2Backend] 不支持混合模式"${mode}"，将按source-over绘制`);
+      }
+      mode = 'source-over';
+    }
+    this.state.blend = mode;
+  }
+
+  drawEntity(entity: RenderableEntity, alpha: number): void {
+    if (this.contextLost) return;
+    if (entity.blendMode) {
+      this.save();
+      this.setBlendMode(entity.blendMode);
+      this.drawEntityQuads(entity, alpha);
+      this.restore();
+      return;
+    }
+    this.drawEntityQuads(entity, alpha);
+  }
+
+  /**
+   * 按快速路径或光栅化绘制实体（混合模式已由调用方设置）
+   */
+  private drawEntityQuads(entity: RenderableEntity, alpha: number): void {
+    const { size: [w, h], opacity = 1, imageSrc, shape = 'rect', border } = entity;
+    const a = this.state.alpha * Math.max(0, Math.min(1, opacity));
+    if (a <= 0) return;
+    const [x, y] = interpolateLocation(entity, alpha);
+    const rotation = interpolateRotation(entity, alpha);
+    // 绕实体中心旋转
+    const m = rotation === 0
+      ? this.state.matrix
+      : translateMatrix(rotateMatrix(translateMatrix(this.state.matrix, x + w / 2, y + h / 2), rotation), -(x + w / 2), -(y + h / 2));
+
+    if (!entity.text && !entity.filter?.length) {
+      if (imageSrc) {
+        this.drawEntityImage(m, imageSrc, x, y, w, h, a, entity.frame);
+        return;
+      }
+      const fill = entity.fill ?? entity.background ?? '#ff0000';
+      const hasBorder = !!border && border.width > 0 && !!border.color;
+      if (typeof fill === 'string' && shape === 'rect' && (!hasBorder || isSolidBorder(border!))) {
+        this.pushQuad(this.whiteTexture, m, x, y, x + w, y + h, 0, 0, 1, 1, packColor(this.parseColor(fill), a));
+        if (hasBorder) this.drawRectBorder(m, x, y, w, h, border!, a);
+        return;
+      }
+      if (typeof fill === 'string' && (shape === 'circle' || shape === 'ellipse') && !hasBorder) {
+        // 圆形以宽为直径，椭圆铺满实体区域（与Canvas2D一致）
+        const top = shape === 'circle' ? y + h / 2 - w / 2 : y;
+        const bottom = shape === 'circle' ? y + h / 2 + w / 2 : y + h;
+        this.pushQuad(this.circleTexture, m, x, top, x + w, bottom, 0, 0, 1, 1, packColor(this.parseColor(fill), a));
+        return;
+      }
+    }
+    this.drawRasterizedEntity(entity, m, x, y, w, h, a);
+  }
+
+  drawParticles(emitter: ParticleEmitter, alpha: number): void {
+    const particles = emitter.getParticles();
+    if (particles.length === 0 || this.contextLost) return;
+    this.save();
+    if (emitter.blendMode) this.setBlendMode(emitter.blendMode);
+    const base = this.state.matrix;
+    const baseAlpha = this.state.alpha;
+    const image = emitter.shape === 'image' && emitter.imageSrc ? this.context.assets.getImage(emitter.imageSrc) : undefined;
+    const texture = emitter.shape === 'circle' ? this.circleTexture : image ? this.getImageTexture(image) : this.whiteTexture;
+    const t = Math.max(0, Math.min(1, alpha));
+
+    for (const p of particles) {
+      if (p.opacity <= 0 || p.size <= 0) continue;
+      const x = p.prevX + (p.x - p.prevX) * t;
+      const y = p.prevY + (p.y - p.prevY) * t;
+      const half = p.size / 2;
+      const a = baseAlpha * p.opacity;
+      const color = image ? packColor([1, 1, 1, 1], a) : packColor(this.parseColor(p.color), a);
+      if (p.rotation !== 0 && emitter.shape !== 'circle') {
+        const m = rotateMatrix(translateMatrix(base, x, y), p.rotation);
+        this.pushQuad(texture, m, -half, -half, half, half, 0, 0, 1, 1, color);
+      } else {
+        this.pushQuad(texture, base, x - half, y - half, x + half, y + half, 0, 0, 1, 1, color);
+      }
+    }
+    this.restore();
+  }
+
+  drawImage(
+    image: BackendImage,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void {
+    if (this.contextLost) return;
+    const texture = this.getImageTexture(image);
+    if (texture.width === 0 || texture.height === 0) return;
+    this.pushQuad(
+      texture, this.state.matrix,
+      dx, dy, dx + dw, dy + dh,
+      sx / texture.width, sy / texture.height, (sx + sw) / texture.width, (sy + sh) / texture.height,
+      packColor([1, 1, 1, 1], this.state.alpha)
+    );
+  }
+
+  invalidateImage(image: BackendImage): void {
+    const entry = this.textures.get(image);
+    if (entry) entry.dirty = true;
+  }
+
+  /** 将画布内容经Canvas2D滤镜处理后以copy模式整体写回 */
+  filterCanvas(filter: string): void {
+    if (filter === 'none' || this.contextLost) return;
+    this.flush();
+    const { canvas } = this.context;
+    const source = this.filterSource ?? document.createElement('canvas');
+    this.filterSource = source;
+    source.width = canvas.width;
+    source.height = canvas.height;
+    const ctx = source.getContext('2d');
+    if (!ctx) return;
+    ctx.filter = filter;
+    ctx.drawImage(canvas, 0, 0);
+    this.invalidateImage(source);
+    const texture = this.getImageTexture(source);
+    this.save();
+    this.state.blend = 'copy';
+    this.pushQuad(texture, IDENTITY, 0, 0, canvas.width, canvas.height, 0, 0, 1, 1, packColor([1, 1, 1, 1], 1));
+    this.restore();
+    this.flush();
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: string): void {
+    if (this.contextLost) return;
+    this.pushQuad(this.whiteTexture, this.state.matrix, x, y, x + w, y + h, 0, 0, 1, 1, packColor(this.parseColor(color), this.state.alpha));
+  }
+
+  drawText(text: string, x: number, y: number, style: TextStyle): TextMetrics {
+    const metrics = this.rasterBackend.measureText(text, style);
+    if (this.contextLost || metrics.width <= 0) return metrics;
+    const { align = 'left', verticalAlign = 'top' } = style;
+    const left = align === 'center' ? -metrics.width / 2 : align === 'right' ? -metrics.width : 0;
+    const top = verticalAlign === 'middle' ? -metrics.height / 2 : verticalAlign === 'bottom' ? -metrics.height : 0;
+    const pad = 2 + this.getTextPadding(style);
+    const bounds = { x: left - pad, y: top - pad, width: metrics.width + pad * 2, height: metrics.height + pad * 2 };
+    const scale = this.getRasterScale(this.state.matrix);
+    const fontStatus = style.bitmapFont ? this.getBitmapFontStatus(style.bitmapFont) : '';
+    const key = JSON.stringify(['text', scale, text, style, fontStatus]);
+    const raster = this.getRaster(key, bounds, scale, backend => backend.drawText(text, 0, 0, style));
+    this.drawRaster(raster, this.state.matrix, x, y, this.state.alpha);
+    return metrics;
+  }
+
+  measureText(text: string, style: TextStyle): TextMetrics {
+    return this.rasterBackend.measureText(text, style);
+  }
+
+  destroy(): void {
+    this.flush();
+    const { canvas } = this.context;
+    canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    if (!this.contextLost) {
+      const { gl } = this;
+      this.rasterCache.forEach(entry => gl.deleteTexture(entry.texture));
+      gl.deleteTexture(this.whiteTexture.texture);
+      gl.deleteTexture(this.circleTexture.texture);
+      gl.deleteBuffer(this.vertexBuffer);
+      gl.deleteBuffer(this.indexBuffer);
+      gl.deleteVertexArray(this.vao);
+      gl.deleteProgram(this.program);
+    }
+    this.rasterCache.clear();
+    this.colorCache.clear();
+    this.textures = new WeakMap();
+    this.rasterBackend.destroy();
+  }
+
+  /**
+   * 提交当前批次
+   */
+  private flush(): void {
+    if (this.quadCount === 0 || !this.batchTexture) return;
+    if (this.contextLost) {
+      this.quadCount = 0;
+      return;
+    }
+    const { gl } = this;
+    gl.useProgram(this.program);
+    gl.bindVertexArray(this.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, this.floats, 0, this.quadCount * 4 * VERTEX_STRIDE);
+
+    const entry = this.batchTexture;
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    if (entry.smoothing !== this.smoothing) this.applyFilter(entry);
+
+    const [src, dst] = this.getBlendFactors(this.batchBlend)!;
+    gl.blendFunc(src, dst);
+    this.applyScissor(this.batchScissor);
+    gl.drawElements(gl.TRIANGLES, this.quadCount * 6, gl.UNSIGNED_SHORT, 0);
+    this.quadCount = 0;
+  }
+
+  /**
+   * 追加一个四边形（局部矩形经矩阵m变换到后备缓冲区像素）
+   * 纹理、混合模式或裁剪区域与当前批次不同时先提交当前批次
+   */
+  private pushQuad(
+    texture: TextureEntry,
+    m: Matrix,
+    x0: number, y0: number, x1: number, y1: number,
+    u0: number, v0: number, u1: number, v1: number,
+    color: number
+  ): void {
+    const { state } = this;
+    if (state.scissor && (state.scissor.width === 0 || state.scissor.height === 0)) return;
+    if (this.quadCount > 0 && (
+      this.quadCount >= MAX_QUADS ||
+      texture !== this.batchTexture ||
+      state.blend !== this.batchBlend ||
+      !isSameScissor(state.scissor, this.batchScissor)
+    )) {
+      this.flush();
+    }
+    this.batchTexture = texture;
+    this.batchBlend = state.blend;
+    this.batchScissor = state.scissor;
+
+    const { floats, colors } = this;
+    let i = this.quadCount * 4 * VERTEX_STRIDE;
+    const corners = [[x0, y0, u0, v0], [x1, y0, u1, v0], [x1, y1, u1, v1], [x0, y1, u0, v1]];
+    for (const [x, y, u, v] of corners) {
+      floats[i] = m.a * x + m.c * y + m.e;
+      floats[i + 1] = m.b * x + m.d * y + m.f;
+      floats[i + 2] = u;
+      floats[i + 3] = v;
+      colors[i + 4] = color;
+      i += VERTEX_STRIDE;
+    }
+    this.quadCount++;
+    this.scheduleFlush();
+  }
+
+  /**
+   * 兜底提交：未调用endFrame时（如直接使用Renderer绘制），在当前任务结束前提交剩余绘制
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      this.flush();
+    });
+  }
+
+  /**
+   * 绘制矩形实线边框（四条不重叠的矩形条，线宽以边为中心）
+   */
+  private drawRectBorder(m: Matrix, x: number, y: number, w: number, h: number, border: StrokeStyle, alpha: number): void {
+    const half = border.width / 2;
+    const color = packColor(this.parseColor(border.color), alpha);
+    const white = this.whiteTexture;
+    this.pushQuad(white, m, x - half, y - half, x + w + half, y + half, 0, 0, 1, 1, color);
+    this.pushQuad(white, m, x - half, y + h - half, x + w + half, y + h + half, 0, 0, 1, 1, color);
+    if (h > border.width) {
+      this.pushQuad(white, m, x - half, y + half, x + half, y + h - half, 0, 0, 1, 1, color);
+      this.pushQuad(white, m, x + w - half, y + half, x + w + half, y + h - half, 0, 0, 1, 1, color);
+    }
+  }
+
+  /**
+   * 绘制实体图片（未就绪时为占位图；精灵帧按原始帧尺寸缩放到实体尺寸）
+   */
+  private drawEntityImage(m: Matrix, src: string, x: number, y: number, w: number, h: number, alpha: number, frame?: SpriteFrame): void {
+    const { assets } = this.context;
+    const image = assets.getImage(src);
+    const texture = this.getImageTexture(image);
+    const color = packColor([1, 1, 1, 1], alpha);
+    if (!frame || image === assets.getPlaceholder() || texture.width === 0 || texture.height === 0) {
+      this.pushQuad(texture, m, x, y, x + w, y + h, 0, 0, 1, 1, color);
+      return;
+    }
+    const scaleX = w / (frame.sourceW ?? frame.w);
+    const scaleY = h / (frame.sourceH ?? frame.h);
+    const dx = x + (frame.offsetX ?? 0) * scaleX;
+    const dy = y + (frame.offsetY ?? 0) * scaleY;
+    this.pushQuad(
+      texture, m,
+      dx, dy, dx + frame.w * scaleX, dy + frame.h * scaleY,
+      frame.x / texture.width, frame.y / texture.height,
+      (frame.x + frame.w) / texture.width, (frame.y + frame.h) / texture.height,
+      color
+    );
+  }
+
+  /**
+   * 光栅化绘制实体：以局部坐标交给Canvas2D后端绘制到纹理，外观不变时复用
+   */
+  private drawRasterizedEntity(entity: RenderableEntity, m: Matrix, x: number, y: number, w: number, h: number, alpha: number): void {
+    const { assets } = this.context;
+    const scale = this.getRasterScale(m);
+    const fill = entity.fill;
+    const key = JSON.stringify([
+      'entity', scale, w, h, entity.shape, fill, entity.background, entity.border, entity.points, entity.cornerRadius,
+      entity.arc, entity.path, entity.imageSrc, entity.frame, entity.text, entity.textStyle, entity.filter,
+      entity.imageSrc ? assets.getStatus(entity.imageSrc) : '',
+      typeof fill === 'object' && fill.type === 'pattern' ? assets.getStatus(fill.image) : '',
+      entity.textStyle?.bitmapFont ? this.getBitmapFontStatus(entity.textStyle.bitmapFont) : '',
+    ]);
+    const local: RenderableEntity = {
+      ...entity,
+      location: [0, 0],
+      rotation: 0,
+      opacity: 1,
+      previousLocation: undefined,
+      previousRotation: undefined,
+      blendMode: undefined, // 混合模式作用于与画布的合成，而非光栅化纹理
+    };
+    const raster = this.getRaster(key, this.getLocalBounds(entity, w, h), scale, backend => backend.drawEntity(local, 1));
+    this.drawRaster(raster, m, x, y, alpha);
+  }
+
+  /**
+   * 实体的局部绘制范围（含多边形顶点、描边、滤镜外扩与文本溢出）
+   */
+  private getLocalBounds(entity: RenderableEntity, w: number, h: number): ViewRect {
+    let minX = 0;
+    let minY = 0;
+    let maxX = w;
+    let maxY = h;
+    entity.points?.forEach(([px, py]) => {
+      minX = Math.min(minX, px);
+      minY = Math.min(minY, py);
+      maxX = Math.max(maxX, px);
+      maxY = Math.max(maxY, py);
+    });
+    if (entity.text) {
+      const style = entity.textStyle ?? {};
+      const metrics = this.rasterBackend.measureText(entity.text, { ...style, maxWidth: style.maxWidth ?? w });
+      const { align = 'left', verticalAlign = 'top' } = style;
+      const left = align === 'center' ? w / 2 - metrics.width / 2 : align === 'right' ? w - metrics.width : 0;
+      const top = verticalAlign === 'middle' ? h / 2 - metrics.height / 2 : verticalAlign === 'bottom' ? h - metrics.height : 0;
+      const textPad = this.getTextPadding(style);
+      minX = Math.min(minX, left - textPad);
+      minY = Math.min(minY, top - textPad);
+      maxX = Math.max(maxX, left + metrics.width + textPad);
+      maxY = Math.max(maxY, top + metrics.height + textPad);
+    }
+    const pad = (entity.border?.width ?? 1) + getFilterPadding(entity.filter) + 2;
+    return { x: minX - pad, y: minY - pad, width: maxX - minX + pad * 2, height: maxY - minY + pad * 2 };
+  }
+
+  /** 文本描边与阴影的外扩距离 */
+  private getTextPadding(style: TextStyle): number {
+    const { outline, shadow } = style;
+    return (outline?.width ?? 0) + (shadow ? (shadow.blur ?? 0) + Math.max(Math.abs(shadow.offsetX ?? 0), Math.abs(shadow.offsetY ?? 0)) : 0);
+  }
+
+  /** 位图字体图集的加载状态（未就绪时不绘制字形，就绪后需重新光栅化） */
+  private getBitmapFontStatus(name: string): string {
+    const font = this.context.getBitmapFont(name);
+    return font ? this.context.assets.getStatus(font.image) : 'missing';
+  }
+
+  /** 光栅化倍率：取当前变换的缩放（按0.25取整以减少缓存抖动） */
+  private getRasterScale(m: Matrix): number {
+    const scale = Math.max(Math.hypot(m.a, m.b), Math.hypot(m.c, m.d));
+    return Math.min(8, Math.max(0.25, Math.ceil(scale * 4) / 4));
+  }
+
+  /**
+   * 获取光栅化纹理（按键缓存，超出上限时淘汰最久未使用的纹理）
+   * @param key 外观键
+   * @param bounds 局部绘制范围（相对锚点）
+   * @param scale 光栅化倍率
+   * @param paint 在局部坐标下绘制（锚点为原点）
+   */
+  private getRaster(key: string, bounds: ViewRect, scale: number, paint: (backend: Canvas2DBackend) => void): RasterEntry {
+    const cached = this.rasterCache.get(key);
+    if (cached) {
+      this.rasterCache.delete(key);
+      this.rasterCache.set(key, cached);
+      return cached;
+    }
+
+    const fitScale = Math.min(scale, this.maxTextureSize / Math.max(1, bounds.width), this.maxTextureSize / Math.max(1, bounds.height));
+    const canvas = this.rasterCanvas;
+    canvas.width = Math.max(1, Math.ceil(bounds.width * fitScale));
+    canvas.height = Math.max(1, Math.ceil(bounds.height * fitScale));
+    this.rasterBackend.setTransform({ a: fitScale, b: 0, c: 0, d: fitScale, e: -bounds.x * fitScale, f: -bounds.y * fitScale });
+    paint(this.rasterBackend);
+
+    const entry: RasterEntry = { ...this.createTexture(canvas), bounds, scale: fitScale };
+    this.rasterCache.set(key, entry);
+    if (this.rasterCache.size > RASTER_CACHE_SIZE) {
+      // 被淘汰的纹理可能仍在当前批次中
+      this.flush();
+      const oldest = this.rasterCache.keys().next().value!;
+      this.gl.deleteTexture(this.rasterCache.get(oldest)!.texture);
+      this.rasterCache.delete(oldest);
+    }
+    return entry;
+  }
+
+  /** 在锚点(x, y)处绘制光栅化纹理 */
+  private drawRaster(raster: RasterEntry, m: Matrix, x: number, y: number, alpha: number): void {
+    const left = x + raster.bounds.x;
+    const top = y + raster.bounds.y;
+    this.pushQuad(
+      raster, m,
+      left, top, left + raster.width / raster.scale, top + raster.height / raster.scale,
+      0, 0, 1, 1,
+      packColor([1, 1, 1, 1], alpha)
+    );
+  }
+
+  /** 获取图片源对应的纹理（首次使用或内容失效时上传） */
+  private getImageTexture(image: BackendImage): TextureEntry {
+    let entry = this.textures.get(image);
+    if (!entry) {
+      entry = this.createTexture(image);
+      this.textures.set(image, entry);
+    } else if (entry.dirty) {
+      // 当前批次可能引用旧内容，先提交再重新上传
+      this.flush();
+      this.uploadTexture(entry, image);
+    }
+    return entry;
+  }
+
+  private createTexture(source: BackendImage): TextureEntry {
+    const entry: TextureEntry = { texture: this.gl.createTexture()!, width: 0, height: 0, dirty: false, smoothing: this.smoothing };
+    this.uploadTexture(entry, source);
+    return entry;
+  }
+
+  private uploadTexture(entry: TextureEntry, source: BackendImage): void {
+    const { gl } = this;
+    const { width, height } = getImageSize(source);
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    entry.width = width;
+    entry.height = height;
+    entry.dirty = false;
+    this.applyFilter(entry);
+  }
+
+  /** 按当前图像平滑设置纹理过滤（调用方负责绑定纹理） */
+  private applyFilter(entry: TextureEntry): void {
+    const { gl } = this;
+    const filter = this.smoothing ? gl.LINEAR : gl.NEAREST;
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+    entry.smoothing = this.smoothing;
+  }
+
+  /**
+   * 解析CSS颜色（借助2D上下文规范化为#rrggbb或rgba()，结果缓存）
+   */
+  private parseColor(color: string): Rgba {
+    const cached = this.colorCache.get(color);
+    if (cached) return cached;
+    let rgba: Rgba = [0, 0, 0, 1];
+    const ctx = this.colorCtx;
+    if (ctx) {
+      ctx.fillStyle = '#000000';
+      ctx.fillStyle = color;
+      const value = String(ctx.fillStyle);
+      if (value.startsWith('#')) {
+        const n = parseInt(value.slice(1, 7), 16);
+        rgba = [(n >> 16 & 255) / 255, (n >> 8 & 255) / 255, (n & 255) / 255, 1];
+      } else {
+        const parts = value.slice(value.indexOf('(') + 1, value.indexOf(')')).split(',').map(Number);
+        rgba = [parts[0] / 255, parts[1] / 255, parts[2] / 255, parts[3] ?? 1];
+      }
+    }
+    if (this.colorCache.size >= COLOR_CACHE_SIZE) this.colorCache.clear();
+    this.colorCache.set(color, rgba);
+    return rgba;
+  }
+
+  /** 混合模式对应的混合因子（纹理与顶点颜色均为预乘透明度），不支持时返回null */
+  private getBlendFactors(mode: GlobalCompositeOperation): [src: number, dst: number] | null {
+    const { gl } = this;
+    switch (mode) {
+      case 'source-over': return [gl.ONE, gl.ONE_MINUS_SRC_ALPHA];
+      case 'lighter': return [gl.ONE, gl.ONE];
+      case 'multiply': return [gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA];
+      case 'screen': return [gl.ONE, gl.ONE_MINUS_SRC_COLOR];
+      case 'destination-over': return [gl.ONE_MINUS_DST_ALPHA, gl.ONE];
+      case 'destination-out': return [gl.ZERO, gl.ONE_MINUS_SRC_ALPHA];
+      case 'copy': return [gl.ONE, gl.ZERO];
+      default: return null;
+    }
+  }
+
+  private applyScissor(rect: ScissorRect | null): void {
+    const { gl } = this;
+    if (!rect) {
+      gl.disable(gl.SCISSOR_TEST);
+      return;
+    }
+    gl.enable(gl.SCISSOR_TEST);
+    // WebGL的裁剪区域以左下角为原点
+    gl.scissor(rect.x, this.context.canvas.height - rect.y - rect.height, rect.width, rect.height);
+  }
+
+  private applyViewport(): void {
+    if (this.contextLost) return;
+    const { gl } = this;
+    const { width, height } = this.context.canvas;
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.program);
+    gl.uniform2f(this.resolutionLocation, width, height);
+  }
+
+  /**
+   * 创建着色器、缓冲区与内置纹理（初始化及上下文恢复时调用）
+   */
+  private initResources(): void {
+    const { gl } = this;
+    this.program = this.createProgram();
+    this.resolutionLocation = gl.getUniformLocation(this.program, 'u_resolution');
+    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+
+    this.vao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.vao);
+    this.vertexBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.vertexData.byteLength, gl.DYNAMIC_DRAW);
+    const stride = VERTEX_STRIDE * 4;
+    const attributes: Array<[name: string, size: number, type: number, normalized: boolean, offset: number]> = [
+      ['a_position', 2, gl.FLOAT, false, 0],
+      ['a_uv', 2, gl.FLOAT, false, 8],
+      ['a_color', 4, gl.UNSIGNED_BYTE, true, 16],
+    ];
+    attributes.forEach(([name, size, type, normalized, offset]) => {
+      const location = gl.getAttribLocation(this.program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, type, normalized, stride, offset);
+    });
+
+    // 索引缓冲区：每个四边形两个三角形
+    const indices = new Uint16Array(MAX_QUADS * 6);
+    for (let i = 0; i < MAX_QUADS; i++) {
+      const v = i * 4;
+      indices.set([v, v + 1, v + 2, v, v + 2, v + 3], i * 6);
+    }
+    this.indexBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+    gl.bindVertexArray(null);
+
+    gl.useProgram(this.program);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'u_texture'), 0);
+    gl.enable(gl.BLEND);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+    const white = document.createElement('canvas');
+    white.width = white.height = 1;
+    const whiteCtx = white.getContext('2d');
+    if (whiteCtx) {
+      whiteCtx.fillStyle = '#ffffff';
+      whiteCtx.fillRect(0, 0, 1, 1);
+    }
+    this.whiteTexture = this.createTexture(white);
+
+    const circle = document.createElement('canvas');
+    circle.width = circle.height = CIRCLE_TEXTURE_SIZE;
+    const circleCtx = circle.getContext('2d');
+    if (circleCtx) {
+      circleCtx.fillStyle = '#ffffff';
+      circleCtx.beginPath();
+      circleCtx.arc(CIRCLE_TEXTURE_SIZE / 2, CIRCLE_TEXTURE_SIZE / 2, CIRCLE_TEXTURE_SIZE / 2, 0, Math.PI * 2);
+      circleCtx.fill();
+    }
+    this.circleTexture = this.createTexture(circle);
+  }
+
+  private createProgram(): WebGLProgram {
+    const { gl } = this;
+    const compile = (type: number, source: string): WebGLShader => {
+      const shader = gl.createShader(type)!;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`[WebGL2Backend] 着色器编译失败：${log}`);
+      }
+      return shader;
+    };
+    const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`[WebGL2Backend] 着色器链接失败：${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  /** 上下文丢失：停止绘制（preventDefault以允许恢复） */
+  private handleContextLost = (event: Event): void => {
+    event.preventDefault();
+    this.contextLost = true;
+    this.quadCount = 0;
+  };
+
+  /** 上下文恢复：GPU资源已失效，重建着色器、缓冲区并清空纹理缓存 */
+  private handleContextRestored = (): void => {
+    this.contextLost = false;
+    this.textures = new WeakMap();
+    this.rasterCache.clear();
+    this.batchTexture = null;
+    this.initResources();
+    this.applyViewport();
+  };
+}
+
+export { WebGL2Backend };
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameLoop } from '../loop/loop';
+import { ManualScheduler } from '../loop/scheduler';
+import { Renderer } from '../render/render';
+import { RecordingBackend } from '../render/recording';
+import { Player } from '../entities/Player/player';
+import { Scene } from './scene';
+
+describe('Scene（无DOM环境）', () => {
+  let scheduler: ManualScheduler;
+  let gameLoop: GameLoop;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scheduler = new ManualScheduler();
+    gameLoop = new GameLoop({ scheduler });
+  });
+
+  afterEach(() => {
+    gameLoop.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('不传渲染器时只运行逻辑，按固定步长推进实体', () => {
+    gameLoop.setFixedTimestep(60);
+    const scene = new Scene({ id: 'server', gameLoop });
+    const player = new Player({ id: 'p1', location: [0, 0], size: [10, 10] });
+    player.update = (dt: number) => { player.location[0] += 60 * dt; };
+    scene.addEntity(player);
+    scene.activate();
+    gameLoop.start(false);
+
+    scheduler.stepFrames(30);
+
+    expect(scene.renderer).toBeUndefined();
+    expect(player.location[0]).toBeCloseTo(30, 6);
+    scene.destroy();
+  });
+
+  it('无画布模式的录制后端记录场景绘制', () => {
+    const renderer = new Renderer(null, undefined, 'recording');
+    renderer.setResizePolicy({ policy: 'fixed', width: 320, height: 240 });
+    const scene = new Scene({ id: 'client', gameLoop, renderer, background: '#000000' });
+    const player = new Player({ id: 'p1', location: [5, 6], size: [10, 10] });
+    player.update = (dt: number) => { player.location[1] += 60 * dt; };
+    scene.addEntity(player);
+    scene.activate();
+    gameLoop.start(false);
+
+    scheduler.step(1 / 60);
+
+    const backend = renderer.getBackend() as RecordingBackend;
+    expect(renderer.getResizeState()).toMatchObject({ width: 320, height: 240, pixelRatio: 1 });
+    expect(backend.getCommands('clear')[0].color).toBe('#000000');
+    const draws = backend.getCommands('drawEntity');
+    expect(draws).toHaveLength(1);
+    expect(draws[0].entity.location[0]).toBeCloseTo(5, 6);
+    expect(draws[0].entity.location[1]).toBeCloseTo(7, 6);
+    scene.destroy();
+    renderer.destroy();
+  });
+
+  it('脏矩形模式下注册了overlay阶段回调时每帧整帧重绘', () => {
+    const renderer = new Renderer(null, undefined, 'recording');
+    const scene = new Scene({ id: 'board', gameLoop, renderer, dirtyRegions: true });
+    scene.addEntity(new Player({ id: 'p1', location: [5, 6], size: [10, 10] }));
+    scene.activate();
+    gameLoop.start(false);
+    const backend = renderer.getBackend() as RecordingBackend;
+
+    // 画面无变化的帧跳过绘制
+    scheduler.stepFrames(3);
+    expect(backend.getCommands('clear')).toHaveLength(1);
+
+    // overlay每帧绘制，场景需整帧重绘，避免叠加在上一帧画面上
+    gameLoop.addRenderCallback(() => renderer.drawText('HUD', 0, 0), { phase: 'overlay' });
+    scheduler.stepFrames(3);
+    expect(backend.getCommands('clear')).toHaveLength(4);
+    scene.destroy();
+    renderer.destroy();
+  });
+
+  it('无画布模式不支持需要画布的后端', () => {
+    expect(() => new Renderer(null, undefined, 'canvas2d')).toThrow('[Renderer]');
+  });
+});
@@ -2,20 +2,40 @@ import { GameLoop } from "../loop/loop";
 import { Renderer } from "../render/render";
 import { EntityPool } from "../entities/pool/entitiesPool";
 import { Player } from "../entities/Player/player";
+import { TimerScheduler } from "../loop/timer";
+import { Viewport } from "../camera/camera";
+import type { ViewRect } from "../camera/camera";
+import { LayerManager, RenderQueue } from "../render/layers";
+import type { RenderLayer } from "../render/layers";
+import { DirtyRegionTracker } from "../render/cache";
+import { ParticleEmitter } from "../particles/particles";
+import { TileMap, TileLayer } from "../tilemap/tilemap";
+import type { TileMapObject } from "../tilemap/tilemap";
+import type { PostProcessEffect } from "../render/filters";
+import { DebugDraw } from "../render/debug";
+import type { DebugCommand } from "../render/debug";
 
 // 场景配置类型（仅依赖现有模块）
 export type SceneConfig = {
   id: string; // 场景唯一标识
   gameLoop: GameLoop; // 游戏循环实例（外部传入，避免场景内部创建）
-  renderer: Renderer; // 渲染实例（外部传入，共享画布）
+  renderer?: Renderer; // 渲染实例（外部传入，共享画布；不传时场景只运行逻辑，渲染为空操作，用于服务端逻辑帧与Node测试）
   background?: string; // 场景背景色（默认 #24E063）
+  priority?: number; // 场景回调在GameLoop阶段内的优先级（多场景共存时控制执行顺序，默认0）
+  timeScale?: number; // 场景时间缩放（叠加在GameLoop全局时间缩放之上，默认1）
+  dirtyRegions?: boolean; // 是否启用脏矩形局部重绘（仅重绘变化区域，默认false）
+  debug?: boolean; // 是否显示调试层（默认false，可通过scene.debug切换）
 };
 
+// 连续静态实体少于该数量时直接绘制（单个实体拷贝整屏缓存反而更慢）
+const MIN_STATIC_BATCH = 2;
+const IDENTITY_TRANSFORM = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
 // 场景生命周期钩子（支持自定义扩展逻辑）
 export type SceneHooks = {
   onActivate?: (scene: Scene) => void; // 场景激活时触发
   onUpdate?: (scene: Scene, deltaTime: number) => void; // 帧更新时触发（自定义场景逻辑）
-  onRender?: (scene: Scene) => void; // 渲染时触发（自定义渲染逻辑）
+  onRender?: (scene: Scene, alpha: number) => void; // 渲染时触发（自定义渲染逻辑，alpha为插值系数）
   onDestroy?: (scene: Scene) => void; // 场景销毁时触发
 };
 
@@ -31,10 +51,27 @@ export class Scene {
   public readonly id: string; // 场景实例id
   public readonly entityPool: EntityPool; // 场景专属实体池（隔离不同场景实体）
   public readonly gameLoop: GameLoop; // 游戏循环实例
-  public readonly renderer: Renderer; // 渲染实例
+  public readonly renderer?: Renderer; // 渲染实例（无渲染器时场景只运行逻辑）
   public readonly background: string; // 背景色
+  public readonly priority: number; // GameLoop回调优先级
+  public readonly timers: TimerScheduler; // 场景级定时器（受场景时间缩放影响，销毁时全部取消）
+  public readonly layers: LayerManager; // 渲染层管理（层顺序、可见性、透明度、视差）
+  public readonly debug: DebugDraw; // 调试层（包围盒、id、速度、网格与即时调试图形，在场景绘制完成后绘制）
   private readonly hooks: SceneHooks; // 场景生命周期钩子
   private isActive = false; // 场景是否激活
+  private timeScale = 1; // 场景时间缩放（叠加在全局时间缩放之上）
+  private viewports: Viewport[] = []; // 视口列表（为空时直接以画布坐标绘制）
+  private readonly renderQueue = new RenderQueue<Player | ParticleEmitter | TileLayer>(); // 按层级排序的绘制队列（仅在实体或层级变化时重排）
+  private emitters: ParticleEmitter[] = []; // 粒子发射器（与实体一同按层级排序绘制）
+  private tilemaps: TileMap[] = []; // 瓦片地图（图块层与实体一同按层级排序绘制）
+  private readonly dirtyRegions: boolean; // 是否启用脏矩形局部重绘
+  private readonly dirtyTracker = new DirtyRegionTracker(); // 脏矩形追踪
+  private lastFrameDynamic = false; // 上一帧是否因粒子/地图/视口整帧重绘（其消失后的一帧仍需整帧清除）
+  private staticCacheKeys = new Set<string>(); // 本场景持有的静态缓存键（不再使用的缓存在帧末释放）
+  private postEffects: PostProcessEffect[] = []; // 后处理效果（整帧绘制完成后按顺序应用）
+  private fadeEffect?: Extract<PostProcessEffect, { type: 'fade' }>; // 淡入淡出效果（由fadeTo维护）
+  private lastStepDelta = 0; // 上一逻辑步的时长（调试层按位移估算速度）
+  private fadeTween?: { from: number; to: number; elapsed: number; duration: number; resolve: () => void }; // 进行中的淡入淡出
   // 存储GameLoop回调的移除函数（用于销毁时清理）
   private removeUpdateCallback?: () => void;
   private removeRenderCallback?: () => void;
@@ -49,10 +86,17 @@ export class Scene {
     this.gameLoop = config.gameLoop;
     this.renderer = config.renderer;
     this.background = config.background || "#24E063";
+    this.priority = config.priority ?? 0;
+    this.setTimeScale(config.timeScale ?? 1);
+    this.dirtyRegions = config.dirtyRegions ?? false;
     this.hooks = hooks;
 
     // 初始化场景专属实体池（核心：实体托管隔离）
     this.entityPool = new EntityPool();
+    this.timers = new TimerScheduler((error) => console.error(`[Scene-${this.id}] 定时器回调错误：`, error));
+    this.layers = new LayerManager();
+    this.debug = new DebugDraw();
+    this.debug.setEnabled(config.debug ?? false);
   }
 
   /**
@@ -82,6 +126,191 @@ export class Scene {
     return this.entityPool.get(playerId);
   }
 
+  /**
+   * 添加粒子发射器（随场景逻辑步推进，按其layer/zIndex与实体一同排序绘制）
+   * @param emitter 粒子发射器
+   */
+  addEmitter(emitter: ParticleEmitter): void {
+    if (this.emitters.some(e => e.id === emitter.id)) {
+      throw new Error(`[Scene] 粒子发射器ID "${emitter.id}" 已存在`);
+    }
+    this.emitters.push(emitter);
+  }
+
+  /**
+   * 移除粒子发射器（立即清除其粒子）
+   * @param emitterId 发射器ID
+   */
+  removeEmitter(emitterId: string): void {
+    const emitter = this.emitters.find(e => e.id === emitterId);
+    if (!emitter) return;
+    emitter.clear();
+    this.emitters = this.emitters.filter(e => e !== emitter);
+  }
+
+  /**
+   * 获取粒子发射器
+   * @param emitterId 发射器ID
+   */
+  getEmitter(emitterId: string): ParticleEmitter | undefined {
+    return this.emitters.find(e => e.id === emitterId);
+  }
+
+  /**
+   * 添加瓦片地图：图块层按其layer/zIndex参与绘制（默认位于默认层实体之下），对象层对象实例化为场景实体
+   * @param tilemap 瓦片地图
+   * @param entityFactory 对象实例化工厂（默认使用TileMap内置工厂；传null则不创建实体）
+   * @returns 创建的实体
+   */
+  addTilemap(tilemap: TileMap, entityFactory?: ((object: TileMapObject) => Player | null) | null): Player[] {
+    if (this.tilemaps.includes(tilemap)) {
+      throw new Error(`[Scene] 瓦片地图已添加到场景`);
+    }
+    this.tilemaps.push(tilemap);
+    if (entityFactory === null) return [];
+    const entities = tilemap.createEntities(entityFactory);
+    entities.forEach(entity => this.addEntity(entity));
+    return entities;
+  }
+
+  /**
+   * 移除瓦片地图（不会移除由其创建的实体）
+   * @param tilemap 瓦片地图
+   */
+  removeTilemap(tilemap: TileMap): void {
+    this.tilemaps = this.tilemaps.filter(t => t !== tilemap);
+    tilemap.clearChunkCache();
+  }
+
+  /**
+   * 添加视口（分屏、小地图等，按添加顺序绘制，后添加的覆盖在上方）
+   * 添加视口后实体以世界坐标绘制，由各视口相机决定显示区域
+   * @param viewport 视口实例
+   */
+  addViewport(viewport: Viewport): void {
+    if (this.viewports.some(v => v.id === viewport.id)) {
+      throw new Error(`[Scene] 视口ID "${viewport.id}" 已存在`);
+    }
+    this.viewports.push(viewport);
+  }
+
+  /**
+   * 移除视口
+   * @param viewportId 视口ID
+   */
+  removeViewport(viewportId: string): void {
+    this.viewports = this.viewports.filter(v => v.id !== viewportId);
+  }
+
+  /**
+   * 获取视口
+   * @param viewportId 视口ID（不传则返回第一个视口，即主视口）
+   */
+  getViewport(viewportId?: string): Viewport | undefined {
+    return viewportId === undefined ? this.viewports[0] : this.viewports.find(v => v.id === viewportId);
+  }
+
+  /**
+   * 获取所有视口（返回拷贝）
+   */
+  getViewports(): Viewport[] {
+    return [...this.viewports];
+  }
+
+  /**
+   * 查找包含画布坐标的最上层视口（用于鼠标/触摸拾取）
+   * @param x 画布X坐标
+   * @param y 画布Y坐标
+   */
+  getViewportAt(x: number, y: number): Viewport | undefined {
+    for (let i = this.viewports.length - 1; i >= 0; i--) {
+      const viewport = this.viewports[i];
+      if (viewport.enabled && viewport.containsScreenPoint(x, y)) return viewport;
+    }
+    return undefined;
+  }
+
+  /**
+   * 标记需要重绘的区域（仅脏矩形模式下需要，如直接修改实体字段后外观变化未被追踪到时）
+   * @param rect 画布坐标区域（不传则下一帧整帧重绘）
+   */
+  markDirty(rect?: ViewRect): void {
+    this.dirtyTracker.markDirty(rect);
+  }
+
+  /**
+   * 添加后处理效果（按添加顺序应用于整帧画面，包括onRender绘制的内容）
+   * @param effect 后处理效果（可在添加后直接修改其参数）
+   */
+  addPostProcess(effect: PostProcessEffect): void {
+    if (this.postEffects.includes(effect)) return;
+    this.postEffects.push(effect);
+  }
+
+  /**
+   * 移除后处理效果
+   * @param effect 通过addPostProcess添加的效果
+   */
+  removePostProcess(effect: PostProcessEffect): void {
+    this.postEffects = this.postEffects.filter(item => item !== effect);
+    if (effect === this.fadeEffect) this.fadeEffect = undefined;
+  }
+
+  /**
+   * 获取所有后处理效果（返回拷贝）
+   */
+  getPostProcess(): PostProcessEffect[] {
+    return [...this.postEffects];
+  }
+
+  /**
+   * 淡入淡出到指定颜色（用于场景过渡，不受场景时间缩放影响）
+   * 从当前覆盖程度过渡到amount；过渡到0时自动移除效果，新的调用会直接结束上一次过渡
+   * @param color 覆盖颜色（CSS格式）
+   * @param duration 过渡时长（秒，0为立即生效）
+   * @param amount 目标覆盖程度（0-1，默认1即完全覆盖）
+   * @returns 过渡完成时兑现的Promise
+   */
+  fadeTo(color: string, duration: number, amount: number = 1): Promise<void> {
+    if (typeof color !== 'string') {
+      throw new Error(`[Scene] 淡入淡出颜色必须是字符串`);
+    }
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      throw new Error(`[Scene] 淡入淡出时长必须是非负有限数`);
+    }
+    if (typeof amount !== 'number' || amount < 0 || amount > 1) {
+      throw new Error(`[Scene] 淡入淡出覆盖程度必须在0-1之间`);
+    }
+    this.finishFade();
+    if (!this.fadeEffect) {
+      this.fadeEffect = { type: 'fade', color, amount: 0 };
+      this.postEffects.push(this.fadeEffect);
+    }
+    this.fadeEffect.color = color;
+    return new Promise<void>(resolve => {
+      this.fadeTween = { from: this.fadeEffect!.amount, to: amount, elapsed: 0, duration, resolve };
+      if (duration === 0) this.finishFade();
+    });
+  }
+
+  /**
+   * 设置场景时间缩放（与GameLoop全局时间缩放相乘，如子弹时间只作用于当前场景）
+   * @param scale 缩放系数（>=0）
+   */
+  setTimeScale(scale: number): void {
+    if (typeof scale !== 'number' || !Number.isFinite(scale) || scale < 0) {
+      throw new Error(`[Scene] 时间缩放必须是非负有限数`);
+    }
+    this.timeScale = scale;
+  }
+
+  /**
+   * 获取场景时间缩放
+   */
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
   /**
    * 激活场景（核心：绑定GameLoop的更新/渲染回调）
    * 激活后场景才会参与游戏循环
@@ -92,15 +321,15 @@ export class Scene {
       return;
     }
 
-    // 1. 注册帧更新回调（联动GameLoop，遍历实体更新）
+    // 1. 注册逻辑步回调（联动GameLoop，遍历实体更新；固定步长模式下按固定步长执行，保证渲染插值与确定性）
     this.removeUpdateCallback = this.gameLoop.addUpdateCallback((deltaTime) => {
       this.update(deltaTime);
-    });
+    }, { phase: 'fixedUpdate', priority: this.priority, name: `scene:${this.id}:update` });
 
     // 2. 注册渲染回调（联动GameLoop+Renderer，遍历实体渲染）
-    this.removeRenderCallback = this.gameLoop.addRenderCallback(() => {
-      this.render();
-    });
+    this.removeRenderCallback = this.gameLoop.addRenderCallback((alpha) => {
+      this.render(alpha);
+    }, { phase: 'render', priority: this.priority, name: `scene:${this.id}:render` });
 
     // 3. 标记激活状态，触发钩子
     this.isActive = true;
@@ -122,13 +351,27 @@ export class Scene {
     this.removeUpdateCallback?.();
     this.removeRenderCallback?.();
 
-    // 2. 清空场景专属实体池（销毁所有托管实体）
+    // 2. 取消场景定时器与协程（保证销毁后不再触发）
+    this.timers.clear();
+    this.emitters.forEach(emitter => emitter.clear());
+    this.emitters = [];
+    this.tilemaps.forEach(tilemap => tilemap.clearChunkCache());
+    this.tilemaps = [];
+    this.staticCacheKeys.forEach(key => this.renderer?.releaseStaticCache(key));
+    this.staticCacheKeys.clear();
+    this.dirtyTracker.reset();
+    this.finishFade();
+    this.postEffects = [];
+    this.fadeEffect = undefined;
+    this.debug.clear();
+
+    // 3. 清空场景专属实体池（销毁所有托管实体）
     this.entityPool.destroy((player) => {
       console.log(`[Scene-${this.id}] 实体${player.id}已销毁`);
       // 若Player有destroy方法，可在此调用：player.destroy?.()
     });
 
-    // 3. 标记未激活状态，触发钩子
+    // 4. 标记未激活状态，触发钩子
     this.isActive = false;
     this.hooks.onDestroy?.(this);
     console.log(`[Scene-${this.id}] 已销毁`);
@@ -137,40 +380,240 @@ export class Scene {
   /**
    * 场景帧更新（内部方法，由GameLoop回调触发）
    * 核心逻辑：遍历实体调用update方法 + 执行自定义场景更新逻辑
-   * @param deltaTime 帧间隔时间（秒）
+   * @param frameDelta 帧间隔时间（秒，已应用全局时间缩放）
    */
-  private update(deltaTime: number): void {
+  private update(frameDelta: number): void {
     if (!this.isActive) return;
 
+    // 叠加场景时间缩放
+    const deltaTime = frameDelta * this.timeScale;
+    this.lastStepDelta = deltaTime;
+    this.debug.beginStep();
+
+    // 推进场景定时器
+    this.timers.update(deltaTime);
+
+    // 记录相机本步更新前的状态，供渲染插值使用（与实体一致）
+    this.viewports.forEach(viewport => viewport.camera.storePreviousState());
+
     // 1. 遍历场景内所有实体，调用实体自身的update方法（核心调度）
     this.entityPool.forEach((player) => {
+      // 记录本步更新前的状态，供渲染插值使用
+      player.previousLocation = [player.location[0], player.location[1]];
+      player.previousRotation = player.rotation;
+
       // 确保Player有update方法（现有Player需扩展update接口）
       if (typeof player.update === "function") {
         player.update(deltaTime);
       }
+
+      // 推进帧动画（写入实体的imageSrc/frame）
+      player.animator?.update(deltaTime);
     });
 
-    // 2. 执行自定义场景更新逻辑（如关卡倒计时、场景事件）
+    // 2. 推进动画图块与粒子发射器（autoRemove的发射器在发射结束且粒子消亡后移除）
+    this.tilemaps.forEach(tilemap => tilemap.update(deltaTime));
+    this.emitters.forEach(emitter => emitter.update(deltaTime));
+    if (this.emitters.some(emitter => emitter.autoRemove && !emitter.isAlive())) {
+      this.emitters = this.emitters.filter(emitter => !emitter.autoRemove || emitter.isAlive());
+    }
+
+    // 3. 执行自定义场景更新逻辑（如关卡倒计时、场景事件）
     this.hooks.onUpdate?.(this, deltaTime);
+
+    // 4. 推进视口相机（在实体移动之后，保证跟随目标位置为本步最新值）
+    this.viewports.forEach(viewport => viewport.update(deltaTime));
+
+    // 5. 推进淡入淡出（场景过渡不受场景时间缩放影响）
+    this.updateFade(frameDelta);
+    this.debug.endStep();
+  }
+
+  /**
+   * 推进淡入淡出过渡（内部方法）
+   * @param delta 帧间隔时间（秒）
+   */
+  private updateFade(delta: number): void {
+    const tween = this.fadeTween;
+    if (!tween || !this.fadeEffect) return;
+    tween.elapsed += delta;
+    if (tween.elapsed >= tween.duration) {
+      this.finishFade();
+      return;
+    }
+    const t = tween.elapsed / tween.duration;
+    this.fadeEffect.amount = tween.from + (tween.to - tween.from) * t;
+  }
+
+  /**
+   * 立即结束进行中的淡入淡出（内部方法）
+   * 覆盖程度设为目标值，目标为0时移除效果，并兑现fadeTo返回的Promise
+   */
+  private finishFade(): void {
+    const tween = this.fadeTween;
+    if (!tween) return;
+    this.fadeTween = undefined;
+    if (this.fadeEffect) {
+      this.fadeEffect.amount = tween.to;
+      if (tween.to === 0) this.removePostProcess(this.fadeEffect);
+    }
+    tween.resolve();
   }
 
   /**
    * 场景渲染（内部方法，由GameLoop回调触发）
-   * 核心逻辑：清屏 + 遍历实体渲染 + 执行自定义渲染逻辑
+   * 核心逻辑：清屏 + 遍历实体渲染 + 执行自定义渲染逻辑（首尾通知渲染后端帧开始/结束，批处理后端在帧结束时提交）
+   * 未配置渲染器时为空操作
+   * @param alpha 插值系数（固定步长模式下在上一步与当前步之间插值）
    */
-  private render(): void {
-    if (!this.isActive) return;
+  private render(alpha: number = 1): void {
+    const { renderer } = this;
+    if (!this.isActive || !renderer) return;
+
+    // 脏矩形模式：仅重绘变化区域，无变化时跳过本帧绘制
+    const region = this.dirtyRegions ? this.computeDirtyRegion(renderer) : undefined;
+    if (region === null) return;
+    renderer.beginFrame();
+    if (region) renderer.beginClip(region);
+    const usedStaticKeys = new Set<string>();
 
     // 1. 清屏（使用场景背景色）
-    this.renderer.clear(this.background);
+    renderer.clear(this.background);
 
-    // 2. 遍历场景内所有实体，调用Renderer绘制
-    this.entityPool.forEach((player) => {
-      this.renderer.drawEntity(player);
+    // 2. 遍历场景内所有实体，调用Renderer绘制（有视口时逐视口以世界坐标绘制）
+    if (this.viewports.length === 0) {
+      this.drawEntities(renderer, alpha, usedStaticKeys);
+    } else {
+      this.viewports.forEach(viewport => {
+        if (!viewport.enabled) return;
+        renderer.beginViewport(viewport, [1, 1], alpha);
+        this.drawEntities(renderer, alpha, usedStaticKeys, viewport);
+        renderer.endViewport();
+      });
+    }
+
+    // 3. 执行自定义渲染逻辑（如场景UI、文字提示，画布坐标）
+    this.hooks.onRender?.(this, alpha);
+
+    // 4. 后处理（暗角、调色、淡入淡出，作用于整帧画面）
+    if (this.postEffects.length > 0) renderer.applyPostProcess(this.postEffects);
+
+    // 5. 调试层（不受后处理影响）
+    if (this.debug.isEnabled()) this.drawDebug(renderer, alpha);
+    if (region) renderer.endClip();
+    renderer.endFrame();
+
+    // 6. 释放本帧未使用的静态缓存（静态实体被移除或改为动态）
+    this.staticCacheKeys.forEach(key => {
+      if (!usedStaticKeys.has(key)) renderer.releaseStaticCache(key);
     });
+    this.staticCacheKeys = usedStaticKeys;
+  }
 
-    // 3. 执行自定义渲染逻辑（如场景UI、文字提示，现有无UI模块暂留接口）
-    this.hooks.onRender?.(this);
+  /**
+   * 计算本帧脏矩形（内部方法）
+   * 视口（相机移动）、存活的粒子、瓦片地图、后处理效果与调试层无法按实体追踪，存在时整帧重绘；
+   * onRender钩子与GameLoop的overlay阶段回调每帧都会绘制（跳过场景绘制时会叠加在上一帧画面上），存在时同样整帧重绘
+   * @returns 需重绘的区域，无变化时返回null
+   */
+  private computeDirtyRegion(renderer: Renderer): ViewRect | null {
+    const { width, height, pixelWidth, pixelHeight } = renderer.getResizeState();
+    const dynamic = this.viewports.length > 0 || this.tilemaps.length > 0 || this.postEffects.length > 0 || this.debug.isEnabled() ||
+      this.hooks.onRender !== undefined || this.gameLoop.hasCallbacks('overlay') ||
+      this.emitters.some(emitter => emitter.isAlive());
+    if (dynamic || this.lastFrameDynamic) this.dirtyTracker.markDirty();
+    this.lastFrameDynamic = dynamic;
+    // 画布尺寸或设备像素比变化时画布已被清空，需整帧重绘
+    const stateKey = JSON.stringify([pixelWidth, pixelHeight, this.background, this.layers.getLayers()]);
+    // 无视口时实体直接以逻辑坐标绘制，脏矩形同样使用逻辑坐标
+    return this.dirtyTracker.update(
+      this.entityPool.getAll(),
+      IDENTITY_TRANSFORM,
+      width,
+      height,
+      stateKey,
+      src => renderer.assets.getStatus(src)
+    );
+  }
+
+  /**
+   * 绘制调试层（内部方法）
+   * 世界网格、实体调试图形与世界坐标的即时图形逐视口绘制（不应用层视差），画布坐标的即时图形最后绘制一次
+   * @param renderer 渲染器
+   * @param alpha 插值系数
+   */
+  private drawDebug(renderer: Renderer, alpha: number): void {
+    const commands = this.debug.takeCommands();
+    const world: DebugCommand[] = [
+      ...this.debug.collectEntities(this.entityPool.getAll(), alpha, this.lastStepDelta),
+      ...commands.filter(command => command.space === 'world'),
+    ];
+    if (this.viewports.length === 0) {
+      const { width, height } = renderer.getSize();
+      renderer.drawDebugOverlay([...this.debug.collectGrid({ minX: 0, minY: 0, maxX: width, maxY: height }), ...world]);
+    } else {
+      this.viewports.forEach(viewport => {
+        if (!viewport.enabled) return;
+        renderer.drawDebugOverlay([...this.debug.collectGrid(viewport.getVisibleBounds(alpha)), ...world], viewport, alpha);
+      });
+    }
+    renderer.drawDebugOverlay(commands.filter(command => command.space === 'screen'));
+  }
+
+  /**
+   * 按层级顺序绘制场景内所有实体（内部方法）
+   * 顺序：层顺序 → zIndex → 添加顺序；隐藏的层整体跳过
+   * 静态层或isStatic的连续实体合并为一组，烘焙到离屏缓存后整体绘制
+   * @param renderer 渲染器
+   * @param alpha 插值系数
+   * @param usedStaticKeys 收集本帧使用的静态缓存键
+   * @param viewport 当前视口（用于按层视差应用相机）
+   */
+  private drawEntities(renderer: Renderer, alpha: number, usedStaticKeys: Set<string>, viewport?: Viewport): void {
+    const items: Array<Player | ParticleEmitter | TileLayer> = this.tilemaps.flatMap(tilemap => tilemap.getTileLayers());
+    items.push(...this.entityPool.getAll(), ...this.emitters);
+    const batches = this.renderQueue.update(items, this.layers);
+    batches.forEach(({ layer, entities }) => {
+      if (!layer.visible || layer.opacity <= 0) return;
+      renderer.beginLayer(layer, viewport);
+      let staticRun: Player[] = [];
+      let runIndex = 0;
+      const flushStaticRun = () => {
+        if (staticRun.length >= MIN_STATIC_BATCH) {
+          const key = `${this.id}:${viewport?.id ?? ''}:${layer.name}:${runIndex++}`;
+          renderer.drawStaticEntities(key, staticRun);
+          usedStaticKeys.add(key);
+        } else {
+          staticRun.forEach(player => renderer.drawEntity(player, false, alpha));
+        }
+        staticRun = [];
+      };
+      entities.forEach(item => {
+        if (item instanceof Player && this.isStaticEntity(item, layer)) {
+          staticRun.push(item);
+          return;
+        }
+        flushStaticRun();
+        if (item instanceof ParticleEmitter) {
+          renderer.drawParticles(item, alpha);
+        } else if (item instanceof TileLayer) {
+          renderer.drawTileLayer(item);
+        } else {
+          renderer.drawEntity(item, false, alpha);
+        }
+      });
+      flushStaticRun();
+      renderer.endLayer();
+    });
+  }
+
+  /**
+   * 实体是否按静态实体绘制（自身isStatic或位于静态层）
+   * 设置了混合模式的实体需与下方内容实时合成，始终逐帧绘制
+   */
+  private isStaticEntity(player: Player, layer: RenderLayer): boolean {
+    if (player.blendMode) return false;
+    return layer.static || player.isStatic === true;
   }
 }
 
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TileMap, drawTile } from './tilemap';
+import type { TiledMap, TiledTileset, TileDrawTarget } from './tilemap';
+
+const FLIP_H = 0x80000000;
+const FLIP_V = 0x40000000;
+const FLIP_D = 0x20000000;
+
+/** 8列的图块集图片（16x16图块，带边距与间距），第3个图块有属性，第5个图块为动画 */
+const terrain: TiledTileset = {
+  firstgid: 1,
+  name: 'terrain',
+  image: 'tiles/terrain.png',
+  tilewidth: 16,
+  tileheight: 16,
+  tilecount: 32,
+  columns: 8,
+  margin: 1,
+  spacing: 2,
+  tiles: [
+    { id: 2, type: 'wall', properties: [{ name: 'solid', type: 'bool', value: true }, { name: 'friction', type: 'float', value: 0.4 }] },
+    { id: 4, animation: [{ tileid: 4, duration: 100 }, { tileid: 5, duration: 200 }] },
+  ],
+};
+
+/** 图片集合图块集（每个图块单独一张图片） */
+const props: TiledTileset = {
+  firstgid: 33,
+  name: 'props',
+  tilewidth: 32,
+  tileheight: 48,
+  tilecount: 2,
+  columns: 0,
+  tiles: [{ id: 0, image: 'props/tree.png', imagewidth: 32, imageheight: 48 }, { id: 1, image: 'props/rock.png' }],
+};
+
+/** 以base64编码图块GID（小端32位无符号整数，Tiled未压缩格式） */
+function base64(gids: number[]): string {
+  return Buffer.from(new Uint32Array(gids).buffer).toString('base64');
+}
+
+/** 4x3的地图：CSV地面层、base64装饰层、对象层 */
+function createMap(overrides: Partial<TiledMap> = {}): TiledMap {
+  return {
+    width: 4,
+    height: 3,
+    tilewidth: 16,
+    tileheight: 16,
+    orientation: 'orthogonal',
+    tilesets: [terrain, props],
+    layers: [
+      { name: 'ground', type: 'tilelayer', width: 4, height: 3, data: [1, 2, 3, 0, 5, 0, 0, 0, 0, 0, 0, 3 | FLIP_H] },
+      {
+        name: 'group',
+        type: 'group',
+        opacity: 0.5,
+        layers: [{
+          name: 'decor',
+          type: 'tilelayer',
+          encoding: 'base64',
+          opacity: 0.5,
+          data: base64([0, 33, 0, 0, 2 | FLIP_V | FLIP_D, 0, 0, 0, 0, 0, 0, 34]),
+          properties: [{ name: 'layer', value: 'background' }],
+        }],
+      },
+      {
+        name: 'spawns',
+        type: 'objectgroup',
+        objects: [
+          { id: 1, name: 'chest', type: 'loot', gid: 33, x: 32, y: 48, width: 32, height: 48, properties: [{ name: 'gold', value: 50 }] },
+          { id: 2, name: 'zone', class: 'trigger', x: 0, y: 0, width: 64, height: 16, rotation: 90 },
+          { id: 3, name: 'pond', x: 10, y: 10, width: 20, height: 10, ellipse: true },
+          { id: 4, name: 'fence', x: 5, y: 5, polyline: [{ x: 0, y: 0 }, { x: 30, y: 0 }], visible: false },
+          { id: 5, name: 'start', x: 8, y: 8, point: true },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('TileMap Tiled导入', () => {
+  it('解析CSV与base64图层数据，图层组的可见性与透明度传递给子图层', () => {
+    const map = TileMap.fromTiled(createMap());
+    const [ground, decor] = map.getTileLayers();
+    expect(map.getPixelSize()).toEqual({ width: 64, height: 48 });
+    expect([ground.getTile(0, 0), ground.getTile(1, 0), ground.getTile(0, 1)]).toEqual([1, 2, 5]);
+    expect([decor.getTile(1, 0), decor.getTile(3, 2)]).toEqual([33, 34]);
+    expect(decor.opacity).toBeCloseTo(0.25);
+    expect(decor.layer).toBe('background');
+    // 图块层按Tiled顺序递增zIndex
+    expect([ground.zIndex, decor.zIndex]).toEqual([-1000, -999]);
+    // 越界读取返回空图块
+    expect(ground.getTile(10, 10)).toBe(0);
+    expect([...map.getImages()].sort()).toEqual(['props/rock.png', 'props/tree.png', 'tiles/terrain.png']);
+  });
+
+  it('去除GID翻转标志，绘制时按标志翻转', () => {
+    const map = TileMap.fromTiled(createMap());
+    const ground = map.getTileLayer('ground')!;
+    expect(ground.getTile(3, 2)).toBe(3);
+    expect(map.getTileLayer('decor')!.getTile(0, 1)).toBe(2);
+
+    const calls: string[] = [];
+    const ctx: TileDrawTarget = {
+      save: () => calls.push('save'),
+      restore: () => calls.push('restore'),
+      translate: (x, y) => calls.push(`translate ${x},${y}`),
+      rotate: angle => calls.push(`rotate ${angle.toFixed(2)}`),
+      scale: (x, y) => calls.push(`scale ${x},${y}`),
+      drawImage: (_image, sx, sy, sw, sh, dx, dy) => calls.push(`draw ${sx},${sy},${sw},${sh} -> ${dx},${dy}`),
+    };
+    const image = {} as HTMLCanvasElement;
+    const frame = map.getDrawInfo(3)!.frame;
+    expect(frame).toEqual({ x: 37, y: 1, w: 16, h: 16 });
+
+    drawTile(ctx, image, frame, 3, 0, 0, 16);
+    expect(calls).toEqual(['draw 37,1,16,16 -> 0,0']);
+    calls.length = 0;
+    drawTile(ctx, image, frame, 3 | FLIP_H, 16, 0, 16);
+    expect(calls).toEqual(['save', 'translate 24,8', 'scale -1,1', 'draw 37,1,16,16 -> -8,-8', 'restore']);
+    calls.length = 0;
+    drawTile(ctx, image, frame, 3 | FLIP_V | FLIP_D, 0, 0, 16);
+    expect(calls).toEqual(['save', 'translate 8,8', 'rotate 1.57', 'scale 1,-1', 'scale 1,-1', 'draw 37,1,16,16 -> -8,-8', 'restore']);
+
+    // 高于网格的图块底部对齐
+    calls.length = 0;
+    drawTile(ctx, image, map.getDrawInfo(33)!.frame, 33, 16, 0, 16);
+    expect(calls).toEqual(['draw 0,0,32,48 -> 16,-32']);
+  });
+
+  it('读取图块属性与类型，可按像素位置查询', () => {
+    const map = TileMap.fromTiled(createMap());
+    expect(map.getTileProperties(3)).toEqual({ solid: true, friction: 0.4, type: 'wall' });
+    expect(map.getTileProperties(3 | FLIP_H)).toEqual({ solid: true, friction: 0.4, type: 'wall' });
+    expect(map.getTileProperties(1)).toEqual({});
+    expect(map.getTilePropertiesAt('ground', 40, 8)).toMatchObject({ solid: true });
+    expect(map.getTilePropertiesAt('ground', 56, 8)).toEqual({});
+    expect(map.getTilePropertiesAt('missing', 0, 0)).toEqual({});
+    expect(map.getDrawInfo(34)).toEqual({ image: 'props/rock.png', frame: { x: 0, y: 0, w: 32, h: 48 } });
+  });
+
+  it('动画图块按动画时钟切换帧', () => {
+    const map = TileMap.fromTiled(createMap());
+    expect(map.isAnimated(5)).toBe(true);
+    expect(map.isAnimated(3)).toBe(false);
+    const frameX = () => map.getDrawInfo(5)!.frame.x;
+    expect(frameX()).toBe(1 + 4 * 18);
+    map.update(0.1);
+    expect(frameX()).toBe(1 + 5 * 18);
+    map.update(0.15);
+    expect(frameX()).toBe(1 + 5 * 18);
+    // 一轮300毫秒后回到第一帧
+    map.update(0.05);
+    expect(frameX()).toBe(1 + 4 * 18);
+  });
+
+  it('拒绝不支持的地图与缺少的外部图块集', () => {
+    expect(() => TileMap.fromTiled(createMap({ orientation: 'isometric' }))).toThrow('[TileMap] 暂不支持isometric');
+    expect(() => TileMap.fromTiled(createMap({ infinite: true }))).toThrow('无限地图');
+    expect(() => TileMap.fromTiled(createMap({ layers: [{ name: 'z', type: 'tilelayer', data: 'eJw=', compression: 'zlib' }] }))).toThrow('zlib');
+    expect(() => TileMap.fromTiled(createMap({ tilesets: [{ ...terrain, source: 'terrain.tsj' }] }))).toThrow('terrain.tsj');
+    const external: Omit<TiledTileset, 'firstgid'> = { ...terrain };
+    const map = TileMap.fromTiled(createMap({ tilesets: [{ firstgid: 1, source: 'terrain.tsj' } as TiledTileset] }), {
+      externalTilesets: { 'terrain.tsj': external },
+      resolveImage: image => `assets/${image}`,
+    });
+    expect(map.getImages()).toEqual(['assets/tiles/terrain.png']);
+  });
+});
+
+describe('TileLayer 区块', () => {
+  beforeEach(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ width: 0, height: 0, getContext: () => ({ drawImage: vi.fn() }) }),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('只选择与可视区域相交的区块（考虑图层偏移并限制在地图范围内）', () => {
+    const map = TileMap.fromTiled({
+      width: 40, height: 20, tilewidth: 16, tileheight: 16, tilesets: [terrain],
+      layers: [{ name: 'big', type: 'tilelayer', offsetx: 100 }],
+    });
+    const layer = map.getTileLayer('big')!;
+    // 区块边长16图块 = 256像素
+    expect(layer.getVisibleChunks({ minX: 300, minY: -50, maxX: 700, maxY: 100 })).toEqual([[0, 0], [1, 0], [2, 0]]);
+    expect(layer.getVisibleChunks({ minX: 400, minY: 260, maxX: 5000, maxY: 5000 })).toEqual([[1, 1], [2, 1]]);
+    expect(layer.getVisibleChunks({ minX: -500, minY: -500, maxX: -400, maxY: -400 })).toEqual([]);
+  });
+
+  it('区块缓存静态图块，动画图块单独记录，图片未就绪或修改图块时重建', () => {
+    const map = TileMap.fromTiled(createMap(), { chunkSize: 2 });
+    const ground = map.getTileLayer('ground')!;
+    let ready = false;
+    const getImage = () => (ready ? ({} as HTMLCanvasElement) : undefined);
+
+    const chunk = ground.getChunk(0, 0, getImage);
+    expect(chunk.dirty).toBe(true);
+    expect(chunk.animated).toEqual([{ col: 0, row: 1, gid: 5 }]);
+    ready = true;
+    expect(ground.getChunk(0, 0, getImage)).toMatchObject({ dirty: false, version: 2 });
+    expect(ground.getChunk(0, 0, getImage).version).toBe(2);
+
+    ground.setTile(1, 1, 3);
+    expect(ground.getTile(1, 1)).toBe(3);
+    expect(ground.getChunk(0, 0, getImage).version).toBe(1);
+    expect(() => ground.setTile(4, 0, 1)).toThrow('[TileLayer]');
+  });
+});
+
+describe('TileMap 对象层', () => {
+  it('解析对象形状、类型与属性，图块对象换算为左上角', () => {
+    const map = TileMap.fromTiled(createMap());
+    const objects = map.getObjects('spawns');
+    expect(objects.map(object => object.shape)).toEqual(['tile', 'rect', 'ellipse', 'polyline', 'point']);
+    expect(objects[0]).toMatchObject({ name: 'chest', type: 'loot', x: 32, y: 0, gid: 33, properties: { gold: 50 } });
+    expect(objects[1]).toMatchObject({ type: 'trigger', rotation: Math.PI / 2 });
+    expect(objects[3]).toMatchObject({ visible: false, points: [[0, 0], [30, 0]] });
+    expect(map.getObjects('missing')).toEqual([]);
+  });
+
+  it('createEntities默认跳过点对象，图块对象使用图块图片，自定义工厂可替换', () => {
+    const map = TileMap.fromTiled(createMap());
+    const entities = map.createEntities();
+    expect(entities.map(entity => entity.id)).toEqual(['spawns:1', 'spawns:2', 'spawns:3', 'spawns:4']);
+    const [chest, zone, pond, fence] = entities;
+    expect(chest).toMatchObject({ name: 'chest', location: [32, 0], size: [32, 48], imageSrc: 'props/tree.png', gold: 50, type: 'loot', layerName: 'spawns' });
+    expect(zone).toMatchObject({ size: [64, 16], rotation: Math.PI / 2 });
+    expect(pond).toMatchObject({ shape: 'ellipse' });
+    expect(fence).toMatchObject({ shape: 'polyline', opacity: 0 });
+
+    const custom = map.createEntities(object => (object.type === 'loot' ? map.createEntities()[0] : null));
+    expect(custom.map(entity => entity.id)).toEqual(['spawns:1']);
+  });
+});
@@ -0,0 +1,684 @@
+/**
+ * 瓦片地图模块
+ * 导入Tiled导出的JSON地图（正交视角）：图块层、对象层、图块属性与动画图块。
+ * 图块层按区块（chunk）缓存到离屏Canvas，渲染时只绘制可见区块；动画图块不进入缓存，每帧单独绘制。
+ * 对象层中的对象可实例化为场景实体（Player）。
+ */
+import { Player } from "../entities/Player/player";
+import type { SpriteFrame } from "../render/render";
+import type { DrawableImage } from "../assets/assets";
+
+/** Tiled自定义属性 */
+type TiledProperty = { name: string; type?: string; value: unknown };
+
+/** Tiled图块定义（图块集中带属性/动画/独立图片的图块） */
+type TiledTile = {
+  id: number; // 图块在图块集中的本地ID
+  properties?: TiledProperty[];
+  animation?: Array<{ tileid: number; duration: number }>; // 动画帧（duration为毫秒）
+  image?: string; // 图片集合图块集：单个图块的图片
+  imagewidth?: number;
+  imageheight?: number;
+  type?: string; // 图块类型（Tiled 1.9前）
+  class?: string; // 图块类型（Tiled 1.9+）
+};
+
+/** Tiled图块集 */
+type TiledTileset = {
+  firstgid: number;
+  source?: string; // 外部图块集路径（需通过externalTilesets提供内容）
+  name?: string;
+  image?: string; // 图块集图片（图片集合图块集无此字段）
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth: number;
+  tileheight: number;
+  tilecount: number;
+  columns: number;
+  margin?: number;
+  spacing?: number;
+  tiles?: TiledTile[];
+  properties?: TiledProperty[];
+};
+
+/** Tiled对象 */
+type TiledObject = {
+  id: number;
+  name?: string;
+  type?: string; // 对象类型（Tiled 1.9前）
+  class?: string; // 对象类型（Tiled 1.9+）
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number; // 角度（度）
+  gid?: number; // 图块对象
+  visible?: boolean;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: Array<{ x: number; y: number }>;
+  polyline?: Array<{ x: number; y: number }>;
+  properties?: TiledProperty[];
+};
+
+/** Tiled图层 */
+type TiledLayer = {
+  id?: number;
+  name: string;
+  type: 'tilelayer' | 'objectgroup' | 'group' | 'imagelayer';
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  properties?: TiledProperty[];
+  width?: number; // 图块层列数
+  height?: number; // 图块层行数
+  data?: number[] | string; // 图块GID（数组或未压缩base64）
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  objects?: TiledObject[]; // 对象层对象
+  layers?: TiledLayer[]; // 图层组子图层
+};
+
+/** Tiled地图 */
+type TiledMap = {
+  width: number; // 列数
+  height: number; // 行数
+  tilewidth: number;
+  tileheight: number;
+  orientation?: string;
+  infinite?: boolean;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+};
+
+/** 导入配置 */
+type TileMapOptions = {
+  chunkSize?: number; // 区块边长（图块数，默认16）
+  resolveImage?: (image: string) => string; // 将Tiled中的图片路径转为资源键或路径（默认原样返回）
+  externalTilesets?: Record<string, Omit<TiledTileset, 'firstgid'>>; // 外部图块集内容（键为source）
+  zIndexBase?: number; // 图块层默认zIndex起点（默认-1000，即绘制在默认层实体之下，按Tiled顺序递增）
+};
+
+/** 对象层对象（解析后） */
+type TileMapObject = {
+  id: number;
+  name: string;
+  type: string; // 对象类型（type或class）
+  layer: string; // 所属对象层名称
+  x: number; // 左上角X（图块对象已由左下角换算为左上角）
+  y: number; // 左上角Y
+  width: number;
+  height: number;
+  rotation: number; // 弧度
+  gid?: number; // 图块对象的GID（已去除翻转标志）
+  visible: boolean;
+  shape: 'rect' | 'point' | 'ellipse' | 'polygon' | 'polyline' | 'tile';
+  points?: Array<[x: number, y: number]>; // 多边形/折线顶点（相对对象原点）
+  properties: Record<string, unknown>;
+};
+
+/** 可视区域（图层局部坐标） */
+type TileBounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+/** 图块绘制信息 */
+type TileDrawInfo = { image: string; frame: SpriteFrame };
+
+/** 区块缓存 */
+type TileChunk = {
+  canvas?: HTMLCanvasElement; // 静态图块缓存（未就绪时为空）
+  dirty: boolean; // 是否需要重绘
+  version: number; // 重建次数（渲染后端据此判断区块纹理是否需要重新上传）
+  animated: Array<{ col: number; row: number; gid: number }>; // 区块内的动画图块
+};
+
+/** GID翻转标志位 */
+const FLIP_H = 0x80000000;
+const FLIP_V = 0x40000000;
+const FLIP_D = 0x20000000;
+const GID_MASK = ~(FLIP_H | FLIP_V | FLIP_D) >>> 0;
+
+/** 将Tiled属性数组转为对象 */
+function toProperties(properties?: TiledProperty[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  properties?.forEach(p => { result[p.name] = p.value; });
+  return result;
+}
+
+/**
+ * 图块集（内部使用，负责GID -> 图片子区域、属性与动画的映射）
+ */
+class Tileset {
+  public readonly firstgid: number;
+  public readonly name: string;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  private readonly data: TiledTileset;
+  private readonly image?: string;
+  private tiles = new Map<number, TiledTile>(); // 本地ID -> 图块定义
+  private tileProps = new Map<number, Record<string, unknown>>(); // 本地ID -> 属性
+  private readonly resolveImage: (image: string) => string;
+
+  constructor(data: TiledTileset, resolveImage: (image: string) => string) {
+    this.data = data;
+    this.firstgid = data.firstgid;
+    this.name = data.name ?? '';
+    this.tileWidth = data.tilewidth;
+    this.tileHeight = data.tileheight;
+    this.resolveImage = resolveImage;
+    this.image = data.image ? resolveImage(data.image) : undefined;
+    data.tiles?.forEach(tile => {
+      this.tiles.set(tile.id, tile);
+      this.tileProps.set(tile.id, { ...toProperties(tile.properties), ...(tile.class ?? tile.type ? { type: tile.class ?? tile.type } : {}) });
+    });
+  }
+
+  /** GID是否属于本图块集 */
+  contains(gid: number): boolean {
+    return gid >= this.firstgid && gid < this.firstgid + this.data.tilecount;
+  }
+
+  /** 图块集涉及的所有图片（用于预加载与就绪检查） */
+  getImages(): string[] {
+    if (this.image) return [this.image];
+    const images: string[] = [];
+    this.tiles.forEach(tile => { if (tile.image) images.push(this.resolveImage(tile.image)); });
+    return images;
+  }
+
+  /** 获取本地图块的绘制信息 */
+  getDrawInfo(localId: number): TileDrawInfo | undefined {
+    const tile = this.tiles.get(localId);
+    if (tile?.image) {
+      return {
+        image: this.resolveImage(tile.image),
+        frame: { x: 0, y: 0, w: tile.imagewidth ?? this.tileWidth, h: tile.imageheight ?? this.tileHeight },
+      };
+    }
+    if (!this.image) return undefined;
+    const margin = this.data.margin ?? 0;
+    const spacing = this.data.spacing ?? 0;
+    const columns = Math.max(1, this.data.columns);
+    return {
+      image: this.image,
+      frame: {
+        x: margin + (localId % columns) * (this.tileWidth + spacing),
+        y: margin + Math.floor(localId / columns) * (this.tileHeight + spacing),
+        w: this.tileWidth,
+        h: this.tileHeight,
+      },
+    };
+  }
+
+  /** 获取本地图块属性 */
+  getProperties(localId: number): Record<string, unknown> {
+    return this.tileProps.get(localId) ?? {};
+  }
+
+  /** 获取本地图块动画（无动画返回undefined） */
+  getAnimation(localId: number): Array<{ tileid: number; duration: number }> | undefined {
+    const animation = this.tiles.get(localId)?.animation;
+    return animation && animation.length > 0 ? animation : undefined;
+  }
+}
+
+/**
+ * 图块层：作为渲染项与实体一同参与分层排序（layer/zIndex），由Renderer.drawTileLayer绘制
+ */
+class TileLayer {
+  public readonly name: string;
+  public readonly map: TileMap; // 所属地图
+  public readonly columns: number; // 列数
+  public readonly rows: number; // 行数
+  public readonly properties: Record<string, unknown>; // 图层自定义属性
+  public visible: boolean; // 是否可见
+  public opacity: number; // 图层透明度
+  public offset: [x: number, y: number]; // 图层偏移（像素）
+  public layer?: string; // 所属场景渲染层（可通过Tiled图层属性"layer"指定）
+  public zIndex?: number; // 层内绘制顺序（可通过Tiled图层属性"zIndex"指定）
+  private readonly data: Uint32Array; // 图块GID（含翻转标志）
+  private chunks = new Map<string, TileChunk>(); // 区块缓存（键为"列,行"）
+
+  constructor(map: TileMap, data: TiledLayer, gids: Uint32Array, zIndex: number) {
+    this.map = map;
+    this.name = data.name;
+    this.columns = data.width ?? map.columns;
+    this.rows = data.height ?? map.rows;
+    this.data = gids;
+    this.visible = data.visible ?? true;
+    this.opacity = data.opacity ?? 1;
+    this.offset = [data.offsetx ?? 0, data.offsety ?? 0];
+    this.properties = toProperties(data.properties);
+    this.layer = typeof this.properties.layer === 'string' ? this.properties.layer : undefined;
+    this.zIndex = typeof this.properties.zIndex === 'number' ? this.properties.zIndex : zIndex;
+  }
+
+  /**
+   * 获取图块GID（已去除翻转标志，0表示空）
+   * @param col 列
+   * @param row 行
+   */
+  getTile(col: number, row: number): number {
+    return (this.#getRaw(col, row) & GID_MASK) >>> 0;
+  }
+
+  /**
+   * 修改图块（使所在区块缓存失效）
+   * @param col 列
+   * @param row 行
+   * @param gid 图块GID（0表示清空）
+   */
+  setTile(col: number, row: number, gid: number): void {
+    if (col < 0 || row < 0 || col >= this.columns || row >= this.rows) {
+      throw new Error(`[TileLayer] 图块坐标(${col}, ${row})超出图层范围`);
+    }
+    this.data[row * this.columns + col] = gid >>> 0;
+    const size = this.map.chunkSize;
+    this.chunks.delete(`${Math.floor(col / size)},${Math.floor(row / size)}`);
+  }
+
+  /**
+   * 获取与可视区域相交的区块坐标
+   * @param bounds 可视区域（地图像素坐标）
+   */
+  getVisibleChunks(bounds: TileBounds): Array<[col: number, row: number]> {
+    const { tileWidth, tileHeight, chunkSize } = this.map;
+    const chunkW = tileWidth * chunkSize;
+    const chunkH = tileHeight * chunkSize;
+    const maxCol = Math.ceil(this.columns / chunkSize) - 1;
+    const maxRow = Math.ceil(this.rows / chunkSize) - 1;
+    const c0 = Math.max(0, Math.floor((bounds.minX - this.offset[0]) / chunkW));
+    const r0 = Math.max(0, Math.floor((bounds.minY - this.offset[1]) / chunkH));
+    const c1 = Math.min(maxCol, Math.floor((bounds.maxX - this.offset[0]) / chunkW));
+    const r1 = Math.min(maxRow, Math.floor((bounds.maxY - this.offset[1]) / chunkH));
+    const result: Array<[number, number]> = [];
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) result.push([c, r]);
+    }
+    return result;
+  }
+
+  /**
+   * 获取区块（按需构建缓存）
+   * @param chunkCol 区块列
+   * @param chunkRow 区块行
+   * @param getImage 同步获取图片（图片未就绪时返回undefined，此时不缓存，下帧重试）
+   */
+  getChunk(chunkCol: number, chunkRow: number, getImage: (src: string) => DrawableImage | undefined): TileChunk {
+    const key = `${chunkCol},${chunkRow}`;
+    let chunk = this.chunks.get(key);
+    if (chunk && !chunk.dirty) return chunk;
+
+    const { tileWidth, tileHeight, chunkSize } = this.map;
+    chunk = chunk ?? { dirty: true, version: 0, animated: [] };
+    chunk.animated = [];
+    chunk.version++;
+    const canvas = chunk.canvas ?? document.createElement('canvas');
+    canvas.width = tileWidth * chunkSize;
+    canvas.height = tileHeight * chunkSize;
+    const ctx = canvas.getContext('2d');
+    let ready = true;
+
+    for (let r = 0; r < chunkSize; r++) {
+      for (let c = 0; c < chunkSize; c++) {
+        const col = chunkCol * chunkSize + c;
+        const row = chunkRow * chunkSize + r;
+        if (col >= this.columns || row >= this.rows) continue;
+        const raw = this.#getRaw(col, row);
+        const gid = (raw & GID_MASK) >>> 0;
+        if (gid === 0) continue;
+        if (this.map.isAnimated(gid)) {
+          chunk.animated.push({ col, row, gid: raw });
+          continue;
+        }
+        const info = this.map.getDrawInfo(gid);
+        if (!info) continue;
+        const image = getImage(info.image);
+        if (!image) {
+          ready = false;
+          continue;
+        }
+        if (ctx) drawTile(ctx, image, info.frame, raw, c * tileWidth, r * tileHeight, tileHeight);
+      }
+    }
+
+    chunk.canvas = canvas;
+    chunk.dirty = !ready;
+    this.chunks.set(key, chunk);
+    return chunk;
+  }
+
+  /** 清空区块缓存（释放离屏Canvas，下次绘制时重建） */
+  clearChunkCache(): void {
+    this.chunks.clear();
+  }
+
+  #getRaw(col: number, row: number): number {
+    if (col < 0 || row < 0 || col >= this.columns || row >= this.rows) return 0;
+    return this.data[row * this.columns + col];
+  }
+}
+
+/** 图块绘制目标（Canvas 2D上下文或渲染后端） */
+type TileDrawTarget = Pick<CanvasRenderingContext2D, 'save' | 'restore' | 'translate' | 'rotate' | 'scale'> & {
+  drawImage(
+    image: DrawableImage,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void;
+};
+
+/**
+ * 绘制单个图块（处理水平/垂直/对角翻转）
+ * @param raw 含翻转标志的GID
+ * @param tileHeight 网格单元高度（用于底部对齐）
+ */
+function drawTile(
+  ctx: TileDrawTarget,
+  image: DrawableImage,
+  frame: SpriteFrame,
+  raw: number,
+  x: number,
+  y: number,
+  tileHeight: number
+): void {
+  const flipH = (raw & FLIP_H) !== 0;
+  const flipV = (raw & FLIP_V) !== 0;
+  const flipD = (raw & FLIP_D) !== 0;
+  // 图块图片高于网格时底部对齐（Tiled的默认行为）
+  const dy = y + tileHeight - frame.h;
+  if (!flipH && !flipV && !flipD) {
+    ctx.drawImage(image, frame.x, frame.y, frame.w, frame.h, x, dy, frame.w, frame.h);
+    return;
+  }
+  ctx.save();
+  ctx.translate(x + frame.w / 2, dy + frame.h / 2);
+  if (flipD) {
+    ctx.rotate(Math.PI / 2);
+    ctx.scale(1, -1);
+  }
+  ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1);
+  ctx.drawImage(image, frame.x, frame.y, frame.w, frame.h, -frame.w / 2, -frame.h / 2, frame.w, frame.h);
+  ctx.restore();
+}
+
+class TileMap {
+  public readonly columns: number; // 地图列数
+  public readonly rows: number; // 地图行数
+  public readonly tileWidth: number; // 图块宽度
+  public readonly tileHeight: number; // 图块高度
+  public readonly chunkSize: number; // 区块边长（图块数）
+  public readonly properties: Record<string, unknown>; // 地图自定义属性
+  private tilesets: Tileset[] = [];
+  private tileLayers: TileLayer[] = [];
+  private objects: TileMapObject[] = [];
+  private animationTime: number = 0; // 动画时钟（毫秒）
+
+  private constructor(data: TiledMap, options: TileMapOptions) {
+    this.columns = data.width;
+    this.rows = data.height;
+    this.tileWidth = data.tilewidth;
+    this.tileHeight = data.tileheight;
+    this.chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 16));
+    this.properties = toProperties(data.properties);
+  }
+
+  /**
+   * 从Tiled导出的JSON创建地图
+   * @param data 已解析的JSON对象
+   * @param options 区块大小、图片路径解析、外部图块集
+   * @throws {Error} 非正交地图、无限地图、压缩图层或缺少外部图块集时抛出错误
+   */
+  static fromTiled(data: TiledMap, options: TileMapOptions = {}): TileMap {
+    if (!data || !Array.isArray(data.layers) || !Array.isArray(data.tilesets)) {
+      throw new Error('[TileMap] Tiled JSON缺少layers或tilesets字段');
+    }
+    if (data.orientation && data.orientation !== 'orthogonal') {
+      throw new Error(`[TileMap] 暂不支持${data.orientation}视角地图，仅支持orthogonal`);
+    }
+    if (data.infinite) {
+      throw new Error('[TileMap] 暂不支持无限地图，请在Tiled中关闭"Infinite"后导出');
+    }
+    const map = new TileMap(data, options);
+    const resolveImage = options.resolveImage ?? ((image: string) => image);
+
+    map.tilesets = data.tilesets.map(tileset => {
+      if (tileset.source) {
+        const external = options.externalTilesets?.[tileset.source];
+        if (!external) {
+          throw new Error(`[TileMap] 缺少外部图块集"${tileset.source}"，请通过externalTilesets提供`);
+        }
+        return new Tileset({ ...external, firstgid: tileset.firstgid }, resolveImage);
+      }
+      return new Tileset(tileset, resolveImage);
+    }).sort((a, b) => b.firstgid - a.firstgid); // 倒序，便于查找GID所属图块集
+
+    let zIndex = options.zIndexBase ?? -1000;
+    const visit = (layers: TiledLayer[], parentVisible: boolean, parentOpacity: number): void => {
+      layers.forEach(layer => {
+        const visible = parentVisible && (layer.visible ?? true);
+        const opacity = parentOpacity * (layer.opacity ?? 1);
+        if (layer.type === 'group') {
+          visit(layer.layers ?? [], visible, opacity);
+        } else if (layer.type === 'tilelayer') {
+          const tileLayer = new TileLayer(map, { ...layer, visible, opacity }, map.#decodeData(layer), zIndex++);
+          map.tileLayers.push(tileLayer);
+        } else if (layer.type === 'objectgroup') {
+          layer.objects?.forEach(object => map.objects.push(map.#parseObject(object, layer.name, visible)));
+        }
+      });
+    };
+    visit(data.layers, true, 1);
+    return map;
+  }
+
+  /** 获取所有图块层 */
+  getTileLayers(): TileLayer[] {
+    return this.tileLayers.slice();
+  }
+
+  /** 按名称获取图块层 */
+  getTileLayer(name: string): TileLayer | undefined {
+    return this.tileLayers.find(layer => layer.name === name);
+  }
+
+  /**
+   * 获取对象层对象
+   * @param layerName 对象层名称（不传返回全部）
+   */
+  getObjects(layerName?: string): TileMapObject[] {
+    return layerName === undefined ? this.objects.slice() : this.objects.filter(o => o.layer === layerName);
+  }
+
+  /** 地图涉及的所有图片（资源键或路径，可直接用于AssetManager.preload） */
+  getImages(): string[] {
+    return Array.from(new Set(this.tilesets.flatMap(tileset => tileset.getImages())));
+  }
+
+  /** 地图像素尺寸 */
+  getPixelSize(): { width: number; height: number } {
+    return { width: this.columns * this.tileWidth, height: this.rows * this.tileHeight };
+  }
+
+  /**
+   * 获取图块属性（包含图块类型type）
+   * @param gid 图块GID
+   */
+  getTileProperties(gid: number): Record<string, unknown> {
+    const id = (gid & GID_MASK) >>> 0;
+    const tileset = this.#findTileset(id);
+    return tileset ? tileset.getProperties(id - tileset.firstgid) : {};
+  }
+
+  /**
+   * 获取指定像素位置的图块属性（如碰撞、地形类型）
+   * @param layerName 图块层名称
+   * @param x 地图像素X
+   * @param y 地图像素Y
+   */
+  getTilePropertiesAt(layerName: string, x: number, y: number): Record<string, unknown> {
+    const layer = this.getTileLayer(layerName);
+    if (!layer) return {};
+    const [col, row] = this.worldToTile(x - layer.offset[0], y - layer.offset[1]);
+    const gid = layer.getTile(col, row);
+    return gid === 0 ? {} : this.getTileProperties(gid);
+  }
+
+  /**
+   * 像素坐标 -> 图块坐标
+   */
+  worldToTile(x: number, y: number): [col: number, row: number] {
+    return [Math.floor(x / this.tileWidth), Math.floor(y / this.tileHeight)];
+  }
+
+  /**
+   * 图块坐标 -> 像素坐标（图块左上角）
+   */
+  tileToWorld(col: number, row: number): [x: number, y: number] {
+    return [col * this.tileWidth, row * this.tileHeight];
+  }
+
+  /**
+   * 推进动画图块（由Scene在逻辑步中调用）
+   * @param deltaTime 时间差（秒，已缩放）
+   */
+  update(deltaTime: number): void {
+    if (deltaTime > 0) this.animationTime += deltaTime * 1000;
+  }
+
+  /** 图块是否为动画图块 */
+  isAnimated(gid: number): boolean {
+    const id = (gid & GID_MASK) >>> 0;
+    const tileset = this.#findTileset(id);
+    return !!tileset?.getAnimation(id - tileset.firstgid);
+  }
+
+  /**
+   * 获取图块当前的绘制信息（动画图块返回当前帧）
+   * @param gid 图块GID
+   */
+  getDrawInfo(gid: number): TileDrawInfo | undefined {
+    const id = (gid & GID_MASK) >>> 0;
+    const tileset = this.#findTileset(id);
+    if (!tileset) return undefined;
+    let localId = id - tileset.firstgid;
+    const animation = tileset.getAnimation(localId);
+    if (animation) {
+      const total = animation.reduce((sum, frame) => sum + frame.duration, 0);
+      let t = total > 0 ? this.animationTime % total : 0;
+      for (const frame of animation) {
+        if (t < frame.duration) {
+          localId = frame.tileid;
+          break;
+        }
+        t -= frame.duration;
+      }
+    }
+    return tileset.getDrawInfo(localId);
+  }
+
+  /**
+   * 将对象层对象实例化为实体
+   * 默认工厂：以"图层名:对象ID"为ID、对象名称为name，位置/尺寸/旋转取自对象，
+   * 图块对象使用对应图块作为imageSrc/frame，自定义属性与type/layerName作为扩展属性附加
+   * @param factory 自定义工厂（返回null表示跳过该对象）
+   */
+  createEntities(factory?: (object: TileMapObject) => Player | null): Player[] {
+    const entities: Player[] = [];
+    this.objects.forEach(object => {
+      const entity = factory ? factory(object) : this.#defaultEntity(object);
+      if (entity) entities.push(entity);
+    });
+    return entities;
+  }
+
+  /** 释放所有图块层的区块缓存 */
+  clearChunkCache(): void {
+    this.tileLayers.forEach(layer => layer.clearChunkCache());
+  }
+
+  #findTileset(gid: number): Tileset | undefined {
+    if (gid === 0) return undefined;
+    return this.tilesets.find(tileset => tileset.firstgid <= gid && tileset.contains(gid));
+  }
+
+  #decodeData(layer: TiledLayer): Uint32Array {
+    const count = (layer.width ?? this.columns) * (layer.height ?? this.rows);
+    if (layer.compression) {
+      throw new Error(`[TileMap] 图层"${layer.name}"使用了${layer.compression}压缩，请在Tiled中改为CSV或未压缩的Base64格式`);
+    }
+    if (typeof layer.data === 'string') {
+      const binary = atob(layer.data.trim());
+      const result = new Uint32Array(count);
+      for (let i = 0; i < count; i++) {
+        const o = i * 4;
+        result[i] = (binary.charCodeAt(o) | (binary.charCodeAt(o + 1) << 8) |
+          (binary.charCodeAt(o + 2) << 16) | (binary.charCodeAt(o + 3) << 24)) >>> 0;
+      }
+      return result;
+    }
+    return Uint32Array.from(layer.data ?? new Array(count).fill(0));
+  }
+
+  #parseObject(object: TiledObject, layer: string, layerVisible: boolean): TileMapObject {
+    const gid = object.gid !== undefined ? (object.gid & GID_MASK) >>> 0 : undefined;
+    const width = object.width ?? 0;
+    const height = object.height ?? 0;
+    let shape: TileMapObject['shape'] = 'rect';
+    if (gid !== undefined) shape = 'tile';
+    else if (object.point) shape = 'point';
+    else if (object.ellipse) shape = 'ellipse';
+    else if (object.polygon) shape = 'polygon';
+    else if (object.polyline) shape = 'polyline';
+    const points = (object.polygon ?? object.polyline)?.map(p => [p.x, p.y] as [number, number]);
+    return {
+      id: object.id,
+      name: object.name ?? '',
+      type: object.class ?? object.type ?? '',
+      layer,
+      x: object.x,
+      // Tiled中图块对象以左下角为原点
+      y: gid !== undefined ? object.y - height : object.y,
+      width,
+      height,
+      rotation: ((object.rotation ?? 0) * Math.PI) / 180,
+      gid,
+      visible: layerVisible && (object.visible ?? true),
+      shape,
+      points,
+      properties: toProperties(object.properties),
+    };
+  }
+
+  #defaultEntity(object: TileMapObject): Player | null {
+    if (object.shape === 'point') return null;
+    const params: Record<string, unknown> = {
+      ...object.properties,
+      id: `${object.layer}:${object.id}`,
+      name: object.name,
+      location: [object.x, object.y],
+      size: [Math.max(1, object.width), Math.max(1, object.height)],
+      rotation: object.rotation,
+      type: object.type,
+      layerName: object.layer,
+    };
+    if (object.gid !== undefined) {
+      const info = this.getDrawInfo(object.gid);
+      if (info) {
+        params.imageSrc = info.image;
+        params.frame = info.frame;
+      }
+    } else if (object.shape === 'ellipse') {
+      params.shape = 'ellipse';
+    } else if (object.points) {
+      params.shape = object.shape;
+      params.points = object.points;
+    }
+    if (!object.visible) params.opacity = 0;
+    return new Player(params);
+  }
+}
+
+export { TileMap, TileLayer, drawTile };
+export type { TiledMap, TiledLayer, TiledTileset, TiledObject, TileMapOptions, TileMapObject, TileBounds, TileDrawTarget };
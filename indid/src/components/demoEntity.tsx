@@ -5,11 +5,16 @@
  */
 import { useEffect, useRef } from 'react';
 import { Input } from "../../engine/core/io/io";
+import { ActionMap, describeBinding } from "../../engine/core/io/actions";
 import { GameLoop } from "../../engine/core/loop/loop";
 import { Renderer } from "../../engine/core/render/render";
+import { bindCaptureHotkeys } from "../../engine/core/render/capture";
 import { Scene } from '../../engine/core/scene/scene'; // 仅导入Scene
 import { Player } from '../../engine/core/entities/Player/player';
 
+// 玩家自定义按键的本地存储键
+const BINDINGS_STORAGE_KEY = 'demo:bindings';
+
 const Demo = (props: { client: any }) => {
   // 核心实例容器（仅保留必要模块，轻量管理）
   const gameLoopRef = useRef<GameLoop | null>(null);
@@ -42,6 +47,45 @@ const Demo = (props: { client: any }) => {
       return;
     }
 
+    // 鼠标/触摸坐标按画布逻辑尺寸换算（HiDPI屏幕下Canvas像素尺寸大于逻辑尺寸）
+    input.bindRenderer(renderer);
+    // 手柄在GameLoop的input阶段逐帧轮询
+    input.bindGameLoop(gameLoop);
+
+    // 动作映射：按物理按键绑定（不受大小写与键盘布局影响），同时支持手柄方向键与左摇杆；
+    // 玩家自定义的按键（F4改键）以actions.toJSON()写入localStorage
+    const actions = new ActionMap(input, {
+      actions: {
+        moveUp: [{ type: 'key', code: 'ArrowUp' }, { type: 'key', code: 'KeyW' }, { type: 'gamepad', button: 'DPadUp' }, { type: 'gamepadAxis', axis: 1, direction: -1 }],
+        moveDown: [{ type: 'key', code: 'ArrowDown' }, { type: 'key', code: 'KeyS' }, { type: 'gamepad', button: 'DPadDown' }, { type: 'gamepadAxis', axis: 1, direction: 1 }],
+        moveLeft: [{ type: 'key', code: 'ArrowLeft' }, { type: 'key', code: 'KeyA' }, { type: 'gamepad', button: 'DPadLeft' }, { type: 'gamepadAxis', axis: 0, direction: -1 }],
+        moveRight: [{ type: 'key', code: 'ArrowRight' }, { type: 'key', code: 'KeyD' }, { type: 'gamepad', button: 'DPadRight' }, { type: 'gamepadAxis', axis: 0, direction: 1 }],
+      },
+      axes: {
+        moveX: { negative: 'moveLeft', positive: 'moveRight' },
+        moveY: { negative: 'moveUp', positive: 'moveDown' },
+      },
+    });
+    const savedBindings = localStorage.getItem(BINDINGS_STORAGE_KEY);
+    if (savedBindings) {
+      try {
+        actions.loadJSON(savedBindings);
+      } catch (error) {
+        console.warn("[Demo] 按键配置无效，使用默认按键：", error);
+      }
+    }
+
+    // F2截图、F3开始/停止录像：Electron环境下经IPC保存到用户选择的目录，浏览器环境下直接下载
+    const unbindCapture = bindCaptureHotkeys(input, renderer, {
+      save: window.electronAPI?.saveCapture
+        ? async (blob, fileName) => {
+          const result = await window.electronAPI.saveCapture(fileName, await blob.arrayBuffer());
+          if (result.error) throw new Error(result.error);
+          if (result.path) console.log(`[Demo] 已保存：${result.path}`);
+        }
+        : undefined,
+    });
+
     // ========== 3. 创建并初始化Scene实例（核心步骤） ==========
     const gameScene = new Scene(
       {
@@ -72,11 +116,9 @@ const Demo = (props: { client: any }) => {
               const [playerW, playerH] = this.getSize();
               let [currentX, currentY] = this.getLocation();
 
-              // 方向键控制逻辑（通过Input模块获取按键状态）
-              if (input.isKeyPressed('ArrowUp')) currentY -= this.speed * deltaTime;
-              if (input.isKeyPressed('ArrowDown')) currentY += this.speed * deltaTime;
-              if (input.isKeyPressed('ArrowLeft')) currentX -= this.speed * deltaTime;
-              if (input.isKeyPressed('ArrowRight')) currentX += this.speed * deltaTime;
+              // 移动控制逻辑（通过动作映射读取移动轴，方向键与WASD均可）
+              currentX += actions.getAxis('moveX') * this.speed * deltaTime;
+              currentY += actions.getAxis('moveY') * this.speed * deltaTime;
 
               // 边界限制：不超出画布范围
               currentX = Math.max(0, Math.min(canvasSize.width - playerW, currentX));
@@ -89,7 +131,7 @@ const Demo = (props: { client: any }) => {
 
           // 场景托管Player（内部实体池自动管理）
           scene.addEntity(player);
-          console.log(`[Demo] 玩家${playerId}已添加到场景，可通过方向键控制`);
+          console.log(`[Demo] 玩家${playerId}已添加到场景，可通过方向键或WASD控制`);
         },
 
         // 帧更新后：同步玩家状态到服务端（场景级逻辑分离）
@@ -111,6 +153,29 @@ const Demo = (props: { client: any }) => {
     // 存储场景实例，用于后续清理
     sceneRef.current = gameScene;
 
+    // F1切换调试层（包围盒、id、速度向量与网格）
+    input.onKeyPress('F1', () => gameScene.debug.toggle());
+
+    // F4改键：将"向上移动"的主按键换成玩家按下的下一个输入（Esc取消），冲突时与原动作交换并保存
+    const rebindAbort = new AbortController();
+    let rebinding = false;
+    input.onKeyPress('F4', async () => {
+      if (rebinding) return;
+      rebinding = true;
+      console.log('[Demo] 请按下"向上移动"的新按键（Esc取消）');
+      const binding = await actions.captureNextBinding({ signal: rebindAbort.signal });
+      rebinding = false;
+      if (!binding) return;
+      try {
+        actions.rebind('moveUp', 0, binding, 'swap');
+      } catch (error) {
+        console.warn('[Demo] 改键失败：', error);
+        return;
+      }
+      localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(actions.toJSON()));
+      console.log(`[Demo] "向上移动"已绑定到${describeBinding(binding)}`);
+    });
+
     // ========== 4. 激活场景 + 启动游戏循环（简化流程） ==========
     gameScene.activate(); // 激活场景：自动绑定Loop的update/render回调
     gameLoop.start(); // 启动循环，触发帧更新和渲染
@@ -119,8 +184,14 @@ const Demo = (props: { client: any }) => {
     return () => {
       // 停止游戏循环
       gameLoop.stop();
+      // 取消进行中的改键（移除捕获阶段的按键监听）
+      rebindAbort.abort();
       // 销毁场景：自动解绑Loop回调、清空实体池、释放资源
       sceneRef.current?.destroy();
+      // 移除截图快捷键（录像进行中时停止并保存）、输入与画布缩放监听
+      unbindCapture();
+      input.destroy();
+      renderer.destroy();
       // 重置引用，避免内存泄漏
       playerIdRef.current = null;
       inputRef.current = null;
@@ -140,7 +211,7 @@ const Demo = (props: { client: any }) => {
         height="600"
         style={{ border: '1px solid #000', display: 'block', margin: '20px auto' }}
       />
-      <p style={{ textAlign: 'center', marginTop: 10 }}>使用方向键控制矩形移动</p>
+      <p style={{ textAlign: 'center', marginTop: 10 }}>使用方向键或WASD控制矩形移动，F1调试层，F2截图，F3开始/停止录像，F4改绑向上移动</p>
     </>
   );
 };
@@ -11,6 +11,8 @@ declare global {
       toggleServer: (enable: boolean) => void;
       onServerStatus: (callback: (status: { running: boolean; error?: string }) => void) => void;
       onServerInfo: (callback: (status: { playerList: Map<any, any>; port: string; error?: string }) => void) => void;
+      chooseCaptureFolder: () => Promise<string | null>;
+      saveCapture: (fileName: string, data: ArrayBuffer) => Promise<{ path?: string; canceled?: boolean; error?: string }>;
     };
   }
 }
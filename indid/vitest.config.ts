@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// 引擎与主进程逻辑单元测试（Node环境运行，不加载Electron插件）
+export default defineConfig({
+  test: {
+    include: ['engine/**/*.test.ts', 'electron/**/*.test.ts'],
+    environment: 'node',
+  },
+})